@@ -0,0 +1,5 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "startsAt" timestamp with time zone;--> statement-breakpoint
+UPDATE "pdx-diy_event" SET "startsAt" = "createdAt" WHERE "startsAt" IS NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ALTER COLUMN "startsAt" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "endsAt" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "event_starts_at_idx" ON "pdx-diy_event" USING btree ("startsAt");
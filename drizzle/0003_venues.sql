@@ -0,0 +1,18 @@
+CREATE TABLE "pdx-diy_venue" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"streetAddress" varchar(255) NOT NULL,
+	"neighborhood" varchar(255),
+	"latitude" double precision,
+	"longitude" double precision,
+	"notes" text,
+	"createdById" varchar(255),
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "venueId" varchar(255);--> statement-breakpoint
+ALTER TABLE "pdx-diy_venue" ADD CONSTRAINT "pdx-diy_venue_createdById_pdx-diy_user_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "venue_name_idx" ON "pdx-diy_venue" USING btree ("name");--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD CONSTRAINT "pdx-diy_event_venueId_pdx-diy_venue_id_fk" FOREIGN KEY ("venueId") REFERENCES "public"."pdx-diy_venue"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_venue_id_idx" ON "pdx-diy_event" USING btree ("venueId");
\ No newline at end of file
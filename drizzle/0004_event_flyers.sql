@@ -0,0 +1,13 @@
+CREATE TABLE "pdx-diy_flyer" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"uploadedById" varchar(255) NOT NULL,
+	"width" integer NOT NULL,
+	"height" integer NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "flyerId" varchar(255);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "flyerAlt" varchar(500);--> statement-breakpoint
+ALTER TABLE "pdx-diy_flyer" ADD CONSTRAINT "pdx-diy_flyer_uploadedById_pdx-diy_user_id_fk" FOREIGN KEY ("uploadedById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "flyer_uploaded_by_idx" ON "pdx-diy_flyer" USING btree ("uploadedById");--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD CONSTRAINT "pdx-diy_event_flyerId_pdx-diy_flyer_id_fk" FOREIGN KEY ("flyerId") REFERENCES "public"."pdx-diy_flyer"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "description" jsonb;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "descriptionText" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "status" varchar(32) DEFAULT 'scheduled' NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "statusNote" varchar(500);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "deletedAt" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "event_status_idx" ON "pdx-diy_event" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "event_starts_at_idx";--> statement-breakpoint
+CREATE INDEX "event_starts_at_id_idx" ON "pdx-diy_event" USING btree ("startsAt","id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "event_search_idx" ON "pdx-diy_event" USING gin ((setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("descriptionText", '')), 'B')));--> statement-breakpoint
+CREATE INDEX "event_title_trgm_idx" ON "pdx-diy_event" USING gin ("title" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "isFree" boolean;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "isAllAges" boolean;--> statement-breakpoint
+ALTER TABLE "pdx-diy_venue" ADD COLUMN "quadrant" varchar(2);--> statement-breakpoint
+CREATE INDEX "event_tags_idx" ON "pdx-diy_event" USING gin ("tags");--> statement-breakpoint
+CREATE INDEX "venue_quadrant_idx" ON "pdx-diy_venue" USING btree ("quadrant");
\ No newline at end of file
@@ -0,0 +1,57 @@
+CREATE TABLE "pdx-diy_event_tag" (
+	"eventId" varchar(255) NOT NULL,
+	"tagId" varchar(255) NOT NULL,
+	CONSTRAINT "pdx-diy_event_tag_eventId_tagId_pk" PRIMARY KEY("eventId","tagId")
+);
+--> statement-breakpoint
+CREATE TABLE "pdx-diy_tag" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"slug" varchar(64) NOT NULL,
+	"name" varchar(64) NOT NULL,
+	"isCurated" boolean DEFAULT false NOT NULL,
+	"createdById" varchar(255),
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "event_tags_idx";--> statement-breakpoint
+ALTER TABLE "pdx-diy_event_tag" ADD CONSTRAINT "pdx-diy_event_tag_eventId_pdx-diy_event_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."pdx-diy_event"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event_tag" ADD CONSTRAINT "pdx-diy_event_tag_tagId_pdx-diy_tag_id_fk" FOREIGN KEY ("tagId") REFERENCES "public"."pdx-diy_tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_tag" ADD CONSTRAINT "pdx-diy_tag_createdById_pdx-diy_user_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_tag_tag_id_idx" ON "pdx-diy_event_tag" USING btree ("tagId");--> statement-breakpoint
+CREATE UNIQUE INDEX "tag_slug_idx" ON "pdx-diy_tag" USING btree ("slug");--> statement-breakpoint
+CREATE INDEX "tag_curated_idx" ON "pdx-diy_tag" USING btree ("isCurated");--> statement-breakpoint
+-- Starter curated taxonomy. IDs are UUIDv7, as the app generates them: a random v4 UUID with its
+-- first 48 bits replaced by the Unix time in milliseconds and its version changed from 4 to 7
+INSERT INTO "pdx-diy_tag" ("id", "slug", "name", "isCurated")
+SELECT encode(set_bit(set_bit(overlay(uuid_send(gen_random_uuid()) PLACING substring(int8send(floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint) FROM 3) FROM 1 FOR 6), 52, 1), 53, 1), 'hex')::uuid::text, "slug", "name", true
+FROM (VALUES
+	('punk', 'Punk'),
+	('hardcore', 'Hardcore'),
+	('noise', 'Noise'),
+	('folk', 'Folk'),
+	('hip-hop', 'Hip-Hop'),
+	('experimental', 'Experimental'),
+	('dance-party', 'Dance Party'),
+	('open-mic', 'Open Mic'),
+	('craft-night', 'Craft Night'),
+	('zine-swap', 'Zine Swap'),
+	('zine-fest', 'Zine Fest'),
+	('workshop', 'Workshop'),
+	('art-show', 'Art Show'),
+	('film', 'Film'),
+	('poetry', 'Poetry'),
+	('benefit', 'Benefit')
+) AS "curated"("slug", "name")
+ON CONFLICT ("slug") DO NOTHING;--> statement-breakpoint
+-- Move tags from the old array column into the join table; unknown ones become suggestions
+INSERT INTO "pdx-diy_tag" ("id", "slug", "name")
+SELECT encode(set_bit(set_bit(overlay(uuid_send(gen_random_uuid()) PLACING substring(int8send(floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint) FROM 3) FROM 1 FOR 6), 52, 1), 53, 1), 'hex')::uuid::text, "slug", "slug"
+FROM (SELECT DISTINCT unnest("tags") AS "slug" FROM "pdx-diy_event") AS "old_tags"
+ON CONFLICT ("slug") DO NOTHING;--> statement-breakpoint
+INSERT INTO "pdx-diy_event_tag" ("eventId", "tagId")
+SELECT "pdx-diy_event"."id", "pdx-diy_tag"."id"
+FROM "pdx-diy_event"
+CROSS JOIN LATERAL unnest("pdx-diy_event"."tags") AS "old_tag"("slug")
+JOIN "pdx-diy_tag" ON "pdx-diy_tag"."slug" = "old_tag"."slug"
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" DROP COLUMN "tags";
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "pdx-diy_event_occurrence" (
+	"eventId" varchar(255) NOT NULL,
+	"occurrenceStart" timestamp with time zone NOT NULL,
+	"title" varchar(255),
+	"startsAt" timestamp with time zone,
+	"endsAt" timestamp with time zone,
+	"status" varchar(32) DEFAULT 'scheduled' NOT NULL,
+	"statusNote" varchar(500),
+	"updatedAt" timestamp with time zone,
+	CONSTRAINT "pdx-diy_event_occurrence_eventId_occurrenceStart_pk" PRIMARY KEY("eventId","occurrenceStart")
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "recurrenceRule" varchar(255);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "recurrenceExceptions" date[] DEFAULT '{}'::date[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "recurrenceEndsAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event_occurrence" ADD CONSTRAINT "pdx-diy_event_occurrence_eventId_pdx-diy_event_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."pdx-diy_event"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_recurring_idx" ON "pdx-diy_event" USING btree ("startsAt","recurrenceEndsAt") WHERE "pdx-diy_event"."recurrenceRule" is not null;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "pdx-diy_rsvp" (
+	"userId" varchar(255) NOT NULL,
+	"eventId" varchar(255) NOT NULL,
+	"status" varchar(16) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone,
+	CONSTRAINT "pdx-diy_rsvp_userId_eventId_pk" PRIMARY KEY("userId","eventId")
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_rsvp" ADD CONSTRAINT "pdx-diy_rsvp_userId_pdx-diy_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."pdx-diy_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_rsvp" ADD CONSTRAINT "pdx-diy_rsvp_eventId_pdx-diy_event_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."pdx-diy_event"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rsvp_event_status_idx" ON "pdx-diy_rsvp" USING btree ("eventId","status");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "capacity" integer;--> statement-breakpoint
+ALTER TABLE "pdx-diy_rsvp" ADD COLUMN "waitlistedAt" timestamp with time zone;
\ No newline at end of file
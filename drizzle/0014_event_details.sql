@@ -0,0 +1,11 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "priceKind" varchar(16);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "priceMinCents" integer;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "priceMaxCents" integer;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "ticketUrl" varchar(2048);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "agePolicy" varchar(16);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "accessibility" varchar(32)[] DEFAULT '{}'::varchar[] NOT NULL;--> statement-breakpoint
+-- Carry over the old yes/no flags. A "no" doesn't say what the price or age limit is, so those stay unspecified
+UPDATE "pdx-diy_event" SET "priceKind" = 'free' WHERE "isFree";--> statement-breakpoint
+UPDATE "pdx-diy_event" SET "agePolicy" = 'all_ages' WHERE "isAllAges";--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" DROP COLUMN "isFree";--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" DROP COLUMN "isAllAges";
@@ -0,0 +1,12 @@
+CREATE TABLE "pdx-diy_address_request" (
+	"eventId" varchar(255) NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"status" varchar(16) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"decidedAt" timestamp with time zone,
+	CONSTRAINT "pdx-diy_address_request_eventId_userId_pk" PRIMARY KEY("eventId","userId")
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_venue" ADD COLUMN "isPrivate" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_address_request" ADD CONSTRAINT "pdx-diy_address_request_eventId_pdx-diy_event_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."pdx-diy_event"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_address_request" ADD CONSTRAINT "pdx-diy_address_request_userId_pdx-diy_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."pdx-diy_user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
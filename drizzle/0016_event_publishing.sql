@@ -0,0 +1,5 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "isDraft" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "publishAt" timestamp with time zone;--> statement-breakpoint
+-- Existing events went public when they were posted
+UPDATE "pdx-diy_event" SET "publishAt" = "createdAt";--> statement-breakpoint
+CREATE INDEX "event_created_by_draft_idx" ON "pdx-diy_event" USING btree ("createdById","isDraft");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "pdx-diy_user" ADD COLUMN "role" varchar(16) DEFAULT 'organizer' NOT NULL;
\ No newline at end of file
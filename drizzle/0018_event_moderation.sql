@@ -0,0 +1,9 @@
+ALTER TABLE "pdx-diy_event" ADD COLUMN "moderationStatus" varchar(16) DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+-- Events posted before moderation stay up
+UPDATE "pdx-diy_event" SET "moderationStatus" = 'approved';--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "moderationReason" varchar(500);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "moderatedById" varchar(255);--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "moderatedAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "pdx-diy_user" ADD COLUMN "isTrusted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD CONSTRAINT "pdx-diy_event_moderatedById_pdx-diy_user_id_fk" FOREIGN KEY ("moderatedById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_moderation_pending_idx" ON "pdx-diy_event" USING btree ("createdAt") WHERE "pdx-diy_event"."moderationStatus" = 'pending';
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "pdx-diy_report" (
+	"eventId" varchar(255) NOT NULL,
+	"reporterId" varchar(255) NOT NULL,
+	"reason" varchar(16) NOT NULL,
+	"details" varchar(1000),
+	"status" varchar(16) DEFAULT 'open' NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"resolvedById" varchar(255),
+	"resolvedAt" timestamp with time zone,
+	CONSTRAINT "pdx-diy_report_eventId_reporterId_pk" PRIMARY KEY("eventId","reporterId")
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "hiddenAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "pdx-diy_report" ADD CONSTRAINT "pdx-diy_report_eventId_pdx-diy_event_id_fk" FOREIGN KEY ("eventId") REFERENCES "public"."pdx-diy_event"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_report" ADD CONSTRAINT "pdx-diy_report_reporterId_pdx-diy_user_id_fk" FOREIGN KEY ("reporterId") REFERENCES "public"."pdx-diy_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_report" ADD CONSTRAINT "pdx-diy_report_resolvedById_pdx-diy_user_id_fk" FOREIGN KEY ("resolvedById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "report_open_idx" ON "pdx-diy_report" USING btree ("eventId") WHERE "pdx-diy_report"."status" = 'open';
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "pdx-diy_audit_log" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"actorId" varchar(255),
+	"path" varchar(128) NOT NULL,
+	"input" jsonb,
+	"resultId" varchar(255),
+	"errorCode" varchar(32),
+	"requestId" varchar(128) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "pdx-diy_audit_log" USING btree ("createdAt");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_idx" ON "pdx-diy_audit_log" USING btree ("actorId","createdAt");--> statement-breakpoint
+CREATE INDEX "audit_log_path_idx" ON "pdx-diy_audit_log" USING btree ("path","createdAt");--> statement-breakpoint
+-- The audit log is append-only: entries can be added, and old ones pruned,
+-- but never changed
+CREATE FUNCTION "pdx-diy_audit_log_reject_update"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit log entries cannot be changed';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_log_append_only" BEFORE UPDATE ON "pdx-diy_audit_log" FOR EACH ROW EXECUTE FUNCTION "pdx-diy_audit_log_reject_update"();
@@ -0,0 +1,40 @@
+CREATE TABLE "pdx-diy_organization_invitation" (
+	"organizationId" varchar(255) NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(16) NOT NULL,
+	"tokenHash" varchar(64) NOT NULL,
+	"invitedById" varchar(255),
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"expiresAt" timestamp with time zone NOT NULL,
+	CONSTRAINT "pdx-diy_organization_invitation_organizationId_email_pk" PRIMARY KEY("organizationId","email")
+);
+--> statement-breakpoint
+CREATE TABLE "pdx-diy_organization_member" (
+	"organizationId" varchar(255) NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"role" varchar(16) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "pdx-diy_organization_member_organizationId_userId_pk" PRIMARY KEY("organizationId","userId")
+);
+--> statement-breakpoint
+CREATE TABLE "pdx-diy_organization" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"slug" varchar(64) NOT NULL,
+	"name" varchar(120) NOT NULL,
+	"description" varchar(2000),
+	"createdById" varchar(255),
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD COLUMN "organizationId" varchar(255);--> statement-breakpoint
+ALTER TABLE "pdx-diy_organization_invitation" ADD CONSTRAINT "pdx-diy_organization_invitation_organizationId_pdx-diy_organization_id_fk" FOREIGN KEY ("organizationId") REFERENCES "public"."pdx-diy_organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_organization_invitation" ADD CONSTRAINT "pdx-diy_organization_invitation_invitedById_pdx-diy_user_id_fk" FOREIGN KEY ("invitedById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_organization_member" ADD CONSTRAINT "pdx-diy_organization_member_organizationId_pdx-diy_organization_id_fk" FOREIGN KEY ("organizationId") REFERENCES "public"."pdx-diy_organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_organization_member" ADD CONSTRAINT "pdx-diy_organization_member_userId_pdx-diy_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."pdx-diy_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pdx-diy_organization" ADD CONSTRAINT "pdx-diy_organization_createdById_pdx-diy_user_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."pdx-diy_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "organization_invitation_token_idx" ON "pdx-diy_organization_invitation" USING btree ("tokenHash");--> statement-breakpoint
+CREATE INDEX "organization_member_user_idx" ON "pdx-diy_organization_member" USING btree ("userId");--> statement-breakpoint
+CREATE UNIQUE INDEX "organization_slug_idx" ON "pdx-diy_organization" USING btree ("slug");--> statement-breakpoint
+ALTER TABLE "pdx-diy_event" ADD CONSTRAINT "pdx-diy_event_organizationId_pdx-diy_organization_id_fk" FOREIGN KEY ("organizationId") REFERENCES "public"."pdx-diy_organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_organization_idx" ON "pdx-diy_event" USING btree ("organizationId");
\ No newline at end of file
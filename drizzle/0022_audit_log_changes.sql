@@ -0,0 +1 @@
+ALTER TABLE "pdx-diy_audit_log" ADD COLUMN "changes" jsonb;
\ No newline at end of file
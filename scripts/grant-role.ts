@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to grant a user a role, e.g. to make the first admin.
+ *
+ * Usage: pnpm users:grant-role <email> <organizer|moderator|admin>
+ */
+
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { users } from "../src/server/db/schema.js";
+import { USER_ROLES, parseUserRole } from "../src/shared/roles.js";
+
+/**
+ * Sets the role of the user with `email`. The user must have signed in at
+ * least once. Signed-in sessions keep showing the old role until the user
+ * signs in again, but role-gated actions use the new one right away.
+ */
+export async function grantRole(email: string, role: string): Promise<void> {
+	const parsedRole = parseUserRole(role);
+	if (!parsedRole) {
+		throw new Error(
+			`Unknown role "${role}"; expected one of ${USER_ROLES.join(", ")}`,
+		);
+	}
+
+	const databaseUrl = process.env.DATABASE_URL;
+	if (!databaseUrl) {
+		throw new Error("DATABASE_URL is not set");
+	}
+
+	const client = postgres(databaseUrl);
+	const db = drizzle(client);
+
+	try {
+		const [user] = await db
+			.update(users)
+			.set({ role: parsedRole })
+			.where(eq(users.email, email.trim().toLowerCase()))
+			.returning({ email: users.email });
+		if (!user) {
+			throw new Error(`No user with email ${email}; have they signed in?`);
+		}
+		console.log(
+			`✅ ${user.email} is now ${parsedRole === "admin" ? "an" : "a"} ${parsedRole}`,
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+// Run the grant if this script is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	const [email, role] = process.argv.slice(2);
+	if (!email || !role) {
+		console.error(
+			`Usage: pnpm users:grant-role <email> <${USER_ROLES.join("|")}>`,
+		);
+		process.exit(1);
+	}
+	grantRole(email, role).catch((error) => {
+		console.error("❌ Fatal error:", (error as Error).message);
+		process.exit(1);
+	});
+}
@@ -0,0 +1,50 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to enforce the audit log retention policy, meant to run daily
+ * (e.g. from cron). Deletes entries older than AUDIT_LOG_RETENTION_DAYS.
+ *
+ * Usage: pnpm audit:prune
+ */
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { pruneAuditLog } from "../src/server/audit-log.js";
+import * as schema from "../src/server/db/schema.js";
+import { DEFAULT_AUDIT_LOG_RETENTION_DAYS } from "../src/shared/schemas/audit-log.js";
+
+/**
+ * Deletes audit log entries older than the configured retention period.
+ */
+export async function pruneExpiredAuditLog(): Promise<void> {
+	const databaseUrl = process.env.DATABASE_URL;
+	if (!databaseUrl) {
+		throw new Error("DATABASE_URL is not set");
+	}
+	const retentionDays = Number(
+		process.env.AUDIT_LOG_RETENTION_DAYS ?? DEFAULT_AUDIT_LOG_RETENTION_DAYS,
+	);
+	if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+		throw new Error("AUDIT_LOG_RETENTION_DAYS must be a whole number of days");
+	}
+
+	const client = postgres(databaseUrl);
+	const db = drizzle(client, { schema });
+
+	try {
+		const deleted = await pruneAuditLog(db, retentionDays);
+		console.log(
+			`✅ Deleted ${deleted} audit log entries older than ${retentionDays} days`,
+		);
+	} finally {
+		await client.end();
+	}
+}
+
+// Run the prune if this script is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	pruneExpiredAuditLog().catch((error) => {
+		console.error("❌ Fatal error:", (error as Error).message);
+		process.exit(1);
+	});
+}
@@ -26,7 +26,7 @@ export async function resetTestDatabase(): Promise<void> {
 	try {
 		// Only clear event data, keep authentication tables intact
 		// This allows the web server to continue functioning while clearing test data
-		const eventTables = ["pdx-diy_event"];
+		const eventTables = ["pdx-diy_event", "pdx-diy_venue"];
 
 		console.log(`🗑️  Clearing event data from ${eventTables.length} tables...`);
 
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Tests for the rich-text renderer
+ *
+ * Tests cover:
+ * - Rendering supported nodes and marks
+ * - Escaping markup-looking text
+ * - Never rendering unsafe links, even from unsanitized documents
+ */
+
+import { render } from "@testing-library/react";
+import React from "react";
+import { describe, expect, it } from "vitest";
+import { RichText } from "../rich-text";
+
+describe("RichText", () => {
+	it("should render headings, lists and marks", () => {
+		const { container } = render(
+			<RichText
+				doc={{
+					type: "doc",
+					content: [
+						{
+							type: "heading",
+							attrs: { level: 2 },
+							content: [{ type: "text", text: "Lineup" }],
+						},
+						{
+							type: "bulletList",
+							content: [
+								{
+									type: "listItem",
+									content: [
+										{
+											type: "paragraph",
+											content: [
+												{
+													type: "text",
+													text: "Band A",
+													marks: [{ type: "bold" }],
+												},
+											],
+										},
+									],
+								},
+							],
+						},
+					],
+				}}
+			/>,
+		);
+
+		expect(container.querySelector("h3")?.textContent).toBe("Lineup");
+		expect(container.querySelector("ul li strong")?.textContent).toBe("Band A");
+	});
+
+	it("should render markup-looking text as text", () => {
+		const { container } = render(
+			<RichText
+				doc={{
+					type: "doc",
+					content: [
+						{
+							type: "paragraph",
+							content: [
+								{
+									type: "text",
+									text: '<img src=x onerror="alert(1)"><script>alert(1)</script>',
+								},
+							],
+						},
+					],
+				}}
+			/>,
+		);
+
+		expect(container.querySelector("img")).toBeNull();
+		expect(container.querySelector("script")).toBeNull();
+		expect(container.textContent).toContain("<script>alert(1)</script>");
+	});
+
+	it("should render safe links with hardened rel attributes", () => {
+		const { getByRole } = render(
+			<RichText
+				doc={{
+					type: "doc",
+					content: [
+						{
+							type: "paragraph",
+							content: [
+								{
+									type: "text",
+									text: "tickets",
+									marks: [
+										{
+											type: "link",
+											attrs: { href: "https://tickets.example/show" },
+										},
+									],
+								},
+							],
+						},
+					],
+				}}
+			/>,
+		);
+
+		const anchor = getByRole("link", { name: "tickets" });
+		expect(anchor.getAttribute("href")).toBe("https://tickets.example/show");
+		expect(anchor.getAttribute("rel")).toContain("noopener");
+	});
+
+	it("should not render unsafe links from unsanitized documents", () => {
+		const { container } = render(
+			<RichText
+				doc={{
+					type: "doc",
+					content: [
+						{
+							type: "paragraph",
+							content: [
+								{
+									type: "text",
+									text: "click",
+									marks: [
+										{ type: "link", attrs: { href: "javascript:alert(1)" } },
+									],
+								},
+							],
+						},
+					],
+				}}
+			/>,
+		);
+
+		expect(container.querySelector("a")).toBeNull();
+		expect(container.textContent).toBe("click");
+	});
+
+	it("should render nothing for invalid documents", () => {
+		const { container } = render(<RichText doc="<p>hi</p>" />);
+
+		expect(container.innerHTML).toBe("");
+	});
+});
@@ -0,0 +1,127 @@
+import Link from "next/link";
+
+import {
+	ACCESSIBILITY_FEATURES,
+	ACCESSIBILITY_LABELS,
+	PRICE_KINDS,
+	PRICE_KIND_LABELS,
+} from "~/shared/event-details";
+import type { EventFilters } from "~/shared/schemas/event";
+import { PORTLAND_QUADRANTS } from "~/shared/schemas/venue";
+
+/**
+ * Filter controls for the event list.
+ *
+ * A plain GET form: submitting it navigates to the home page with the
+ * filters in the query string (see `~/shared/event-filters`), so filtered
+ * views are server-rendered and shareable, and it works without JavaScript.
+ *
+ * @param filters - The currently applied filters, used as initial values
+ */
+export function EventFiltersForm({ filters }: { filters: EventFilters }) {
+	const hasFilters = Object.keys(filters).length > 0;
+
+	return (
+		<form action="/" method="get">
+			<fieldset>
+				<legend>Filter events</legend>
+
+				{/* The venue filter comes from venue pages; keep it while refining */}
+				{filters.venue && (
+					<input type="hidden" name="venue" value={filters.venue} />
+				)}
+
+				<div>
+					<label htmlFor="filter-from">From</label>
+					<input
+						id="filter-from"
+						name="from"
+						type="date"
+						defaultValue={filters.from}
+					/>
+				</div>
+
+				<div>
+					<label htmlFor="filter-to">To</label>
+					<input
+						id="filter-to"
+						name="to"
+						type="date"
+						defaultValue={filters.to}
+					/>
+				</div>
+
+				<div>
+					<label htmlFor="filter-tags">Tags</label>
+					<input
+						id="filter-tags"
+						name="tags"
+						defaultValue={filters.tags?.join(", ")}
+						placeholder="punk, zines"
+					/>
+				</div>
+
+				<div>
+					<label htmlFor="filter-quadrant">Part of town</label>
+					<select
+						id="filter-quadrant"
+						name="quadrant"
+						defaultValue={filters.quadrant ?? ""}
+					>
+						<option value="">Anywhere</option>
+						{PORTLAND_QUADRANTS.map((quadrant) => (
+							<option key={quadrant} value={quadrant}>
+								{quadrant} Portland
+							</option>
+						))}
+					</select>
+				</div>
+
+				<div>
+					<label htmlFor="filter-price">Price</label>
+					<select
+						id="filter-price"
+						name="price"
+						defaultValue={filters.price ?? ""}
+					>
+						<option value="">Any</option>
+						{PRICE_KINDS.map((kind) => (
+							<option key={kind} value={kind}>
+								{PRICE_KIND_LABELS[kind]}
+							</option>
+						))}
+					</select>
+				</div>
+
+				<div>
+					<input
+						id="filter-all-ages"
+						name="allAges"
+						type="checkbox"
+						value="1"
+						defaultChecked={filters.allAges ?? false}
+					/>
+					<label htmlFor="filter-all-ages">All ages only</label>
+				</div>
+
+				<fieldset>
+					<legend>Accessibility</legend>
+					{ACCESSIBILITY_FEATURES.map((feature) => (
+						<label key={feature}>
+							<input
+								name="access"
+								type="checkbox"
+								value={feature}
+								defaultChecked={filters.access?.includes(feature) ?? false}
+							/>
+							{ACCESSIBILITY_LABELS[feature]}
+						</label>
+					))}
+				</fieldset>
+
+				<button type="submit">Apply filters</button>
+				{hasFilters && <Link href="/">Clear filters</Link>}
+			</fieldset>
+		</form>
+	);
+}
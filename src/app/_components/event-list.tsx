@@ -0,0 +1,129 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef } from "react";
+import { eventPath } from "~/shared/recurrence";
+import {
+	EVENT_PAGE_SIZE,
+	type EventFilters,
+	isEventPublished,
+} from "~/shared/schemas/event";
+import {
+	describeModerationHold,
+	isEventApproved,
+} from "~/shared/schemas/moderation";
+import { formatRsvpCounts } from "~/shared/schemas/rsvp";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/react";
+
+/**
+ * Infinite-scrolling list of upcoming and past events, soonest first.
+ *
+ * Renders the first page from the hydrated server prefetch (the page must
+ * prefetch with the same `{ ...filters, limit: EVENT_PAGE_SIZE }` input),
+ * then loads the
+ * next page through `event.getMany` when the end of the list scrolls into
+ * view. A "Load more" button does the same for keyboard users and browsers
+ * without IntersectionObserver.
+ *
+ * @param filters - Filters applied to the list, parsed from the URL
+ */
+export function EventList({ filters }: { filters: EventFilters }) {
+	const [data, query] = api.event.getMany.useSuspenseInfiniteQuery(
+		{ ...filters, limit: EVENT_PAGE_SIZE },
+		{ getNextPageParam: (lastPage) => lastPage.nextCursor },
+	);
+	const { fetchNextPage, hasNextPage, isFetchingNextPage } = query;
+	const sentinel = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		const element = sentinel.current;
+		if (
+			!element ||
+			!hasNextPage ||
+			typeof IntersectionObserver === "undefined"
+		) {
+			return;
+		}
+
+		const observer = new IntersectionObserver(
+			(entries) => {
+				if (entries.some((entry) => entry.isIntersecting)) {
+					void fetchNextPage();
+				}
+			},
+			{ rootMargin: "400px" },
+		);
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, [fetchNextPage, hasNextPage]);
+
+	const events = data.pages.flatMap((page) => page.items);
+
+	if (events.length === 0) {
+		return Object.keys(filters).length > 0 ? (
+			<p>No events match these filters.</p>
+		) : (
+			<p>No events yet. Create the first one!</p>
+		);
+	}
+
+	return (
+		<>
+			<ul>
+				{events.map((event) => (
+					<li key={`${event.id}-${event.startsAt.getTime()}`}>
+						<Link href={eventPath(event.id, event.occurrenceStart)}>
+							<div>
+								{event.flyer && (
+									<img
+										src={event.flyer.urls.thumb}
+										width={160}
+										alt={event.flyerAlt ?? ""}
+									/>
+								)}
+								<h3>{event.title}</h3>
+								{event.status === "cancelled" && <p>Cancelled</p>}
+								{event.status === "postponed" && <p>Postponed</p>}
+								{!isEventPublished(event) ? (
+									<p>
+										{event.isDraft ? "Draft" : "Scheduled"}: only you can see
+										this
+									</p>
+								) : (
+									!isEventApproved(event) && (
+										<p>
+											{describeModerationHold(event)}: only you can see this
+										</p>
+									)
+								)}
+								<p>
+									<time dateTime={event.startsAt.toISOString()}>
+										{formatEventDateTime(event.startsAt)}
+									</time>
+								</p>
+								{event.venue && <p>{event.venue.name}</p>}
+								{(event.rsvpCounts.going > 0 ||
+									event.rsvpCounts.interested > 0) && (
+									<p>{formatRsvpCounts(event.rsvpCounts)}</p>
+								)}
+							</div>
+						</Link>
+					</li>
+				))}
+			</ul>
+
+			<div ref={sentinel}>
+				{hasNextPage && (
+					<button
+						type="button"
+						disabled={isFetchingNextPage}
+						onClick={() => void fetchNextPage()}
+					>
+						{isFetchingNextPage ? "Loading..." : "Load more"}
+					</button>
+				)}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+
+/**
+ * Organizer button that publishes a draft or scheduled event right away.
+ *
+ * @param eventId - The unpublished event
+ */
+export function PublishButton({ eventId }: { eventId: string }) {
+	const router = useRouter();
+	const publishEvent = api.event.publish.useMutation();
+
+	const publish = async () => {
+		if (!window.confirm("Publish this event now? Everyone will see it.")) {
+			return;
+		}
+		try {
+			await publishEvent.mutateAsync({ id: eventId });
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to publish event:", error);
+			alert("Failed to publish the event. Please try again.");
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			disabled={publishEvent.isPending}
+			onClick={() => void publish()}
+		>
+			{publishEvent.isPending ? "Publishing..." : "Publish now"}
+		</button>
+	);
+}
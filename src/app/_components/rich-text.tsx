@@ -0,0 +1,109 @@
+import React, { type ReactNode } from "react";
+
+import {
+	type RichTextBlock,
+	type RichTextInline,
+	type RichTextMark,
+	sanitizeRichText,
+} from "~/shared/rich-text";
+
+function renderMarks(text: ReactNode, marks: RichTextMark[] | undefined) {
+	let node = text;
+	for (const mark of marks ?? []) {
+		switch (mark.type) {
+			case "bold":
+				node = <strong>{node}</strong>;
+				break;
+			case "italic":
+				node = <em>{node}</em>;
+				break;
+			case "strike":
+				node = <s>{node}</s>;
+				break;
+			case "link":
+				node = (
+					<a
+						href={mark.attrs.href}
+						rel="nofollow ugc noopener noreferrer"
+						target="_blank"
+					>
+						{node}
+					</a>
+				);
+				break;
+		}
+	}
+	return node;
+}
+
+function renderInlines(nodes: RichTextInline[] | undefined) {
+	return (nodes ?? []).map((node, index) =>
+		node.type === "hardBreak" ? (
+			// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+			<br key={index} />
+		) : (
+			// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+			<span key={index}>{renderMarks(node.text, node.marks)}</span>
+		),
+	);
+}
+
+function renderBlocks(blocks: RichTextBlock[]): ReactNode[] {
+	return blocks.map((block, index) => {
+		switch (block.type) {
+			case "paragraph":
+				// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+				return <p key={index}>{renderInlines(block.content)}</p>;
+			case "heading": {
+				const Heading = block.attrs.level === 3 ? "h4" : "h3";
+				return (
+					// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+					<Heading key={index}>{renderInlines(block.content)}</Heading>
+				);
+			}
+			case "blockquote":
+				return (
+					// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+					<blockquote key={index}>{renderBlocks(block.content)}</blockquote>
+				);
+			case "bulletList":
+			case "orderedList": {
+				const List = block.type === "bulletList" ? "ul" : "ol";
+				return (
+					// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+					<List key={index}>
+						{block.content.map((item, itemIndex) => (
+							// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+							<li key={itemIndex}>{renderBlocks(item.content)}</li>
+						))}
+					</List>
+				);
+			}
+		}
+	});
+}
+
+/**
+ * Renders a stored rich-text document as React elements.
+ *
+ * The document is sanitized again before rendering, so only known nodes and
+ * safe links reach the page even if a row was written without validation.
+ * Text always goes through React's escaping; no HTML is ever injected.
+ * Headings render one level below the page's `h1`/`h2` structure.
+ *
+ * @param doc - A rich-text document, typically `event.description`
+ * @returns The rendered document, or null when it's empty or invalid
+ *
+ * @example
+ * ```tsx
+ * {event.description && <RichText doc={event.description} />}
+ * ```
+ */
+export function RichText({ doc }: { doc: unknown }) {
+	const result = sanitizeRichText(doc);
+	if (!result.ok || result.doc.content.length === 0) {
+		return null;
+	}
+
+	return <div>{renderBlocks(result.doc.content)}</div>;
+}
@@ -0,0 +1,22 @@
+/**
+ * Event search form. Submits a plain GET to `/search`, so it works without
+ * JavaScript and results pages can be bookmarked and shared.
+ *
+ * @param defaultValue - Query to pre-fill, e.g. on the results page
+ */
+export function SearchBox({ defaultValue = "" }: { defaultValue?: string }) {
+	return (
+		<form action="/search" method="get">
+			<label htmlFor="search-query">Search events</label>
+			<input
+				id="search-query"
+				name="q"
+				type="search"
+				defaultValue={defaultValue}
+				maxLength={200}
+				placeholder="Bands, venues, zine fests..."
+			/>
+			<button type="submit">Search</button>
+		</form>
+	);
+}
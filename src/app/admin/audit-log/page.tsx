@@ -0,0 +1,153 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+import { env } from "~/env";
+import { auth } from "~/server/auth";
+import type { SearchParamsRecord } from "~/shared/event-filters";
+import { hasRole } from "~/shared/roles";
+import { parseAuditLogFilters } from "~/shared/schemas/audit-log";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+
+/**
+ * Admin page for browsing the audit log of mutations, newest first.
+ *
+ * Filters come from the query string (`?actor=<email>&path=event.&from=
+ * 2025-07-01&to=2025-07-31`), set by a plain GET form, and `cursor` pages
+ * back through older entries. Each entry shows when, who, which procedure,
+ * the row it returned or the error it failed with, the fields an update
+ * changed, and its redacted input.
+ * Signed-out visitors are sent to sign in, and people who aren't admins get
+ * a 404.
+ *
+ * @param searchParams - Filters and the paging cursor
+ */
+export default async function AuditLogPage({
+	searchParams,
+}: {
+	searchParams: Promise<SearchParamsRecord>;
+}) {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Fadmin%2Faudit-log");
+	}
+	if (!hasRole(session.user.role, "admin")) {
+		notFound();
+	}
+
+	const params = await searchParams;
+	const filters = parseAuditLogFilters(params);
+	const cursor = typeof params.cursor === "string" ? params.cursor : undefined;
+	const { items, nextCursor } = await api.auditLog.list({ ...filters, cursor });
+
+	return (
+		<main>
+			<Link href="/">← Back to events</Link>
+
+			<h1>Audit log</h1>
+			<p>
+				Every change made through the site, kept for{" "}
+				{env.AUDIT_LOG_RETENTION_DAYS} days.
+			</p>
+
+			<form method="get">
+				<label htmlFor="audit-actor">Who (email)</label>
+				<input
+					id="audit-actor"
+					name="actor"
+					type="email"
+					defaultValue={filters.actor}
+				/>
+				<label htmlFor="audit-path">Procedure</label>
+				<input
+					id="audit-path"
+					name="path"
+					defaultValue={filters.path}
+					placeholder="event.update"
+				/>
+				<label htmlFor="audit-from">From</label>
+				<input
+					id="audit-from"
+					name="from"
+					type="date"
+					defaultValue={filters.from}
+				/>
+				<label htmlFor="audit-to">To</label>
+				<input id="audit-to" name="to" type="date" defaultValue={filters.to} />
+				<button type="submit">Filter</button>
+			</form>
+
+			{items.length === 0 ? (
+				<p>No matching entries.</p>
+			) : (
+				<table>
+					<thead>
+						<tr>
+							<th>When</th>
+							<th>Who</th>
+							<th>Procedure</th>
+							<th>Result</th>
+							<th>Changes</th>
+							<th>Input</th>
+						</tr>
+					</thead>
+					<tbody>
+						{items.map((entry) => (
+							<tr key={entry.id}>
+								<td>
+									<time dateTime={entry.createdAt.toISOString()}>
+										{formatEventDateTime(entry.createdAt)}
+									</time>
+								</td>
+								<td>
+									{entry.actorEmail ??
+										(entry.actorId ? "Deleted user" : "Signed out")}
+								</td>
+								<td>
+									<code>{entry.path}</code>
+								</td>
+								<td>
+									{entry.errorCode ? `Failed: ${entry.errorCode}` : "OK"}
+									{entry.resultId && (
+										<>
+											{" "}
+											<code>{entry.resultId}</code>
+										</>
+									)}
+								</td>
+								<td>
+									{entry.changes && Object.keys(entry.changes).length > 0 && (
+										<ul>
+											{Object.entries(entry.changes).map(([field, change]) => (
+												<li key={field}>
+													<code>{field}</code>:{" "}
+													<code>{JSON.stringify(change.before)}</code> →{" "}
+													<code>{JSON.stringify(change.after)}</code>
+												</li>
+											))}
+										</ul>
+									)}
+								</td>
+								<td>
+									<details>
+										<summary>Request {entry.requestId}</summary>
+										<pre>{JSON.stringify(entry.input, null, 2)}</pre>
+									</details>
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+
+			{nextCursor && (
+				<Link
+					href={`/admin/audit-log?${new URLSearchParams({ ...filters, cursor: nextCursor })}`}
+				>
+					Older entries
+				</Link>
+			)}
+		</main>
+	);
+}
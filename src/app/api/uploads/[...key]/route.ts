@@ -0,0 +1,32 @@
+import { getStorage, isValidStorageKey } from "~/server/storage";
+
+/**
+ * Serves stored uploads for storage drivers without their own public URL.
+ *
+ * Keys embed the upload's ID and variant, so stored objects never change and
+ * can be cached indefinitely.
+ */
+export async function GET(
+	_request: Request,
+	{ params }: { params: Promise<{ key: string[] }> },
+) {
+	const { key } = await params;
+	const storageKey = key.join("/");
+
+	if (!isValidStorageKey(storageKey)) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	const object = await getStorage().get(storageKey);
+	if (!object) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	return new Response(new Uint8Array(object.body), {
+		headers: {
+			"Content-Type": object.contentType,
+			"Cache-Control": "public, max-age=31536000, immutable",
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { uuidv7 } from "uuidv7";
+
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { flyers } from "~/server/db/schema";
+import { processFlyer, storeFlyer, toFlyerView } from "~/server/flyers";
+import { ACCEPTED_FLYER_TYPES, MAX_FLYER_BYTES } from "~/shared/flyers";
+
+/**
+ * Accepts a flyer image upload for the signed-in user.
+ *
+ * Expects `multipart/form-data` with the image in a `file` field. The image
+ * is stripped of metadata, resized into its variants and stored; the new
+ * flyer (with variant URLs) is returned so the form can attach it to an
+ * event.
+ *
+ * @returns 201 with the flyer, or 400/401/413/415/422 with an `error` message
+ */
+export async function POST(request: Request) {
+	const session = await auth();
+	if (!session?.user) {
+		return NextResponse.json({ error: "Sign in to upload" }, { status: 401 });
+	}
+
+	const formData = await request.formData().catch(() => null);
+	const file = formData?.get("file");
+	if (!(file instanceof File)) {
+		return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+	}
+
+	if (!(ACCEPTED_FLYER_TYPES as readonly string[]).includes(file.type)) {
+		return NextResponse.json(
+			{ error: "Flyers must be JPEG, PNG or WebP images" },
+			{ status: 415 },
+		);
+	}
+
+	if (file.size > MAX_FLYER_BYTES) {
+		return NextResponse.json(
+			{ error: "Flyers must be 10 MB or smaller" },
+			{ status: 413 },
+		);
+	}
+
+	let processed: Awaited<ReturnType<typeof processFlyer>>;
+	try {
+		processed = await processFlyer(Buffer.from(await file.arrayBuffer()));
+	} catch (error) {
+		console.error("Failed to process flyer:", error);
+		return NextResponse.json(
+			{ error: "That image couldn't be read" },
+			{ status: 422 },
+		);
+	}
+
+	const id = uuidv7();
+	await storeFlyer(id, processed);
+
+	const [flyer] = await db
+		.insert(flyers)
+		.values({
+			id,
+			uploadedById: session.user.id,
+			width: processed.width,
+			height: processed.height,
+		})
+		.returning();
+
+	if (!flyer) {
+		return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+	}
+
+	return NextResponse.json(toFlyerView(flyer), { status: 201 });
+}
@@ -0,0 +1,12 @@
+import { buildAtomFeed, feedResponse, loadFeed } from "~/server/feeds";
+
+/**
+ * Serves upcoming events as an Atom feed.
+ *
+ * Accepts the home page's filters, so `/atom.xml?tags=punk` and
+ * `/atom.xml?venue=<id>` follow one tag or venue.
+ */
+export async function GET(request: Request) {
+	const feed = await loadFeed(request);
+	return feedResponse(request, buildAtomFeed(feed), "application/atom+xml");
+}
@@ -0,0 +1,51 @@
+import { and } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { eventFilterWindow, eventFiltersWhere } from "~/server/event-filters";
+import { publicEventsWhere } from "~/server/event-visibility";
+import { buildCalendar, findCalendarEvents } from "~/server/ical";
+import { overlapsWindowWhere } from "~/server/occurrences";
+import {
+	parseEventFilters,
+	toSearchParamsRecord,
+} from "~/shared/event-filters";
+
+/**
+ * Serves upcoming events as a subscribable iCalendar feed.
+ *
+ * Accepts the same query parameters as the home page (see
+ * `parseEventFilters`), so a filtered view can be subscribed to as is.
+ * Events that have already ended are left out; calendar apps keep what
+ * they've already synced.
+ *
+ * @returns 200 with a `text/calendar` body
+ */
+export async function GET(request: Request) {
+	const url = new URL(request.url);
+	const filters = parseEventFilters(toSearchParamsRecord(url.searchParams));
+	const window = eventFilterWindow(filters);
+	const now = new Date();
+	const from = window.from && window.from > now ? window.from : now;
+
+	const events = await findCalendarEvents(
+		db,
+		and(
+			publicEventsWhere(),
+			eventFiltersWhere(filters),
+			overlapsWindowWhere(from, window.to),
+		),
+	);
+
+	const calendar = buildCalendar({
+		name: "PDX DIY",
+		baseUrl: url.origin,
+		events,
+	});
+	return new Response(calendar, {
+		headers: {
+			"Content-Type": "text/calendar; charset=utf-8",
+			"Content-Disposition": 'inline; filename="pdx-diy.ics"',
+			"Cache-Control": "public, max-age=300",
+		},
+	});
+}
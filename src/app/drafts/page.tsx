@@ -0,0 +1,75 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { isEventPublished } from "~/shared/schemas/event";
+import {
+	describeModerationHold,
+	isEventApproved,
+} from "~/shared/schemas/moderation";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { PublishButton } from "../_components/publish-button";
+
+/**
+ * Drafts dashboard listing the signed-in organizer's unpublished events:
+ * scheduled ones by when they go up, then drafts by when they were last
+ * edited, along with events waiting for or rejected in moderation and
+ * events hidden by reports. Each
+ * links to a preview of its event page and to its edit form, and can be
+ * published right away. Signed-out visitors are sent to sign in.
+ */
+export default async function DraftsPage() {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Fdrafts");
+	}
+
+	const drafts = await api.event.listDrafts();
+
+	return (
+		<main>
+			<Link href="/">← Back to events</Link>
+
+			<h1>Drafts</h1>
+
+			{drafts.length === 0 ? (
+				<p>
+					No drafts. Choose “Save as a draft” or “Publish at a set time” when
+					creating an event to prepare it here.
+				</p>
+			) : (
+				<ul>
+					{drafts.map((event) => (
+						<li key={event.id}>
+							<h3>{event.title}</h3>
+							<p>
+								{event.isDraft || !event.publishAt
+									? `Draft, last edited ${formatEventDateTime(event.updatedAt ?? event.createdAt)}`
+									: isEventPublished(event)
+										? "Published"
+										: `Publishes ${formatEventDateTime(event.publishAt)}`}
+								{!isEventApproved(event) &&
+									` · ${describeModerationHold(event)}`}
+							</p>
+							{event.moderationStatus === "rejected" &&
+								event.moderationReason && <p>{event.moderationReason}</p>}
+							<p>
+								<time dateTime={event.startsAt.toISOString()}>
+									{formatEventDateTime(event.startsAt)}
+								</time>
+								{event.venue ? ` at ${event.venue.name}` : null}
+							</p>
+							<p>
+								<Link href={`/events/${event.id}`}>Preview</Link>{" "}
+								<Link href={`/events/${event.id}/edit`}>Edit</Link>
+							</p>
+							{!isEventPublished(event) && <PublishButton eventId={event.id} />}
+						</li>
+					))}
+				</ul>
+			)}
+		</main>
+	);
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { AddressRequestStatus } from "~/shared/schemas/address-request";
+import { api } from "~/trpc/react";
+
+/**
+ * Shown in place of a private venue's address: explains who gets it and
+ * lets signed-in visitors ask the organizer for it.
+ *
+ * @param eventId - The event at the private venue
+ * @param status - The viewer's request for the address, if any
+ * @param isSignedIn - Whether the viewer can ask
+ */
+export function AddressRequestButton({
+	eventId,
+	status,
+	isSignedIn,
+}: {
+	eventId: string;
+	status: AddressRequestStatus | null;
+	isSignedIn: boolean;
+}) {
+	const router = useRouter();
+	const requestAddress = api.addressRequest.create.useMutation();
+
+	const request = async () => {
+		try {
+			await requestAddress.mutateAsync({ eventId });
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to request address:", error);
+			alert("Failed to ask for the address. Please try again.");
+		}
+	};
+
+	return (
+		<div>
+			<p>
+				This is a private address. It's shared with people going and people the
+				organizer approves.
+			</p>
+			{!isSignedIn ? (
+				<p>
+					<Link
+						href={`/api/auth/signin?callbackUrl=${encodeURIComponent(`/events/${eventId}`)}`}
+					>
+						Sign in to get the address
+					</Link>
+				</p>
+			) : status === "pending" ? (
+				<p>You asked for the address. Waiting for the organizer.</p>
+			) : (
+				<button
+					type="button"
+					disabled={requestAddress.isPending}
+					onClick={() => void request()}
+				>
+					Ask the organizer for the address
+				</button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/react";
+
+/**
+ * Organizer list of people asking for a private venue's address, with
+ * approve and decline buttons. Approved people stay listed.
+ *
+ * @param eventId - The organizer's event at a private venue
+ */
+export function AddressRequests({ eventId }: { eventId: string }) {
+	const requests = api.addressRequest.list.useQuery({ eventId });
+	const decide = api.addressRequest.decide.useMutation();
+
+	const run = async (userId: string, approve: boolean) => {
+		try {
+			await decide.mutateAsync({ eventId, userId, approve });
+			await requests.refetch();
+		} catch (error) {
+			console.error("Failed to answer address request:", error);
+			alert("Failed to answer the request. Please try again.");
+		}
+	};
+
+	if (!requests.data) {
+		return null;
+	}
+
+	return (
+		<div>
+			<h2>Address requests</h2>
+			{requests.data.length === 0 ? (
+				<p>Nobody has asked for the address yet.</p>
+			) : (
+				<ul>
+					{requests.data.map((request) => (
+						<li key={request.userId}>
+							{request.user.name ?? "Someone"}, asked{" "}
+							{formatEventDateTime(request.createdAt)}
+							{request.status === "approved" ? (
+								" · approved"
+							) : (
+								<>
+									{" "}
+									<button
+										type="button"
+										disabled={decide.isPending}
+										onClick={() => void run(request.userId, true)}
+									>
+										Approve
+									</button>
+									<button
+										type="button"
+										disabled={decide.isPending}
+										onClick={() => void run(request.userId, false)}
+									>
+										Decline
+									</button>
+								</>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
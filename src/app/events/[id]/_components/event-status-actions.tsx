@@ -0,0 +1,123 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import type { EventStatus } from "~/shared/schemas/event";
+import { api } from "~/trpc/react";
+
+/**
+ * Organizer controls for cancelling, postponing, deleting and restoring an
+ * event. Cancelling and postponing ask for an optional note that's shown to
+ * attendees on the event page.
+ *
+ * @param eventId - The event to change
+ * @param status - The event's current status
+ */
+export function EventStatusActions({
+	eventId,
+	status,
+}: {
+	eventId: string;
+	status: EventStatus;
+}) {
+	const router = useRouter();
+	const cancelEvent = api.event.cancel.useMutation();
+	const postponeEvent = api.event.postpone.useMutation();
+	const deleteEvent = api.event.delete.useMutation();
+	const restoreEvent = api.event.restore.useMutation();
+	const isPending =
+		cancelEvent.isPending ||
+		postponeEvent.isPending ||
+		deleteEvent.isPending ||
+		restoreEvent.isPending;
+
+	const run = async (action: () => Promise<unknown>) => {
+		try {
+			await action();
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to change event status:", error);
+			alert("Failed to update the event. Please try again.");
+		}
+	};
+
+	const withNote = (
+		message: string,
+		mutate: (input: { id: string; note: string | null }) => Promise<unknown>,
+	) => {
+		const note = window.prompt(message);
+		if (note === null) return;
+		void run(() => mutate({ id: eventId, note: note || null }));
+	};
+
+	if (status === "deleted") {
+		return (
+			<div>
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						void run(() => restoreEvent.mutateAsync({ id: eventId }))
+					}
+				>
+					Restore event
+				</button>
+			</div>
+		);
+	}
+
+	return (
+		<div>
+			{status !== "cancelled" && (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						withNote(
+							"Cancel this event? Add a note for attendees (optional):",
+							cancelEvent.mutateAsync,
+						)
+					}
+				>
+					Cancel event
+				</button>
+			)}
+			{status !== "postponed" && (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						withNote(
+							"Postpone this event? Add a note for attendees (optional):",
+							postponeEvent.mutateAsync,
+						)
+					}
+				>
+					Postpone event
+				</button>
+			)}
+			{status !== "scheduled" && (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						void run(() => restoreEvent.mutateAsync({ id: eventId }))
+					}
+				>
+					Mark as happening
+				</button>
+			)}
+			<button
+				type="button"
+				disabled={isPending}
+				onClick={() => {
+					if (!window.confirm("Delete this event? You can restore it later.")) {
+						return;
+					}
+					void run(() => deleteEvent.mutateAsync({ id: eventId }));
+				}}
+			>
+				Delete event
+			</button>
+		</div>
+	);
+}
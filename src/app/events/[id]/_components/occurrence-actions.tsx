@@ -0,0 +1,83 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { EventStatus } from "~/shared/schemas/event";
+import { api } from "~/trpc/react";
+
+/**
+ * Organizer controls for one date of a recurring event: editing it,
+ * cancelling it with an optional note, and undoing a cancellation. The rest
+ * of the series is left as is.
+ *
+ * @param eventId - The recurring event
+ * @param occurrenceStart - Original start of the date to change
+ * @param status - The date's current status
+ */
+export function OccurrenceActions({
+	eventId,
+	occurrenceStart,
+	status,
+}: {
+	eventId: string;
+	occurrenceStart: Date;
+	status: EventStatus;
+}) {
+	const router = useRouter();
+	const cancelOccurrence = api.event.cancelOccurrence.useMutation();
+	const restoreOccurrence = api.event.restoreOccurrence.useMutation();
+	const isPending = cancelOccurrence.isPending || restoreOccurrence.isPending;
+
+	const run = async (action: () => Promise<unknown>) => {
+		try {
+			await action();
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to change occurrence:", error);
+			alert("Failed to update this date. Please try again.");
+		}
+	};
+
+	return (
+		<div>
+			<Link
+				href={`/events/${eventId}/edit?occurrence=${encodeURIComponent(occurrenceStart.toISOString())}`}
+			>
+				Edit this date
+			</Link>
+			{status === "cancelled" ? (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						void run(() =>
+							restoreOccurrence.mutateAsync({ id: eventId, occurrenceStart }),
+						)
+					}
+				>
+					Mark this date as happening
+				</button>
+			) : (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() => {
+						const note = window.prompt(
+							"Cancel this date? Add a note for attendees (optional):",
+						);
+						if (note === null) return;
+						void run(() =>
+							cancelOccurrence.mutateAsync({
+								id: eventId,
+								occurrenceStart,
+								note: note || null,
+							}),
+						);
+					}}
+				>
+					Cancel this date
+				</button>
+			)}
+		</div>
+	);
+}
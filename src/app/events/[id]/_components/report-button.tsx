@@ -0,0 +1,83 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { type FormEvent, useState } from "react";
+import {
+	MAX_REPORT_DETAILS_LENGTH,
+	REPORT_REASONS,
+	REPORT_REASON_LABELS,
+	type ReportReason,
+} from "~/shared/schemas/report";
+import { api } from "~/trpc/react";
+
+/**
+ * Lets signed-in visitors report an event as spam, a scam, unsafe or
+ * misleading, with optional details for the moderators. Each person can
+ * report an event once.
+ *
+ * @param eventId - The event to report
+ * @param isReported - Whether the viewer already reported it
+ */
+export function ReportButton({
+	eventId,
+	isReported,
+}: {
+	eventId: string;
+	isReported: boolean;
+}) {
+	const router = useRouter();
+	const createReport = api.report.create.useMutation();
+	const [reason, setReason] = useState<ReportReason>("spam");
+	const [details, setDetails] = useState("");
+
+	const submit = async (e: FormEvent) => {
+		e.preventDefault();
+		try {
+			await createReport.mutateAsync({ eventId, reason, details });
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to report event:", error);
+			alert("Failed to send the report. Please try again.");
+		}
+	};
+
+	if (isReported) {
+		return (
+			<p>You reported this event. Thanks, a moderator will take a look.</p>
+		);
+	}
+
+	return (
+		<details>
+			<summary>Report this event</summary>
+			<form onSubmit={(e) => void submit(e)}>
+				<div>
+					<label htmlFor="report-reason">What's wrong?</label>
+					<select
+						id="report-reason"
+						value={reason}
+						onChange={(e) => setReason(e.target.value as ReportReason)}
+					>
+						{REPORT_REASONS.map((value) => (
+							<option key={value} value={value}>
+								{REPORT_REASON_LABELS[value]}
+							</option>
+						))}
+					</select>
+				</div>
+				<div>
+					<label htmlFor="report-details">Details (optional)</label>
+					<textarea
+						id="report-details"
+						value={details}
+						maxLength={MAX_REPORT_DETAILS_LENGTH}
+						onChange={(e) => setDetails(e.target.value)}
+					/>
+				</div>
+				<button type="submit" disabled={createReport.isPending}>
+					{createReport.isPending ? "Sending..." : "Send report"}
+				</button>
+			</form>
+		</details>
+	);
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+	type RsvpCounts,
+	type RsvpState,
+	type RsvpStatus,
+	formatRsvpCounts,
+	remainingSpots,
+} from "~/shared/schemas/rsvp";
+import { api } from "~/trpc/react";
+
+/**
+ * Attendee counts, remaining spots and "Going"/"Interested" toggles.
+ * Going to a full event joins its waitlist. Signed-out visitors see the
+ * counts and a sign-in link; cancelled events only show counts.
+ *
+ * @param eventId - The event to RSVP to
+ * @param capacity - The event's capacity, or null when unlimited
+ * @param counts - The event's current counts
+ * @param status - The viewer's current RSVP, if any
+ * @param waitlistPosition - The viewer's place on the waitlist, if on it
+ * @param isSignedIn - Whether the viewer can RSVP
+ * @param isOpen - Whether the event still takes RSVPs
+ */
+export function RsvpButtons({
+	eventId,
+	capacity,
+	counts,
+	status,
+	waitlistPosition,
+	isSignedIn,
+	isOpen,
+}: {
+	eventId: string;
+	capacity: number | null;
+	counts: RsvpCounts;
+	status: RsvpState | null;
+	waitlistPosition: number | null;
+	isSignedIn: boolean;
+	isOpen: boolean;
+}) {
+	const router = useRouter();
+	const setRsvp = api.rsvp.set.useMutation();
+	const clearRsvp = api.rsvp.clear.useMutation();
+	const isPending = setRsvp.isPending || clearRsvp.isPending;
+	const remaining = remainingSpots(capacity, counts);
+	const isGoing = status === "going" || status === "waitlisted";
+
+	const toggle = async (next: RsvpStatus) => {
+		try {
+			if ((next === "going" && isGoing) || next === status) {
+				await clearRsvp.mutateAsync({ eventId });
+			} else {
+				await setRsvp.mutateAsync({ eventId, status: next });
+			}
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to update RSVP:", error);
+			alert("Failed to update your RSVP. Please try again.");
+		}
+	};
+
+	return (
+		<div>
+			<p>{formatRsvpCounts(counts)}</p>
+			{remaining !== null && (
+				<p>
+					{remaining > 0
+						? `${remaining} of ${capacity} spots left`
+						: "This event is full. RSVPs join the waitlist."}
+				</p>
+			)}
+			{isOpen &&
+				(isSignedIn ? (
+					<div>
+						<button
+							type="button"
+							aria-pressed={isGoing}
+							disabled={isPending}
+							onClick={() => void toggle("going")}
+						>
+							{status === "going"
+								? "✓ Going"
+								: status === "waitlisted"
+									? `✓ On the waitlist${waitlistPosition ? ` (#${waitlistPosition})` : ""}`
+									: remaining === 0
+										? "Join the waitlist"
+										: "Going"}
+						</button>
+						<button
+							type="button"
+							aria-pressed={status === "interested"}
+							disabled={isPending}
+							onClick={() => void toggle("interested")}
+						>
+							{status === "interested" ? "✓ Interested" : "Interested"}
+						</button>
+					</div>
+				) : (
+					<p>
+						<Link
+							href={`/api/auth/signin?callbackUrl=${encodeURIComponent(`/events/${eventId}`)}`}
+						>
+							Sign in to RSVP
+						</Link>
+					</p>
+				))}
+		</div>
+	);
+}
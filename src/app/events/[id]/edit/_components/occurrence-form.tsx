@@ -0,0 +1,125 @@
+"use client";
+
+import { useForm } from "@tanstack/react-form";
+import { useRouter } from "next/navigation";
+import { eventPath } from "~/shared/recurrence";
+import { occurrenceUpdateSchema } from "~/shared/schemas/event";
+import { fromZonedInputValue, toZonedInputValue } from "~/shared/time";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type Occurrence = NonNullable<
+	NonNullable<RouterOutputs["event"]["getById"]>["occurrence"]
+>;
+
+/**
+ * Form for changing the title and times of one date of a recurring event.
+ * Everything else is edited on the series.
+ *
+ * @param eventId - The recurring event
+ * @param occurrence - The date to edit, as returned by `event.getById`
+ */
+export function OccurrenceForm({
+	eventId,
+	occurrence,
+}: {
+	eventId: string;
+	occurrence: Occurrence;
+}) {
+	const router = useRouter();
+	const updateOccurrence = api.event.updateOccurrence.useMutation();
+
+	const form = useForm({
+		defaultValues: {
+			title: occurrence.title,
+			startsAt: toZonedInputValue(occurrence.startsAt),
+			endsAt: occurrence.endsAt ? toZonedInputValue(occurrence.endsAt) : "",
+		},
+		onSubmit: async ({ value }) => {
+			const validation = occurrenceUpdateSchema.safeParse({
+				id: eventId,
+				occurrenceStart: occurrence.occurrenceStart,
+				title: value.title,
+				startsAt: fromZonedInputValue(value.startsAt) ?? undefined,
+				endsAt: value.endsAt ? fromZonedInputValue(value.endsAt) : null,
+			});
+			if (!validation.success) {
+				alert(validation.error.issues[0]?.message ?? "Please check the form");
+				return;
+			}
+
+			try {
+				await updateOccurrence.mutateAsync(validation.data);
+				router.push(eventPath(eventId, occurrence.occurrenceStart));
+				router.refresh();
+			} catch (error) {
+				console.error("Failed to update occurrence:", error);
+				alert("Failed to save changes. Please try again.");
+			}
+		},
+	});
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				form.handleSubmit();
+			}}
+		>
+			<div>
+				<label htmlFor="title">Title for this date</label>
+				<form.Field name="title">
+					{(field) => (
+						<input
+							id="title"
+							name="title"
+							value={field.state.value}
+							onChange={(e) => field.handleChange(e.target.value)}
+							required
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="startsAt">Starts (Portland time)</label>
+				<form.Field name="startsAt">
+					{(field) => (
+						<input
+							id="startsAt"
+							name="startsAt"
+							type="datetime-local"
+							value={field.state.value}
+							onChange={(e) => field.handleChange(e.target.value)}
+							required
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="endsAt">Ends (optional)</label>
+				<form.Field name="endsAt">
+					{(field) => (
+						<input
+							id="endsAt"
+							name="endsAt"
+							type="datetime-local"
+							value={field.state.value}
+							onChange={(e) => field.handleChange(e.target.value)}
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<button
+				type="submit"
+				disabled={form.state.isSubmitting || updateOccurrence.isPending}
+			>
+				{form.state.isSubmitting || updateOccurrence.isPending
+					? "Saving..."
+					: "Save This Date"}
+			</button>
+		</form>
+	);
+}
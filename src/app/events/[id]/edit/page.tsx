@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { eventPath, parseOccurrenceParam } from "~/shared/recurrence";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { CreateEventForm } from "../../create/_components/create-event-form";
+import { OccurrenceForm } from "./_components/occurrence-form";
+
+/**
+ * Edit page for an event, reusing the create form in edit mode.
+ *
+ * Only the event's organizer, or a member of the organization it was
+ * posted for, may edit it; everyone else is told so instead of seeing the
+ * form. `event.update` enforces the same check server-side.
+ * With `?occurrence=`, only that date of a recurring event is edited.
+ *
+ * @param params - Route parameters containing the event ID (must be awaited in Next.js 15)
+ * @param searchParams - Query parameters, optionally naming an occurrence
+ * @returns The edit page JSX element or 404 if the event is not found
+ */
+export default async function EditEventPage({
+	params,
+	searchParams,
+}: {
+	params: Promise<{ id: string }>;
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const { id } = await params;
+	const occurrenceParam = parseOccurrenceParam((await searchParams).occurrence);
+	const session = await auth();
+
+	if (!session) {
+		const path = occurrenceParam
+			? `/events/${id}/edit?occurrence=${encodeURIComponent(occurrenceParam.toISOString())}`
+			: `/events/${id}/edit`;
+		redirect(`/api/auth/signin?callbackUrl=${encodeURIComponent(path)}`);
+	}
+
+	const event = await api.event.getById({ id, occurrence: occurrenceParam });
+
+	if (!event) {
+		notFound();
+	}
+
+	if (!event.canManage) {
+		return (
+			<main>
+				<h1>Edit Event</h1>
+				<p>
+					Only the organizer who posted this event, or a member of its
+					organization, can edit it.
+				</p>
+				<Link href={`/events/${event.id}`}>← Back to event</Link>
+			</main>
+		);
+	}
+
+	if (event.occurrence?.occurrenceStart) {
+		return (
+			<main>
+				<Link href={eventPath(event.id, event.occurrence.occurrenceStart)}>
+					← Back to event
+				</Link>
+				<h1>
+					Edit {formatEventDateTime(event.occurrence.occurrenceStart)} only
+				</h1>
+				<p>
+					To change every date,{" "}
+					<Link href={`/events/${event.id}/edit`}>edit the whole series</Link>.
+				</p>
+				<OccurrenceForm eventId={event.id} occurrence={event.occurrence} />
+			</main>
+		);
+	}
+
+	return (
+		<main>
+			<Link href={`/events/${event.id}`}>← Back to event</Link>
+			<h1>Edit Event</h1>
+			<CreateEventForm event={event} />
+		</main>
+	);
+}
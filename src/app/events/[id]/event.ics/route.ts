@@ -0,0 +1,40 @@
+import { and, eq } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { events } from "~/server/db/schema";
+import { publicEventsWhere } from "~/server/event-visibility";
+import { buildCalendar, findCalendarEvents } from "~/server/ical";
+
+/**
+ * Serves a single event as an iCalendar download for "Add to calendar".
+ * Recurring events include every date, plus any changed or cancelled ones.
+ *
+ * @returns 200 with a `text/calendar` attachment, or 404 when the event
+ *   doesn't exist or is deleted
+ */
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params;
+	const [event] = await findCalendarEvents(
+		db,
+		and(eq(events.id, id), publicEventsWhere()),
+	);
+	if (!event) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	const calendar = buildCalendar({
+		name: event.title,
+		baseUrl: new URL(request.url).origin,
+		events: [event],
+	});
+	return new Response(calendar, {
+		headers: {
+			"Content-Type": "text/calendar; charset=utf-8",
+			"Content-Disposition": `attachment; filename="event-${event.id}.ics"`,
+			"Cache-Control": "public, max-age=300",
+		},
+	});
+}
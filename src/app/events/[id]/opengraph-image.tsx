@@ -0,0 +1,116 @@
+import { ImageResponse } from "next/og";
+
+import { readFlyerAsPng } from "~/server/flyers";
+import { describeRecurrence, parseRecurrenceRule } from "~/shared/recurrence";
+import { formatEventTimeRange } from "~/shared/time";
+import { api } from "~/trpc/server";
+
+export const alt = "Event title, date and flyer";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+/**
+ * Open Graph image for an event page: the title, date and venue beside the
+ * flyer. Recurring events show their schedule and next date.
+ *
+ * @param params - Route parameters containing the event ID
+ * @returns A 1200×630 PNG, or a plain "PDX DIY" card when the event isn't
+ *   visible
+ */
+export default async function EventOpenGraphImage({
+	params,
+}: {
+	params: { id: string };
+}) {
+	const event = await api.event.getById({ id: params.id });
+	if (!event || event.status === "deleted") {
+		return new ImageResponse(
+			<div
+				style={{
+					display: "flex",
+					width: "100%",
+					height: "100%",
+					alignItems: "center",
+					justifyContent: "center",
+					background: "#111",
+					color: "#fff",
+					fontSize: 96,
+				}}
+			>
+				PDX DIY
+			</div>,
+			size,
+		);
+	}
+
+	const rule = event.recurrenceRule
+		? parseRecurrenceRule(event.recurrenceRule)
+		: null;
+	const shown = event.upcomingOccurrences[0] ?? event;
+	const flyer = event.flyer
+		? await readFlyerAsPng(event.flyer.id, "medium")
+		: null;
+
+	return new ImageResponse(
+		<div
+			style={{
+				display: "flex",
+				width: "100%",
+				height: "100%",
+				background: "#111",
+				color: "#fff",
+			}}
+		>
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					justifyContent: "space-between",
+					flex: 1,
+					padding: 64,
+				}}
+			>
+				<div style={{ display: "flex", flexDirection: "column" }}>
+					{shown.status !== "scheduled" && (
+						<div style={{ fontSize: 32, color: "#ff6b6b" }}>
+							{shown.status === "cancelled" ? "Cancelled" : "Postponed"}
+						</div>
+					)}
+					<div
+						style={{
+							fontSize: shown.title.length > 60 ? 52 : 72,
+							fontWeight: 700,
+							lineHeight: 1.1,
+						}}
+					>
+						{shown.title}
+					</div>
+				</div>
+				<div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+					<div style={{ fontSize: 36 }}>
+						{formatEventTimeRange(shown.startsAt, shown.endsAt)}
+					</div>
+					{rule && (
+						<div style={{ fontSize: 28, color: "#bbb" }}>
+							{describeRecurrence(rule, event.startsAt)}
+						</div>
+					)}
+					{event.venue && (
+						<div style={{ fontSize: 32, color: "#bbb" }}>
+							{event.venue.name}
+						</div>
+					)}
+					<div style={{ fontSize: 28, color: "#888" }}>PDX DIY</div>
+				</div>
+			</div>
+			{flyer && (
+				// biome-ignore lint/a11y/useAltText: the image's alt text is exported as `alt`
+				<img
+					src={`data:image/png;base64,${flyer.toString("base64")}`}
+					style={{ height: "100%", maxWidth: 500, objectFit: "cover" }}
+				/>
+			)}
+		</div>,
+		size,
+	);
+}
@@ -1,15 +1,153 @@
+import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { cache } from "react";
 
+import { env } from "~/env";
+import { auth } from "~/server/auth";
+import {
+	buildEventJsonLd,
+	describeEventPreview,
+	serializeJsonLd,
+} from "~/server/event-metadata";
+import {
+	ACCESSIBILITY_LABELS,
+	AGE_POLICY_LABELS,
+	formatPrice,
+} from "~/shared/event-details";
+import { flyerSrcSet } from "~/shared/flyers";
+import {
+	describeRecurrence,
+	eventPath,
+	parseOccurrenceParam,
+	parseRecurrenceRule,
+} from "~/shared/recurrence";
+import { isEventPublished } from "~/shared/schemas/event";
+import { isEventApproved } from "~/shared/schemas/moderation";
+import {
+	formatEventDate,
+	formatEventDateTime,
+	formatEventTimeRange,
+	fromZonedDateValue,
+} from "~/shared/time";
 import { api } from "~/trpc/server";
+import { PublishButton } from "../../_components/publish-button";
+import { RichText } from "../../_components/rich-text";
+import { AddressRequestButton } from "./_components/address-request-button";
+import { AddressRequests } from "./_components/address-requests";
+import { EventStatusActions } from "./_components/event-status-actions";
+import { OccurrenceActions } from "./_components/occurrence-actions";
+import { ReportButton } from "./_components/report-button";
+import { RsvpButtons } from "./_components/rsvp-buttons";
+
+type EventPageProps = {
+	params: Promise<{ id: string }>;
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+/**
+ * Loads the event once per request for both the metadata and the page.
+ */
+const getEvent = cache((id: string, occurrence: string | undefined) =>
+	api.event.getById({
+		id,
+		occurrence: occurrence ? new Date(occurrence) : undefined,
+	}),
+);
+
+/**
+ * Resolves the page's route and query parameters and loads the event.
+ */
+async function loadEventPage({ params, searchParams }: EventPageProps) {
+	const { id } = await params;
+	const occurrence = parseOccurrenceParam((await searchParams).occurrence);
+	return getEvent(id, occurrence?.toISOString());
+}
+
+/**
+ * The event with the details of the date being previewed: the requested
+ * occurrence, a series' next date, or the event itself.
+ */
+function toPreviewEvent(
+	event: NonNullable<Awaited<ReturnType<typeof loadEventPage>>>,
+) {
+	const shown = event.occurrence ?? event.upcomingOccurrences[0] ?? event;
+	return {
+		...event,
+		title: shown.title,
+		startsAt: shown.startsAt,
+		endsAt: shown.endsAt,
+		status: shown.status,
+		path: eventPath(
+			event.id,
+			"occurrenceStart" in shown ? shown.occurrenceStart : null,
+		),
+	};
+}
+
+/**
+ * Page title, description and Open Graph/Twitter tags for link previews.
+ * The preview image comes from `opengraph-image.tsx`.
+ */
+export async function generateMetadata(
+	props: EventPageProps,
+): Promise<Metadata> {
+	const event = await loadEventPage(props);
+	if (!event) {
+		return { title: "Event not found" };
+	}
+
+	const preview = toPreviewEvent(event);
+	const description = describeEventPreview(preview);
+	return {
+		title: preview.title,
+		description,
+		robots:
+			event.status === "deleted" ||
+			!isEventPublished(event) ||
+			!isEventApproved(event)
+				? { index: false }
+				: undefined,
+		openGraph: {
+			type: "website",
+			siteName: "PDX DIY",
+			title: preview.title,
+			description,
+			url: eventPath(event.id, event.occurrence?.occurrenceStart),
+		},
+		twitter: {
+			card: "summary_large_image",
+			title: preview.title,
+			description,
+		},
+	};
+}
 
 /**
  * Event detail page component displaying a single event's information.
  *
- * Shows the full details of an event including title, creation date,
- * and provides navigation back to the event list.
+ * Shows the full details of an event including title, start/end times
+ * (always in Portland time), venue, flyer, price, ticket link, age policy,
+ * accessibility, tag chips, description, creation date, RSVP counts and
+ * buttons with any spots left, an "Add to calendar" download, and provides
+ * navigation back to the event list. Private venues only show their
+ * neighborhood until the viewer is going or approved by the organizer, who
+ * gets the list of address requests. Cancelled and postponed events get a
+ * banner with the organizer's note; organizers also get status controls and
+ * can still open their deleted events to restore them. Drafts and
+ * scheduled events are a preview for their organizer, with a button to
+ * publish them now; they're kept out of search engines until published.
+ * Events waiting for moderation, rejected with the moderator's reason, or
+ * hidden by reports are likewise only a preview. Signed-in visitors can
+ * report an event to the moderators. The page embeds schema.org `Event`
+ * structured data for search engines.
+ *
+ * Recurring events describe their schedule and list upcoming dates. With
+ * `?occurrence=`, the page shows that date's title, time and status, and
+ * organizers get controls for changing just that date.
  *
  * @param params - Route parameters containing the event ID (must be awaited in Next.js 15)
+ * @param searchParams - Query parameters, optionally naming an occurrence
  * @returns The event detail page JSX element or 404 if event not found
  *
  * @example
@@ -18,29 +156,279 @@ import { api } from "~/trpc/server";
  * <EventDetailPage params={Promise.resolve({ id: "123" })} />
  * ```
  */
-export default async function EventDetailPage({
-	params,
-}: {
-	params: Promise<{ id: string }>;
-}) {
-	const { id } = await params;
-	const event = await api.event.getById({ id });
+export default async function EventDetailPage(props: EventPageProps) {
+	const session = await auth();
+	const event = await loadEventPage(props);
 
 	if (!event) {
 		notFound();
 	}
 
+	const isOrganizer = event.canManage;
+	const rule = event.recurrenceRule
+		? parseRecurrenceRule(event.recurrenceRule)
+		: null;
+	// An occurrence's own details take the place of the series'
+	const shown = event.occurrence ?? event;
+	const preview = toPreviewEvent(event);
+	const price = formatPrice(event);
+	const isPublished = isEventPublished(event);
+	const isPublic = isPublished && isEventApproved(event);
+
 	return (
 		<main>
+			{event.status !== "deleted" && isPublic && (
+				<script
+					type="application/ld+json"
+					// biome-ignore lint/security/noDangerouslySetInnerHtml: serializeJsonLd escapes "<", so event text can't end the script
+					dangerouslySetInnerHTML={{
+						__html: serializeJsonLd(
+							buildEventJsonLd(
+								preview,
+								new URL(preview.path, env.SITE_URL).href,
+							),
+						),
+					}}
+				/>
+			)}
 			<div>
 				<Link href="/">← Back to events</Link>
 
-				<h1>{event.title}</h1>
+				<h1>{shown.title}</h1>
+				{event.organization && (
+					<p>
+						Presented by{" "}
+						<Link href={`/orgs/${event.organization.slug}`}>
+							{event.organization.name}
+						</Link>
+					</p>
+				)}
+
+				{shown.status === "cancelled" && (
+					<div>
+						<strong>
+							{event.occurrence && event.status === "scheduled"
+								? "This date has been cancelled."
+								: "This event has been cancelled."}
+						</strong>
+						{shown.statusNote && <p>{shown.statusNote}</p>}
+					</div>
+				)}
+				{shown.status === "postponed" && (
+					<div>
+						<strong>This event has been postponed.</strong>
+						{shown.statusNote && <p>{shown.statusNote}</p>}
+					</div>
+				)}
+				{!isPublished && event.status !== "deleted" && (
+					<div>
+						<strong>
+							{event.isDraft || !event.publishAt
+								? "This is a draft. Only you can see it until you publish it."
+								: `Scheduled to publish ${formatEventDateTime(event.publishAt)}. Only you can see it until then.`}
+						</strong>
+						<PublishButton eventId={event.id} />
+					</div>
+				)}
+				{event.moderationStatus === "pending" && event.status !== "deleted" && (
+					<div>
+						<strong>
+							Waiting for a moderator to review this event. Only you can see it
+							until it's approved.
+						</strong>
+					</div>
+				)}
+				{event.moderationStatus === "rejected" &&
+					event.status !== "deleted" && (
+						<div>
+							<strong>
+								A moderator didn't approve this event, so only you can see it.
+								Edit it to send it back for review.
+							</strong>
+							{event.moderationReason && <p>{event.moderationReason}</p>}
+						</div>
+					)}
+				{event.moderationStatus === "approved" &&
+					event.hiddenAt &&
+					event.status !== "deleted" && (
+						<div>
+							<strong>
+								People reported this event, so it's hidden while a moderator
+								takes a look. Only you can see it until then.
+							</strong>
+						</div>
+					)}
+				{event.status === "deleted" && (
+					<div>
+						<strong>
+							You deleted this event. Only you can see it until you restore it.
+						</strong>
+					</div>
+				)}
+
+				{isOrganizer && (
+					<>
+						{event.status !== "deleted" && (
+							<Link href={`/events/${event.id}/edit`}>Edit event</Link>
+						)}
+						<EventStatusActions eventId={event.id} status={event.status} />
+						{event.occurrence?.occurrenceStart &&
+							event.status === "scheduled" && (
+								<OccurrenceActions
+									eventId={event.id}
+									occurrenceStart={event.occurrence.occurrenceStart}
+									status={event.occurrence.status}
+								/>
+							)}
+					</>
+				)}
+
+				{event.flyer && (
+					<img
+						src={event.flyer.urls.medium}
+						srcSet={flyerSrcSet(event.flyer)}
+						sizes="(max-width: 800px) 100vw, 800px"
+						width={event.flyer.width}
+						height={event.flyer.height}
+						alt={event.flyerAlt ?? ""}
+						style={{ maxWidth: "100%", height: "auto" }}
+					/>
+				)}
+
+				<p>
+					<time dateTime={shown.startsAt.toISOString()}>
+						{formatEventTimeRange(shown.startsAt, shown.endsAt)}
+					</time>
+				</p>
+
+				{event.status !== "deleted" && (
+					<>
+						<RsvpButtons
+							eventId={event.id}
+							capacity={event.capacity}
+							counts={event.rsvpCounts}
+							status={event.myRsvp}
+							waitlistPosition={event.myWaitlistPosition}
+							isSignedIn={!!session}
+							isOpen={event.status !== "cancelled"}
+						/>
+						{isPublic && (
+							<p>
+								<a href={`/events/${event.id}/event.ics`}>Add to calendar</a>
+							</p>
+						)}
+					</>
+				)}
+
+				{rule && (
+					<div>
+						<p>{describeRecurrence(rule, event.startsAt)}</p>
+						{event.recurrenceExceptions.length > 0 && (
+							<p>
+								Skipping{" "}
+								{event.recurrenceExceptions
+									.map((date) => {
+										const day = fromZonedDateValue(date);
+										return day ? formatEventDate(day) : date;
+									})
+									.join(", ")}
+							</p>
+						)}
+						{event.upcomingOccurrences.length > 0 && (
+							<>
+								<h2>Upcoming dates</h2>
+								<ul>
+									{event.upcomingOccurrences.map((occurrence) => (
+										<li key={occurrence.occurrenceStart?.toISOString()}>
+											<Link
+												href={eventPath(event.id, occurrence.occurrenceStart)}
+											>
+												<time dateTime={occurrence.startsAt.toISOString()}>
+													{formatEventDateTime(occurrence.startsAt)}
+												</time>
+											</Link>
+											{occurrence.status === "cancelled" && " (cancelled)"}
+										</li>
+									))}
+								</ul>
+							</>
+						)}
+					</div>
+				)}
+
+				{event.venue && (
+					<>
+						<p>
+							<Link href={`/venues/${event.venue.id}`}>{event.venue.name}</Link>
+							{event.venue.streetAddress
+								? ` — ${event.venue.streetAddress}`
+								: null}
+							{event.venue.neighborhood
+								? ` (${event.venue.neighborhood})`
+								: null}
+							{!event.venue.streetAddress && event.venue.quadrant
+								? ` · ${event.venue.quadrant} Portland`
+								: null}
+						</p>
+						{event.venue.streetAddress === null &&
+							event.status !== "deleted" && (
+								<AddressRequestButton
+									eventId={event.id}
+									status={event.myAddressRequest}
+									isSignedIn={!!session}
+								/>
+							)}
+						{isOrganizer && event.venue.isPrivate && (
+							<AddressRequests eventId={event.id} />
+						)}
+					</>
+				)}
+
+				{(price || event.agePolicy) && (
+					<p>
+						{[price, event.agePolicy && AGE_POLICY_LABELS[event.agePolicy]]
+							.filter(Boolean)
+							.join(" · ")}
+					</p>
+				)}
+
+				{event.ticketUrl && (
+					<p>
+						<a href={event.ticketUrl} rel="noopener noreferrer nofollow">
+							Get tickets
+						</a>
+					</p>
+				)}
+
+				{event.accessibility.length > 0 && (
+					<div>
+						<h2>Accessibility</h2>
+						<ul>
+							{event.accessibility.map((feature) => (
+								<li key={feature}>{ACCESSIBILITY_LABELS[feature]}</li>
+							))}
+						</ul>
+					</div>
+				)}
+
+				{event.tags.length > 0 && (
+					<ul>
+						{event.tags.map((tag) => (
+							<li key={tag.slug}>
+								<Link href={`/tags/${tag.slug}`}>#{tag.name}</Link>
+							</li>
+						))}
+					</ul>
+				)}
+
+				{event.description && <RichText doc={event.description} />}
+
+				<p>Created: {formatEventDate(event.createdAt)}</p>
 
-				<p>Created: {event.createdAt.toLocaleDateString()}</p>
+				{event.updatedAt && <p>Updated: {formatEventDate(event.updatedAt)}</p>}
 
-				{event.updatedAt && (
-					<p>Updated: {event.updatedAt.toLocaleDateString()}</p>
+				{session && !isOrganizer && isPublic && event.status !== "deleted" && (
+					<ReportButton eventId={event.id} isReported={event.isReportedByMe} />
 				)}
 			</div>
 		</main>
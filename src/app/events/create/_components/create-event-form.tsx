@@ -1,21 +1,198 @@
 "use client";
 
 import { useForm } from "@tanstack/react-form";
-import { eventSchema } from "~/shared/schemas/event";
-import { api } from "~/trpc/react";
+import { TRPCClientError } from "@trpc/client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+	ACCESSIBILITY_FEATURES,
+	ACCESSIBILITY_LABELS,
+	AGE_POLICIES,
+	AGE_POLICY_LABELS,
+	type AccessibilityFeature,
+	type AgePolicy,
+	PRICE_KINDS,
+	PRICE_KIND_LABELS,
+	type PriceKind,
+} from "~/shared/event-details";
+import type { FlyerView } from "~/shared/flyers";
+import {
+	MAX_EVENT_CAPACITY,
+	type PublishMode,
+	eventSchema,
+	eventUpdateSchema,
+	isEventPublished,
+} from "~/shared/schemas/event";
+import { fromZonedInputValue, toZonedInputValue } from "~/shared/time";
+import { type RouterOutputs, api } from "~/trpc/react";
+import { DescriptionEditor } from "./description-editor";
+import { FlyerUpload } from "./flyer-upload";
+import {
+	RecurrenceFields,
+	type RecurrenceValues,
+	toRecurrenceInput,
+	toRecurrenceValues,
+} from "./recurrence-fields";
+import { TagSelector } from "./tag-selector";
+import { type VenueOption, VenuePicker } from "./venue-picker";
 
-export function CreateEventForm() {
+type EditableEvent = NonNullable<RouterOutputs["event"]["getById"]>;
+
+type FormValues = {
+	/** The organization to post on behalf of; blank posts as yourself */
+	organizationId: string;
+	title: string;
+	description: unknown;
+	startsAt: string;
+	endsAt: string;
+	venue: VenueOption | null;
+	flyer: FlyerView | null;
+	flyerAlt: string;
+	tags: string[];
+	priceKind: "" | PriceKind;
+	priceMin: string;
+	priceMax: string;
+	ticketUrl: string;
+	agePolicy: "" | AgePolicy;
+	accessibility: AccessibilityFeature[];
+	capacity: string;
+	recurrence: RecurrenceValues;
+	publish: PublishMode;
+	publishAt: string;
+};
+
+const toPublishMode = (event?: EditableEvent): PublishMode =>
+	!event || isEventPublished(event)
+		? "now"
+		: event.isDraft
+			? "draft"
+			: "schedule";
+
+/**
+ * Converts a dollar amount as typed into cents; blank means no amount.
+ * Anything unparseable becomes NaN for the schema to reject.
+ */
+const toCents = (dollars: string) =>
+	dollars.trim() ? Math.round(Number(dollars) * 100) : null;
+
+const toDollars = (cents: number | null) =>
+	cents === null ? "" : String(cents / 100);
+
+/**
+ * Builds the form's initial values, from an existing event in edit mode.
+ */
+const toFormValues = (event?: EditableEvent): FormValues => ({
+	organizationId: event?.organizationId ?? "",
+	title: event?.title ?? "",
+	description: event?.description ?? null,
+	startsAt: event ? toZonedInputValue(event.startsAt) : "",
+	endsAt: event?.endsAt ? toZonedInputValue(event.endsAt) : "",
+	venue: event?.venue ?? null,
+	flyer: event?.flyer ?? null,
+	flyerAlt: event?.flyerAlt ?? "",
+	tags: event?.tags.map((tag) => tag.name) ?? [],
+	priceKind: event?.priceKind ?? "",
+	priceMin: toDollars(event?.priceMinCents ?? null),
+	priceMax: toDollars(event?.priceMaxCents ?? null),
+	ticketUrl: event?.ticketUrl ?? "",
+	agePolicy: event?.agePolicy ?? "",
+	accessibility: event?.accessibility ?? [],
+	capacity: event?.capacity ? String(event.capacity) : "",
+	publish: toPublishMode(event),
+	publishAt:
+		event?.publishAt && !isEventPublished(event)
+			? toZonedInputValue(event.publishAt)
+			: "",
+	recurrence: toRecurrenceValues(
+		event?.recurrenceRule ?? null,
+		event?.recurrenceExceptions,
+	),
+});
+
+/**
+ * Maps form values onto event input. Date inputs hold Portland wall-clock
+ * strings, so they're converted to instants before validation.
+ */
+const toEventInput = (value: FormValues) => {
+	const startsAt = fromZonedInputValue(value.startsAt);
+	return {
+		organizationId: value.organizationId || null,
+		title: value.title,
+		description: value.description,
+		startsAt: startsAt ?? undefined,
+		endsAt: value.endsAt ? fromZonedInputValue(value.endsAt) : null,
+		venueId: value.venue?.id ?? null,
+		flyerId: value.flyer?.id ?? null,
+		flyerAlt: value.flyer ? value.flyerAlt : null,
+		tags: value.tags,
+		priceKind: value.priceKind || null,
+		priceMinCents: toCents(value.priceMin),
+		priceMaxCents: toCents(value.priceMax),
+		ticketUrl: value.ticketUrl.trim() || null,
+		agePolicy: value.agePolicy || null,
+		accessibility: value.accessibility,
+		capacity: value.capacity ? Number(value.capacity) : null,
+		recurrence: toRecurrenceInput(value.recurrence, startsAt),
+		publish: value.publish,
+		publishAt:
+			value.publish === "schedule"
+				? fromZonedInputValue(value.publishAt)
+				: null,
+	};
+};
+
+const isConflict = (error: unknown) =>
+	error instanceof TRPCClientError && error.data?.code === "CONFLICT";
+
+/**
+ * Form for creating an event, or editing one when `event` is given.
+ *
+ * In edit mode the form is pre-filled and saves through `event.update`,
+ * passing the loaded `updatedAt` so concurrent edits are detected.
+ *
+ * @param event - The event to edit; omit to create a new event
+ */
+export function CreateEventForm({ event }: { event?: EditableEvent }) {
+	const router = useRouter();
+	const { data: organizations = [] } = api.organization.listMine.useQuery();
 	const createEvent = api.event.create.useMutation();
+	const updateEvent = api.event.update.useMutation();
+	const isPending = createEvent.isPending || updateEvent.isPending;
+	// The rich-text editor keeps its own state, so remount it on reset
+	const [editorKey, setEditorKey] = useState(0);
 
 	const form = useForm({
-		defaultValues: {
-			title: "",
-		},
+		defaultValues: toFormValues(event),
 		onSubmit: async ({ value }) => {
-			// Validate using the shared schema
-			const validation = eventSchema.safeParse(value);
+			if (event) {
+				const validation = eventUpdateSchema.safeParse({
+					...toEventInput(value),
+					id: event.id,
+					expectedUpdatedAt: event.updatedAt,
+				});
+				if (!validation.success) {
+					alert(validation.error.issues[0]?.message ?? "Please check the form");
+					return;
+				}
+
+				try {
+					await updateEvent.mutateAsync(validation.data);
+					router.push(`/events/${event.id}`);
+					router.refresh();
+				} catch (error) {
+					console.error("Failed to update event:", error);
+					alert(
+						isConflict(error)
+							? "Someone else changed this event while you were editing. Reload the page to see their changes."
+							: "Failed to save changes. Please try again.",
+					);
+				}
+				return;
+			}
+
+			const validation = eventSchema.safeParse(toEventInput(value));
 			if (!validation.success) {
-				alert("Please enter a valid title");
+				alert(validation.error.issues[0]?.message ?? "Please check the form");
 				return;
 			}
 
@@ -23,6 +200,7 @@ export function CreateEventForm() {
 				await createEvent.mutateAsync(validation.data);
 				// Reset form on success
 				form.reset();
+				setEditorKey((key) => key + 1);
 				alert("Event created successfully!");
 			} catch (error) {
 				console.error("Failed to create event:", error);
@@ -39,6 +217,29 @@ export function CreateEventForm() {
 				form.handleSubmit();
 			}}
 		>
+			{organizations.length > 0 && (
+				<div>
+					<label htmlFor="organizationId">Post as</label>
+					<form.Field name="organizationId">
+						{(field) => (
+							<select
+								id="organizationId"
+								name="organizationId"
+								value={field.state.value}
+								onChange={(e) => field.handleChange(e.target.value)}
+							>
+								<option value="">Myself</option>
+								{organizations.map((org) => (
+									<option key={org.id} value={org.id}>
+										{org.name}
+									</option>
+								))}
+							</select>
+						)}
+					</form.Field>
+				</div>
+			)}
+
 			<div>
 				<label htmlFor="title">Event Title</label>
 				<form.Field
@@ -68,13 +269,415 @@ export function CreateEventForm() {
 				</form.Field>
 			</div>
 
-			<button
-				type="submit"
-				disabled={form.state.isSubmitting || createEvent.isPending}
-			>
-				{form.state.isSubmitting || createEvent.isPending
-					? "Creating..."
-					: "Create Event"}
+			<div>
+				<label htmlFor="description">Description</label>
+				<form.Field name="description">
+					{(field) => (
+						<DescriptionEditor
+							key={editorKey}
+							value={event?.description ?? null}
+							onChange={(doc) => field.handleChange(doc)}
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="startsAt">Starts (Portland time)</label>
+				<form.Field
+					name="startsAt"
+					validators={{
+						onChange: ({ value }) =>
+							fromZonedInputValue(value) ? undefined : "Start time is required",
+					}}
+				>
+					{(field) => (
+						<>
+							<input
+								id="startsAt"
+								name="startsAt"
+								type="datetime-local"
+								value={field.state.value}
+								onChange={(e) => field.handleChange(e.target.value)}
+								onBlur={field.handleBlur}
+								required
+							/>
+							{field.state.meta.errors && (
+								<div style={{ color: "red" }}>
+									{field.state.meta.errors.join(", ")}
+								</div>
+							)}
+						</>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="endsAt">Ends (optional)</label>
+				<form.Field
+					name="endsAt"
+					validators={{
+						onChangeListenTo: ["startsAt"],
+						onChange: ({ value, fieldApi }) => {
+							if (!value) return undefined;
+							const endsAt = fromZonedInputValue(value);
+							const startsAt = fromZonedInputValue(
+								fieldApi.form.getFieldValue("startsAt"),
+							);
+							if (!endsAt) return "End time is invalid";
+							return startsAt && endsAt <= startsAt
+								? "End time must be after the start time"
+								: undefined;
+						},
+					}}
+				>
+					{(field) => (
+						<>
+							<input
+								id="endsAt"
+								name="endsAt"
+								type="datetime-local"
+								value={field.state.value}
+								onChange={(e) => field.handleChange(e.target.value)}
+								onBlur={field.handleBlur}
+							/>
+							{field.state.meta.errors && (
+								<div style={{ color: "red" }}>
+									{field.state.meta.errors.join(", ")}
+								</div>
+							)}
+						</>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="venue">Venue</label>
+				<form.Field name="venue">
+					{(field) => (
+						<VenuePicker
+							value={field.state.value}
+							onChange={(venue) => field.handleChange(venue)}
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="flyer">Flyer (optional)</label>
+				<form.Field name="flyer">
+					{(field) => (
+						<FlyerUpload
+							value={field.state.value}
+							onChange={(flyer) => field.handleChange(flyer)}
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<form.Subscribe selector={(state) => state.values.flyer}>
+				{(flyer) =>
+					flyer && (
+						<div>
+							<label htmlFor="flyerAlt">Describe the flyer</label>
+							<form.Field
+								name="flyerAlt"
+								validators={{
+									onChange: ({ value }) =>
+										value.trim() ? undefined : "Flyer description is required",
+								}}
+							>
+								{(field) => (
+									<>
+										<textarea
+											id="flyerAlt"
+											name="flyerAlt"
+											value={field.state.value}
+											onChange={(e) => field.handleChange(e.target.value)}
+											onBlur={field.handleBlur}
+											placeholder="Bands, date and any text on the flyer"
+											required
+										/>
+										{field.state.meta.errors && (
+											<div style={{ color: "red" }}>
+												{field.state.meta.errors.join(", ")}
+											</div>
+										)}
+									</>
+								)}
+							</form.Field>
+						</div>
+					)
+				}
+			</form.Subscribe>
+
+			<div>
+				<label htmlFor="tags">Tags (optional)</label>
+				<form.Field name="tags">
+					{(field) => (
+						<TagSelector
+							value={field.state.value}
+							onChange={(tags) => field.handleChange(tags)}
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="priceKind">Price</label>
+				<form.Field name="priceKind">
+					{(field) => (
+						<select
+							id="priceKind"
+							name="priceKind"
+							value={field.state.value}
+							onChange={(e) =>
+								field.handleChange(e.target.value as FormValues["priceKind"])
+							}
+						>
+							<option value="">Not sure yet</option>
+							{PRICE_KINDS.map((kind) => (
+								<option key={kind} value={kind}>
+									{PRICE_KIND_LABELS[kind]}
+								</option>
+							))}
+						</select>
+					)}
+				</form.Field>
+			</div>
+
+			<form.Subscribe selector={(state) => state.values.priceKind}>
+				{(priceKind) =>
+					priceKind &&
+					priceKind !== "free" && (
+						<div>
+							<label htmlFor="priceMin">
+								{priceKind === "sliding"
+									? "Lowest price ($)"
+									: priceKind === "donation"
+										? "Suggested donation ($, optional)"
+										: "Price ($)"}
+							</label>
+							<form.Field name="priceMin">
+								{(field) => (
+									<input
+										id="priceMin"
+										name="priceMin"
+										type="number"
+										min={0}
+										step="0.01"
+										value={field.state.value}
+										onChange={(e) => field.handleChange(e.target.value)}
+										onBlur={field.handleBlur}
+									/>
+								)}
+							</form.Field>
+							{priceKind === "sliding" && (
+								<>
+									<label htmlFor="priceMax">Highest price ($)</label>
+									<form.Field name="priceMax">
+										{(field) => (
+											<input
+												id="priceMax"
+												name="priceMax"
+												type="number"
+												min={0}
+												step="0.01"
+												value={field.state.value}
+												onChange={(e) => field.handleChange(e.target.value)}
+												onBlur={field.handleBlur}
+											/>
+										)}
+									</form.Field>
+								</>
+							)}
+						</div>
+					)
+				}
+			</form.Subscribe>
+
+			<div>
+				<label htmlFor="ticketUrl">Ticket link (optional)</label>
+				<form.Field name="ticketUrl">
+					{(field) => (
+						<input
+							id="ticketUrl"
+							name="ticketUrl"
+							type="url"
+							value={field.state.value}
+							onChange={(e) => field.handleChange(e.target.value)}
+							onBlur={field.handleBlur}
+							placeholder="https://"
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="agePolicy">Ages</label>
+				<form.Field name="agePolicy">
+					{(field) => (
+						<select
+							id="agePolicy"
+							name="agePolicy"
+							value={field.state.value}
+							onChange={(e) =>
+								field.handleChange(e.target.value as FormValues["agePolicy"])
+							}
+						>
+							<option value="">Not sure yet</option>
+							{AGE_POLICIES.map((policy) => (
+								<option key={policy} value={policy}>
+									{AGE_POLICY_LABELS[policy]}
+								</option>
+							))}
+						</select>
+					)}
+				</form.Field>
+			</div>
+
+			<form.Field name="accessibility">
+				{(field) => (
+					<fieldset>
+						<legend>Accessibility</legend>
+						{ACCESSIBILITY_FEATURES.map((feature) => (
+							<label key={feature}>
+								<input
+									type="checkbox"
+									name="accessibility"
+									value={feature}
+									checked={field.state.value.includes(feature)}
+									onChange={(e) =>
+										field.handleChange(
+											e.target.checked
+												? [...field.state.value, feature]
+												: field.state.value.filter((f) => f !== feature),
+										)
+									}
+								/>
+								{ACCESSIBILITY_LABELS[feature]}
+							</label>
+						))}
+					</fieldset>
+				)}
+			</form.Field>
+
+			<div>
+				<label htmlFor="capacity">Capacity (optional)</label>
+				<form.Field name="capacity">
+					{(field) => (
+						<>
+							<input
+								id="capacity"
+								name="capacity"
+								type="number"
+								min={1}
+								max={MAX_EVENT_CAPACITY}
+								value={field.state.value}
+								onChange={(e) => field.handleChange(e.target.value)}
+								onBlur={field.handleBlur}
+							/>
+							<p>
+								Once this many people are going, more RSVPs join a waitlist.
+							</p>
+						</>
+					)}
+				</form.Field>
+			</div>
+
+			<div>
+				<label htmlFor="recurrence">Repeats</label>
+				<form.Subscribe selector={(state) => state.values.startsAt}>
+					{(startsAt) => (
+						<form.Field name="recurrence">
+							{(field) => (
+								<RecurrenceFields
+									value={field.state.value}
+									startsAt={fromZonedInputValue(startsAt)}
+									onChange={(recurrence) => field.handleChange(recurrence)}
+								/>
+							)}
+						</form.Field>
+					)}
+				</form.Subscribe>
+			</div>
+
+			<fieldset>
+				<legend>Publishing</legend>
+				<form.Field name="publish">
+					{(field) => (
+						<>
+							{(
+								[
+									["now", event ? "Published" : "Publish now"],
+									["schedule", "Publish at a set time"],
+									["draft", "Save as a draft"],
+								] as const
+							).map(([mode, label]) => (
+								<label key={mode}>
+									<input
+										type="radio"
+										name="publish"
+										value={mode}
+										checked={field.state.value === mode}
+										onChange={() => field.handleChange(mode)}
+									/>
+									{label}
+								</label>
+							))}
+						</>
+					)}
+				</form.Field>
+				<form.Subscribe selector={(state) => state.values.publish}>
+					{(publish) =>
+						publish === "schedule" && (
+							<div>
+								<label htmlFor="publishAt">Publish at (Portland time)</label>
+								<form.Field
+									name="publishAt"
+									validators={{
+										onChange: ({ value }) =>
+											fromZonedInputValue(value)
+												? undefined
+												: "Publish time is required",
+									}}
+								>
+									{(field) => (
+										<>
+											<input
+												id="publishAt"
+												name="publishAt"
+												type="datetime-local"
+												value={field.state.value}
+												onChange={(e) => field.handleChange(e.target.value)}
+												onBlur={field.handleBlur}
+												required
+											/>
+											{field.state.meta.errors && (
+												<div style={{ color: "red" }}>
+													{field.state.meta.errors.join(", ")}
+												</div>
+											)}
+										</>
+									)}
+								</form.Field>
+							</div>
+						)
+					}
+				</form.Subscribe>
+				<p>
+					Drafts and scheduled events are only visible to you until they go up.
+				</p>
+			</fieldset>
+
+			<button type="submit" disabled={form.state.isSubmitting || isPending}>
+				{event
+					? form.state.isSubmitting || isPending
+						? "Saving..."
+						: "Save Changes"
+					: form.state.isSubmitting || isPending
+						? "Creating..."
+						: "Create Event"}
 			</button>
 		</form>
 	);
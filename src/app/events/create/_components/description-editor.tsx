@@ -0,0 +1,148 @@
+"use client";
+
+import { EditorContent, useEditor, useEditorState } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import { type RichTextDoc, sanitizeHref } from "~/shared/rich-text";
+
+/**
+ * Editor features, limited to what `~/shared/rich-text` can store. Anything
+ * else would be silently dropped by the sanitizer on save.
+ */
+const extensions = [
+	StarterKit.configure({
+		heading: { levels: [2, 3] },
+		code: false,
+		codeBlock: false,
+		horizontalRule: false,
+		underline: false,
+		link: {
+			openOnClick: false,
+			autolink: true,
+			defaultProtocol: "https",
+			isAllowedUri: (url) => sanitizeHref(url) !== null,
+		},
+	}),
+];
+
+/**
+ * WYSIWYG editor for event descriptions.
+ *
+ * Emits TipTap's ProseMirror JSON on every change; the document is validated
+ * and sanitized by `eventSchema` before it's saved.
+ *
+ * @param value - The initial document, or null for an empty editor
+ * @param onChange - Called with the editor's JSON after every change
+ */
+export function DescriptionEditor({
+	value,
+	onChange,
+}: {
+	value: RichTextDoc | null;
+	onChange: (doc: unknown) => void;
+}) {
+	const editor = useEditor({
+		extensions,
+		content: value,
+		// Avoid hydration mismatches; the editor mounts on the client only
+		immediatelyRender: false,
+		editorProps: {
+			attributes: { id: "description", "aria-label": "Event description" },
+		},
+		onUpdate: ({ editor }) => onChange(editor.getJSON()),
+	});
+
+	const active = useEditorState({
+		editor,
+		selector: ({ editor }) => ({
+			bold: editor?.isActive("bold") ?? false,
+			italic: editor?.isActive("italic") ?? false,
+			strike: editor?.isActive("strike") ?? false,
+			h2: editor?.isActive("heading", { level: 2 }) ?? false,
+			h3: editor?.isActive("heading", { level: 3 }) ?? false,
+			bulletList: editor?.isActive("bulletList") ?? false,
+			orderedList: editor?.isActive("orderedList") ?? false,
+			blockquote: editor?.isActive("blockquote") ?? false,
+			link: editor?.isActive("link") ?? false,
+		}),
+	});
+
+	const setLink = () => {
+		if (!editor) return;
+		const url = window.prompt("Link URL", editor.getAttributes("link").href);
+		if (url === null) return;
+		if (url.trim() === "") {
+			editor.chain().focus().extendMarkRange("link").unsetLink().run();
+			return;
+		}
+
+		const href = sanitizeHref(url.includes(":") ? url : `https://${url}`);
+		if (!href) {
+			alert("Links must be web or email addresses");
+			return;
+		}
+		editor.chain().focus().extendMarkRange("link").setLink({ href }).run();
+	};
+
+	const buttons = [
+		{
+			label: "Bold",
+			pressed: active?.bold,
+			run: () => editor?.chain().focus().toggleBold().run(),
+		},
+		{
+			label: "Italic",
+			pressed: active?.italic,
+			run: () => editor?.chain().focus().toggleItalic().run(),
+		},
+		{
+			label: "Strikethrough",
+			pressed: active?.strike,
+			run: () => editor?.chain().focus().toggleStrike().run(),
+		},
+		{
+			label: "Heading",
+			pressed: active?.h2,
+			run: () => editor?.chain().focus().toggleHeading({ level: 2 }).run(),
+		},
+		{
+			label: "Subheading",
+			pressed: active?.h3,
+			run: () => editor?.chain().focus().toggleHeading({ level: 3 }).run(),
+		},
+		{
+			label: "Bulleted list",
+			pressed: active?.bulletList,
+			run: () => editor?.chain().focus().toggleBulletList().run(),
+		},
+		{
+			label: "Numbered list",
+			pressed: active?.orderedList,
+			run: () => editor?.chain().focus().toggleOrderedList().run(),
+		},
+		{
+			label: "Quote",
+			pressed: active?.blockquote,
+			run: () => editor?.chain().focus().toggleBlockquote().run(),
+		},
+		{ label: "Link", pressed: active?.link, run: setLink },
+	];
+
+	return (
+		<div>
+			<div role="toolbar" aria-label="Formatting">
+				{buttons.map((button) => (
+					<button
+						key={button.label}
+						type="button"
+						aria-pressed={button.pressed ?? false}
+						disabled={!editor}
+						onClick={button.run}
+					>
+						{button.label}
+					</button>
+				))}
+			</div>
+			<EditorContent editor={editor} />
+		</div>
+	);
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import {
+	ACCEPTED_FLYER_TYPES,
+	type FlyerView,
+	MAX_FLYER_BYTES,
+} from "~/shared/flyers";
+
+/**
+ * Uploads a flyer image and reports the stored flyer back to the form.
+ *
+ * Files are checked against the same type and size limits the upload route
+ * enforces before being sent, so obvious mistakes fail fast.
+ *
+ * @param value - The currently attached flyer, or null
+ * @param onChange - Called with the uploaded flyer, or null when removed
+ */
+export function FlyerUpload({
+	value,
+	onChange,
+}: {
+	value: FlyerView | null;
+	onChange: (flyer: FlyerView | null) => void;
+}) {
+	const [isUploading, setIsUploading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const upload = async (file: File) => {
+		setError(null);
+
+		if (!(ACCEPTED_FLYER_TYPES as readonly string[]).includes(file.type)) {
+			setError("Flyers must be JPEG, PNG or WebP images");
+			return;
+		}
+		if (file.size > MAX_FLYER_BYTES) {
+			setError("Flyers must be 10 MB or smaller");
+			return;
+		}
+
+		setIsUploading(true);
+		try {
+			const body = new FormData();
+			body.append("file", file);
+			const response = await fetch("/api/uploads", { method: "POST", body });
+			const result = (await response.json()) as FlyerView | { error: string };
+
+			if (!response.ok || "error" in result) {
+				setError("error" in result ? result.error : "Upload failed");
+				return;
+			}
+			onChange(result);
+		} catch (err) {
+			console.error("Failed to upload flyer:", err);
+			setError("Failed to upload flyer. Please try again.");
+		} finally {
+			setIsUploading(false);
+		}
+	};
+
+	if (value) {
+		return (
+			<div>
+				{/* Decorative preview; the flyer is described in its own field */}
+				<img src={value.urls.thumb} alt="" width={160} />
+				<button type="button" onClick={() => onChange(null)}>
+					Remove flyer
+				</button>
+			</div>
+		);
+	}
+
+	return (
+		<div>
+			<input
+				id="flyer"
+				name="flyer"
+				type="file"
+				accept={ACCEPTED_FLYER_TYPES.join(",")}
+				disabled={isUploading}
+				onChange={(e) => {
+					const file = e.target.files?.[0];
+					if (file) {
+						void upload(file);
+					}
+				}}
+			/>
+			{isUploading && <p>Uploading...</p>}
+			{error && <div style={{ color: "red" }}>{error}</div>}
+		</div>
+	);
+}
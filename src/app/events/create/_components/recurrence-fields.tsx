@@ -0,0 +1,312 @@
+"use client";
+
+import { useState } from "react";
+import {
+	MAX_RECURRENCE_COUNT,
+	MAX_RECURRENCE_EXCEPTIONS,
+	MAX_RECURRENCE_INTERVAL,
+	type RecurrenceFrequency,
+	type RecurrenceRule,
+	WEEKDAYS,
+	type Weekday,
+	describeRecurrence,
+	formatRecurrenceRule,
+	monthlyWeekdayFor,
+	parseRecurrenceRule,
+} from "~/shared/recurrence";
+import type { RecurrenceInput } from "~/shared/schemas/event";
+import {
+	formatEventDate,
+	fromZonedDateValue,
+	toZonedDateValue,
+} from "~/shared/time";
+
+/**
+ * The repeat settings as edited in the form. `freq` is "" for one-off
+ * events; numbers and dates are kept as input strings.
+ */
+export type RecurrenceValues = {
+	freq: "" | RecurrenceFrequency;
+	interval: string;
+	weekdays: Weekday[];
+	monthly: "day" | "weekday";
+	ends: "never" | "on" | "after";
+	until: string;
+	count: string;
+	exceptions: string[];
+};
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+	MO: "Mon",
+	TU: "Tue",
+	WE: "Wed",
+	TH: "Thu",
+	FR: "Fri",
+	SA: "Sat",
+	SU: "Sun",
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+	DAILY: "day(s)",
+	WEEKLY: "week(s)",
+	MONTHLY: "month(s)",
+};
+
+/**
+ * Builds the form's repeat settings from a stored rule, or the defaults for
+ * a one-off event.
+ */
+export function toRecurrenceValues(
+	recurrenceRule: string | null,
+	exceptions: string[] = [],
+): RecurrenceValues {
+	const rule = recurrenceRule ? parseRecurrenceRule(recurrenceRule) : null;
+	return {
+		freq: rule?.freq ?? "",
+		interval: String(rule?.interval ?? 1),
+		weekdays:
+			rule?.freq === "WEEKLY" ? rule.byDay.map((day) => day.weekday) : [],
+		monthly: rule?.freq === "MONTHLY" && rule.byDay.length ? "weekday" : "day",
+		ends: rule?.count ? "after" : rule?.until ? "on" : "never",
+		until: rule?.until ? toZonedDateValue(rule.until) : "",
+		count: rule?.count ? String(rule.count) : "",
+		exceptions,
+	};
+}
+
+/**
+ * Builds a rule from the form's repeat settings. Rules that repeat on the
+ * start's weekday or position in the month need `startsAt`.
+ *
+ * @returns The rule, or null when the event doesn't repeat
+ */
+function toRule(
+	values: RecurrenceValues,
+	startsAt: Date | null,
+): RecurrenceRule | null {
+	if (!values.freq) {
+		return null;
+	}
+
+	const until =
+		values.ends === "on" && values.until
+			? fromZonedDateValue(values.until, 1)
+			: null;
+	return {
+		freq: values.freq,
+		interval: Number(values.interval) || 1,
+		byDay:
+			values.freq === "WEEKLY"
+				? WEEKDAYS.filter((day) => values.weekdays.includes(day)).map(
+						(weekday) => ({ weekday, ordinal: null }),
+					)
+				: values.freq === "MONTHLY" && values.monthly === "weekday" && startsAt
+					? [monthlyWeekdayFor(startsAt)]
+					: [],
+		byMonthDay: [],
+		count: values.ends === "after" ? Number(values.count) || null : null,
+		// The end of the chosen Portland day
+		until: until ? new Date(until.getTime() - 1000) : null,
+	};
+}
+
+/**
+ * Maps the form's repeat settings onto `eventSchema`'s `recurrence` input.
+ *
+ * @param values - The form's repeat settings
+ * @param startsAt - The event's start, if already entered
+ * @returns The recurrence input, or null for a one-off event
+ */
+export function toRecurrenceInput(
+	values: RecurrenceValues,
+	startsAt: Date | null,
+): RecurrenceInput | null {
+	const rule = toRule(values, startsAt);
+	return rule
+		? { rule: formatRecurrenceRule(rule), exceptions: values.exceptions }
+		: null;
+}
+
+/**
+ * Inputs for making an event repeat: frequency, interval, weekdays or
+ * monthly pattern, when the series ends, and dates to skip. Shows a plain
+ * English summary of the resulting schedule.
+ *
+ * @param value - The current repeat settings
+ * @param startsAt - The event's start, used for monthly patterns and the
+ *   summary
+ * @param onChange - Called with the updated settings
+ */
+export function RecurrenceFields({
+	value,
+	startsAt,
+	onChange,
+}: {
+	value: RecurrenceValues;
+	startsAt: Date | null;
+	onChange: (value: RecurrenceValues) => void;
+}) {
+	const [skipDate, setSkipDate] = useState("");
+	const set = (changes: Partial<RecurrenceValues>) =>
+		onChange({ ...value, ...changes });
+
+	const rule = toRule(value, startsAt);
+	const monthlyWeekday = startsAt ? monthlyWeekdayFor(startsAt) : null;
+
+	return (
+		<div>
+			<select
+				id="recurrence"
+				name="recurrence"
+				value={value.freq}
+				onChange={(e) =>
+					set({ freq: e.target.value as RecurrenceValues["freq"] })
+				}
+			>
+				<option value="">Doesn't repeat</option>
+				<option value="DAILY">Daily</option>
+				<option value="WEEKLY">Weekly</option>
+				<option value="MONTHLY">Monthly</option>
+			</select>
+
+			{value.freq && (
+				<>
+					<div>
+						<label htmlFor="recurrenceInterval">Every</label>
+						<input
+							id="recurrenceInterval"
+							name="recurrenceInterval"
+							type="number"
+							min={1}
+							max={MAX_RECURRENCE_INTERVAL}
+							value={value.interval}
+							onChange={(e) => set({ interval: e.target.value })}
+						/>{" "}
+						{UNIT_LABELS[value.freq]}
+					</div>
+
+					{value.freq === "WEEKLY" && (
+						<fieldset>
+							<legend>On</legend>
+							{WEEKDAYS.map((day) => (
+								<label key={day}>
+									<input
+										type="checkbox"
+										checked={value.weekdays.includes(day)}
+										onChange={(e) =>
+											set({
+												weekdays: e.target.checked
+													? [...value.weekdays, day]
+													: value.weekdays.filter((w) => w !== day),
+											})
+										}
+									/>
+									{WEEKDAY_LABELS[day]}
+								</label>
+							))}
+						</fieldset>
+					)}
+
+					{value.freq === "MONTHLY" && (
+						<select
+							aria-label="Monthly on"
+							value={value.monthly}
+							onChange={(e) =>
+								set({ monthly: e.target.value as RecurrenceValues["monthly"] })
+							}
+						>
+							<option value="day">On the same day of the month</option>
+							<option value="weekday" disabled={!monthlyWeekday}>
+								On the same weekday of the month
+							</option>
+						</select>
+					)}
+
+					<div>
+						<label htmlFor="recurrenceEnds">Ends</label>
+						<select
+							id="recurrenceEnds"
+							name="recurrenceEnds"
+							value={value.ends}
+							onChange={(e) =>
+								set({ ends: e.target.value as RecurrenceValues["ends"] })
+							}
+						>
+							<option value="never">Never</option>
+							<option value="on">On a date</option>
+							<option value="after">After a number of dates</option>
+						</select>
+						{value.ends === "on" && (
+							<input
+								aria-label="Last date"
+								type="date"
+								value={value.until}
+								onChange={(e) => set({ until: e.target.value })}
+							/>
+						)}
+						{value.ends === "after" && (
+							<input
+								aria-label="Number of dates"
+								type="number"
+								min={1}
+								max={MAX_RECURRENCE_COUNT}
+								value={value.count}
+								onChange={(e) => set({ count: e.target.value })}
+							/>
+						)}
+					</div>
+
+					<div>
+						<label htmlFor="skipDate">Skip a date</label>
+						<input
+							id="skipDate"
+							type="date"
+							value={skipDate}
+							onChange={(e) => setSkipDate(e.target.value)}
+						/>
+						<button
+							type="button"
+							disabled={
+								!skipDate ||
+								value.exceptions.includes(skipDate) ||
+								value.exceptions.length >= MAX_RECURRENCE_EXCEPTIONS
+							}
+							onClick={() => {
+								set({ exceptions: [...value.exceptions, skipDate].sort() });
+								setSkipDate("");
+							}}
+						>
+							Skip
+						</button>
+						{value.exceptions.length > 0 && (
+							<ul>
+								{value.exceptions.map((date) => {
+									const day = fromZonedDateValue(date);
+									return (
+										<li key={date}>
+											{day ? formatEventDate(day) : date}{" "}
+											<button
+												type="button"
+												onClick={() =>
+													set({
+														exceptions: value.exceptions.filter(
+															(d) => d !== date,
+														),
+													})
+												}
+											>
+												Remove
+											</button>
+										</li>
+									);
+								})}
+							</ul>
+						)}
+					</div>
+
+					{rule && startsAt && <p>{describeRecurrence(rule, startsAt)}</p>}
+				</>
+			)}
+		</div>
+	);
+}
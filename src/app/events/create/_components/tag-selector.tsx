@@ -0,0 +1,132 @@
+"use client";
+
+import { useId, useState } from "react";
+import { MAX_EVENT_TAGS, cleanTagName, normalizeTag } from "~/shared/tags";
+import { api } from "~/trpc/react";
+import { useDebouncedValue } from "./use-debounced-value";
+
+/**
+ * Tag selector for the event form.
+ *
+ * Offers curated tags up front and searches all tags as the user types.
+ * Anything typed that isn't an existing tag can be added with Enter or a
+ * comma, and is saved as a suggestion for curators to review.
+ *
+ * @param value - Names of the selected tags
+ * @param onChange - Called with the new list of tag names
+ */
+export function TagSelector({
+	value,
+	onChange,
+}: {
+	value: string[];
+	onChange: (tags: string[]) => void;
+}) {
+	const suggestionsId = useId();
+	const [query, setQuery] = useState("");
+	const debouncedQuery = useDebouncedValue(query.trim(), 200);
+
+	const curated = api.tag.listCurated.useQuery();
+	const search = api.tag.search.useQuery(
+		{ query: debouncedQuery },
+		{ enabled: debouncedQuery.length >= 1 },
+	);
+
+	const selectedSlugs = new Set(value.map(normalizeTag));
+	const options = (
+		debouncedQuery ? (search.data ?? []) : (curated.data ?? [])
+	).filter((tag) => !selectedSlugs.has(tag.slug));
+	const isFull = value.length >= MAX_EVENT_TAGS;
+
+	const add = (name: string) => {
+		const cleaned = cleanTagName(name);
+		const slug = normalizeTag(cleaned);
+		if (!slug || selectedSlugs.has(slug) || isFull) return;
+		onChange([...value, cleaned]);
+		setQuery("");
+	};
+
+	const remove = (name: string) =>
+		onChange(value.filter((tag) => tag !== name));
+
+	return (
+		<div>
+			{value.length > 0 && (
+				<ul>
+					{value.map((tag) => (
+						<li key={tag}>
+							{tag}{" "}
+							<button
+								type="button"
+								aria-label={`Remove tag ${tag}`}
+								onClick={() => remove(tag)}
+							>
+								×
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+
+			<input
+				id="tags"
+				name="tags"
+				type="search"
+				aria-controls={suggestionsId}
+				autoComplete="off"
+				placeholder={
+					isFull ? `Up to ${MAX_EVENT_TAGS} tags` : "punk, zines, workshop"
+				}
+				disabled={isFull}
+				value={query}
+				onChange={(e) => {
+					const next = e.target.value;
+					// A comma finishes a tag, so pasted lists work too
+					if (next.includes(",")) {
+						for (const part of next.split(",").slice(0, -1)) add(part);
+						setQuery(next.split(",").at(-1) ?? "");
+					} else {
+						setQuery(next);
+					}
+				}}
+				onKeyDown={(e) => {
+					if (e.key === "Enter") {
+						// Keep Enter from submitting the surrounding event form
+						e.preventDefault();
+						if (query.trim()) add(query);
+					} else if (e.key === "Backspace" && !query && value.length > 0) {
+						onChange(value.slice(0, -1));
+					}
+				}}
+			/>
+
+			<ul id={suggestionsId} aria-live="polite">
+				{options.map((tag) => (
+					<li key={tag.slug}>
+						<button
+							type="button"
+							disabled={isFull}
+							onClick={() => add(tag.name)}
+						>
+							{tag.name}
+						</button>
+					</li>
+				))}
+				{debouncedQuery &&
+					normalizeTag(debouncedQuery) &&
+					!options.some((tag) => tag.slug === normalizeTag(debouncedQuery)) &&
+					!selectedSlugs.has(normalizeTag(debouncedQuery)) && (
+						<li>
+							<button
+								type="button"
+								disabled={isFull}
+								onClick={() => add(debouncedQuery)}
+							>
+								Suggest new tag “{cleanTagName(debouncedQuery)}”
+							</button>
+						</li>
+					)}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Returns `value` once it has stopped changing for `delayMs`, so
+ * autocompletes don't fire a query on every keystroke.
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number) {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebounced(value), delayMs);
+		return () => clearTimeout(timeout);
+	}, [value, delayMs]);
+
+	return debounced;
+}
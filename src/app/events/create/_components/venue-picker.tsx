@@ -0,0 +1,268 @@
+"use client";
+
+import { useId, useState } from "react";
+import { PORTLAND_QUADRANTS, venueSchema } from "~/shared/schemas/venue";
+import { type RouterOutputs, api } from "~/trpc/react";
+import { useDebouncedValue } from "./use-debounced-value";
+
+/**
+ * A venue the event can be held at. The street address is null when it's a
+ * private venue the viewer can't see the address of.
+ */
+export type VenueOption = Omit<
+	RouterOutputs["venue"]["search"][number],
+	"streetAddress"
+> & { streetAddress: string | null };
+
+/**
+ * Inline form for adding a venue that isn't in the database yet.
+ *
+ * Rendered inside the event form, so it uses a plain container and a
+ * `type="button"` submit instead of a nested `<form>`.
+ */
+function NewVenueFields({
+	initialName,
+	onCreated,
+	onCancel,
+}: {
+	initialName: string;
+	onCreated: (venue: VenueOption) => void;
+	onCancel: () => void;
+}) {
+	const idPrefix = useId();
+	const createVenue = api.venue.create.useMutation();
+	const [fields, setFields] = useState({
+		name: initialName,
+		streetAddress: "",
+		neighborhood: "",
+		quadrant: "",
+		notes: "",
+		isPrivate: false,
+	});
+	const [error, setError] = useState<string | null>(null);
+
+	const update =
+		(key: keyof typeof fields) =>
+		(
+			e: React.ChangeEvent<
+				HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+			>,
+		) =>
+			setFields((prev) => ({ ...prev, [key]: e.target.value }));
+
+	const handleCreate = async () => {
+		const validation = venueSchema.safeParse({
+			...fields,
+			quadrant: fields.quadrant || null,
+		});
+		if (!validation.success) {
+			setError(validation.error.issues[0]?.message ?? "Please check the venue");
+			return;
+		}
+
+		try {
+			const venue = await createVenue.mutateAsync(validation.data);
+			if (venue) {
+				onCreated(venue);
+			}
+		} catch (err) {
+			console.error("Failed to create venue:", err);
+			setError("Failed to create venue. Please try again.");
+		}
+	};
+
+	return (
+		<fieldset>
+			<legend>New venue</legend>
+
+			<div>
+				<label htmlFor={`${idPrefix}-name`}>Venue name</label>
+				<input
+					id={`${idPrefix}-name`}
+					name="venueName"
+					value={fields.name}
+					onChange={update("name")}
+				/>
+			</div>
+
+			<div>
+				<label htmlFor={`${idPrefix}-address`}>Street address</label>
+				<input
+					id={`${idPrefix}-address`}
+					name="venueStreetAddress"
+					value={fields.streetAddress}
+					onChange={update("streetAddress")}
+				/>
+			</div>
+
+			<div>
+				<label htmlFor={`${idPrefix}-neighborhood`}>
+					Neighborhood (optional)
+				</label>
+				<input
+					id={`${idPrefix}-neighborhood`}
+					name="venueNeighborhood"
+					value={fields.neighborhood}
+					onChange={update("neighborhood")}
+				/>
+			</div>
+
+			<div>
+				<label htmlFor={`${idPrefix}-quadrant`}>Part of town (optional)</label>
+				<select
+					id={`${idPrefix}-quadrant`}
+					name="venueQuadrant"
+					value={fields.quadrant}
+					onChange={update("quadrant")}
+				>
+					<option value="">Not sure</option>
+					{PORTLAND_QUADRANTS.map((quadrant) => (
+						<option key={quadrant} value={quadrant}>
+							{quadrant} Portland
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div>
+				<input
+					id={`${idPrefix}-private`}
+					name="venueIsPrivate"
+					type="checkbox"
+					checked={fields.isPrivate}
+					onChange={(e) =>
+						setFields((prev) => ({ ...prev, isPrivate: e.target.checked }))
+					}
+				/>
+				<label htmlFor={`${idPrefix}-private`}>
+					Private address (house show): only show the neighborhood until people
+					RSVP or you approve them
+				</label>
+			</div>
+
+			<div>
+				<label htmlFor={`${idPrefix}-notes`}>Notes (optional)</label>
+				<textarea
+					id={`${idPrefix}-notes`}
+					name="venueNotes"
+					value={fields.notes}
+					onChange={update("notes")}
+				/>
+			</div>
+
+			{error && <div style={{ color: "red" }}>{error}</div>}
+
+			<button
+				type="button"
+				onClick={handleCreate}
+				disabled={createVenue.isPending}
+			>
+				{createVenue.isPending ? "Adding..." : "Add venue"}
+			</button>
+			<button type="button" onClick={onCancel}>
+				Cancel
+			</button>
+		</fieldset>
+	);
+}
+
+/**
+ * Venue selector with autocomplete for the event form.
+ *
+ * Searches existing venues as the user types and lets them add a new venue
+ * inline when theirs isn't listed yet.
+ *
+ * @param value - The currently selected venue, or null
+ * @param onChange - Called with the newly selected venue, or null when cleared
+ */
+export function VenuePicker({
+	value,
+	onChange,
+}: {
+	value: VenueOption | null;
+	onChange: (venue: VenueOption | null) => void;
+}) {
+	const resultsId = useId();
+	const [query, setQuery] = useState("");
+	const [isAdding, setIsAdding] = useState(false);
+	const debouncedQuery = useDebouncedValue(query.trim(), 250);
+
+	const search = api.venue.search.useQuery(
+		{ query: debouncedQuery },
+		{ enabled: debouncedQuery.length >= 2 },
+	);
+	const results = debouncedQuery.length >= 2 ? (search.data ?? []) : [];
+
+	const select = (venue: VenueOption) => {
+		onChange(venue);
+		setQuery("");
+		setIsAdding(false);
+	};
+
+	if (value) {
+		return (
+			<div>
+				<p>
+					<strong>{value.name}</strong>
+					{value.streetAddress ? ` — ${value.streetAddress}` : null}
+					{value.neighborhood ? ` (${value.neighborhood})` : null}
+					{value.isPrivate ? " · private address" : null}
+				</p>
+				<button type="button" onClick={() => onChange(null)}>
+					Change venue
+				</button>
+			</div>
+		);
+	}
+
+	if (isAdding) {
+		return (
+			<NewVenueFields
+				initialName={query}
+				onCreated={select}
+				onCancel={() => setIsAdding(false)}
+			/>
+		);
+	}
+
+	return (
+		<div>
+			<input
+				id="venue"
+				name="venue"
+				type="search"
+				aria-controls={resultsId}
+				autoComplete="off"
+				placeholder="Search venues"
+				value={query}
+				onChange={(e) => setQuery(e.target.value)}
+				onKeyDown={(e) => {
+					if (e.key === "Enter") {
+						// Keep Enter from submitting the surrounding event form
+						e.preventDefault();
+						if (results[0]) select(results[0]);
+					}
+				}}
+			/>
+
+			<ul id={resultsId} aria-live="polite">
+				{results.map((venue) => (
+					<li key={venue.id}>
+						<button type="button" onClick={() => select(venue)}>
+							{venue.name} — {venue.streetAddress}
+							{venue.isPrivate ? " (private)" : null}
+						</button>
+					</li>
+				))}
+			</ul>
+
+			{debouncedQuery.length >= 2 &&
+				search.isSuccess &&
+				results.length === 0 && <p>No venues match “{debouncedQuery}”.</p>}
+
+			<button type="button" onClick={() => setIsAdding(true)}>
+				Add a new venue
+			</button>
+		</div>
+	);
+}
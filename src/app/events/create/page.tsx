@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { redirect } from "next/navigation";
 
 import { auth } from "~/server/auth";
@@ -13,6 +14,10 @@ export default async function CreateEventPage() {
 	return (
 		<main>
 			<h1>Create Event</h1>
+			<p>
+				Have a venue calendar to copy?{" "}
+				<Link href="/events/import">Import it from an .ics file</Link>
+			</p>
 			<CreateEventForm />
 		</main>
 	);
@@ -0,0 +1,163 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { MAX_CALENDAR_IMPORT_LENGTH } from "~/shared/schemas/event";
+import { formatEventDateTime } from "~/shared/time";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type Candidate = RouterOutputs["event"]["previewImport"][number];
+
+/**
+ * Uploads an iCalendar file, previews the events in it and imports the
+ * chosen ones.
+ *
+ * Importable events start out selected unless they look like duplicates of
+ * existing events; events that can't be imported are listed with the
+ * reason.
+ */
+export function CalendarImport() {
+	const router = useRouter();
+	const previewImport = api.event.previewImport.useMutation();
+	const importEvents = api.event.import.useMutation();
+	const [calendar, setCalendar] = useState<string | null>(null);
+	const [candidates, setCandidates] = useState<Candidate[]>([]);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [error, setError] = useState<string | null>(null);
+
+	const preview = async (file: File) => {
+		setError(null);
+		setCandidates([]);
+		setSelected(new Set());
+
+		const text = await file.text();
+		if (text.length > MAX_CALENDAR_IMPORT_LENGTH) {
+			setError("That file is too large to import");
+			return;
+		}
+
+		try {
+			const results = await previewImport.mutateAsync({ calendar: text });
+			if (results.length === 0) {
+				setError("No events were found in that file");
+				return;
+			}
+			setCalendar(text);
+			setCandidates(results);
+			setSelected(
+				new Set(
+					results
+						.filter((c) => c.isImportable && !c.duplicateOf)
+						.map((c) => c.key),
+				),
+			);
+		} catch (err) {
+			console.error("Failed to read calendar:", err);
+			setError("That file couldn't be read. Is it an .ics calendar?");
+		}
+	};
+
+	const toggle = (key: string, checked: boolean) => {
+		const next = new Set(selected);
+		if (checked) next.add(key);
+		else next.delete(key);
+		setSelected(next);
+	};
+
+	const confirm = async () => {
+		if (!calendar || selected.size === 0) return;
+		try {
+			const { count } = await importEvents.mutateAsync({
+				calendar,
+				keys: [...selected],
+			});
+			alert(`Imported ${count} ${count === 1 ? "event" : "events"}!`);
+			router.push("/");
+			router.refresh();
+		} catch (err) {
+			console.error("Failed to import events:", err);
+			alert("Failed to import events. Please try again.");
+		}
+	};
+
+	return (
+		<div>
+			<input
+				id="calendar"
+				name="calendar"
+				type="file"
+				accept=".ics,text/calendar"
+				aria-label="Calendar file"
+				disabled={previewImport.isPending || importEvents.isPending}
+				onChange={(e) => {
+					const file = e.target.files?.[0];
+					if (file) {
+						void preview(file);
+					}
+				}}
+			/>
+			{previewImport.isPending && <p>Reading calendar...</p>}
+			{error && <div style={{ color: "red" }}>{error}</div>}
+
+			{candidates.length > 0 && (
+				<>
+					<ul>
+						{candidates.map((candidate) => (
+							<li key={candidate.key}>
+								<label>
+									<input
+										type="checkbox"
+										disabled={!candidate.isImportable}
+										checked={selected.has(candidate.key)}
+										onChange={(e) => toggle(candidate.key, e.target.checked)}
+									/>
+									<strong>{candidate.title}</strong>
+								</label>
+								{candidate.startsAt && (
+									<p>
+										<time dateTime={candidate.startsAt.toISOString()}>
+											{formatEventDateTime(candidate.startsAt)}
+										</time>
+									</p>
+								)}
+								{candidate.venue ? (
+									<p>{candidate.venue.name}</p>
+								) : (
+									candidate.location && (
+										<p>
+											{candidate.location} (no matching venue; add it later)
+										</p>
+									)
+								)}
+								{candidate.error && <p>Can't import: {candidate.error}</p>}
+								{candidate.duplicateOf && (
+									<p>
+										Looks like a duplicate of{" "}
+										{candidate.duplicateOf.id ? (
+											<Link href={`/events/${candidate.duplicateOf.id}`}>
+												{candidate.duplicateOf.title}
+											</Link>
+										) : (
+											`"${candidate.duplicateOf.title}" earlier in this file`
+										)}
+									</p>
+								)}
+							</li>
+						))}
+					</ul>
+
+					<button
+						type="button"
+						disabled={selected.size === 0 || importEvents.isPending}
+						onClick={() => void confirm()}
+					>
+						{importEvents.isPending
+							? "Importing..."
+							: `Import ${selected.size} ${selected.size === 1 ? "event" : "events"}`}
+					</button>
+				</>
+			)}
+		</div>
+	);
+}
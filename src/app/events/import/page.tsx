@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { CalendarImport } from "./_components/calendar-import";
+
+/**
+ * Import page where organizers upload a venue's `.ics` export, review the
+ * events found in it and choose which ones to publish.
+ */
+export default async function ImportEventsPage() {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Fevents%2Fimport");
+	}
+
+	return (
+		<main>
+			<Link href="/events/create">← Create a single event instead</Link>
+			<h1>Import Events</h1>
+			<p>
+				Upload a calendar file (.ics) exported from a venue's calendar. You'll
+				see every event in it before anything is published.
+			</p>
+			<CalendarImport />
+		</main>
+	);
+}
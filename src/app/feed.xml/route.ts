@@ -0,0 +1,12 @@
+import { buildRssFeed, feedResponse, loadFeed } from "~/server/feeds";
+
+/**
+ * Serves upcoming events as an RSS 2.0 feed.
+ *
+ * Accepts the home page's filters, so `/feed.xml?tags=punk` and
+ * `/feed.xml?venue=<id>` follow one tag or venue.
+ */
+export async function GET(request: Request) {
+	const feed = await loadFeed(request);
+	return feedResponse(request, buildRssFeed(feed), "application/rss+xml");
+}
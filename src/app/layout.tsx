@@ -4,6 +4,7 @@ import type { Metadata } from "next";
 import { Geist } from "next/font/google";
 import { Suspense } from "react";
 
+import { env } from "~/env";
 import { TRPCReactProvider } from "~/trpc/react";
 import { PostHogPageview } from "./_components/posthog-pageview";
 import { Providers } from "./providers";
@@ -12,12 +13,20 @@ import { Providers } from "./providers";
  * Application metadata for SEO and browser display.
  *
  * Defines the page title, description, and favicon that appear
- * in browser tabs, search results, and social media previews.
+ * in browser tabs, search results, and social media previews, the origin
+ * that relative preview URLs resolve against, and the event feeds.
  */
 export const metadata: Metadata = {
-	title: "PDX DIY",
+	metadataBase: new URL(env.SITE_URL),
+	title: { default: "PDX DIY", template: "%s · PDX DIY" },
 	description: "Events for the DIY community in Portland, Oregon",
 	icons: [{ rel: "icon", url: "/favicon.ico" }],
+	alternates: {
+		types: {
+			"application/rss+xml": "/feed.xml",
+			"application/atom+xml": "/atom.xml",
+		},
+	},
 };
 
 /**
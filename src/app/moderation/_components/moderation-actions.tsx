@@ -0,0 +1,79 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+
+/**
+ * Moderator controls for a pending event: approve it, reject it with a
+ * reason that's emailed to the organizer, or trust the organizer so their
+ * later events skip review.
+ *
+ * @param eventId - The pending event
+ * @param authorId - The event's organizer, if they still have an account
+ * @param isAuthorTrusted - Whether the organizer is already trusted
+ */
+export function ModerationActions({
+	eventId,
+	authorId,
+	isAuthorTrusted,
+}: {
+	eventId: string;
+	authorId: string | null;
+	isAuthorTrusted: boolean;
+}) {
+	const router = useRouter();
+	const decide = api.moderation.decide.useMutation();
+	const setTrusted = api.moderation.setTrusted.useMutation();
+	const isPending = decide.isPending || setTrusted.isPending;
+
+	const run = async (action: () => Promise<unknown>) => {
+		try {
+			await action();
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to moderate event:", error);
+			alert("Failed to save the decision. Please try again.");
+		}
+	};
+
+	const reject = () => {
+		const reason = window.prompt(
+			"Reject this event? Tell the organizer why (required):",
+		);
+		if (!reason?.trim()) return;
+		void run(() => decide.mutateAsync({ eventId, approve: false, reason }));
+	};
+
+	return (
+		<div>
+			<button
+				type="button"
+				disabled={isPending}
+				onClick={() =>
+					void run(() => decide.mutateAsync({ eventId, approve: true }))
+				}
+			>
+				Approve
+			</button>
+			<button type="button" disabled={isPending} onClick={reject}>
+				Reject
+			</button>
+			{authorId && (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						void run(() =>
+							setTrusted.mutateAsync({
+								userId: authorId,
+								isTrusted: !isAuthorTrusted,
+							}),
+						)
+					}
+				>
+					{isAuthorTrusted ? "Stop trusting organizer" : "Trust organizer"}
+				</button>
+			)}
+		</div>
+	);
+}
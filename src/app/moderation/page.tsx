@@ -0,0 +1,80 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { hasRole } from "~/shared/roles";
+import { formatEventDateTime, formatEventTimeRange } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { ModerationActions } from "./_components/moderation-actions";
+
+/**
+ * Moderation queue listing events from untrusted organizers that are
+ * waiting for review, oldest first. Each shows enough to judge it (time,
+ * venue, ticket link, description and who posted it) with approve and
+ * reject buttons; reported events are a link away. Signed-out visitors are
+ * sent to sign in, and people who aren't moderators get a 404.
+ */
+export default async function ModerationPage() {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Fmoderation");
+	}
+	if (!hasRole(session.user.role, "moderator")) {
+		notFound();
+	}
+
+	const pending = await api.moderation.listPending();
+
+	return (
+		<main>
+			<Link href="/">← Back to events</Link>
+
+			<h1>Moderation</h1>
+			<p>
+				<Link href="/moderation/reports">Reported events</Link>
+			</p>
+
+			{pending.length === 0 ? (
+				<p>Nothing waiting for review.</p>
+			) : (
+				<ul>
+					{pending.map((event) => (
+						<li key={event.id}>
+							<h3>{event.title}</h3>
+							<p>
+								<time dateTime={event.startsAt.toISOString()}>
+									{formatEventTimeRange(event.startsAt, event.endsAt)}
+								</time>
+								{event.venue ? ` at ${event.venue.name}` : null}
+							</p>
+							<p>
+								Posted {formatEventDateTime(event.createdAt)} by{" "}
+								{event.createdBy
+									? `${event.createdBy.name ?? "an organizer"} (${event.createdBy.email})`
+									: "a deleted account"}
+								{event.publishAt && event.publishAt > new Date()
+									? `, scheduled for ${formatEventDateTime(event.publishAt)}`
+									: null}
+							</p>
+							{event.ticketUrl && (
+								<p>
+									Tickets:{" "}
+									<a href={event.ticketUrl} rel="noopener noreferrer nofollow">
+										{event.ticketUrl}
+									</a>
+								</p>
+							)}
+							{event.descriptionText && <p>{event.descriptionText}</p>}
+							<ModerationActions
+								eventId={event.id}
+								authorId={event.createdBy?.id ?? null}
+								isAuthorTrusted={event.createdBy?.isTrusted ?? false}
+							/>
+						</li>
+					))}
+				</ul>
+			)}
+		</main>
+	);
+}
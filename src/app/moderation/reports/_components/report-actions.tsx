@@ -0,0 +1,51 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+
+/**
+ * Moderator controls for an event's open reports: dismiss them, showing the
+ * event again if they hid it, or take the event down with a reason that's
+ * emailed to the organizer.
+ *
+ * @param eventId - The reported event
+ */
+export function ReportActions({ eventId }: { eventId: string }) {
+	const router = useRouter();
+	const resolve = api.report.resolve.useMutation();
+
+	const run = async (action: () => Promise<unknown>) => {
+		try {
+			await action();
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to resolve reports:", error);
+			alert("Failed to resolve the reports. Please try again.");
+		}
+	};
+
+	const remove = () => {
+		const reason = window.prompt(
+			"Take this event down? Tell the organizer why (required):",
+		);
+		if (!reason?.trim()) return;
+		void run(() => resolve.mutateAsync({ eventId, action: "remove", reason }));
+	};
+
+	return (
+		<div>
+			<button
+				type="button"
+				disabled={resolve.isPending}
+				onClick={() =>
+					void run(() => resolve.mutateAsync({ eventId, action: "dismiss" }))
+				}
+			>
+				Dismiss reports
+			</button>
+			<button type="button" disabled={resolve.isPending} onClick={remove}>
+				Take event down
+			</button>
+		</div>
+	);
+}
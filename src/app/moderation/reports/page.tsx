@@ -0,0 +1,80 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { hasRole } from "~/shared/roles";
+import { REPORT_REASON_LABELS } from "~/shared/schemas/report";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { ReportActions } from "./_components/report-actions";
+
+/**
+ * Report triage for moderators: events with open reports, those hidden by
+ * reports first, then the most reported. Each shows the event's
+ * description and its reports with their reasons and details, and can be
+ * dismissed or taken down. Signed-out visitors are sent to sign in, and
+ * people who aren't moderators get a 404.
+ */
+export default async function ReportsPage() {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Fmoderation%2Freports");
+	}
+	if (!hasRole(session.user.role, "moderator")) {
+		notFound();
+	}
+
+	const reported = await api.report.listOpen();
+
+	return (
+		<main>
+			<Link href="/moderation">← Back to moderation</Link>
+
+			<h1>Reported events</h1>
+
+			{reported.length === 0 ? (
+				<p>No open reports.</p>
+			) : (
+				<ul>
+					{reported.map(({ event, reports }) => (
+						<li key={event.id}>
+							<h3>{event.title}</h3>
+							<p>
+								<time dateTime={event.startsAt.toISOString()}>
+									{formatEventDateTime(event.startsAt)}
+								</time>
+								{event.createdBy
+									? ` · posted by ${event.createdBy.name ?? "an organizer"} (${event.createdBy.email})`
+									: null}
+							</p>
+							<p>
+								{reports.length === 1
+									? "1 report"
+									: `${reports.length} reports`}
+								{event.hiddenAt
+									? `, hidden since ${formatEventDateTime(event.hiddenAt)}`
+									: null}
+								{event.status === "deleted"
+									? " · deleted by its organizer"
+									: null}
+							</p>
+							{event.descriptionText && <p>{event.descriptionText}</p>}
+							<ul>
+								{reports.map((report) => (
+									<li key={report.reporter.id}>
+										<strong>{REPORT_REASON_LABELS[report.reason]}</strong> from{" "}
+										{report.reporter.name ?? report.reporter.email},{" "}
+										{formatEventDateTime(report.createdAt)}
+										{report.details && <p>{report.details}</p>}
+									</li>
+								))}
+							</ul>
+							<ReportActions eventId={event.id} />
+						</li>
+					))}
+				</ul>
+			)}
+		</main>
+	);
+}
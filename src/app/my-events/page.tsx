@@ -0,0 +1,95 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { describeRecurrence, parseRecurrenceRule } from "~/shared/recurrence";
+import type { RsvpState } from "~/shared/schemas/rsvp";
+import { formatEventDateTime } from "~/shared/time";
+import type { RouterOutputs } from "~/trpc/react";
+import { api } from "~/trpc/server";
+
+type RsvpEvent = RouterOutputs["rsvp"]["listMine"]["upcoming"][number];
+
+const RSVP_LABELS: Record<RsvpState, string> = {
+	going: "Going",
+	interested: "Interested",
+	waitlisted: "On the waitlist",
+};
+
+function RsvpEventList({ events }: { events: RsvpEvent[] }) {
+	return (
+		<ul>
+			{events.map((event) => {
+				const rule = event.recurrenceRule
+					? parseRecurrenceRule(event.recurrenceRule)
+					: null;
+				return (
+					<li key={event.id}>
+						<Link href={`/events/${event.id}`}>
+							<h3>{event.title}</h3>
+						</Link>
+						<p>{RSVP_LABELS[event.rsvpStatus]}</p>
+						{event.status === "cancelled" && <p>Cancelled</p>}
+						{event.status === "postponed" && <p>Postponed</p>}
+						<p>
+							{rule ? (
+								describeRecurrence(rule, event.startsAt)
+							) : (
+								<time dateTime={event.startsAt.toISOString()}>
+									{formatEventDateTime(event.startsAt)}
+								</time>
+							)}
+						</p>
+						{event.venue && (
+							<p>
+								<Link href={`/venues/${event.venue.id}`}>
+									{event.venue.name}
+								</Link>
+							</p>
+						)}
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
+
+/**
+ * "My events" page listing what the signed-in user is going to or
+ * interested in: upcoming events first, then recent past ones. Signed-out
+ * visitors are sent to sign in.
+ */
+export default async function MyEventsPage() {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Fmy-events");
+	}
+
+	const { upcoming, past } = await api.rsvp.listMine();
+
+	return (
+		<main>
+			<Link href="/">← Back to events</Link>
+
+			<h1>My events</h1>
+
+			<h2>Upcoming</h2>
+			{upcoming.length === 0 ? (
+				<p>
+					Nothing planned yet. Mark events as going or interested to see them
+					here.
+				</p>
+			) : (
+				<RsvpEventList events={upcoming} />
+			)}
+
+			{past.length > 0 && (
+				<>
+					<h2>Past</h2>
+					<RsvpEventList events={past} />
+				</>
+			)}
+		</main>
+	);
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { TRPCClientError } from "@trpc/client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+	ORGANIZATION_ROLES,
+	ORGANIZATION_ROLE_LABELS,
+	type OrganizationRole,
+	organizationInviteSchema,
+} from "~/shared/schemas/organization";
+import { api } from "~/trpc/react";
+
+/**
+ * Owner form for inviting someone to an organization by email. They get a
+ * link to accept, signed in with that address.
+ *
+ * @param organizationId - The organization to invite them to
+ */
+export function InviteForm({ organizationId }: { organizationId: string }) {
+	const router = useRouter();
+	const invite = api.organization.invite.useMutation();
+	const [email, setEmail] = useState("");
+	const [role, setRole] = useState<OrganizationRole>("editor");
+
+	const submit = async () => {
+		const validation = organizationInviteSchema.safeParse({
+			organizationId,
+			email,
+			role,
+		});
+		if (!validation.success) {
+			alert(validation.error.issues[0]?.message ?? "Please check the form");
+			return;
+		}
+
+		try {
+			await invite.mutateAsync(validation.data);
+			setEmail("");
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to send invitation:", error);
+			alert(
+				error instanceof TRPCClientError && error.data?.code === "CONFLICT"
+					? "They're already a member."
+					: "Failed to send the invitation. Please try again.",
+			);
+		}
+	};
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				void submit();
+			}}
+		>
+			<label htmlFor="inviteEmail">Email</label>
+			<input
+				id="inviteEmail"
+				name="email"
+				type="email"
+				value={email}
+				onChange={(e) => setEmail(e.target.value)}
+				required
+			/>
+			<label htmlFor="inviteRole">Role</label>
+			<select
+				id="inviteRole"
+				name="role"
+				value={role}
+				onChange={(e) => setRole(e.target.value as OrganizationRole)}
+			>
+				{ORGANIZATION_ROLES.map((option) => (
+					<option key={option} value={option}>
+						{ORGANIZATION_ROLE_LABELS[option]}
+					</option>
+				))}
+			</select>
+			<button type="submit" disabled={invite.isPending}>
+				{invite.isPending ? "Sending..." : "Send Invitation"}
+			</button>
+		</form>
+	);
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { TRPCClientError } from "@trpc/client";
+import { useRouter } from "next/navigation";
+import type { OrganizationRole } from "~/shared/schemas/organization";
+import { api } from "~/trpc/react";
+
+/**
+ * Controls for one member of an organization. Owners can make anyone an
+ * owner or an editor and remove them; anyone can leave.
+ *
+ * @param organizationId - The organization
+ * @param member - The member the controls are for
+ * @param isOwner - Whether the current user owns the organization
+ * @param isSelf - Whether the member is the current user
+ */
+export function MemberActions({
+	organizationId,
+	member,
+	isOwner,
+	isSelf,
+}: {
+	organizationId: string;
+	member: { userId: string; role: OrganizationRole };
+	isOwner: boolean;
+	isSelf: boolean;
+}) {
+	const router = useRouter();
+	const setRole = api.organization.setMemberRole.useMutation();
+	const removeMember = api.organization.removeMember.useMutation();
+	const isPending = setRole.isPending || removeMember.isPending;
+
+	const run = async (action: () => Promise<unknown>, path?: string) => {
+		try {
+			await action();
+			if (path) {
+				router.push(path);
+			}
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to update member:", error);
+			alert(
+				// The last owner can't step down or leave
+				error instanceof TRPCClientError && error.data?.code === "BAD_REQUEST"
+					? "Every organization needs an owner. Make someone else an owner first."
+					: "Failed to save the change. Please try again.",
+			);
+		}
+	};
+
+	const remove = () => {
+		if (
+			!window.confirm(
+				isSelf
+					? "Leave this organization?"
+					: "Remove them from the organization?",
+			)
+		) {
+			return;
+		}
+		void run(
+			() => removeMember.mutateAsync({ organizationId, userId: member.userId }),
+			isSelf ? "/" : undefined,
+		);
+	};
+
+	return (
+		<>
+			{isOwner && (
+				<button
+					type="button"
+					disabled={isPending}
+					onClick={() =>
+						void run(() =>
+							setRole.mutateAsync({
+								organizationId,
+								userId: member.userId,
+								role: member.role === "owner" ? "editor" : "owner",
+							}),
+						)
+					}
+				>
+					{member.role === "owner" ? "Make editor" : "Make owner"}
+				</button>
+			)}
+			{(isOwner || isSelf) && (
+				<button type="button" disabled={isPending} onClick={remove}>
+					{isSelf ? "Leave" : "Remove"}
+				</button>
+			)}
+		</>
+	);
+}
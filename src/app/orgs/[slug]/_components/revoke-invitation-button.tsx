@@ -0,0 +1,41 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+
+/**
+ * Withdraws a pending invitation, so its emailed link stops working.
+ *
+ * @param organizationId - The organization the invitation is for
+ * @param email - The address it was sent to
+ */
+export function RevokeInvitationButton({
+	organizationId,
+	email,
+}: {
+	organizationId: string;
+	email: string;
+}) {
+	const router = useRouter();
+	const revoke = api.organization.revokeInvitation.useMutation();
+
+	const handleClick = async () => {
+		try {
+			await revoke.mutateAsync({ organizationId, email });
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to withdraw invitation:", error);
+			alert("Failed to withdraw the invitation. Please try again.");
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			onClick={() => void handleClick()}
+			disabled={revoke.isPending}
+		>
+			{revoke.isPending ? "Withdrawing..." : "Withdraw"}
+		</button>
+	);
+}
@@ -0,0 +1,120 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { eventPath } from "~/shared/recurrence";
+import { ORGANIZATION_ROLE_LABELS } from "~/shared/schemas/organization";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { OrganizationForm } from "../create/_components/organization-form";
+import { InviteForm } from "./_components/invite-form";
+import { MemberActions } from "./_components/member-actions";
+import { RevokeInvitationButton } from "./_components/revoke-invitation-button";
+
+/**
+ * Profile page of an organization: what it is, its upcoming events in
+ * Portland time, soonest first, and its members.
+ *
+ * Owners also get its profile form, pending invitations and member
+ * controls; other members can leave.
+ *
+ * @param params - Route parameters containing the organization's slug (must be awaited in Next.js 15)
+ * @returns The profile page JSX element or 404 if there's no such organization
+ */
+export default async function OrganizationPage({
+	params,
+}: {
+	params: Promise<{ slug: string }>;
+}) {
+	const { slug } = await params;
+	const session = await auth();
+	const organization = await api.organization.getBySlug({ slug });
+
+	if (!organization) {
+		notFound();
+	}
+
+	const isOwner = organization.viewerRole === "owner";
+
+	return (
+		<main>
+			<div>
+				<Link href="/">← Back to events</Link>
+
+				<h1>{organization.name}</h1>
+
+				{organization.description && <p>{organization.description}</p>}
+
+				{organization.viewerRole && (
+					<p>
+						<Link href="/events/create">Post an event</Link> for{" "}
+						{organization.name}
+					</p>
+				)}
+
+				<h2>Upcoming events</h2>
+				{organization.upcomingEvents.length === 0 ? (
+					<p>Nothing scheduled yet.</p>
+				) : (
+					<ul>
+						{organization.upcomingEvents.map((event) => (
+							<li key={`${event.id}-${event.startsAt.getTime()}`}>
+								<Link href={eventPath(event.id, event.occurrenceStart)}>
+									<h3>{event.title}</h3>
+									<p>
+										<time dateTime={event.startsAt.toISOString()}>
+											{formatEventDateTime(event.startsAt)}
+										</time>
+									</p>
+								</Link>
+							</li>
+						))}
+					</ul>
+				)}
+
+				<h2>Members</h2>
+				<ul>
+					{organization.members.map((member) => (
+						<li key={member.userId}>
+							{member.user.name ?? "Anonymous"} (
+							{ORGANIZATION_ROLE_LABELS[member.role]}){" "}
+							{organization.viewerRole && (
+								<MemberActions
+									organizationId={organization.id}
+									member={member}
+									isOwner={isOwner}
+									isSelf={member.userId === session?.user.id}
+								/>
+							)}
+						</li>
+					))}
+				</ul>
+
+				{isOwner && (
+					<>
+						<h2>Invite members</h2>
+						<InviteForm organizationId={organization.id} />
+						{organization.invitations.length > 0 && (
+							<ul>
+								{organization.invitations.map((invitation) => (
+									<li key={invitation.email}>
+										{invitation.email} (
+										{ORGANIZATION_ROLE_LABELS[invitation.role]}, expires{" "}
+										{formatEventDateTime(invitation.expiresAt)}){" "}
+										<RevokeInvitationButton
+											organizationId={organization.id}
+											email={invitation.email}
+										/>
+									</li>
+								))}
+							</ul>
+						)}
+
+						<h2>Profile</h2>
+						<OrganizationForm organization={organization} />
+					</>
+				)}
+			</div>
+		</main>
+	);
+}
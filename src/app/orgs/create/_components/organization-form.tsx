@@ -0,0 +1,156 @@
+"use client";
+
+import { useForm } from "@tanstack/react-form";
+import { TRPCClientError } from "@trpc/client";
+import { useRouter } from "next/navigation";
+import {
+	organizationCreateSchema,
+	organizationUpdateSchema,
+	toOrganizationSlug,
+} from "~/shared/schemas/organization";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type EditableOrganization = Pick<
+	NonNullable<RouterOutputs["organization"]["getBySlug"]>,
+	"id" | "slug" | "name" | "description"
+>;
+
+const isConflict = (error: unknown) =>
+	error instanceof TRPCClientError && error.data?.code === "CONFLICT";
+
+/**
+ * Form for starting an organization, or editing one's profile when
+ * `organization` is given. The address (slug) is only chosen at creation,
+ * defaulting to one made from the name.
+ *
+ * @param organization - The organization to edit; omit to create one
+ */
+export function OrganizationForm({
+	organization,
+}: {
+	organization?: EditableOrganization;
+}) {
+	const router = useRouter();
+	const createOrganization = api.organization.create.useMutation();
+	const updateOrganization = api.organization.update.useMutation();
+	const isPending =
+		createOrganization.isPending || updateOrganization.isPending;
+
+	const form = useForm({
+		defaultValues: {
+			name: organization?.name ?? "",
+			slug: organization?.slug ?? "",
+			description: organization?.description ?? "",
+		},
+		onSubmit: async ({ value }) => {
+			if (organization) {
+				const validation = organizationUpdateSchema.safeParse({
+					id: organization.id,
+					name: value.name,
+					description: value.description,
+				});
+				if (!validation.success) {
+					alert(validation.error.issues[0]?.message ?? "Please check the form");
+					return;
+				}
+
+				try {
+					await updateOrganization.mutateAsync(validation.data);
+					router.refresh();
+				} catch (error) {
+					console.error("Failed to update organization:", error);
+					alert("Failed to save changes. Please try again.");
+				}
+				return;
+			}
+
+			const validation = organizationCreateSchema.safeParse(value);
+			if (!validation.success) {
+				alert(validation.error.issues[0]?.message ?? "Please check the form");
+				return;
+			}
+
+			try {
+				const created = await createOrganization.mutateAsync(value);
+				router.push(`/orgs/${created.slug}`);
+				router.refresh();
+			} catch (error) {
+				console.error("Failed to create organization:", error);
+				alert(
+					isConflict(error)
+						? "That address is taken. Please choose another."
+						: "Failed to create the organization. Please try again.",
+				);
+			}
+		},
+	});
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				form.handleSubmit();
+			}}
+		>
+			<div>
+				<label htmlFor="name">Name</label>
+				<form.Field name="name">
+					{(field) => (
+						<input
+							id="name"
+							name="name"
+							value={field.state.value}
+							onChange={(e) => field.handleChange(e.target.value)}
+							required
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			{!organization && (
+				<div>
+					<label htmlFor="slug">Address (optional)</label>
+					<form.Subscribe selector={(state) => state.values.name}>
+						{(name) => (
+							<form.Field name="slug">
+								{(field) => (
+									<input
+										id="slug"
+										name="slug"
+										value={field.state.value}
+										placeholder={toOrganizationSlug(name)}
+										onChange={(e) => field.handleChange(e.target.value)}
+									/>
+								)}
+							</form.Field>
+						)}
+					</form.Subscribe>
+				</div>
+			)}
+
+			<div>
+				<label htmlFor="description">About (optional)</label>
+				<form.Field name="description">
+					{(field) => (
+						<textarea
+							id="description"
+							name="description"
+							value={field.state.value}
+							onChange={(e) => field.handleChange(e.target.value)}
+							rows={4}
+						/>
+					)}
+				</form.Field>
+			</div>
+
+			<button type="submit" disabled={form.state.isSubmitting || isPending}>
+				{form.state.isSubmitting || isPending
+					? "Saving..."
+					: organization
+						? "Save Changes"
+						: "Start Organization"}
+			</button>
+		</form>
+	);
+}
@@ -0,0 +1,27 @@
+import { redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { OrganizationForm } from "./_components/organization-form";
+
+/**
+ * Page for starting an organization. Whoever creates it becomes its first
+ * owner and can then invite the rest of the collective.
+ */
+export default async function CreateOrganizationPage() {
+	const session = await auth();
+
+	if (!session) {
+		redirect("/api/auth/signin?callbackUrl=%2Forgs%2Fcreate");
+	}
+
+	return (
+		<main>
+			<h1>Start an Organization</h1>
+			<p>
+				Post events as a collective. Everyone you invite can post and edit the
+				organization's events.
+			</p>
+			<OrganizationForm />
+		</main>
+	);
+}
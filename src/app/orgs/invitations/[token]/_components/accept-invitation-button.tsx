@@ -0,0 +1,36 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+
+/**
+ * Joins the organization an emailed invitation is for, then opens its
+ * profile.
+ *
+ * @param token - The invitation token from the emailed link
+ */
+export function AcceptInvitationButton({ token }: { token: string }) {
+	const router = useRouter();
+	const accept = api.organization.acceptInvitation.useMutation();
+
+	const handleClick = async () => {
+		try {
+			const { slug } = await accept.mutateAsync({ token });
+			router.push(`/orgs/${slug}`);
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to accept invitation:", error);
+			alert("Failed to accept the invitation. Please try again.");
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			onClick={() => void handleClick()}
+			disabled={accept.isPending}
+		>
+			{accept.isPending ? "Joining..." : "Accept Invitation"}
+		</button>
+	);
+}
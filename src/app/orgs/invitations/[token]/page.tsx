@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { api } from "~/trpc/server";
+import { AcceptInvitationButton } from "./_components/accept-invitation-button";
+
+/**
+ * Landing page for an emailed invitation to join an organization. Signed-out
+ * visitors are sent to sign in first; someone signed in with a different
+ * address is told which one the invitation was sent to.
+ *
+ * @param params - Route parameters containing the invitation token (must be awaited in Next.js 15)
+ */
+export default async function InvitationPage({
+	params,
+}: {
+	params: Promise<{ token: string }>;
+}) {
+	const { token } = await params;
+	const session = await auth();
+
+	if (!session) {
+		redirect(
+			`/api/auth/signin?callbackUrl=${encodeURIComponent(`/orgs/invitations/${token}`)}`,
+		);
+	}
+
+	const invitation = await api.organization.getInvitation({ token });
+
+	if (!invitation) {
+		return (
+			<main>
+				<h1>Invitation</h1>
+				<p>
+					This invitation has expired or was withdrawn. Ask the organization for
+					a new one.
+				</p>
+				<Link href="/">← Back to events</Link>
+			</main>
+		);
+	}
+
+	return (
+		<main>
+			<h1>Join {invitation.organization.name}</h1>
+			<p>
+				You're invited to join{" "}
+				<Link href={`/orgs/${invitation.organization.slug}`}>
+					{invitation.organization.name}
+				</Link>{" "}
+				as {invitation.role === "owner" ? "an owner" : "an editor"}, so you can
+				post and edit its events.
+			</p>
+			{session.user.email?.toLowerCase() === invitation.email ? (
+				<AcceptInvitationButton token={token} />
+			) : (
+				<p>
+					This invitation was sent to {invitation.email}.{" "}
+					<Link href="/api/auth/signout">Sign out</Link> and sign in with that
+					address to accept it.
+				</p>
+			)}
+		</main>
+	);
+}
@@ -1,26 +1,49 @@
 import Link from "next/link";
 
 import { auth } from "~/server/auth";
+import {
+	type SearchParamsRecord,
+	parseEventFilters,
+	toEventFilterQuery,
+} from "~/shared/event-filters";
+import { hasRole } from "~/shared/roles";
+import { EVENT_PAGE_SIZE } from "~/shared/schemas/event";
 import { HydrateClient, api } from "~/trpc/server";
+import { EventFiltersForm } from "./_components/event-filters-form";
+import { EventList } from "./_components/event-list";
+import { SearchBox } from "./_components/search-box";
 
 /**
  * Home page component displaying the PDX DIY event list and navigation.
  *
- * This is the main landing page that shows all events in a simple list format.
- * Each event displays title and creation date, and is clickable to navigate
- * to the event detail page.
+ * This is the main landing page that shows events in a simple list format.
+ * Filters come from the query string, so filtered views are shareable. The
+ * first page of matching events is fetched on the server and hydrated into
+ * `EventList`, which loads further pages as the visitor scrolls. The
+ * calendar subscription link carries the same filters.
+ *
+ * @param searchParams - Query parameters holding the list filters
  *
  * @returns The home page JSX element
  *
  * @example
  * ```tsx
  * // This page is automatically rendered at the root route "/"
- * <Home />
+ * <Home searchParams={Promise.resolve({ tags: "punk" })} />
  * ```
  */
-export default async function Home() {
+export default async function Home({
+	searchParams,
+}: {
+	searchParams: Promise<SearchParamsRecord>;
+}) {
+	const filters = parseEventFilters(await searchParams);
+	const filterQuery = toEventFilterQuery(filters);
 	const session = await auth();
-	const events = await api.event.getMany();
+	await api.event.getMany.prefetchInfinite({
+		...filters,
+		limit: EVENT_PAGE_SIZE,
+	});
 
 	return (
 		<HydrateClient>
@@ -28,8 +51,19 @@ export default async function Home() {
 				<div>
 					<h1>PDX DIY</h1>
 
+					<SearchBox />
+
 					<div>
 						<Link href="/events/create">Create event</Link>
+						{session && <Link href="/my-events">My events</Link>}
+						{session && <Link href="/drafts">Drafts</Link>}
+						{session && <Link href="/orgs/create">Start an organization</Link>}
+						{hasRole(session?.user.role, "moderator") && (
+							<Link href="/moderation">Moderation</Link>
+						)}
+						{hasRole(session?.user.role, "admin") && (
+							<Link href="/admin/audit-log">Audit log</Link>
+						)}
 
 						<div>
 							{session ? (
@@ -46,22 +80,27 @@ export default async function Home() {
 
 					<div>
 						<h2>Events</h2>
-						{events.length === 0 ? (
-							<p>No events yet. Create the first one!</p>
-						) : (
-							<ul>
-								{events.map((event) => (
-									<li key={event.id}>
-										<Link href={`/events/${event.id}`}>
-											<div>
-												<h3>{event.title}</h3>
-												<p>Created: {event.createdAt.toLocaleDateString()}</p>
-											</div>
-										</Link>
-									</li>
-								))}
-							</ul>
-						)}
+						<EventFiltersForm filters={filters} />
+						<p>
+							<a
+								href={
+									filterQuery ? `/calendar.ics?${filterQuery}` : "/calendar.ics"
+								}
+							>
+								{filterQuery
+									? "Subscribe to these events in your calendar"
+									: "Subscribe in your calendar"}
+							</a>{" "}
+							·{" "}
+							<a href={filterQuery ? `/feed.xml?${filterQuery}` : "/feed.xml"}>
+								RSS
+							</a>{" "}
+							·{" "}
+							<a href={filterQuery ? `/atom.xml?${filterQuery}` : "/atom.xml"}>
+								Atom
+							</a>
+						</p>
+						<EventList filters={filters} />
 					</div>
 				</div>
 			</main>
@@ -0,0 +1,95 @@
+import Link from "next/link";
+
+import type { HighlightSegment } from "~/server/search";
+import { eventSearchSchema } from "~/shared/schemas/event";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { SearchBox } from "../_components/search-box";
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+	return segments.map((segment, index) =>
+		segment.highlight ? (
+			// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+			<mark key={index}>{segment.text}</mark>
+		) : (
+			// biome-ignore lint/suspicious/noArrayIndexKey: static content, never reordered
+			<span key={index}>{segment.text}</span>
+		),
+	);
+}
+
+/**
+ * Search results page for events, driven by the `q` query parameter.
+ *
+ * Shows ranked full-text matches with the matching words highlighted, or
+ * titles similar to a misspelled query when nothing matches exactly.
+ *
+ * @param searchParams - Query parameters; `q` holds the search text
+ * @returns The search page JSX element
+ *
+ * @example
+ * ```tsx
+ * // Automatically rendered at route "/search?q=zine+fest"
+ * <SearchPage searchParams={Promise.resolve({ q: "zine fest" })} />
+ * ```
+ */
+export default async function SearchPage({
+	searchParams,
+}: {
+	searchParams: Promise<{ q?: string | string[] }>;
+}) {
+	const { q } = await searchParams;
+	const query = typeof q === "string" ? q : "";
+	const input = eventSearchSchema.safeParse({ query });
+	const search = input.success ? await api.event.search(input.data) : null;
+
+	return (
+		<main>
+			<div>
+				<Link href="/">← Back to events</Link>
+
+				<h1>Search</h1>
+				<SearchBox defaultValue={query} />
+
+				{!input.success && query.trim() && (
+					<p>{input.error.issues[0]?.message}</p>
+				)}
+
+				{search &&
+					(search.results.length === 0 ? (
+						<p>No events match “{query}”.</p>
+					) : (
+						<>
+							{search.mode === "fuzzy" && (
+								<p>No exact matches. Showing events with similar names.</p>
+							)}
+							<ul>
+								{search.results.map((result) => (
+									<li key={result.id}>
+										<Link href={`/events/${result.id}`}>
+											<h3>
+												<Highlighted segments={result.title} />
+											</h3>
+										</Link>
+										{result.status === "cancelled" && <p>Cancelled</p>}
+										{result.status === "postponed" && <p>Postponed</p>}
+										<p>
+											<time dateTime={result.startsAt.toISOString()}>
+												{formatEventDateTime(result.startsAt)}
+											</time>
+											{result.venueName ? ` — ${result.venueName}` : null}
+										</p>
+										{result.snippet && (
+											<p>
+												<Highlighted segments={result.snippet} />
+											</p>
+										)}
+									</li>
+								))}
+							</ul>
+						</>
+					))}
+			</div>
+		</main>
+	);
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+
+/**
+ * Admin button that curates a suggested tag, or takes a curated one back to
+ * a suggestion.
+ *
+ * @param slug - The tag
+ * @param isCurated - Whether the tag is curated now
+ */
+export function CurateTagButton({
+	slug,
+	isCurated,
+}: {
+	slug: string;
+	isCurated: boolean;
+}) {
+	const router = useRouter();
+	const setCurated = api.tag.setCurated.useMutation();
+
+	const toggle = async () => {
+		try {
+			await setCurated.mutateAsync({ slug, isCurated: !isCurated });
+			router.refresh();
+		} catch (error) {
+			console.error("Failed to update tag:", error);
+			alert("Failed to update the tag. Please try again.");
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			disabled={setCurated.isPending}
+			onClick={() => void toggle()}
+		>
+			{isCurated ? "Uncurate tag" : "Curate tag"}
+		</button>
+	);
+}
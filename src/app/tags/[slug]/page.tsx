@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { eventPath } from "~/shared/recurrence";
+import { hasRole } from "~/shared/roles";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+import { CurateTagButton } from "./_components/curate-tag-button";
+
+/**
+ * Tag page listing upcoming events carrying a tag.
+ *
+ * Shows the tag's name followed by its upcoming events in Portland time,
+ * soonest first, with a link to the filterable home page list for the same
+ * tag. Admins can curate the tag from here.
+ *
+ * @param params - Route parameters containing the tag slug (must be awaited in Next.js 15)
+ * @returns The tag page JSX element or 404 if the tag is not found
+ *
+ * @example
+ * ```tsx
+ * // Automatically rendered at route "/tags/[slug]"
+ * <TagPage params={Promise.resolve({ slug: "zine-swap" })} />
+ * ```
+ */
+export default async function TagPage({
+	params,
+}: {
+	params: Promise<{ slug: string }>;
+}) {
+	const { slug } = await params;
+	const [tag, session] = await Promise.all([
+		api.tag.getBySlug({ slug }),
+		auth(),
+	]);
+
+	if (!tag) {
+		notFound();
+	}
+
+	return (
+		<main>
+			<div>
+				<Link href="/">← Back to events</Link>
+
+				<h1>#{tag.name}</h1>
+
+				{!tag.isCurated && <p>This tag was suggested by an organizer.</p>}
+				{hasRole(session?.user.role, "admin") && (
+					<CurateTagButton slug={tag.slug} isCurated={tag.isCurated} />
+				)}
+
+				<h2>Upcoming events</h2>
+				{tag.upcomingEvents.length === 0 ? (
+					<p>Nothing tagged {tag.name} coming up.</p>
+				) : (
+					<ul>
+						{tag.upcomingEvents.map((event) => (
+							<li key={`${event.id}-${event.startsAt.getTime()}`}>
+								<Link href={eventPath(event.id, event.occurrenceStart)}>
+									<h3>{event.title}</h3>
+									{event.status === "cancelled" && <p>Cancelled</p>}
+									{event.status === "postponed" && <p>Postponed</p>}
+									<p>
+										<time dateTime={event.startsAt.toISOString()}>
+											{formatEventDateTime(event.startsAt)}
+										</time>
+									</p>
+									{event.venue && <p>{event.venue.name}</p>}
+								</Link>
+							</li>
+						))}
+					</ul>
+				)}
+
+				<Link href={`/?tags=${tag.slug}`}>Filter all {tag.name} events</Link>
+				<p>
+					<a href={`/feed.xml?tags=${tag.slug}`}>RSS</a> ·{" "}
+					<a href={`/atom.xml?tags=${tag.slug}`}>Atom</a>
+				</p>
+			</div>
+		</main>
+	);
+}
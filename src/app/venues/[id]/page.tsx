@@ -0,0 +1,80 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { eventPath } from "~/shared/recurrence";
+import { formatEventDateTime } from "~/shared/time";
+import { api } from "~/trpc/server";
+
+/**
+ * Venue detail page listing where a venue is and what's coming up there.
+ *
+ * Shows the venue's address, neighborhood and notes followed by its
+ * upcoming events in Portland time, soonest first. Private venues only show
+ * their neighborhood to anyone but the person who added them.
+ *
+ * @param params - Route parameters containing the venue ID (must be awaited in Next.js 15)
+ * @returns The venue page JSX element or 404 if the venue is not found
+ *
+ * @example
+ * ```tsx
+ * // Automatically rendered at route "/venues/[id]"
+ * <VenuePage params={Promise.resolve({ id: "123" })} />
+ * ```
+ */
+export default async function VenuePage({
+	params,
+}: {
+	params: Promise<{ id: string }>;
+}) {
+	const { id } = await params;
+	const venue = await api.venue.getById({ id });
+
+	if (!venue) {
+		notFound();
+	}
+
+	return (
+		<main>
+			<div>
+				<Link href="/">← Back to events</Link>
+
+				<h1>{venue.name}</h1>
+
+				<p>
+					{venue.streetAddress ??
+						"Private address, shared with the people going to each event"}
+				</p>
+
+				{venue.neighborhood && <p>Neighborhood: {venue.neighborhood}</p>}
+
+				{venue.quadrant && <p>{venue.quadrant} Portland</p>}
+
+				{venue.notes && <p>{venue.notes}</p>}
+
+				<h2>Upcoming events</h2>
+				<p>
+					<a href={`/feed.xml?venue=${venue.id}`}>RSS</a> ·{" "}
+					<a href={`/atom.xml?venue=${venue.id}`}>Atom</a>
+				</p>
+				{venue.upcomingEvents.length === 0 ? (
+					<p>Nothing scheduled here yet.</p>
+				) : (
+					<ul>
+						{venue.upcomingEvents.map((event) => (
+							<li key={`${event.id}-${event.startsAt.getTime()}`}>
+								<Link href={eventPath(event.id, event.occurrenceStart)}>
+									<h3>{event.title}</h3>
+									<p>
+										<time dateTime={event.startsAt.toISOString()}>
+											{formatEventDateTime(event.startsAt)}
+										</time>
+									</p>
+								</Link>
+							</li>
+						))}
+					</ul>
+				)}
+			</div>
+		</main>
+	);
+}
@@ -19,6 +19,17 @@ export const env = createEnv({
 			.default("development"),
 		POSTHOG_KEY: z.string(),
 		POSTHOG_HOST: z.string().url(),
+		STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+		STORAGE_LOCAL_DIR: z.string().default("uploads"),
+		S3_ENDPOINT: z.string().url().optional(),
+		S3_REGION: z.string().default("us-east-1"),
+		S3_BUCKET: z.string().optional(),
+		S3_ACCESS_KEY_ID: z.string().optional(),
+		S3_SECRET_ACCESS_KEY: z.string().optional(),
+		S3_PUBLIC_URL: z.string().url().optional(),
+		SITE_URL: z.string().url().default("http://localhost:3000"),
+		REPORT_HIDE_THRESHOLD: z.coerce.number().int().min(1).default(3),
+		AUDIT_LOG_RETENTION_DAYS: z.coerce.number().int().min(1).default(365),
 	},
 
 	/**
@@ -43,6 +54,17 @@ export const env = createEnv({
 		NODE_ENV: process.env.NODE_ENV,
 		POSTHOG_KEY: process.env.POSTHOG_KEY,
 		POSTHOG_HOST: process.env.POSTHOG_HOST,
+		STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+		STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+		S3_ENDPOINT: process.env.S3_ENDPOINT,
+		S3_REGION: process.env.S3_REGION,
+		S3_BUCKET: process.env.S3_BUCKET,
+		S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+		S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+		S3_PUBLIC_URL: process.env.S3_PUBLIC_URL,
+		SITE_URL: process.env.SITE_URL,
+		REPORT_HIDE_THRESHOLD: process.env.REPORT_HIDE_THRESHOLD,
+		AUDIT_LOG_RETENTION_DAYS: process.env.AUDIT_LOG_RETENTION_DAYS,
 		NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
 		NEXT_PUBLIC_POSTHOG_HOST: process.env.NEXT_PUBLIC_POSTHOG_HOST,
 	},
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Tests for the audit log
+ *
+ * Tests cover:
+ * - Redacting secrets and shortening long input
+ * - Picking the result ID out of a mutation's result
+ * - Diffing a row before an update with the row it returned
+ * - Using a proxy's request ID only when it's well-formed
+ * - Reading filters from the admin page's query string
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseAuditLogFilters } from "~/shared/schemas/audit-log";
+import {
+	diffAuditValues,
+	getRequestId,
+	getResultId,
+	redactAuditInput,
+} from "../audit-log";
+
+describe("redactAuditInput", () => {
+	it("should redact secrets and uploaded calendars at any depth", () => {
+		expect(
+			redactAuditInput({
+				title: "Basement Show",
+				calendar: "BEGIN:VCALENDAR",
+				nested: [
+					{ apiToken: "abc", startsAt: new Date("2025-03-14T03:00:00Z") },
+				],
+			}),
+		).toEqual({
+			title: "Basement Show",
+			calendar: "[redacted]",
+			nested: [
+				{ apiToken: "[redacted]", startsAt: "2025-03-14T03:00:00.000Z" },
+			],
+		});
+	});
+
+	it("should shorten long strings", () => {
+		const redacted = redactAuditInput({ description: "x".repeat(2000) }) as {
+			description: string;
+		};
+
+		expect(redacted.description).toHaveLength(501);
+		expect(redacted.description.endsWith("…")).toBe(true);
+	});
+});
+
+describe("getResultId", () => {
+	it("should read the ID of a returned row", () => {
+		expect(getResultId({ id: "event-1", title: "Show" })).toBe("event-1");
+		expect(getResultId({ count: 3 })).toBeNull();
+		expect(getResultId(undefined)).toBeNull();
+	});
+});
+
+describe("diffAuditValues", () => {
+	it("should list only the fields that changed", () => {
+		expect(
+			diffAuditValues(
+				{
+					id: "event-1",
+					title: "Basement Show",
+					startsAt: new Date("2025-03-14T03:00:00Z"),
+					capacity: 40,
+					updatedAt: new Date("2025-03-01T12:00:00Z"),
+				},
+				{
+					id: "event-1",
+					title: "Garage Show",
+					startsAt: new Date("2025-03-14T03:00:00Z"),
+					capacity: null,
+					updatedAt: new Date("2025-03-02T12:00:00Z"),
+				},
+			),
+		).toEqual({
+			title: { before: "Basement Show", after: "Garage Show" },
+			capacity: { before: 40, after: null },
+		});
+	});
+
+	it("should redact secrets and skip fields the result doesn't carry", () => {
+		expect(
+			diffAuditValues(
+				{ tokenHash: "old", email: "a@example.com" },
+				{ tokenHash: "new" },
+			),
+		).toEqual({ tokenHash: { before: "[redacted]", after: "[redacted]" } });
+		expect(diffAuditValues(undefined, { title: "Show" })).toBeNull();
+	});
+});
+
+describe("getRequestId", () => {
+	it("should keep a well-formed request ID header", () => {
+		expect(getRequestId(new Headers({ "x-request-id": "abc-123" }))).toBe(
+			"abc-123",
+		);
+	});
+
+	it("should generate an ID when the header is missing or odd", () => {
+		const generated = getRequestId(new Headers({ "x-request-id": "<script>" }));
+
+		expect(generated).not.toBe("<script>");
+		expect(generated).toMatch(/^[0-9a-f-]{36}$/);
+		expect(getRequestId(new Headers())).not.toBe(generated);
+	});
+});
+
+describe("parseAuditLogFilters", () => {
+	it("should ignore blank and invalid filters", () => {
+		expect(
+			parseAuditLogFilters({
+				actor: " admin@example.com ",
+				path: "",
+				from: "2025-07-01",
+				to: "not a date",
+			}),
+		).toEqual({ actor: "admin@example.com", from: "2025-07-01" });
+	});
+});
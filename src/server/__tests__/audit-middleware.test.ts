@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Tests for the tRPC audit middleware, against a database
+ *
+ * Tests cover:
+ * - Letting a mutation succeed when its audit entry can't be written
+ * - Counting failed audit writes in PostHog
+ */
+
+import { sql } from "drizzle-orm";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", () => import("~/test/test-db"));
+vi.mock("~/server/posthog", () => ({ captureEvent: vi.fn() }));
+
+import { db } from "~/server/db";
+import { events } from "~/server/db/schema";
+import { captureEvent } from "~/server/posthog";
+import { createTestCaller } from "~/test/test-caller";
+import { insertTestUser } from "~/test/test-db";
+
+describe("audit middleware", () => {
+	it("should count a failed audit write without failing the mutation", async () => {
+		await insertTestUser("organizer");
+		const [event] = await db
+			.insert(events)
+			.values({
+				title: "Basement Show",
+				startsAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+				createdById: "organizer",
+			})
+			.returning();
+		// Drops the table for the rest of this file; later writes fail too.
+		await db.execute(sql`DROP TABLE "pdx-diy_audit_log"`);
+		vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+		const deleted = await createTestCaller("organizer").event.delete({
+			id: event?.id ?? "",
+		});
+
+		expect(deleted?.status).toBe("deleted");
+		expect(captureEvent).toHaveBeenCalledWith(
+			"organizer",
+			"audit_log_write_failed",
+			{ path: "event.delete", request_id: "test-request" },
+		);
+	});
+});
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Tests for event page previews and structured data
+ *
+ * Tests cover:
+ * - Meta descriptions with time, venue, status and a trimmed excerpt
+ * - schema.org Event fields, including absolute flyer URLs and offers
+ * - Escaping JSON-LD for script elements
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	type PreviewEvent,
+	buildEventJsonLd,
+	describeEventPreview,
+	serializeJsonLd,
+} from "../event-metadata";
+
+const event = (overrides: Partial<PreviewEvent> = {}): PreviewEvent => ({
+	title: "Basement Show",
+	descriptionText: "Three bands,\n\none basement",
+	startsAt: new Date("2025-03-14T03:00:00Z"),
+	endsAt: null,
+	status: "scheduled",
+	priceKind: "sliding",
+	priceMinCents: 500,
+	priceMaxCents: 1500,
+	ticketUrl: "https://tickets.example.com/basement",
+	agePolicy: "all_ages",
+	flyer: null,
+	venue: {
+		name: "The Basement",
+		streetAddress: "123 SE Main St",
+		latitude: 45.5,
+		longitude: -122.6,
+	},
+	...overrides,
+});
+
+describe("describeEventPreview", () => {
+	it("should lead with the time and venue", () => {
+		expect(describeEventPreview(event())).toMatch(
+			/^.+ at The Basement\. Three bands, one basement$/,
+		);
+	});
+
+	it("should flag cancelled events and trim long descriptions", () => {
+		const description = describeEventPreview(
+			event({ status: "cancelled", descriptionText: "noise ".repeat(100) }),
+		);
+
+		expect(description.startsWith("Cancelled: ")).toBe(true);
+		expect(description.length).toBeLessThanOrEqual(200);
+		expect(description.endsWith("…")).toBe(true);
+	});
+});
+
+describe("buildEventJsonLd", () => {
+	it("should describe the event, place and flyer", () => {
+		const data = buildEventJsonLd(
+			event({
+				status: "postponed",
+				flyer: {
+					id: "flyer",
+					width: 800,
+					height: 1000,
+					urls: {
+						thumb: "/api/uploads/flyers/flyer/thumb.webp",
+						medium: "/api/uploads/flyers/flyer/medium.webp",
+						large: "/api/uploads/flyers/flyer/large.webp",
+					},
+				},
+			}),
+			"https://example.com/events/1",
+		);
+
+		expect(data).toMatchObject({
+			"@type": "Event",
+			name: "Basement Show",
+			startDate: "2025-03-14T03:00:00.000Z",
+			eventStatus: "https://schema.org/EventPostponed",
+			isAccessibleForFree: false,
+			offers: {
+				"@type": "Offer",
+				price: 5,
+				priceCurrency: "USD",
+				url: "https://tickets.example.com/basement",
+			},
+			typicalAgeRange: "0-",
+			image: ["https://example.com/api/uploads/flyers/flyer/large.webp"],
+			location: {
+				"@type": "Place",
+				name: "The Basement",
+				address: {
+					streetAddress: "123 SE Main St",
+					addressLocality: "Portland",
+				},
+				geo: { latitude: 45.5, longitude: -122.6 },
+			},
+		});
+		expect(data).not.toHaveProperty("endDate");
+	});
+});
+
+describe("serializeJsonLd", () => {
+	it("should keep event text from closing the script", () => {
+		const json = serializeJsonLd({ name: "</script><script>alert(1)" });
+
+		expect(json).not.toContain("<");
+		expect(JSON.parse(json)).toEqual({ name: "</script><script>alert(1)" });
+	});
+});
@@ -0,0 +1,395 @@
+/**
+ * @fileoverview Tests for the event router, against a database
+ *
+ * Tests cover:
+ * - Rejecting stale edits and edits by other organizers
+ * - Sending edits of approved events by untrusted organizers, and edits of
+ *   rejected ones, back for review
+ * - Limiting who can move an event out of its organization
+ * - Listing upcoming events unless a start date is given
+ * - Requiring a publish time for scheduled events
+ * - Recording what an edit changed in the audit log
+ */
+
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", () => import("~/test/test-db"));
+
+import { db } from "~/server/db";
+import {
+	events,
+	auditLog,
+	organizationMembers,
+	organizations,
+} from "~/server/db/schema";
+import { toZonedDateValue } from "~/shared/time";
+import { createTestCaller } from "~/test/test-caller";
+import { insertTestUser, resetTestDb } from "~/test/test-db";
+
+const nextWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+/**
+ * Adds an approved, published event posted by `createdById`.
+ */
+async function insertEvent(
+	createdById: string,
+	values: Partial<typeof events.$inferInsert> = {},
+) {
+	const [event] = await db
+		.insert(events)
+		.values({
+			title: "Basement Show",
+			startsAt: nextWeek(),
+			publishAt: new Date(Date.now() - 60 * 60 * 1000),
+			moderationStatus: "approved",
+			createdById,
+			...values,
+		})
+		.returning();
+	if (!event) {
+		throw new Error("Event wasn't inserted");
+	}
+	return event;
+}
+
+/**
+ * Builds `event.update` input that keeps the event as it is, apart from
+ * `overrides`.
+ */
+const updateInput = (
+	event: typeof events.$inferSelect,
+	overrides: Record<string, unknown> = {},
+) => ({
+	id: event.id,
+	expectedUpdatedAt: event.updatedAt,
+	title: event.title,
+	startsAt: event.startsAt,
+	endsAt: event.endsAt,
+	venueId: event.venueId,
+	organizationId: event.organizationId,
+	capacity: event.capacity,
+	...overrides,
+});
+
+/**
+ * Adds an organization with `members`, by user id and role.
+ */
+async function insertOrganization(
+	slug: string,
+	members: Record<string, "owner" | "editor">,
+) {
+	const [organization] = await db
+		.insert(organizations)
+		.values({ slug, name: slug })
+		.returning();
+	if (!organization) {
+		throw new Error("Organization wasn't inserted");
+	}
+	await db.insert(organizationMembers).values(
+		Object.entries(members).map(([userId, role]) => ({
+			organizationId: organization.id,
+			userId,
+			role,
+		})),
+	);
+	return organization;
+}
+
+const moderationStatusOf = async (id: string) =>
+	(
+		await db.query.events.findFirst({
+			columns: { moderationStatus: true },
+			where: eq(events.id, id),
+		})
+	)?.moderationStatus;
+
+beforeEach(async () => {
+	await resetTestDb();
+});
+
+describe("event.update access", () => {
+	it("should reject an edit made from a stale copy of the event", async () => {
+		await insertTestUser("organizer", { isTrusted: true });
+		const event = await insertEvent("organizer", {
+			updatedAt: new Date(Date.now() - 60 * 1000),
+		});
+		const caller = createTestCaller("organizer");
+		await caller.event.update(updateInput(event, { capacity: 40 }));
+
+		await expect(
+			caller.event.update(updateInput(event, { title: "Garage Show" })),
+		).rejects.toMatchObject({ code: "CONFLICT" });
+		const current = await db.query.events.findFirst({
+			where: eq(events.id, event.id),
+		});
+		expect(current).toMatchObject({ title: "Basement Show", capacity: 40 });
+	});
+
+	it("should stop organizers editing someone else's event", async () => {
+		await insertTestUser("organizer");
+		await insertTestUser("stranger");
+		const event = await insertEvent("organizer");
+
+		await expect(
+			createTestCaller("stranger").event.update(
+				updateInput(event, { title: "Garage Show" }),
+			),
+		).rejects.toMatchObject({ code: "FORBIDDEN" });
+	});
+});
+
+describe("event.update moderation", () => {
+	it("should send an untrusted organizer's retitled event back for review", async () => {
+		await insertTestUser("organizer");
+		const event = await insertEvent("organizer");
+
+		await createTestCaller("organizer").event.update(
+			updateInput(event, { title: "Something Else Entirely" }),
+		);
+
+		expect(await moderationStatusOf(event.id)).toBe("pending");
+		const { items } = await createTestCaller().event.getMany({});
+		expect(items).toEqual([]);
+	});
+
+	it("should keep approval for changes a moderator didn't review", async () => {
+		await insertTestUser("organizer");
+		const event = await insertEvent("organizer");
+
+		await createTestCaller("organizer").event.update(
+			updateInput(event, { capacity: 40 }),
+		);
+
+		expect(await moderationStatusOf(event.id)).toBe("approved");
+	});
+
+	it("should let trusted organizers edit without another review", async () => {
+		await insertTestUser("organizer", { isTrusted: true });
+		const event = await insertEvent("organizer");
+
+		await createTestCaller("organizer").event.update(
+			updateInput(event, { title: "Something Else Entirely" }),
+		);
+
+		expect(await moderationStatusOf(event.id)).toBe("approved");
+	});
+
+	it("should send an untrusted organizer's retitled date back for review", async () => {
+		await insertTestUser("organizer");
+		const event = await insertEvent("organizer", {
+			recurrenceRule: "FREQ=WEEKLY;COUNT=4",
+		});
+		const caller = createTestCaller("organizer");
+		const series = await caller.event.getById({ id: event.id });
+		const occurrenceStart = series?.upcomingOccurrences[1]?.occurrenceStart;
+		if (!occurrenceStart) {
+			throw new Error("Series has no second date");
+		}
+
+		await caller.event.updateOccurrence({
+			id: event.id,
+			occurrenceStart,
+			title: "Something Else Entirely",
+			startsAt: occurrenceStart,
+			endsAt: null,
+		});
+
+		expect(await moderationStatusOf(event.id)).toBe("pending");
+	});
+
+	it("should send a rejected series back for review without its old reason", async () => {
+		await insertTestUser("organizer", { isTrusted: true });
+		const event = await insertEvent("organizer", {
+			recurrenceRule: "FREQ=WEEKLY;COUNT=4",
+			moderationStatus: "rejected",
+			moderationReason: "Add the venue",
+		});
+		const caller = createTestCaller("organizer");
+		const series = await caller.event.getById({ id: event.id });
+		const occurrenceStart = series?.upcomingOccurrences[1]?.occurrenceStart;
+		if (!occurrenceStart) {
+			throw new Error("Series has no second date");
+		}
+
+		await caller.event.updateOccurrence({
+			id: event.id,
+			occurrenceStart,
+			title: "Something Else Entirely",
+			startsAt: occurrenceStart,
+			endsAt: null,
+		});
+
+		const reviewed = await db.query.events.findFirst({
+			columns: { moderationStatus: true, moderationReason: true },
+			where: eq(events.id, event.id),
+		});
+		expect(reviewed).toEqual({
+			moderationStatus: "pending",
+			moderationReason: null,
+		});
+	});
+});
+
+describe("event.update organization", () => {
+	beforeEach(async () => {
+		await insertTestUser("poster", { isTrusted: true });
+		await insertTestUser("owner", { isTrusted: true });
+		await insertTestUser("editor", { isTrusted: true });
+	});
+
+	it("should stop an editor removing someone else's event from the organization", async () => {
+		const collective = await insertOrganization("collective", {
+			poster: "editor",
+			owner: "owner",
+			editor: "editor",
+		});
+		const event = await insertEvent("poster", {
+			organizationId: collective.id,
+		});
+
+		await expect(
+			createTestCaller("editor").event.update(
+				updateInput(event, { organizationId: null }),
+			),
+		).rejects.toMatchObject({ code: "FORBIDDEN" });
+	});
+
+	it("should stop an editor moving someone else's event to another organization", async () => {
+		const collective = await insertOrganization("collective", {
+			poster: "editor",
+			owner: "owner",
+			editor: "editor",
+		});
+		const other = await insertOrganization("other", { editor: "owner" });
+		const event = await insertEvent("poster", {
+			organizationId: collective.id,
+		});
+
+		await expect(
+			createTestCaller("editor").event.update(
+				updateInput(event, { organizationId: other.id }),
+			),
+		).rejects.toMatchObject({ code: "FORBIDDEN" });
+	});
+
+	it("should stop a poster who has left the organization editing or removing its event", async () => {
+		const collective = await insertOrganization("collective", {
+			owner: "owner",
+		});
+		const event = await insertEvent("poster", {
+			organizationId: collective.id,
+		});
+		const caller = createTestCaller("poster");
+
+		await expect(
+			caller.event.update(updateInput(event, { title: "Garage Show" })),
+		).rejects.toMatchObject({ code: "FORBIDDEN" });
+		await expect(
+			caller.event.update(updateInput(event, { organizationId: null })),
+		).rejects.toMatchObject({ code: "FORBIDDEN" });
+	});
+
+	it("should let the poster or an owner remove an event from the organization", async () => {
+		const collective = await insertOrganization("collective", {
+			poster: "editor",
+			owner: "owner",
+		});
+		const posted = await insertEvent("poster", {
+			organizationId: collective.id,
+		});
+		const owned = await insertEvent("poster", {
+			organizationId: collective.id,
+		});
+
+		await createTestCaller("poster").event.update(
+			updateInput(posted, { organizationId: null }),
+		);
+		const updated = await createTestCaller("owner").event.update(
+			updateInput(owned, { organizationId: null }),
+		);
+
+		expect(updated.organizationId).toBeNull();
+	});
+});
+
+describe("event.create publishing", () => {
+	it("should reject a scheduled event without a publish time", async () => {
+		await insertTestUser("organizer", { isTrusted: true });
+
+		await expect(
+			createTestCaller("organizer").event.create({
+				title: "Basement Show",
+				startsAt: nextWeek(),
+				endsAt: null,
+				publish: "schedule",
+				publishAt: null,
+			}),
+		).rejects.toMatchObject({ code: "BAD_REQUEST" });
+		expect(await db.query.events.findMany()).toEqual([]);
+	});
+
+	it("should hold a scheduled event until its publish time", async () => {
+		await insertTestUser("organizer", { isTrusted: true });
+		const publishAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+		const event = await createTestCaller("organizer").event.create({
+			title: "Basement Show",
+			startsAt: nextWeek(),
+			endsAt: null,
+			publish: "schedule",
+			publishAt,
+		});
+
+		expect(event).toMatchObject({ isDraft: false, publishAt });
+		const { items } = await createTestCaller().event.getMany({});
+		expect(items).toEqual([]);
+	});
+});
+
+describe("event.getMany", () => {
+	it("should list upcoming events unless asked for earlier ones", async () => {
+		await insertTestUser("organizer");
+		await insertEvent("organizer", {
+			title: "Last Month's Show",
+			startsAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+		});
+		await insertEvent("organizer", { title: "Next Week's Show" });
+		const caller = createTestCaller();
+
+		const upcoming = await caller.event.getMany({});
+		const sinceLastYear = await caller.event.getMany({
+			from: toZonedDateValue(new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)),
+		});
+
+		expect(upcoming.items.map((item) => item.title)).toEqual([
+			"Next Week's Show",
+		]);
+		expect(sinceLastYear.items.map((item) => item.title)).toEqual([
+			"Last Month's Show",
+			"Next Week's Show",
+		]);
+	});
+});
+
+describe("event.update audit log", () => {
+	it("should record the fields an edit changed", async () => {
+		await insertTestUser("organizer", { isTrusted: true });
+		const event = await insertEvent("organizer", { capacity: 40 });
+
+		await createTestCaller("organizer").event.update(
+			updateInput(event, { title: "Garage Show", capacity: 60 }),
+		);
+
+		const entry = await db.query.auditLog.findFirst({
+			where: eq(auditLog.path, "event.update"),
+		});
+		expect(entry?.resultId).toBe(event.id);
+		expect(entry?.changes).toEqual({
+			title: { before: "Basement Show", after: "Garage Show" },
+			capacity: { before: 40, after: 60 },
+		});
+	});
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Tests for which events feeds include, against a database
+ *
+ * Tests cover:
+ * - Leaving a signed-in organizer's own drafts out of publicly cached feeds
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("~/server/db", () => import("~/test/test-db"));
+// The organizer is signed in when they fetch the feed
+vi.mock("~/server/auth", async () => {
+	const { testSession } = await import("~/test/test-db");
+	return { auth: async () => testSession("organizer") };
+});
+
+import { db } from "~/server/db";
+import { events } from "~/server/db/schema";
+import { insertTestUser, resetTestDb } from "~/test/test-db";
+import { loadFeed } from "../feeds";
+
+const nextWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+describe("loadFeed", () => {
+	beforeEach(async () => {
+		await resetTestDb();
+		await insertTestUser("organizer");
+	});
+
+	it("should leave out the requesting organizer's drafts", async () => {
+		await db.insert(events).values([
+			{
+				title: "Public Show",
+				startsAt: nextWeek(),
+				moderationStatus: "approved",
+				createdById: "organizer",
+			},
+			{
+				title: "Secret Draft",
+				startsAt: nextWeek(),
+				isDraft: true,
+				moderationStatus: "approved",
+				createdById: "organizer",
+			},
+		]);
+
+		const feed = await loadFeed(
+			new Request("https://example.com/feed.xml", {
+				headers: { cookie: "authjs.session-token=organizer" },
+			}),
+		);
+
+		expect(feed.items.map((item) => item.title)).toEqual(["Public Show"]);
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Tests for RSS and Atom feeds
+ *
+ * Tests cover:
+ * - Escaping markup and dropping characters XML can't hold
+ * - RSS items with escaped titles and occurrence links
+ * - Atom entries and feed metadata
+ * - Dating scheduled events by when they were published
+ * - ETags and conditional requests
+ */
+
+import { describe, expect, it, vi } from "vitest";
+
+// Feeds load events through the API; only serialization is tested here
+vi.mock("~/server/api/root", () => ({ createCaller: vi.fn() }));
+vi.mock("~/server/db", () => ({ db: {} }));
+
+import {
+	type Feed,
+	type FeedItem,
+	buildAtomFeed,
+	buildRssFeed,
+	escapeXml,
+	feedResponse,
+} from "../feeds";
+
+const item = (overrides: Partial<FeedItem> = {}): FeedItem => ({
+	id: "0190f5a2-7b3c-7def-8123-456789abcdef",
+	occurrenceStart: null,
+	title: `<Noise> & "Friends"`,
+	descriptionText: "Three bands, one basement",
+	startsAt: new Date("2025-03-14T03:00:00Z"),
+	endsAt: null,
+	status: "scheduled",
+	createdAt: new Date("2025-03-01T12:00:00Z"),
+	updatedAt: null,
+	publishAt: new Date("2025-03-01T12:00:00Z"),
+	venue: { name: "The Basement" },
+	...overrides,
+});
+
+const feed = (items: FeedItem[]): Feed => ({
+	title: "PDX DIY: upcoming events",
+	description: "Events for the DIY community in Portland, Oregon",
+	siteUrl: "https://example.com/",
+	selfUrl: "https://example.com/feed.xml?tags=punk&venue=1",
+	baseUrl: "https://example.com",
+	items,
+});
+
+describe("escapeXml", () => {
+	it("should escape markup characters", () => {
+		expect(escapeXml(`<a href="x">Tom's & Jerry's</a>`)).toBe(
+			"&lt;a href=&quot;x&quot;&gt;Tom&apos;s &amp; Jerry&apos;s&lt;/a&gt;",
+		);
+	});
+
+	it("should drop control characters", () => {
+		expect(escapeXml("Basement\u0000 Show\u001b")).toBe("Basement Show");
+	});
+});
+
+describe("buildRssFeed", () => {
+	it("should escape titles and link to occurrences", () => {
+		const rss = buildRssFeed(
+			feed([
+				item(),
+				item({
+					title: "Weekly Jam",
+					occurrenceStart: new Date("2025-03-21T03:00:00Z"),
+					status: "cancelled",
+				}),
+			]),
+		);
+
+		expect(rss).toContain(
+			"<title>&lt;Noise&gt; &amp; &quot;Friends&quot;</title>",
+		);
+		expect(rss).not.toContain("<Noise>");
+		expect(rss).toContain("<title>Cancelled: Weekly Jam</title>");
+		expect(rss).toContain(
+			"https://example.com/events/0190f5a2-7b3c-7def-8123-456789abcdef?occurrence=2025-03-21T03%3A00%3A00.000Z",
+		);
+		expect(rss).toContain(
+			'href="https://example.com/feed.xml?tags=punk&amp;venue=1"',
+		);
+		expect(rss.match(/<item>/g)).toHaveLength(2);
+	});
+});
+
+describe("buildAtomFeed", () => {
+	it("should write entries with ids and update times", () => {
+		const atom = buildAtomFeed(
+			feed([item({ updatedAt: new Date("2025-03-05T12:00:00Z") })]),
+		);
+
+		expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+		expect(atom).toContain(
+			"<id>https://example.com/events/0190f5a2-7b3c-7def-8123-456789abcdef</id>",
+		);
+		expect(atom).toContain("<updated>2025-03-05T12:00:00.000Z</updated>");
+		expect(atom).toContain(
+			'<title type="text">&lt;Noise&gt; &amp; &quot;Friends&quot;</title>',
+		);
+	});
+});
+
+describe("publish dates", () => {
+	it("should date scheduled events by when they went public", () => {
+		const published = item({
+			updatedAt: new Date("2025-03-02T12:00:00Z"),
+			publishAt: new Date("2025-03-08T17:00:00Z"),
+		});
+
+		expect(buildRssFeed(feed([published]))).toContain(
+			"<pubDate>Sat, 08 Mar 2025 17:00:00 GMT</pubDate>",
+		);
+		const atom = buildAtomFeed(feed([published]));
+		expect(atom).toContain("<published>2025-03-08T17:00:00.000Z</published>");
+		expect(atom).toContain("<updated>2025-03-08T17:00:00.000Z</updated>");
+	});
+});
+
+describe("feedResponse", () => {
+	it("should answer a matching If-None-Match with 304", () => {
+		const body = buildRssFeed(feed([item()]));
+		const first = feedResponse(
+			new Request("https://example.com/feed.xml"),
+			body,
+			"application/rss+xml",
+		);
+		const etag = first.headers.get("ETag");
+
+		expect(first.status).toBe(200);
+		expect(first.headers.get("Cache-Control")).toContain("public");
+
+		const second = feedResponse(
+			new Request("https://example.com/feed.xml", {
+				headers: { "If-None-Match": etag ?? "" },
+			}),
+			body,
+			"application/rss+xml",
+		);
+		expect(second.status).toBe(304);
+	});
+});
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Tests for flyer image processing
+ *
+ * Tests cover:
+ * - Stripping EXIF metadata (including GPS) from uploads
+ * - Generating resized variants without upscaling
+ * - Rejecting unsupported or corrupt files
+ */
+
+import sharp from "sharp";
+import { describe, expect, it, vi } from "vitest";
+
+// Mock server-only to prevent client component error in tests
+vi.mock("server-only", () => ({}));
+
+// Storage is only needed for storeFlyer/toFlyerView, not processing
+vi.mock("~/server/storage", () => ({ getStorage: vi.fn() }));
+
+import { processFlyer } from "../flyers";
+
+/**
+ * Builds a JPEG of the given size with EXIF camera and GPS tags attached.
+ */
+const createPhoto = (width: number, height: number) =>
+	sharp({
+		create: { width, height, channels: 3, background: "#c0ffee" },
+	})
+		.jpeg()
+		.withExif({
+			IFD0: { Make: "Test Camera", Copyright: "Someone" },
+			IFD3: { GPSLatitudeRef: "N", GPSLatitude: "45/1 31/1 0/1" },
+		})
+		.toBuffer();
+
+describe("processFlyer", () => {
+	it("should strip EXIF and GPS metadata from every variant", async () => {
+		const input = await createPhoto(1000, 1400);
+		expect((await sharp(input).metadata()).exif).toBeDefined();
+
+		const flyer = await processFlyer(input);
+
+		for (const variant of flyer.variants) {
+			const metadata = await sharp(variant.data).metadata();
+			expect(metadata.format).toBe("webp");
+			expect(metadata.exif).toBeUndefined();
+		}
+	});
+
+	it("should resize variants to their target widths without upscaling", async () => {
+		const flyer = await processFlyer(await createPhoto(1000, 1400));
+
+		expect(flyer.width).toBe(1000);
+		expect(flyer.height).toBe(1400);
+		expect(
+			flyer.variants.map(({ name, width, height }) => ({
+				name,
+				width,
+				height,
+			})),
+		).toEqual([
+			{ name: "thumb", width: 320, height: 448 },
+			{ name: "medium", width: 800, height: 1120 },
+			{ name: "large", width: 1000, height: 1400 },
+		]);
+	});
+
+	it("should apply EXIF orientation before discarding it", async () => {
+		const rotated = await sharp({
+			create: { width: 600, height: 400, channels: 3, background: "#000" },
+		})
+			.jpeg()
+			.withMetadata({ orientation: 6 })
+			.toBuffer();
+
+		const flyer = await processFlyer(rotated);
+
+		expect(flyer.width).toBe(400);
+		expect(flyer.height).toBe(600);
+		expect(flyer.variants[0]?.width).toBe(320);
+		expect(flyer.variants[0]?.height).toBe(480);
+	});
+
+	it("should reject files that aren't images", async () => {
+		await expect(
+			processFlyer(Buffer.from("<svg onload=alert(1)></svg>")),
+		).rejects.toThrow();
+	});
+
+	it("should reject unsupported image formats", async () => {
+		const gif = await sharp({
+			create: { width: 10, height: 10, channels: 3, background: "#fff" },
+		})
+			.gif()
+			.toBuffer();
+
+		await expect(processFlyer(gif)).rejects.toThrow("Unsupported image format");
+	});
+});
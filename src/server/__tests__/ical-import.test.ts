@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Tests for iCalendar import parsing
+ *
+ * Tests cover:
+ * - Unfolding lines and unescaping text
+ * - Reading times in UTC, Portland, other zones and as all-day dates
+ * - Skipping nested components
+ * - Quoted parameters, and lines with very many parameters
+ * - Building event input that passes `eventSchema`
+ */
+
+import { describe, expect, it } from "vitest";
+import { eventSchema } from "~/shared/schemas/event";
+import { parseCalendar, toImportInput } from "../ical-import";
+
+const calendar = (...lines: string[]) =>
+	["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+describe("parseCalendar", () => {
+	it("should read folded and escaped properties", () => {
+		const [event] = parseCalendar(
+			calendar(
+				"BEGIN:VEVENT",
+				"UID:abc@example.com",
+				"SUMMARY:Noise Night\\, Vol. 2",
+				"DESCRIPTION:Doors at 7\\nShow at 8. Bring earplugs and a friend; it ",
+				" gets loud.",
+				"LOCATION:The Basement\\, 123 SE Main St",
+				"CATEGORIES:Noise,Experimental",
+				"DTSTART:20300314T030000Z",
+				"BEGIN:VALARM",
+				"DESCRIPTION:Reminder",
+				"END:VALARM",
+				"END:VEVENT",
+			),
+		);
+
+		expect(event).toMatchObject({
+			uid: "abc@example.com",
+			summary: "Noise Night, Vol. 2",
+			description:
+				"Doors at 7\nShow at 8. Bring earplugs and a friend; it gets loud.",
+			location: "The Basement, 123 SE Main St",
+			categories: ["Noise", "Experimental"],
+		});
+		expect(event?.start?.date).toEqual(new Date("2030-03-14T03:00:00Z"));
+	});
+
+	it("should read zoned, floating and all-day times", () => {
+		const events = parseCalendar(
+			calendar(
+				"BEGIN:VEVENT",
+				"DTSTART;TZID=America/New_York:20300701T230000",
+				"END:VEVENT",
+				"BEGIN:VEVENT",
+				"DTSTART:20300701T200000",
+				"END:VEVENT",
+				"BEGIN:VEVENT",
+				'DTSTART;TZID="/mozilla.org/20050126_1/America/Los_Angeles":20300701T200000',
+				"END:VEVENT",
+				"BEGIN:VEVENT",
+				"DTSTART;VALUE=DATE:20300701",
+				"END:VEVENT",
+			),
+		);
+
+		const starts = events.map((event) => event.start?.date.toISOString());
+		expect(starts).toEqual([
+			"2030-07-02T03:00:00.000Z",
+			"2030-07-02T03:00:00.000Z",
+			"2030-07-02T03:00:00.000Z",
+			"2030-07-01T07:00:00.000Z",
+		]);
+		expect(events[3]?.start?.allDay).toBe(true);
+	});
+
+	it("should keep semicolons and colons inside quoted parameters", () => {
+		const [event] = parseCalendar(
+			calendar(
+				"BEGIN:VEVENT",
+				'DTSTART;X-NOTE="a;b:c";TZID=America/New_York:20300701T230000',
+				"END:VEVENT",
+			),
+		);
+
+		expect(event?.start?.date).toEqual(new Date("2030-07-02T03:00:00Z"));
+	});
+
+	it("should parse a line with a huge number of parameters quickly", () => {
+		const line = `X-JUNK${";".repeat(200_000)}:value`;
+		const started = performance.now();
+
+		parseCalendar(calendar("BEGIN:VEVENT", line, "END:VEVENT"));
+
+		expect(performance.now() - started).toBeLessThan(1000);
+	});
+
+	it("should flag changed occurrences of a series", () => {
+		const [event] = parseCalendar(
+			calendar(
+				"BEGIN:VEVENT",
+				"RECURRENCE-ID:20300314T030000Z",
+				"DTSTART:20300314T040000Z",
+				"END:VEVENT",
+			),
+		);
+
+		expect(event?.isOverride).toBe(true);
+	});
+});
+
+describe("toImportInput", () => {
+	it("should produce valid event input", () => {
+		const [event] = parseCalendar(
+			calendar(
+				"BEGIN:VEVENT",
+				"SUMMARY:Open Mic",
+				"DESCRIPTION:Sign up at the door\\n\\nAll welcome",
+				"DTSTART:20300314T030000Z",
+				"DTEND:20300314T060000Z",
+				"RRULE:FREQ=WEEKLY;UNTIL=20300601T000000Z",
+				"EXDATE:20300321T030000Z",
+				"END:VEVENT",
+			),
+		);
+		if (!event) throw new Error("No event parsed");
+
+		const result = eventSchema.safeParse(toImportInput(event, null));
+
+		expect(result.success).toBe(true);
+		expect(result.data?.description?.content).toHaveLength(2);
+		expect(result.data?.recurrence?.exceptions).toEqual(["2030-03-20"]);
+	});
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Tests for iCalendar export
+ *
+ * Tests cover:
+ * - Escaping TEXT values
+ * - Folding long lines without splitting characters
+ * - Portland wall-clock times with the VTIMEZONE
+ * - Recurring events with skipped and changed dates
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	type CalendarEvent,
+	buildCalendar,
+	escapeText,
+	foldLine,
+} from "../ical";
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+	id: "0190f5a2-7b3c-7def-8123-456789abcdef",
+	title: "Basement Show",
+	descriptionText: "Three bands, one basement",
+	startsAt: new Date("2025-03-14T03:00:00Z"),
+	endsAt: new Date("2025-03-14T06:00:00Z"),
+	status: "scheduled",
+	statusNote: null,
+	recurrenceRule: null,
+	recurrenceExceptions: [],
+	createdAt: new Date("2025-03-01T12:00:00Z"),
+	updatedAt: null,
+	venue: {
+		name: "The Basement",
+		streetAddress: "123 SE Main St",
+		latitude: null,
+		longitude: null,
+	},
+	occurrences: [],
+	...overrides,
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, "");
+
+describe("escapeText", () => {
+	it("should escape separators and line breaks", () => {
+		expect(escapeText("Punk; noise, etc.\\\nAll ages")).toBe(
+			"Punk\\; noise\\, etc.\\\\\\nAll ages",
+		);
+	});
+});
+
+describe("foldLine", () => {
+	it("should keep every line within 75 octets", () => {
+		const folded = foldLine(`SUMMARY:${"ü".repeat(100)}`);
+
+		for (const line of folded.split("\r\n")) {
+			expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+		}
+		expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"ü".repeat(100)}`);
+	});
+});
+
+describe("buildCalendar", () => {
+	it("should write Portland times with a stable UID", () => {
+		const calendar = buildCalendar({
+			name: "PDX DIY",
+			baseUrl: "https://example.com",
+			events: [event()],
+		});
+
+		expect(calendar.endsWith("\r\n")).toBe(true);
+		expect(calendar).toContain("TZID:America/Los_Angeles");
+		expect(calendar).toContain(
+			"DTSTART;TZID=America/Los_Angeles:20250313T200000",
+		);
+		expect(calendar).toContain(
+			"DTEND;TZID=America/Los_Angeles:20250313T230000",
+		);
+		expect(calendar).toContain(
+			"UID:0190f5a2-7b3c-7def-8123-456789abcdef@pdx-diy",
+		);
+		expect(unfold(calendar)).toContain(
+			"LOCATION:The Basement\\, 123 SE Main St",
+		);
+		expect(calendar).toContain("STATUS:CONFIRMED");
+	});
+
+	it("should export series with skipped and changed dates", () => {
+		const calendar = unfold(
+			buildCalendar({
+				name: "PDX DIY",
+				baseUrl: "https://example.com",
+				events: [
+					event({
+						recurrenceRule: "FREQ=WEEKLY;COUNT=4",
+						recurrenceExceptions: ["2025-03-20"],
+						occurrences: [
+							{
+								eventId: "0190f5a2-7b3c-7def-8123-456789abcdef",
+								// Mar 27, 8 PM PDT
+								occurrenceStart: new Date("2025-03-28T03:00:00Z"),
+								title: null,
+								startsAt: null,
+								endsAt: null,
+								status: "cancelled",
+								statusNote: "Flooded",
+								updatedAt: null,
+							},
+						],
+					}),
+				],
+			}),
+		);
+
+		expect(calendar).toContain("RRULE:FREQ=WEEKLY;COUNT=4");
+		expect(calendar).toContain(
+			"EXDATE;TZID=America/Los_Angeles:20250320T200000",
+		);
+		expect(calendar).toContain(
+			"RECURRENCE-ID;TZID=America/Los_Angeles:20250327T200000",
+		);
+		expect(calendar).toContain("STATUS:CANCELLED");
+		expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+	});
+});
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Tests for event moderation
+ *
+ * Tests cover:
+ * - Which organizers' events wait for review
+ * - Emails telling organizers about approvals and rejections
+ * - Requiring a reason for rejections
+ */
+
+import { describe, expect, it, vi } from "vitest";
+
+// Mock server-only to prevent client component error in tests
+vi.mock("server-only", () => ({}));
+import { moderationDecideSchema } from "~/shared/schemas/moderation";
+import { buildModerationEmail, needsModeration } from "../moderation";
+
+const event = {
+	id: "0190f5a2-7b3c-7def-8123-456789abcdef",
+	title: "Basement Show",
+	publishAt: new Date("2025-03-01T20:00:00Z"),
+};
+const now = new Date("2025-03-02T20:00:00Z");
+
+describe("needsModeration", () => {
+	it("should hold events from untrusted organizers", () => {
+		expect(needsModeration({ role: "organizer", isTrusted: false })).toBe(true);
+	});
+
+	it("should let trusted organizers and moderators post straight away", () => {
+		expect(needsModeration({ role: "organizer", isTrusted: true })).toBe(false);
+		expect(needsModeration({ role: "moderator", isTrusted: false })).toBe(
+			false,
+		);
+		expect(needsModeration({ role: "admin", isTrusted: false })).toBe(false);
+	});
+});
+
+describe("buildModerationEmail", () => {
+	it("should link approved events", () => {
+		const email = buildModerationEmail(
+			event,
+			{ approve: true },
+			"https://example.com",
+			now,
+		);
+
+		expect(email.subject).toBe('Your event "Basement Show" is approved');
+		expect(email.text).toContain("It's now listed");
+		expect(email.text).toContain(`https://example.com/events/${event.id}`);
+	});
+
+	it("should say when a scheduled event will be listed", () => {
+		const email = buildModerationEmail(
+			{ ...event, publishAt: new Date("2025-03-10T20:00:00Z") },
+			{ approve: true },
+			"https://example.com",
+			now,
+		);
+
+		expect(email.text).toContain("It will be listed on PDX DIY from");
+	});
+
+	it("should give the reason and an edit link for rejections", () => {
+		const email = buildModerationEmail(
+			event,
+			{ approve: false, reason: "Looks like spam" },
+			"https://example.com",
+			now,
+		);
+
+		expect(email.subject).toBe(`Your event "Basement Show" wasn't approved`);
+		expect(email.text).toContain("Reason: Looks like spam");
+		expect(email.text).toContain(`https://example.com/events/${event.id}/edit`);
+	});
+});
+
+describe("moderationDecideSchema", () => {
+	it("should require a reason to reject", () => {
+		expect(
+			moderationDecideSchema.safeParse({ eventId: event.id, approve: false })
+				.success,
+		).toBe(false);
+		expect(
+			moderationDecideSchema.safeParse({
+				eventId: event.id,
+				approve: false,
+				reason: "   ",
+			}).success,
+		).toBe(false);
+		expect(
+			moderationDecideSchema.safeParse({ eventId: event.id, approve: true })
+				.success,
+		).toBe(true);
+	});
+});
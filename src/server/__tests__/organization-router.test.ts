@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tests for the organization router, against a database
+ *
+ * Tests cover:
+ * - Matching invitations to addresses whatever their case
+ * - Keeping at least one owner
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", () => import("~/test/test-db"));
+vi.mock("~/server/email", () => ({ sendEmail: vi.fn() }));
+
+import { db } from "~/server/db";
+import { organizationMembers, organizations } from "~/server/db/schema";
+import { sendEmail } from "~/server/email";
+import { createTestCaller } from "~/test/test-caller";
+import { insertTestUser, resetTestDb } from "~/test/test-db";
+
+let organizationId: string;
+
+beforeEach(async () => {
+	await resetTestDb();
+	vi.mocked(sendEmail).mockClear();
+	await insertTestUser("owner");
+	const [organization] = await db
+		.insert(organizations)
+		.values({ slug: "collective", name: "Collective" })
+		.returning();
+	if (!organization) {
+		throw new Error("Organization wasn't inserted");
+	}
+	organizationId = organization.id;
+	await db
+		.insert(organizationMembers)
+		.values({ organizationId, userId: "owner", role: "owner" });
+});
+
+/**
+ * Reads the invitation token out of the last invitation email sent.
+ */
+const sentToken = () => {
+	const text = vi.mocked(sendEmail).mock.lastCall?.[0].text ?? "";
+	const token = /\/orgs\/invitations\/(\S+)/.exec(text)?.[1];
+	if (!token) {
+		throw new Error("No invitation was sent");
+	}
+	return token;
+};
+
+describe("organization.invite", () => {
+	it("should let a mixed-case address accept an invitation", async () => {
+		await insertTestUser("fan", { email: "Fan@Example.com" });
+
+		const invitation = await createTestCaller("owner").organization.invite({
+			organizationId,
+			email: "FAN@example.com",
+		});
+		const accepted = await createTestCaller(
+			"fan",
+		).organization.acceptInvitation({ token: sentToken() });
+
+		expect(invitation?.email).toBe("fan@example.com");
+		expect(accepted).toEqual({ slug: "collective" });
+	});
+
+	it("should recognize members whatever the case of their address", async () => {
+		await insertTestUser("fan", { email: "Fan@Example.com" });
+		await db
+			.insert(organizationMembers)
+			.values({ organizationId, userId: "fan", role: "editor" });
+
+		await expect(
+			createTestCaller("owner").organization.invite({
+				organizationId,
+				email: "fan@example.com",
+			}),
+		).rejects.toMatchObject({ code: "CONFLICT" });
+	});
+});
+
+describe("organization owners", () => {
+	it("should stop the last owner stepping down or leaving", async () => {
+		const caller = createTestCaller("owner");
+
+		await expect(
+			caller.organization.setMemberRole({
+				organizationId,
+				userId: "owner",
+				role: "editor",
+			}),
+		).rejects.toMatchObject({ code: "BAD_REQUEST" });
+		await expect(
+			caller.organization.removeMember({ organizationId, userId: "owner" }),
+		).rejects.toMatchObject({ code: "BAD_REQUEST" });
+	});
+
+	it("should let an owner step down once there's another", async () => {
+		await insertTestUser("co-owner");
+		await db
+			.insert(organizationMembers)
+			.values({ organizationId, userId: "co-owner", role: "owner" });
+
+		const member = await createTestCaller("owner").organization.setMemberRole({
+			organizationId,
+			userId: "owner",
+			role: "editor",
+		});
+
+		expect(member.role).toBe("editor");
+	});
+});
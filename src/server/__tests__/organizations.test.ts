@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for organizations
+ *
+ * Tests cover:
+ * - Who may edit an organization's events
+ * - Invitation tokens and the stored hash
+ * - Invitation emails
+ * - Slugs made from organization names
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	organizationCreateSchema,
+	toOrganizationSlug,
+} from "~/shared/schemas/organization";
+import {
+	buildInvitationEmail,
+	canManageEvent,
+	createInvitationToken,
+	hashInvitationToken,
+} from "../organizations";
+
+/** A database in which every membership lookup finds an editor. */
+const memberDatabase = {
+	query: {
+		organizationMembers: { findFirst: async () => ({ role: "editor" }) },
+	},
+} as unknown as Parameters<typeof canManageEvent>[0];
+
+/** A database with no memberships. */
+const emptyDatabase = {
+	query: { organizationMembers: { findFirst: async () => undefined } },
+} as unknown as Parameters<typeof canManageEvent>[0];
+
+describe("canManageEvent", () => {
+	it("should let the poster manage their event", async () => {
+		await expect(
+			canManageEvent(
+				emptyDatabase,
+				{ createdById: "poster", organizationId: null },
+				"poster",
+			),
+		).resolves.toBe(true);
+	});
+
+	it("should let members manage their organization's events", async () => {
+		await expect(
+			canManageEvent(
+				memberDatabase,
+				{ createdById: "poster", organizationId: "collective" },
+				"member",
+			),
+		).resolves.toBe(true);
+	});
+
+	it("should turn away a poster who has left the organization", async () => {
+		await expect(
+			canManageEvent(
+				emptyDatabase,
+				{ createdById: "poster", organizationId: "collective" },
+				"poster",
+			),
+		).resolves.toBe(false);
+	});
+
+	it("should turn away everyone else", async () => {
+		await expect(
+			canManageEvent(
+				emptyDatabase,
+				{ createdById: "poster", organizationId: "collective" },
+				"stranger",
+			),
+		).resolves.toBe(false);
+		await expect(
+			canManageEvent(
+				emptyDatabase,
+				{ createdById: "poster", organizationId: null },
+				undefined,
+			),
+		).resolves.toBe(false);
+	});
+});
+
+describe("createInvitationToken", () => {
+	it("should store only a hash of a random token", () => {
+		const first = createInvitationToken();
+		const second = createInvitationToken();
+
+		expect(first.token).not.toBe(second.token);
+		expect(first.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+		expect(first.tokenHash).not.toContain(first.token);
+		expect(hashInvitationToken(first.token)).toBe(first.tokenHash);
+		expect(first.expiresAt.getTime()).toBeGreaterThan(Date.now());
+	});
+});
+
+describe("buildInvitationEmail", () => {
+	it("should link the invitation and name the inviter", () => {
+		const email = buildInvitationEmail(
+			{ name: "Rose City Zine Collective" },
+			{ role: "editor", inviterName: "Sam", token: "abc123" },
+			"https://example.com",
+		);
+
+		expect(email.subject).toBe("Join Rose City Zine Collective on PDX DIY");
+		expect(email.text).toContain("Sam invited you");
+		expect(email.text).toContain("as an editor");
+		expect(email.text).toContain("https://example.com/orgs/invitations/abc123");
+	});
+});
+
+describe("organization slugs", () => {
+	it("should make a slug from the name", () => {
+		expect(toOrganizationSlug("Rose City Zine Collective!")).toBe(
+			"rose-city-zine-collective",
+		);
+		expect(
+			organizationCreateSchema.parse({ name: "Basement Shows PDX" }).slug,
+		).toBe("basement-shows-pdx");
+	});
+
+	it("should prefer a chosen slug and reject ones without letters", () => {
+		expect(
+			organizationCreateSchema.parse({ name: "Basement Shows", slug: "BSP" })
+				.slug,
+		).toBe("bsp");
+		expect(organizationCreateSchema.safeParse({ name: "!!!" }).success).toBe(
+			false,
+		);
+	});
+});
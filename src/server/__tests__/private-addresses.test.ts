@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Tests for hiding private venue addresses
+ *
+ * Tests cover:
+ * - Public venues being visible to everyone
+ * - Who may see a private venue's address
+ * - Nulling out the address, coordinates and notes for everyone else
+ */
+
+import { describe, expect, it } from "vitest";
+import { canSeeAddress, withVisibleAddress } from "../private-addresses";
+
+const venue = (isPrivate: boolean) => ({
+	id: "venue",
+	name: "The Blue House",
+	streetAddress: "1234 SE Somewhere St",
+	neighborhood: "Foster-Powell",
+	latitude: 45.49,
+	longitude: -122.6,
+	notes: "Side gate, code 4321",
+	isPrivate,
+	createdById: "host",
+});
+
+describe("canSeeAddress", () => {
+	it("should show public venues to everyone", () => {
+		expect(canSeeAddress(venue(false), { viewerId: undefined })).toBe(true);
+	});
+
+	it("should show private venues to the host, organizer, going and approved", () => {
+		const house = venue(true);
+
+		expect(canSeeAddress(house, { viewerId: "host" })).toBe(true);
+		expect(
+			canSeeAddress(house, { viewerId: "organizer", organizerId: "organizer" }),
+		).toBe(true);
+		expect(canSeeAddress(house, { viewerId: "member", isManager: true })).toBe(
+			true,
+		);
+		expect(canSeeAddress(house, { viewerId: "fan", rsvp: "going" })).toBe(true);
+		expect(
+			canSeeAddress(house, { viewerId: "fan", addressRequest: "approved" }),
+		).toBe(true);
+	});
+
+	it("should hide private venues from everyone else", () => {
+		const house = venue(true);
+
+		expect(canSeeAddress(house, { viewerId: undefined })).toBe(false);
+		expect(canSeeAddress(house, { viewerId: "fan", rsvp: "interested" })).toBe(
+			false,
+		);
+		expect(canSeeAddress(house, { viewerId: "fan", rsvp: "waitlisted" })).toBe(
+			false,
+		);
+		expect(
+			canSeeAddress(house, { viewerId: "fan", addressRequest: "pending" }),
+		).toBe(false);
+	});
+});
+
+describe("withVisibleAddress", () => {
+	it("should keep only the approximate location when hidden", () => {
+		expect(withVisibleAddress(venue(true), { viewerId: "fan" })).toMatchObject({
+			name: "The Blue House",
+			neighborhood: "Foster-Powell",
+			streetAddress: null,
+			latitude: null,
+			longitude: null,
+			notes: null,
+		});
+	});
+
+	it("should leave visible venues untouched", () => {
+		expect(withVisibleAddress(venue(true), { viewerId: "host" })).toEqual(
+			venue(true),
+		);
+	});
+});
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Tests for community reports
+ *
+ * Tests cover:
+ * - Grouping open reports by event in triage order
+ * - Validating new reports and moderator resolutions
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	reportCreateSchema,
+	reportResolveSchema,
+} from "~/shared/schemas/report";
+import { groupReportsByEvent } from "../reports";
+
+const report = (
+	eventId: string,
+	createdAt: string,
+	hiddenAt: Date | null = null,
+) => ({
+	createdAt: new Date(createdAt),
+	event: { id: eventId, hiddenAt },
+});
+
+describe("groupReportsByEvent", () => {
+	it("should list hidden events, then the most reported, then the oldest", () => {
+		const groups = groupReportsByEvent([
+			report("once", "2025-03-01T00:00:00Z"),
+			report("twice", "2025-03-02T00:00:00Z"),
+			report("later", "2025-03-03T00:00:00Z"),
+			report("twice", "2025-03-04T00:00:00Z"),
+			report("hidden", "2025-03-05T00:00:00Z", new Date("2025-03-05")),
+		]);
+
+		expect(groups.map((group) => group.event.id)).toEqual([
+			"hidden",
+			"twice",
+			"once",
+			"later",
+		]);
+		expect(groups[1]?.reports).toHaveLength(2);
+	});
+});
+
+describe("reportCreateSchema", () => {
+	it("should turn blank details into null", () => {
+		expect(
+			reportCreateSchema.parse({ eventId: "1", reason: "spam", details: " " }),
+		).toEqual({ eventId: "1", reason: "spam", details: null });
+	});
+
+	it("should reject unknown reasons", () => {
+		expect(
+			reportCreateSchema.safeParse({ eventId: "1", reason: "boring" }).success,
+		).toBe(false);
+	});
+});
+
+describe("reportResolveSchema", () => {
+	it("should require a reason to take an event down", () => {
+		expect(
+			reportResolveSchema.safeParse({ eventId: "1", action: "remove" }).success,
+		).toBe(false);
+		expect(
+			reportResolveSchema.safeParse({ eventId: "1", action: "dismiss" })
+				.success,
+		).toBe(true);
+	});
+});
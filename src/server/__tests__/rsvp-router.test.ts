@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Tests for the RSVP router, against a database
+ *
+ * Tests cover:
+ * - Waitlisting people who say they're going to a full event
+ * - Promoting the waitlist when someone going drops out
+ */
+
+import { and, eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", () => import("~/test/test-db"));
+
+import { db } from "~/server/db";
+import { events, rsvps } from "~/server/db/schema";
+import { createTestCaller } from "~/test/test-caller";
+import { insertTestUser, resetTestDb } from "~/test/test-db";
+
+let eventId: string;
+
+const statusOf = async (userId: string) =>
+	(
+		await db.query.rsvps.findFirst({
+			columns: { status: true },
+			where: and(eq(rsvps.userId, userId), eq(rsvps.eventId, eventId)),
+		})
+	)?.status;
+
+beforeEach(async () => {
+	await resetTestDb();
+	for (const id of ["organizer", "first", "second", "third"]) {
+		await insertTestUser(id);
+	}
+	const [event] = await db
+		.insert(events)
+		.values({
+			title: "Living Room Set",
+			startsAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+			capacity: 1,
+			moderationStatus: "approved",
+			createdById: "organizer",
+		})
+		.returning();
+	if (!event) {
+		throw new Error("Event wasn't inserted");
+	}
+	eventId = event.id;
+});
+
+describe("rsvp.set", () => {
+	it("should waitlist people going to a full event", async () => {
+		await createTestCaller("first").rsvp.set({
+			eventId,
+			status: "going",
+		});
+
+		const result = await createTestCaller("second").rsvp.set({
+			eventId,
+			status: "going",
+		});
+
+		expect(result).toEqual({
+			status: "waitlisted",
+			counts: { going: 1, interested: 0, waitlisted: 1 },
+		});
+	});
+
+	it("should give the spot to the waitlist when someone switches to interested", async () => {
+		await createTestCaller("first").rsvp.set({
+			eventId,
+			status: "going",
+		});
+		await createTestCaller("second").rsvp.set({
+			eventId,
+			status: "going",
+		});
+
+		await createTestCaller("first").rsvp.set({
+			eventId,
+			status: "interested",
+		});
+
+		expect(await statusOf("first")).toBe("interested");
+		expect(await statusOf("second")).toBe("going");
+	});
+});
+
+describe("rsvp.clear", () => {
+	it("should promote the longest-waiting person when a spot frees up", async () => {
+		for (const userId of ["first", "second", "third"]) {
+			await createTestCaller(userId).rsvp.set({
+				eventId,
+				status: "going",
+			});
+		}
+
+		const result = await createTestCaller("first").rsvp.clear({
+			eventId,
+		});
+
+		expect(result.counts).toEqual({ going: 1, interested: 0, waitlisted: 1 });
+		expect(await statusOf("second")).toBe("going");
+		expect(await statusOf("third")).toBe("waitlisted");
+	});
+});
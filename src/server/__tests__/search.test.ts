@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Tests for search highlight parsing
+ *
+ * Tests cover:
+ * - Splitting ts_headline output into highlighted segments
+ * - Merging adjacent segments
+ * - Tolerating unbalanced delimiters
+ */
+
+import { describe, expect, it } from "vitest";
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, parseHeadline } from "../search";
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_STOP}`;
+
+describe("parseHeadline", () => {
+	it("should split highlighted and plain text", () => {
+		expect(parseHeadline(`Annual ${mark("Zine")} ${mark("Fest")}!`)).toEqual([
+			{ text: "Annual ", highlight: false },
+			{ text: "Zine", highlight: true },
+			{ text: " ", highlight: false },
+			{ text: "Fest", highlight: true },
+			{ text: "!", highlight: false },
+		]);
+	});
+
+	it("should merge adjacent highlights", () => {
+		expect(parseHeadline(`${mark("zine")}${mark("fest")}`)).toEqual([
+			{ text: "zinefest", highlight: true },
+		]);
+	});
+
+	it("should return plain text unchanged", () => {
+		expect(parseHeadline("Basement Show")).toEqual([
+			{ text: "Basement Show", highlight: false },
+		]);
+		expect(parseHeadline("")).toEqual([]);
+	});
+
+	it("should tolerate unbalanced delimiters", () => {
+		expect(parseHeadline(`a${HIGHLIGHT_STOP}b${HIGHLIGHT_START}c`)).toEqual([
+			{ text: "ab", highlight: false },
+			{ text: "c", highlight: true },
+		]);
+	});
+});
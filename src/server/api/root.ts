@@ -1,4 +1,12 @@
+import { addressRequestRouter } from "~/server/api/routers/address-request";
+import { auditLogRouter } from "~/server/api/routers/audit-log";
 import { eventRouter } from "~/server/api/routers/event";
+import { moderationRouter } from "~/server/api/routers/moderation";
+import { organizationRouter } from "~/server/api/routers/organization";
+import { reportRouter } from "~/server/api/routers/report";
+import { rsvpRouter } from "~/server/api/routers/rsvp";
+import { tagRouter } from "~/server/api/routers/tag";
+import { venueRouter } from "~/server/api/routers/venue";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -7,7 +15,15 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
+	addressRequest: addressRequestRouter,
+	auditLog: auditLogRouter,
 	event: eventRouter,
+	moderation: moderationRouter,
+	organization: organizationRouter,
+	report: reportRouter,
+	rsvp: rsvpRouter,
+	tag: tagRouter,
+	venue: venueRouter,
 });
 
 // export type definition of API
@@ -17,6 +33,6 @@ export type AppRouter = typeof appRouter;
  * Create a server-side caller for the tRPC API.
  * @example
  * const trpc = createCaller(createContext);
- * const res = await trpc.event.getMany();
+ * const res = await trpc.event.getMany({});
  */
 export const createCaller = createCallerFactory(appRouter);
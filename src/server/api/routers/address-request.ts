@@ -0,0 +1,149 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq } from "drizzle-orm";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import type { db } from "~/server/db";
+import { events, addressRequests } from "~/server/db/schema";
+import { canManageEvent } from "~/server/organizations";
+import {
+	addressRequestCreateSchema,
+	addressRequestDecideSchema,
+	addressRequestListSchema,
+} from "~/shared/schemas/address-request";
+import { isEventPublished } from "~/shared/schemas/event";
+import { isEventApproved } from "~/shared/schemas/moderation";
+
+/**
+ * Loads an event's organizer and whether it's at a private venue.
+ *
+ * @throws {TRPCError} NOT_FOUND when the event doesn't exist or is deleted
+ */
+async function getAddressEvent(database: typeof db, eventId: string) {
+	const event = await database.query.events.findFirst({
+		columns: {
+			createdById: true,
+			organizationId: true,
+			status: true,
+			isDraft: true,
+			publishAt: true,
+			moderationStatus: true,
+			hiddenAt: true,
+		},
+		where: eq(events.id, eventId),
+		with: { venue: { columns: { isPrivate: true } } },
+	});
+	if (!event || event.status === "deleted") {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Event not found" });
+	}
+	return { ...event, isPrivate: event.venue?.isPrivate ?? false };
+}
+
+/**
+ * Throws FORBIDDEN unless `userId` organizes the event, personally or as a
+ * member of its organization.
+ */
+async function assertOrganizer(
+	database: typeof db,
+	event: { createdById: string | null; organizationId: string | null },
+	userId: string,
+) {
+	if (!(await canManageEvent(database, event, userId))) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the organizer can review address requests",
+		});
+	}
+}
+
+export const addressRequestRouter = createTRPCRouter({
+	/**
+	 * Asks the organizer of an event at a private venue for its address.
+	 * Asking again keeps the existing request.
+	 *
+	 * @returns The status of the current user's request
+	 */
+	create: protectedProcedure
+		.input(addressRequestCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const event = await getAddressEvent(ctx.db, input.eventId);
+			if (!isEventPublished(event) || !isEventApproved(event)) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Event not found" });
+			}
+			if (!event.isPrivate) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "This event's address is already public",
+				});
+			}
+
+			await ctx.db
+				.insert(addressRequests)
+				.values({
+					eventId: input.eventId,
+					userId: ctx.session.user.id,
+					status: "pending",
+				})
+				.onConflictDoNothing();
+
+			const request = await ctx.db.query.addressRequests.findFirst({
+				columns: { status: true },
+				where: and(
+					eq(addressRequests.eventId, input.eventId),
+					eq(addressRequests.userId, ctx.session.user.id),
+				),
+			});
+			return { status: request?.status ?? "pending" };
+		}),
+
+	/**
+	 * Lists the address requests for an event, oldest first, with who asked.
+	 * Only the event's organizer may see them.
+	 */
+	list: protectedProcedure
+		.input(addressRequestListSchema)
+		.query(async ({ ctx, input }) => {
+			const event = await getAddressEvent(ctx.db, input.eventId);
+			await assertOrganizer(ctx.db, event, ctx.session.user.id);
+
+			return ctx.db.query.addressRequests.findMany({
+				columns: { userId: true, status: true, createdAt: true },
+				where: eq(addressRequests.eventId, input.eventId),
+				with: { user: { columns: { name: true, image: true } } },
+				orderBy: [asc(addressRequests.createdAt)],
+			});
+		}),
+
+	/**
+	 * Approves or declines a request. Approving shows the requester the
+	 * address; declining deletes the request so they can ask again later.
+	 * Only the event's organizer may decide.
+	 */
+	decide: protectedProcedure
+		.input(addressRequestDecideSchema)
+		.mutation(async ({ ctx, input }) => {
+			const event = await getAddressEvent(ctx.db, input.eventId);
+			await assertOrganizer(ctx.db, event, ctx.session.user.id);
+
+			const where = and(
+				eq(addressRequests.eventId, input.eventId),
+				eq(addressRequests.userId, input.userId),
+			);
+			const [request] = input.approve
+				? await ctx.db
+						.update(addressRequests)
+						.set({ status: "approved", decidedAt: new Date() })
+						.where(where)
+						.returning({ status: addressRequests.status })
+				: await ctx.db
+						.delete(addressRequests)
+						.where(where)
+						.returning({ status: addressRequests.status });
+			if (!request) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Address request not found",
+				});
+			}
+
+			return { status: input.approve ? ("approved" as const) : null };
+		}),
+});
@@ -0,0 +1,64 @@
+import { and, desc, eq, gte, ilike, lt } from "drizzle-orm";
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import { auditLog, users } from "~/server/db/schema";
+import { escapeLikePattern } from "~/server/search";
+import { auditLogListSchema } from "~/shared/schemas/audit-log";
+import { fromZonedDateValue } from "~/shared/time";
+
+export const auditLogRouter = createTRPCRouter({
+	/**
+	 * Lists audit log entries, newest first, with who acted and what updates
+	 * changed. Filters by the actor's email, part of the procedure path and a
+	 * range of Portland dates; pages with the ID of the last entry seen.
+	 * Admins only.
+	 *
+	 * @returns The entries and the cursor for the next page, if any
+	 */
+	list: adminProcedure
+		.input(auditLogListSchema)
+		.query(async ({ ctx, input }) => {
+			const from = input.from ? fromZonedDateValue(input.from) : null;
+			const to = input.to ? fromZonedDateValue(input.to, 1) : null;
+
+			const rows = await ctx.db
+				.select({
+					id: auditLog.id,
+					path: auditLog.path,
+					input: auditLog.input,
+					resultId: auditLog.resultId,
+					changes: auditLog.changes,
+					errorCode: auditLog.errorCode,
+					requestId: auditLog.requestId,
+					createdAt: auditLog.createdAt,
+					actorId: auditLog.actorId,
+					actorName: users.name,
+					actorEmail: users.email,
+				})
+				.from(auditLog)
+				.leftJoin(users, eq(auditLog.actorId, users.id))
+				.where(
+					and(
+						input.actor
+							? ilike(users.email, escapeLikePattern(input.actor))
+							: undefined,
+						input.path
+							? ilike(auditLog.path, `%${escapeLikePattern(input.path)}%`)
+							: undefined,
+						from ? gte(auditLog.createdAt, from) : undefined,
+						to ? lt(auditLog.createdAt, to) : undefined,
+						input.cursor ? lt(auditLog.id, input.cursor) : undefined,
+					),
+				)
+				.orderBy(desc(auditLog.id))
+				.limit(input.limit + 1);
+
+			const items = rows.slice(0, input.limit);
+			return {
+				items,
+				nextCursor:
+					rows.length > input.limit
+						? (items[items.length - 1]?.id ?? null)
+						: null,
+			};
+		}),
+});
@@ -1,51 +1,982 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, isNull, ne, or, sql } from "drizzle-orm";
 import { z } from "zod";
 import {
 	createTRPCRouter,
 	protectedProcedure,
 	publicProcedure,
 } from "~/server/api/trpc";
-import { events } from "~/server/db/schema";
-import { eventSchema } from "~/shared/schemas/event";
+import type { db } from "~/server/db";
+import {
+	events,
+	addressRequests,
+	eventOccurrences,
+	eventSearchVector,
+	flyers,
+	reports,
+	rsvps,
+	venues,
+} from "~/server/db/schema";
+import { eventFilterWindow, eventFiltersWhere } from "~/server/event-filters";
+import {
+	listableEventsWhere,
+	managedEventsWhere,
+	publicEventsWhere,
+	unapprovedEventsWhere,
+	unpublishedEventsWhere,
+	viewableEventsWhere,
+} from "~/server/event-visibility";
+import { toFlyerView } from "~/server/flyers";
+import { prepareImport } from "~/server/ical-import";
+import {
+	changesReviewedContent,
+	initialModerationStatus,
+} from "~/server/moderation";
+import {
+	isOccurrenceOf,
+	listEventOccurrences,
+	resolveOccurrence,
+	toRecurrenceValues,
+} from "~/server/occurrences";
+import { assertMember, canManageEvent } from "~/server/organizations";
+import {
+	usableVenuesWhere,
+	withVisibleAddress,
+} from "~/server/private-addresses";
+import {
+	countEventRsvps,
+	getWaitlistPosition,
+	promoteWaitlist,
+	withRsvpCounts,
+} from "~/server/rsvps";
+import {
+	SNIPPET_OPTIONS,
+	TITLE_HIGHLIGHT_OPTIONS,
+	parseHeadline,
+} from "~/server/search";
+import { setEventTags } from "~/server/tags";
+import { expandRecurrence, parseRecurrenceRule } from "~/shared/recurrence";
+import { richTextToPlainText } from "~/shared/rich-text";
+import {
+	type EventInput,
+	encodeEventCursor,
+	eventImportPreviewSchema,
+	eventImportSchema,
+	eventListSchema,
+	eventSchema,
+	eventSearchSchema,
+	eventStatusChangeSchema,
+	eventUpdateSchema,
+	isEventPublished,
+	isStartTooFarInPast,
+	occurrenceCancelSchema,
+	occurrenceRefSchema,
+	occurrenceUpdateSchema,
+} from "~/shared/schemas/event";
+import type { ModerationStatus } from "~/shared/schemas/moderation";
+import { toZonedDateValue } from "~/shared/time";
+
+/**
+ * Minimum `word_similarity` between a query and a title for the fuzzy
+ * fallback to count it as a match.
+ */
+const FUZZY_MATCH_THRESHOLD = 0.3;
+
+/**
+ * How many upcoming dates of a recurring series the detail view lists.
+ */
+const UPCOMING_OCCURRENCE_COUNT = 5;
+
+/**
+ * Throws BAD_REQUEST unless the referenced venue exists and `userId` may use
+ * it, so a stale picker selection surfaces as a validation error instead of
+ * a foreign key failure, and someone else's private venue stays private.
+ */
+async function assertVenueUsable(
+	database: typeof db,
+	venueId: string | null,
+	userId: string,
+) {
+	if (!venueId) {
+		return;
+	}
+
+	const venue = await database.query.venues.findFirst({
+		columns: { id: true },
+		where: and(eq(venues.id, venueId), usableVenuesWhere(userId)),
+	});
+	if (!venue) {
+		throw new TRPCError({ code: "BAD_REQUEST", message: "Venue not found" });
+	}
+}
+
+/**
+ * Throws BAD_REQUEST unless the flyer exists and was uploaded by `userId`,
+ * so one organizer can't attach another's upload.
+ */
+async function assertFlyerOwnedBy(
+	database: typeof db,
+	flyerId: string | null,
+	userId: string,
+) {
+	if (!flyerId) {
+		return;
+	}
+
+	const flyer = await database.query.flyers.findFirst({
+		columns: { uploadedById: true },
+		where: eq(flyers.id, flyerId),
+	});
+	if (flyer?.uploadedById !== userId) {
+		throw new TRPCError({ code: "BAD_REQUEST", message: "Flyer not found" });
+	}
+}
+
+/**
+ * Loads an event for editing, enforcing that the current user manages it:
+ * they posted it, or belong to the organization it was posted for.
+ *
+ * @throws {TRPCError} NOT_FOUND when the event doesn't exist, FORBIDDEN when
+ * it belongs to someone else
+ */
+async function getEditableEvent(
+	database: typeof db,
+	eventId: string,
+	userId: string,
+) {
+	const event = await database.query.events.findFirst({
+		where: eq(events.id, eventId),
+	});
+	if (!event) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Event not found" });
+	}
+	if (!(await canManageEvent(database, event, userId))) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the organizer can change this event",
+		});
+	}
+	return event;
+}
+
+/**
+ * Loads a recurring event for editing one of its occurrences.
+ *
+ * @throws {TRPCError} BAD_REQUEST when `occurrenceStart` isn't one of the
+ * series' dates, plus the errors of `getEditableEvent`
+ */
+async function getEditableOccurrence(
+	database: typeof db,
+	eventId: string,
+	occurrenceStart: Date,
+	userId: string,
+) {
+	const event = await getEditableEvent(database, eventId, userId);
+	if (!isOccurrenceOf(event, occurrenceStart)) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "That date isn't part of this event's schedule",
+		});
+	}
+	return event;
+}
+
+/**
+ * Keeps only the amounts a price kind uses: none for free or unknown
+ * prices, the minimum for fixed prices and donations, both for sliding
+ * scales.
+ */
+function toPriceValues(input: EventInput) {
+	const { priceKind, priceMinCents, priceMaxCents } = input;
+	return {
+		priceKind,
+		priceMinCents: priceKind && priceKind !== "free" ? priceMinCents : null,
+		priceMaxCents: priceKind === "sliding" ? priceMaxCents : null,
+	};
+}
+
+/**
+ * Computes an event's draft state and publish time from its publish mode.
+ * Drafts have no publish time; scheduling for a future `publishAt` holds
+ * the event until then; anything else publishes it now, except that an
+ * already public event keeps the time it went up.
+ *
+ * @param input - The validated event input
+ * @param existing - The event being edited, if any
+ */
+function toPublishValues(
+	input: Pick<EventInput, "publish" | "publishAt">,
+	existing?: { isDraft: boolean; publishAt: Date | null },
+) {
+	const now = new Date();
+	if (input.publish === "draft") {
+		return { isDraft: true, publishAt: null };
+	}
+	if (
+		input.publish === "schedule" &&
+		input.publishAt &&
+		input.publishAt.getTime() > now.getTime()
+	) {
+		return { isDraft: false, publishAt: input.publishAt };
+	}
+	return {
+		isDraft: false,
+		publishAt:
+			existing && isEventPublished(existing)
+				? (existing.publishAt ?? now)
+				: now,
+	};
+}
+
+/**
+ * Maps validated event input onto table columns, deriving the plain-text
+ * description and the series' end, and dropping alt text when there's no
+ * flyer.
+ */
+function toEventValues(input: EventInput) {
+	return {
+		title: input.title,
+		description: input.description,
+		descriptionText: input.description
+			? richTextToPlainText(input.description)
+			: null,
+		startsAt: input.startsAt,
+		endsAt: input.endsAt,
+		venueId: input.venueId,
+		organizationId: input.organizationId,
+		flyerId: input.flyerId,
+		flyerAlt: input.flyerId ? input.flyerAlt : null,
+		...toPriceValues(input),
+		ticketUrl: input.ticketUrl,
+		agePolicy: input.agePolicy,
+		accessibility: input.accessibility,
+		capacity: input.capacity,
+		...toRecurrenceValues(input.startsAt, input.endsAt, input.recurrence),
+	};
+}
+
+/**
+ * Inserts an event for `userId` and links its tags, inside a transaction.
+ *
+ * @param moderationStatus - From `initialModerationStatus` for the user
+ */
+async function insertEvent(
+	tx: Pick<typeof db, "select" | "insert" | "delete">,
+	input: EventInput,
+	userId: string,
+	moderationStatus: ModerationStatus,
+) {
+	const [event] = await tx
+		.insert(events)
+		.values({
+			...toEventValues(input),
+			...toPublishValues(input),
+			moderationStatus,
+			createdById: userId,
+		})
+		.returning();
+
+	if (event) {
+		await setEventTags(tx, event.id, input.tags, userId);
+	}
+	return event;
+}
+
+/**
+ * Replaces an event's flyer row with its resolved variant URLs.
+ */
+function withFlyerUrls<
+	T extends { flyer: Parameters<typeof toFlyerView>[0] | null },
+>(event: T) {
+	return { ...event, flyer: event.flyer ? toFlyerView(event.flyer) : null };
+}
 
 export const eventRouter = createTRPCRouter({
 	/**
-	 * Creates a new event with the provided title.
-	 * Requires authentication and associates the event with the current user.
+	 * Creates a new event with the provided title, description, start/end
+	 * times, venue, flyer and tags. Requires authentication and associates the
+	 * event with the current user, and with `organizationId` when they post
+	 * it on behalf of an organization they belong to; unknown tags are added
+	 * as suggestions. Events from untrusted organizers wait for a moderator's
+	 * approval.
 	 */
 	create: protectedProcedure
 		.input(eventSchema)
 		.mutation(async ({ ctx, input }) => {
+			if (input.organizationId) {
+				await assertMember(ctx.db, input.organizationId, ctx.session.user.id);
+			}
+			await assertVenueUsable(ctx.db, input.venueId, ctx.session.user.id);
+			await assertFlyerOwnedBy(ctx.db, input.flyerId, ctx.session.user.id);
+			const moderationStatus = await initialModerationStatus(
+				ctx.db,
+				ctx.session.user.id,
+			);
+
+			return ctx.db.transaction((tx) =>
+				insertEvent(tx, input, ctx.session.user.id, moderationStatus),
+			);
+		}),
+
+	/**
+	 * Parses an uploaded iCalendar file into candidate events for review.
+	 * Nothing is saved. Each candidate is validated like `create` input and
+	 * flagged when it looks like an existing event.
+	 *
+	 * A mutation rather than a query so the file travels in the request body.
+	 */
+	previewImport: protectedProcedure
+		.input(eventImportPreviewSchema)
+		.mutation(async ({ ctx, input }) => {
+			const candidates = await prepareImport(
+				ctx.db,
+				input.calendar,
+				ctx.session.user.id,
+			);
+			return candidates.map(({ input: _input, ...candidate }) => ({
+				...candidate,
+				isImportable: candidate.error === null,
+			}));
+		}),
+
+	/**
+	 * Creates the chosen events from an uploaded iCalendar file, owned by the
+	 * current user. The file is parsed and validated again, so only
+	 * candidates the preview showed as importable are created. Like `create`,
+	 * events from untrusted organizers wait for review.
+	 */
+	import: protectedProcedure
+		.input(eventImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			const keys = new Set(input.keys);
+			const chosen = (
+				await prepareImport(ctx.db, input.calendar, ctx.session.user.id)
+			).flatMap((candidate) =>
+				keys.has(candidate.key) && candidate.input ? [candidate.input] : [],
+			);
+			if (chosen.length === 0) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "None of the chosen events can be imported",
+				});
+			}
+
+			const moderationStatus = await initialModerationStatus(
+				ctx.db,
+				ctx.session.user.id,
+			);
+			const created = await ctx.db.transaction(async (tx) => {
+				const results = [];
+				for (const eventInput of chosen) {
+					results.push(
+						await insertEvent(
+							tx,
+							eventInput,
+							ctx.session.user.id,
+							moderationStatus,
+						),
+					);
+				}
+				return results;
+			});
+			return { count: created.length };
+		}),
+
+	/**
+	 * Updates an event managed by the current user. Moving it to another
+	 * organization requires belonging to that one too, and moving or removing
+	 * it from its organization requires being an owner there, or its poster
+	 * while still a member.
+	 *
+	 * Uses optimistic concurrency: the update only applies if the event's
+	 * `updatedAt` still matches `expectedUpdatedAt`, otherwise CONFLICT is
+	 * returned so one editor can't silently overwrite another's changes.
+	 * Raising or removing the capacity promotes people from the waitlist;
+	 * lowering it never bumps anyone who is already going. Editing a rejected
+	 * event sends it back to the moderation queue, and so does an untrusted
+	 * organizer changing an approved event's title, description, flyer,
+	 * venue or ticket link.
+	 */
+	update: protectedProcedure
+		.input(eventUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const existing = await getEditableEvent(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+			ctx.audit.before = existing;
+
+			if (
+				input.startsAt.getTime() !== existing.startsAt.getTime() &&
+				isStartTooFarInPast(input.startsAt)
+			) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Start time can't be in the past",
+				});
+			}
+
+			if (input.organizationId !== existing.organizationId) {
+				// Moving an event out of an organization takes away its members'
+				// rights to it, so editors can't do that to someone else's event.
+				// Only current members get this far (see `getEditableEvent`), so a
+				// poster who has left the organization can't either.
+				if (
+					existing.organizationId &&
+					existing.createdById !== ctx.session.user.id
+				) {
+					await assertMember(
+						ctx.db,
+						existing.organizationId,
+						ctx.session.user.id,
+						"owner",
+					);
+				}
+				if (input.organizationId) {
+					await assertMember(ctx.db, input.organizationId, ctx.session.user.id);
+				}
+			}
+			if (input.venueId !== existing.venueId) {
+				await assertVenueUsable(ctx.db, input.venueId, ctx.session.user.id);
+			}
+			if (input.flyerId !== existing.flyerId) {
+				await assertFlyerOwnedBy(ctx.db, input.flyerId, ctx.session.user.id);
+			}
+
+			const values = toEventValues(input);
+			const needsReview =
+				existing.moderationStatus === "rejected" ||
+				(existing.moderationStatus === "approved" &&
+					changesReviewedContent(existing, values) &&
+					(await initialModerationStatus(ctx.db, ctx.session.user.id)) ===
+						"pending");
+
+			return ctx.db.transaction(async (tx) => {
+				const [event] = await tx
+					.update(events)
+					.set({
+						...values,
+						...toPublishValues(input, existing),
+						...(needsReview && {
+							moderationStatus: "pending" as const,
+							moderationReason: null,
+						}),
+					})
+					.where(
+						and(
+							eq(events.id, input.id),
+							input.expectedUpdatedAt
+								? eq(events.updatedAt, input.expectedUpdatedAt)
+								: isNull(events.updatedAt),
+						),
+					)
+					.returning();
+
+				if (!event) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message:
+							"This event was changed by someone else while you were editing",
+					});
+				}
+
+				await setEventTags(tx, event.id, input.tags, ctx.session.user.id);
+				// The update holds the event's row lock, as RSVP changes expect
+				if (event.capacity !== existing.capacity) {
+					await promoteWaitlist(tx, event.id, event.capacity);
+				}
+				return event;
+			});
+		}),
+
+	/**
+	 * Publishes a draft or scheduled event owned by the current user right
+	 * away. Already public events are left as they are.
+	 */
+	publish: protectedProcedure
+		.input(z.object({ id: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			const existing = await getEditableEvent(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+			ctx.audit.before = existing;
+			if (isEventPublished(existing)) {
+				return existing;
+			}
+
+			const [event] = await ctx.db
+				.update(events)
+				.set({ isDraft: false, publishAt: new Date() })
+				.where(eq(events.id, input.id))
+				.returning();
+
+			return event;
+		}),
+
+	/**
+	 * Lists the drafts, scheduled events and events held back by moderation
+	 * or reports that the current user manages, including their
+	 * organizations', soonest announcement first, then drafts by when they
+	 * were last edited. Deleted events are left out.
+	 */
+	listDrafts: protectedProcedure.query(({ ctx }) =>
+		ctx.db.query.events.findMany({
+			where: and(
+				managedEventsWhere(ctx.session.user.id),
+				ne(events.status, "deleted"),
+				or(unpublishedEventsWhere(), unapprovedEventsWhere()),
+			),
+			with: { venue: { columns: { id: true, name: true } } },
+			orderBy: [
+				asc(events.isDraft),
+				asc(events.publishAt),
+				desc(sql`coalesce(${events.updatedAt}, ${events.createdAt})`),
+			],
+		}),
+	),
+
+	/**
+	 * Marks an event owned by the current user as cancelled, with an optional
+	 * note for attendees. The event stays listed so people see the news.
+	 */
+	cancel: protectedProcedure
+		.input(eventStatusChangeSchema)
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await getEditableEvent(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+
 			const [event] = await ctx.db
-				.insert(events)
+				.update(events)
+				.set({ status: "cancelled", statusNote: input.note, deletedAt: null })
+				.where(eq(events.id, input.id))
+				.returning();
+
+			return event;
+		}),
+
+	/**
+	 * Marks an event owned by the current user as postponed, with an optional
+	 * note for attendees. A new date can be set afterwards by editing it.
+	 */
+	postpone: protectedProcedure
+		.input(eventStatusChangeSchema)
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await getEditableEvent(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+
+			const [event] = await ctx.db
+				.update(events)
+				.set({ status: "postponed", statusNote: input.note, deletedAt: null })
+				.where(eq(events.id, input.id))
+				.returning();
+
+			return event;
+		}),
+
+	/**
+	 * Soft-deletes an event owned by the current user. The event disappears
+	 * for everyone else but can be restored by its organizer.
+	 */
+	delete: protectedProcedure
+		.input(z.object({ id: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await getEditableEvent(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+
+			const [event] = await ctx.db
+				.update(events)
+				.set({ status: "deleted", deletedAt: new Date() })
+				.where(eq(events.id, input.id))
+				.returning();
+
+			return event;
+		}),
+
+	/**
+	 * Returns a cancelled, postponed or deleted event owned by the current
+	 * user to its normal scheduled state.
+	 */
+	restore: protectedProcedure
+		.input(z.object({ id: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await getEditableEvent(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+
+			const [event] = await ctx.db
+				.update(events)
+				.set({ status: "scheduled", statusNote: null, deletedAt: null })
+				.where(eq(events.id, input.id))
+				.returning();
+
+			return event;
+		}),
+
+	/**
+	 * Changes the title or times of one date of a recurring event owned by the
+	 * current user, leaving the rest of the series untouched. Like `update`,
+	 * editing a date of a rejected event, or an untrusted organizer retitling
+	 * a date of an approved one, sends the event back for review.
+	 */
+	updateOccurrence: protectedProcedure
+		.input(occurrenceUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const event = await getEditableOccurrence(
+				ctx.db,
+				input.id,
+				input.occurrenceStart,
+				ctx.session.user.id,
+			);
+			const existing = await ctx.db.query.eventOccurrences.findFirst({
+				where: and(
+					eq(eventOccurrences.eventId, input.id),
+					eq(eventOccurrences.occurrenceStart, input.occurrenceStart),
+				),
+			});
+			ctx.audit.before = existing;
+			const needsReview =
+				event.moderationStatus === "rejected" ||
+				(event.moderationStatus === "approved" &&
+					input.title !== (existing?.title ?? event.title) &&
+					(await initialModerationStatus(ctx.db, ctx.session.user.id)) ===
+						"pending");
+
+			const values = {
+				title: input.title,
+				startsAt: input.startsAt,
+				endsAt: input.endsAt,
+			};
+			return ctx.db.transaction(async (tx) => {
+				const [occurrence] = await tx
+					.insert(eventOccurrences)
+					.values({
+						...values,
+						eventId: input.id,
+						occurrenceStart: input.occurrenceStart,
+					})
+					.onConflictDoUpdate({
+						target: [
+							eventOccurrences.eventId,
+							eventOccurrences.occurrenceStart,
+						],
+						set: values,
+					})
+					.returning();
+
+				if (needsReview) {
+					await tx
+						.update(events)
+						.set({ moderationStatus: "pending", moderationReason: null })
+						.where(eq(events.id, input.id));
+				}
+				return occurrence;
+			});
+		}),
+
+	/**
+	 * Cancels one date of a recurring event owned by the current user, with
+	 * an optional note. The date stays listed, marked as cancelled.
+	 */
+	cancelOccurrence: protectedProcedure
+		.input(occurrenceCancelSchema)
+		.mutation(async ({ ctx, input }) => {
+			await getEditableOccurrence(
+				ctx.db,
+				input.id,
+				input.occurrenceStart,
+				ctx.session.user.id,
+			);
+
+			const values = { status: "cancelled" as const, statusNote: input.note };
+			const [occurrence] = await ctx.db
+				.insert(eventOccurrences)
 				.values({
-					title: input.title,
-					createdById: ctx.session.user.id,
+					...values,
+					eventId: input.id,
+					occurrenceStart: input.occurrenceStart,
+				})
+				.onConflictDoUpdate({
+					target: [eventOccurrences.eventId, eventOccurrences.occurrenceStart],
+					set: values,
 				})
 				.returning();
 
-			return event;
+			return occurrence;
+		}),
+
+	/**
+	 * Undoes a cancellation of one date of a recurring event owned by the
+	 * current user. Other changes to the date are kept.
+	 */
+	restoreOccurrence: protectedProcedure
+		.input(occurrenceRefSchema)
+		.mutation(async ({ ctx, input }) => {
+			await getEditableOccurrence(
+				ctx.db,
+				input.id,
+				input.occurrenceStart,
+				ctx.session.user.id,
+			);
+
+			const [occurrence] = await ctx.db
+				.update(eventOccurrences)
+				.set({ status: "scheduled", statusNote: null })
+				.where(
+					and(
+						eq(eventOccurrences.eventId, input.id),
+						eq(eventOccurrences.occurrenceStart, input.occurrenceStart),
+					),
+				)
+				.returning();
+
+			return occurrence ?? null;
+		}),
+
+	/**
+	 * Retrieves one page of events, soonest first, optionally filtered by
+	 * date range, tags, quadrant, price and age policy, with each event's
+	 * RSVP counts. Public endpoint; soft-deleted events are excluded, and so
+	 * are unpublished ones except for their organizer. Without a `from` date
+	 * the list starts today, so past events only show when asked for.
+	 *
+	 * Recurring events are expanded into one item per occurrence (see
+	 * `listEventOccurrences`), each carrying its `occurrenceStart`.
+	 *
+	 * Venues come with their name and neighborhood only, never an exact
+	 * address.
+	 *
+	 * Uses keyset pagination on (startsAt, id), so pages stay consistent while
+	 * events are added. Pass the returned `nextCursor` back as `cursor` to
+	 * fetch the next page; it's null on the last page.
+	 */
+	getMany: publicProcedure
+		.input(eventListSchema)
+		.query(async ({ ctx, input }) => {
+			const { items, hasMore } = await listEventOccurrences(ctx.db, {
+				...eventFilterWindow({
+					...input,
+					from: input.from ?? toZonedDateValue(new Date()),
+				}),
+				where: and(
+					listableEventsWhere(ctx.session?.user.id),
+					eventFiltersWhere(input),
+				),
+				cursor: input.cursor,
+				limit: input.limit,
+			});
+
+			const last = items.at(-1);
+			return {
+				items: await withRsvpCounts(ctx.db, items.map(withFlyerUrls)),
+				nextCursor: hasMore && last ? encodeEventCursor(last) : null,
+			};
 		}),
 
 	/**
-	 * Retrieves all events from the database.
-	 * Public endpoint that returns all events without filtering.
+	 * Searches visible events by title and description. Public endpoint.
+	 *
+	 * Uses Postgres full-text search with titles weighted above descriptions,
+	 * returning results by rank with highlighted title and description
+	 * snippets. When nothing matches (often a misspelling), falls back to
+	 * trigram similarity on titles and reports `mode: "fuzzy"`.
 	 */
-	getMany: publicProcedure.query(async ({ ctx }) => {
-		const events = await ctx.db.query.events.findMany();
-		return events;
-	}),
+	search: publicProcedure
+		.input(eventSearchSchema)
+		.query(async ({ ctx, input }) => {
+			const query = sql`websearch_to_tsquery('english', ${input.query})`;
+			const vector = eventSearchVector(events.title, events.descriptionText);
+			const columns = {
+				id: events.id,
+				startsAt: events.startsAt,
+				status: events.status,
+				venueName: venues.name,
+			};
+
+			const rows = await ctx.db
+				.select({
+					...columns,
+					title: sql<string>`ts_headline('english', ${events.title}, ${query}, ${TITLE_HIGHLIGHT_OPTIONS})`,
+					snippet: sql<
+						string | null
+					>`case when ${events.descriptionText} is null then null else ts_headline('english', ${events.descriptionText}, ${query}, ${SNIPPET_OPTIONS}) end`,
+				})
+				.from(events)
+				.leftJoin(venues, eq(events.venueId, venues.id))
+				.where(and(publicEventsWhere(), sql`${vector} @@ ${query}`))
+				.orderBy(desc(sql`ts_rank(${vector}, ${query})`), events.startsAt)
+				.limit(input.limit);
+
+			if (rows.length > 0) {
+				return {
+					mode: "fulltext" as const,
+					results: rows.map((row) => ({
+						...row,
+						title: parseHeadline(row.title),
+						snippet: row.snippet ? parseHeadline(row.snippet) : null,
+					})),
+				};
+			}
+
+			const similarity = sql`word_similarity(${input.query}, ${events.title})`;
+			const fuzzyRows = await ctx.db.transaction(async (tx) => {
+				// `<%` compares against this setting and can use the trigram index
+				await tx.execute(
+					sql`select set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_MATCH_THRESHOLD)}, true)`,
+				);
+				return tx
+					.select({ ...columns, title: events.title })
+					.from(events)
+					.leftJoin(venues, eq(events.venueId, venues.id))
+					.where(
+						and(publicEventsWhere(), sql`${input.query} <% ${events.title}`),
+					)
+					.orderBy(desc(similarity), events.startsAt)
+					.limit(input.limit);
+			});
+
+			return {
+				mode: "fuzzy" as const,
+				results: fuzzyRows.map((row) => ({
+					...row,
+					title: [{ text: row.title, highlight: false }],
+					snippet: null,
+				})),
+			};
+		}),
 
 	/**
-	 * Retrieves a specific event by its ID.
-	 * Returns null if the event is not found.
+	 * Retrieves a specific event by its ID, including its venue, flyer,
+	 * tags, RSVP counts and the current user's RSVP. A private venue's exact
+	 * location is left out unless the current user may see it (see
+	 * `~/server/private-addresses`); `myAddressRequest` is their request to
+	 * see it, if any. `isReportedByMe` says whether they've reported it, and
+	 * `canManage` whether they may edit it. Returns null if the event is not
+	 * found or is deleted, unless the current user manages it.
+	 *
+	 * For recurring events, also returns the next few dates and, when
+	 * `occurrence` names one of the series' dates, that date's details.
 	 */
 	getById: publicProcedure
 		// to-do: validate the id is a valid uuid7, maybe migrate to zod 4
-		.input(z.object({ id: z.string() }))
+		.input(z.object({ id: z.string(), occurrence: z.date().optional() }))
 		.query(async ({ ctx, input }) => {
 			const event = await ctx.db.query.events.findFirst({
-				where: (events, { eq }) => eq(events.id, input.id),
+				where: and(
+					eq(events.id, input.id),
+					viewableEventsWhere(ctx.session?.user.id),
+				),
+				with: {
+					venue: true,
+					flyer: true,
+					organization: { columns: { id: true, slug: true, name: true } },
+					eventTags: {
+						with: { tag: { columns: { slug: true, name: true } } },
+					},
+					occurrences: true,
+					// Only the viewer's own RSVP; none when signed out
+					rsvps: {
+						columns: { status: true, waitlistedAt: true },
+						where: eq(rsvps.userId, ctx.session?.user.id ?? ""),
+					},
+					addressRequests: {
+						columns: { status: true },
+						where: eq(addressRequests.userId, ctx.session?.user.id ?? ""),
+					},
+					reports: {
+						columns: { reason: true },
+						where: eq(reports.reporterId, ctx.session?.user.id ?? ""),
+					},
+				},
+			});
+			if (!event) {
+				return event;
+			}
+
+			const {
+				eventTags,
+				occurrences,
+				rsvps: myRsvps,
+				addressRequests: myAddressRequests,
+				reports: myReports,
+				venue,
+				...rest
+			} = event;
+			const myRsvp = myRsvps[0];
+			const myAddressRequest = myAddressRequests[0]?.status ?? null;
+			const canManage = await canManageEvent(
+				ctx.db,
+				rest,
+				ctx.session?.user.id,
+			);
+			const rule = rest.recurrenceRule
+				? parseRecurrenceRule(rest.recurrenceRule)
+				: null;
+			const overrides = new Map(
+				occurrences.map((o) => [o.occurrenceStart.getTime(), o]),
+			);
+			const resolve = (occurrenceStart: Date) =>
+				resolveOccurrence(
+					rest,
+					occurrenceStart,
+					overrides.get(occurrenceStart.getTime()),
+				);
+
+			const duration = rest.endsAt
+				? rest.endsAt.getTime() - rest.startsAt.getTime()
+				: 0;
+			const upcomingOccurrences = rule
+				? expandRecurrence({
+						startsAt: rest.startsAt,
+						rule,
+						exceptions: rest.recurrenceExceptions,
+						after: new Date(Date.now() - duration),
+						before: new Date(8.64e15),
+						limit: UPCOMING_OCCURRENCE_COUNT,
+					}).map(resolve)
+				: [];
+
+			return withFlyerUrls({
+				...rest,
+				venue:
+					venue &&
+					withVisibleAddress(venue, {
+						viewerId: ctx.session?.user.id,
+						organizerId: rest.createdById,
+						isManager: canManage,
+						rsvp: myRsvp?.status,
+						addressRequest: myAddressRequest,
+					}),
+				tags: eventTags
+					.map((eventTag) => eventTag.tag)
+					.sort((a, b) => a.name.localeCompare(b.name)),
+				occurrence:
+					input.occurrence && isOccurrenceOf(rest, input.occurrence)
+						? resolve(input.occurrence)
+						: null,
+				upcomingOccurrences,
+				rsvpCounts: await countEventRsvps(ctx.db, rest.id),
+				myRsvp: myRsvp?.status ?? null,
+				myWaitlistPosition:
+					myRsvp?.status === "waitlisted" && myRsvp.waitlistedAt
+						? await getWaitlistPosition(ctx.db, rest.id, myRsvp.waitlistedAt)
+						: null,
+				myAddressRequest,
+				isReportedByMe: myReports.length > 0,
+				canManage,
 			});
-			return event;
 		}),
 });
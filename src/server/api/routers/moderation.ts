@@ -0,0 +1,117 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import { createTRPCRouter, moderatorProcedure } from "~/server/api/trpc";
+import { events, users } from "~/server/db/schema";
+import { notifyModerationDecision } from "~/server/moderation";
+import {
+	moderationDecideSchema,
+	moderationTrustSchema,
+} from "~/shared/schemas/moderation";
+
+/**
+ * Condition matching events waiting in the moderation queue. Drafts join
+ * the queue once their organizer publishes or schedules them.
+ */
+const queuedEventsWhere = () =>
+	and(
+		eq(events.moderationStatus, "pending"),
+		eq(events.isDraft, false),
+		ne(events.status, "deleted"),
+	);
+
+export const moderationRouter = createTRPCRouter({
+	/**
+	 * Lists events waiting for review, oldest first, with who posted them.
+	 * Moderators only.
+	 */
+	listPending: moderatorProcedure.query(({ ctx }) =>
+		ctx.db.query.events.findMany({
+			columns: {
+				id: true,
+				title: true,
+				descriptionText: true,
+				startsAt: true,
+				endsAt: true,
+				publishAt: true,
+				ticketUrl: true,
+				createdAt: true,
+			},
+			where: queuedEventsWhere(),
+			with: {
+				venue: { columns: { id: true, name: true } },
+				createdBy: {
+					columns: { id: true, name: true, email: true, isTrusted: true },
+				},
+			},
+			orderBy: [asc(events.createdAt)],
+		}),
+	),
+
+	/**
+	 * Approves or rejects a pending event and emails its organizer. Approved
+	 * events go public at their publish time, or now if it has passed, so
+	 * feeds date them from when they actually appeared. Moderators only.
+	 *
+	 * @throws {TRPCError} NOT_FOUND when the event isn't awaiting review
+	 */
+	decide: moderatorProcedure
+		.input(moderationDecideSchema)
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await ctx.db.query.events.findFirst({
+				columns: { id: true, moderationStatus: true },
+				where: eq(events.id, input.eventId),
+			});
+			const [event] = await ctx.db
+				.update(events)
+				.set({
+					moderationStatus: input.approve ? "approved" : "rejected",
+					moderationReason: input.approve ? null : input.reason,
+					moderatedById: ctx.session.user.id,
+					moderatedAt: new Date(),
+					...(input.approve && {
+						publishAt: sql`greatest(${events.publishAt}, now())`,
+					}),
+				})
+				.where(and(eq(events.id, input.eventId), queuedEventsWhere()))
+				.returning({
+					id: events.id,
+					title: events.title,
+					publishAt: events.publishAt,
+					moderationStatus: events.moderationStatus,
+					createdById: events.createdById,
+				});
+			if (!event) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "This event isn't awaiting review",
+				});
+			}
+
+			await notifyModerationDecision(ctx.db, event, input);
+
+			return { id: event.id, moderationStatus: event.moderationStatus };
+		}),
+
+	/**
+	 * Adds an organizer to the trusted allow-list, so their new events skip
+	 * review, or takes them off it. Events already in the queue stay there.
+	 * Moderators only.
+	 */
+	setTrusted: moderatorProcedure
+		.input(moderationTrustSchema)
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await ctx.db.query.users.findFirst({
+				columns: { id: true, isTrusted: true },
+				where: eq(users.id, input.userId),
+			});
+			const [user] = await ctx.db
+				.update(users)
+				.set({ isTrusted: input.isTrusted })
+				.where(eq(users.id, input.userId))
+				.returning({ id: users.id, isTrusted: users.isTrusted });
+			if (!user) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+			}
+			return user;
+		}),
+});
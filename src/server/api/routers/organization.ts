@@ -0,0 +1,490 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import { z } from "zod";
+import { env } from "~/env";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+	publicProcedure,
+} from "~/server/api/trpc";
+import type { db } from "~/server/db";
+import {
+	events,
+	organizationInvitations,
+	organizationMembers,
+	organizations,
+	users,
+} from "~/server/db/schema";
+import { sendEmail } from "~/server/email";
+import { publicEventsWhere } from "~/server/event-visibility";
+import { listEventOccurrences } from "~/server/occurrences";
+import {
+	assertMember,
+	buildInvitationEmail,
+	createInvitationToken,
+	getMemberRole,
+	hashInvitationToken,
+} from "~/server/organizations";
+import {
+	organizationCreateSchema,
+	organizationInvitationTokenSchema,
+	organizationInviteSchema,
+	organizationMemberRoleSchema,
+	organizationMemberSchema,
+	organizationRevokeInvitationSchema,
+	organizationUpdateSchema,
+} from "~/shared/schemas/organization";
+
+/**
+ * Locks an organization's memberships until the transaction ends, so two
+ * owners demoting or removing each other at once can't both pass
+ * `assertAnotherOwner`.
+ */
+async function lockMembers(
+	tx: Pick<typeof db, "select">,
+	organizationId: string,
+) {
+	await tx
+		.select({ userId: organizationMembers.userId })
+		.from(organizationMembers)
+		.where(eq(organizationMembers.organizationId, organizationId))
+		.for("update");
+}
+
+/**
+ * Throws BAD_REQUEST when a change would leave an organization without an
+ * owner. Call inside a transaction holding `lockMembers`.
+ *
+ * @param userId - The owner being removed or made an editor
+ */
+async function assertAnotherOwner(
+	database: Pick<typeof db, "query">,
+	organizationId: string,
+	userId: string,
+) {
+	const otherOwner = await database.query.organizationMembers.findFirst({
+		columns: { userId: true },
+		where: and(
+			eq(organizationMembers.organizationId, organizationId),
+			eq(organizationMembers.role, "owner"),
+			ne(organizationMembers.userId, userId),
+		),
+	});
+	if (!otherOwner) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "Make someone else an owner first",
+		});
+	}
+}
+
+/**
+ * Loads the invitation an emailed link points to.
+ *
+ * @returns The invitation, or null when there's no such invitation or it
+ * has expired
+ */
+async function findInvitation(
+	database: Pick<typeof db, "query">,
+	token: string,
+) {
+	const invitation = await database.query.organizationInvitations.findFirst({
+		where: eq(organizationInvitations.tokenHash, hashInvitationToken(token)),
+		with: {
+			organization: { columns: { id: true, slug: true, name: true } },
+		},
+	});
+	return invitation && invitation.expiresAt.getTime() >= Date.now()
+		? invitation
+		: null;
+}
+
+export const organizationRouter = createTRPCRouter({
+	/**
+	 * Creates an organization with the current user as its owner. The slug
+	 * comes from the name unless one is given.
+	 *
+	 * @throws {TRPCError} CONFLICT when another organization has the slug
+	 */
+	create: protectedProcedure
+		.input(organizationCreateSchema)
+		.mutation(({ ctx, input }) =>
+			ctx.db.transaction(async (tx) => {
+				const [organization] = await tx
+					.insert(organizations)
+					.values({ ...input, createdById: ctx.session.user.id })
+					.onConflictDoNothing({ target: organizations.slug })
+					.returning();
+				if (!organization) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: `The address /orgs/${input.slug} is taken`,
+					});
+				}
+
+				await tx.insert(organizationMembers).values({
+					organizationId: organization.id,
+					userId: ctx.session.user.id,
+					role: "owner",
+				});
+				return organization;
+			}),
+		),
+
+	/**
+	 * Updates an organization's name and description. Owners only; the slug
+	 * never changes, so links keep working.
+	 */
+	update: protectedProcedure
+		.input(organizationUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			await assertMember(ctx.db, input.id, ctx.session.user.id, "owner");
+			ctx.audit.before = await ctx.db.query.organizations.findFirst({
+				where: eq(organizations.id, input.id),
+			});
+
+			const [organization] = await ctx.db
+				.update(organizations)
+				.set({ name: input.name, description: input.description })
+				.where(eq(organizations.id, input.id))
+				.returning();
+			return organization;
+		}),
+
+	/**
+	 * Retrieves an organization's profile by its slug: its members and its
+	 * upcoming public events, soonest first. Public endpoint; `viewerRole` is
+	 * the current user's role, and owners also get the pending invitations.
+	 * Returns null if there's no such organization.
+	 */
+	getBySlug: publicProcedure
+		.input(z.object({ slug: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const organization = await ctx.db.query.organizations.findFirst({
+				where: eq(organizations.slug, input.slug),
+				with: {
+					members: {
+						columns: { userId: true, role: true },
+						with: { user: { columns: { name: true, image: true } } },
+						orderBy: [asc(organizationMembers.createdAt)],
+					},
+				},
+			});
+			if (!organization) {
+				return null;
+			}
+
+			const viewerId = ctx.session?.user.id;
+			const viewerRole =
+				organization.members.find((member) => member.userId === viewerId)
+					?.role ?? null;
+			const { items: upcomingEvents } = await listEventOccurrences(ctx.db, {
+				where: and(
+					eq(events.organizationId, organization.id),
+					publicEventsWhere(),
+				),
+				from: new Date(),
+				to: null,
+			});
+
+			return {
+				...organization,
+				viewerRole,
+				upcomingEvents,
+				invitations:
+					viewerRole === "owner"
+						? await ctx.db.query.organizationInvitations.findMany({
+								columns: { email: true, role: true, expiresAt: true },
+								where: eq(
+									organizationInvitations.organizationId,
+									organization.id,
+								),
+								orderBy: [asc(organizationInvitations.createdAt)],
+							})
+						: [],
+			};
+		}),
+
+	/**
+	 * Lists the organizations the current user belongs to, by name, for
+	 * picking who an event is posted on behalf of.
+	 */
+	listMine: protectedProcedure.query(async ({ ctx }) => {
+		const memberships = await ctx.db.query.organizationMembers.findMany({
+			columns: { role: true },
+			where: eq(organizationMembers.userId, ctx.session.user.id),
+			with: {
+				organization: { columns: { id: true, slug: true, name: true } },
+			},
+		});
+		return memberships
+			.map(({ role, organization }) => ({ ...organization, role }))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}),
+
+	/**
+	 * Invites someone to an organization by email. Owners only. Inviting the
+	 * same address again replaces the earlier invitation, so only the newest
+	 * link works. The email is best-effort.
+	 *
+	 * @throws {TRPCError} CONFLICT when the address already belongs to a
+	 * member
+	 */
+	invite: protectedProcedure
+		.input(organizationInviteSchema)
+		.mutation(async ({ ctx, input }) => {
+			await assertMember(
+				ctx.db,
+				input.organizationId,
+				ctx.session.user.id,
+				"owner",
+			);
+
+			const invitee = await ctx.db.query.users.findFirst({
+				columns: { id: true },
+				// Stored addresses keep the case they signed up with
+				where: eq(sql`lower(${users.email})`, input.email),
+			});
+			if (
+				invitee &&
+				(await getMemberRole(ctx.db, input.organizationId, invitee.id))
+			) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "They're already a member",
+				});
+			}
+
+			const { token, tokenHash, expiresAt } = createInvitationToken();
+			const values = {
+				role: input.role,
+				tokenHash,
+				invitedById: ctx.session.user.id,
+				createdAt: new Date(),
+				expiresAt,
+			};
+			const [invitation] = await ctx.db
+				.insert(organizationInvitations)
+				.values({
+					...values,
+					organizationId: input.organizationId,
+					email: input.email,
+				})
+				.onConflictDoUpdate({
+					target: [
+						organizationInvitations.organizationId,
+						organizationInvitations.email,
+					],
+					set: values,
+				})
+				.returning({
+					email: organizationInvitations.email,
+					role: organizationInvitations.role,
+					expiresAt: organizationInvitations.expiresAt,
+				});
+
+			const organization = await ctx.db.query.organizations.findFirst({
+				columns: { name: true },
+				where: eq(organizations.id, input.organizationId),
+			});
+			if (organization) {
+				await sendEmail({
+					to: input.email,
+					...buildInvitationEmail(
+						organization,
+						{
+							role: input.role,
+							inviterName: ctx.session.user.name ?? null,
+							token,
+						},
+						env.SITE_URL,
+					),
+				});
+			}
+			return invitation;
+		}),
+
+	/**
+	 * Withdraws a pending invitation, so its link stops working. Owners only.
+	 */
+	revokeInvitation: protectedProcedure
+		.input(organizationRevokeInvitationSchema)
+		.mutation(async ({ ctx, input }) => {
+			await assertMember(
+				ctx.db,
+				input.organizationId,
+				ctx.session.user.id,
+				"owner",
+			);
+
+			await ctx.db
+				.delete(organizationInvitations)
+				.where(
+					and(
+						eq(organizationInvitations.organizationId, input.organizationId),
+						eq(organizationInvitations.email, input.email),
+					),
+				);
+			return { email: input.email };
+		}),
+
+	/**
+	 * Describes the invitation an emailed link points to: the organization,
+	 * the role offered and the address it was sent to. Returns null if it
+	 * has expired or was withdrawn.
+	 */
+	getInvitation: publicProcedure
+		.input(organizationInvitationTokenSchema)
+		.query(async ({ ctx, input }) => {
+			const invitation = await findInvitation(ctx.db, input.token);
+			if (!invitation) {
+				return null;
+			}
+			const { organization, email, role, expiresAt } = invitation;
+			return { organization, email, role, expiresAt };
+		}),
+
+	/**
+	 * Joins an organization through an emailed invitation. The current user
+	 * must be signed in with the address it was sent to. Someone who is
+	 * already a member keeps their role.
+	 *
+	 * @returns The organization's slug
+	 */
+	acceptInvitation: protectedProcedure
+		.input(organizationInvitationTokenSchema)
+		.mutation(async ({ ctx, input }) => {
+			const invitation = await findInvitation(ctx.db, input.token);
+			if (!invitation) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "This invitation has expired or was withdrawn",
+				});
+			}
+			const user = await ctx.db.query.users.findFirst({
+				columns: { email: true },
+				where: eq(users.id, ctx.session.user.id),
+			});
+			if (user?.email.toLowerCase() !== invitation.email) {
+				throw new TRPCError({
+					code: "FORBIDDEN",
+					message: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`,
+				});
+			}
+
+			await ctx.db.transaction(async (tx) => {
+				await tx
+					.insert(organizationMembers)
+					.values({
+						organizationId: invitation.organizationId,
+						userId: ctx.session.user.id,
+						role: invitation.role,
+					})
+					.onConflictDoNothing();
+				await tx
+					.delete(organizationInvitations)
+					.where(
+						and(
+							eq(
+								organizationInvitations.organizationId,
+								invitation.organizationId,
+							),
+							eq(organizationInvitations.email, invitation.email),
+						),
+					);
+			});
+			return { slug: invitation.organization.slug };
+		}),
+
+	/**
+	 * Makes a member an owner or an editor. Owners only, and an organization
+	 * always keeps at least one owner.
+	 */
+	setMemberRole: protectedProcedure
+		.input(organizationMemberRoleSchema)
+		.mutation(async ({ ctx, input }) => {
+			await assertMember(
+				ctx.db,
+				input.organizationId,
+				ctx.session.user.id,
+				"owner",
+			);
+
+			return ctx.db.transaction(async (tx) => {
+				await lockMembers(tx, input.organizationId);
+				if (input.role !== "owner") {
+					await assertAnotherOwner(tx, input.organizationId, input.userId);
+				}
+				ctx.audit.before = await tx.query.organizationMembers.findFirst({
+					where: and(
+						eq(organizationMembers.organizationId, input.organizationId),
+						eq(organizationMembers.userId, input.userId),
+					),
+				});
+
+				const [member] = await tx
+					.update(organizationMembers)
+					.set({ role: input.role })
+					.where(
+						and(
+							eq(organizationMembers.organizationId, input.organizationId),
+							eq(organizationMembers.userId, input.userId),
+						),
+					)
+					.returning();
+				if (!member) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Member not found",
+					});
+				}
+				return member;
+			});
+		}),
+
+	/**
+	 * Removes a member from an organization. Owners can remove anyone, and
+	 * any member can leave; the last owner can't. Events they posted for the
+	 * organization stay with it.
+	 */
+	removeMember: protectedProcedure
+		.input(organizationMemberSchema)
+		.mutation(async ({ ctx, input }) => {
+			if (input.userId !== ctx.session.user.id) {
+				await assertMember(
+					ctx.db,
+					input.organizationId,
+					ctx.session.user.id,
+					"owner",
+				);
+			}
+
+			await ctx.db.transaction(async (tx) => {
+				await lockMembers(tx, input.organizationId);
+				const role = await getMemberRole(
+					tx,
+					input.organizationId,
+					input.userId,
+				);
+				if (!role) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Member not found",
+					});
+				}
+				if (role === "owner") {
+					await assertAnotherOwner(tx, input.organizationId, input.userId);
+				}
+
+				await tx
+					.delete(organizationMembers)
+					.where(
+						and(
+							eq(organizationMembers.organizationId, input.organizationId),
+							eq(organizationMembers.userId, input.userId),
+						),
+					);
+			});
+			return { userId: input.userId };
+		}),
+});
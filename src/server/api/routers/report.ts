@@ -0,0 +1,161 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq } from "drizzle-orm";
+import { env } from "~/env";
+import {
+	createTRPCRouter,
+	moderatorProcedure,
+	protectedProcedure,
+} from "~/server/api/trpc";
+import { events, reports } from "~/server/db/schema";
+import { notifyModerationDecision } from "~/server/moderation";
+import { groupReportsByEvent, hideIfReported } from "~/server/reports";
+import { isEventPublished } from "~/shared/schemas/event";
+import { isEventApproved } from "~/shared/schemas/moderation";
+import {
+	reportCreateSchema,
+	reportResolveSchema,
+} from "~/shared/schemas/report";
+
+export const reportRouter = createTRPCRouter({
+	/**
+	 * Reports a public event as spam, a scam, unsafe or misleading. Each user
+	 * can report an event once; reporting again keeps the first report. Enough
+	 * open reports hide the event until a moderator looks at it.
+	 */
+	create: protectedProcedure
+		.input(reportCreateSchema)
+		.mutation(({ ctx, input }) =>
+			ctx.db.transaction(async (tx) => {
+				const [event] = await tx
+					.select({
+						status: events.status,
+						isDraft: events.isDraft,
+						publishAt: events.publishAt,
+						moderationStatus: events.moderationStatus,
+						hiddenAt: events.hiddenAt,
+						createdById: events.createdById,
+					})
+					.from(events)
+					.where(eq(events.id, input.eventId))
+					.for("update");
+				if (
+					!event ||
+					event.status === "deleted" ||
+					!isEventPublished(event) ||
+					!isEventApproved(event)
+				) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Event not found",
+					});
+				}
+				if (event.createdById === ctx.session.user.id) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "You can't report your own event",
+					});
+				}
+
+				await tx
+					.insert(reports)
+					.values({
+						eventId: input.eventId,
+						reporterId: ctx.session.user.id,
+						reason: input.reason,
+						details: input.details,
+					})
+					.onConflictDoNothing();
+				await hideIfReported(tx, input.eventId, env.REPORT_HIDE_THRESHOLD);
+
+				return { isReported: true };
+			}),
+		),
+
+	/**
+	 * Lists open reports grouped by event, hidden events first, then the most
+	 * reported. Moderators only.
+	 */
+	listOpen: moderatorProcedure.query(async ({ ctx }) => {
+		const openReports = await ctx.db.query.reports.findMany({
+			columns: { reason: true, details: true, createdAt: true },
+			where: eq(reports.status, "open"),
+			with: {
+				reporter: { columns: { id: true, name: true, email: true } },
+				event: {
+					columns: {
+						id: true,
+						title: true,
+						descriptionText: true,
+						startsAt: true,
+						hiddenAt: true,
+						status: true,
+					},
+					with: { createdBy: { columns: { name: true, email: true } } },
+				},
+			},
+			orderBy: [asc(reports.createdAt)],
+		});
+		return groupReportsByEvent(openReports);
+	}),
+
+	/**
+	 * Resolves an event's open reports. Dismissing them shows the event again
+	 * if they hid it; removing the event rejects it in moderation, hiding it
+	 * until its organizer edits it, and emails them the reason. Moderators
+	 * only.
+	 *
+	 * @throws {TRPCError} NOT_FOUND when the event has no open reports
+	 */
+	resolve: moderatorProcedure
+		.input(reportResolveSchema)
+		.mutation(async ({ ctx, input }) => {
+			const now = new Date();
+			const removed = await ctx.db.transaction(async (tx) => {
+				const resolved = await tx
+					.update(reports)
+					.set({
+						status: "resolved",
+						resolvedById: ctx.session.user.id,
+						resolvedAt: now,
+					})
+					.where(
+						and(eq(reports.eventId, input.eventId), eq(reports.status, "open")),
+					)
+					.returning({ eventId: reports.eventId });
+				if (resolved.length === 0) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "This event has no open reports",
+					});
+				}
+
+				const [event] = await tx
+					.update(events)
+					.set({
+						hiddenAt: null,
+						...(input.action === "remove" && {
+							moderationStatus: "rejected" as const,
+							moderationReason: input.reason,
+							moderatedById: ctx.session.user.id,
+							moderatedAt: now,
+						}),
+					})
+					.where(eq(events.id, input.eventId))
+					.returning({
+						id: events.id,
+						title: events.title,
+						publishAt: events.publishAt,
+						createdById: events.createdById,
+					});
+				return input.action === "remove" ? event : undefined;
+			});
+
+			if (removed) {
+				await notifyModerationDecision(ctx.db, removed, {
+					approve: false,
+					reason: input.reason,
+				});
+			}
+			return { action: input.action };
+		}),
+});
@@ -0,0 +1,155 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { rsvps } from "~/server/db/schema";
+import {
+	countEventRsvps,
+	lockEventForRsvp,
+	promoteWaitlist,
+} from "~/server/rsvps";
+import { isEventPublished } from "~/shared/schemas/event";
+import { isEventApproved } from "~/shared/schemas/moderation";
+import {
+	type RsvpState,
+	remainingSpots,
+	rsvpClearSchema,
+	rsvpSetSchema,
+} from "~/shared/schemas/rsvp";
+
+/** Most past events listed on the "My events" page. */
+const MAX_PAST_RSVPS = 50;
+
+export const rsvpRouter = createTRPCRouter({
+	/**
+	 * Marks the current user as going to or interested in an event, replacing
+	 * any earlier RSVP. Cancelled, deleted, unpublished and unapproved events
+	 * don't take RSVPs.
+	 *
+	 * Going to a full event puts the user at the end of its waitlist instead;
+	 * asking again while waitlisted keeps their place. Switching from going
+	 * to interested hands the spot to the waitlist.
+	 *
+	 * @returns The user's resulting RSVP state and the event's counts
+	 */
+	set: protectedProcedure.input(rsvpSetSchema).mutation(({ ctx, input }) =>
+		ctx.db.transaction(async (tx) => {
+			const event = await lockEventForRsvp(tx, input.eventId);
+			const userId = ctx.session.user.id;
+			if (
+				!event ||
+				event.status === "deleted" ||
+				((!isEventPublished(event) || !isEventApproved(event)) &&
+					event.createdById !== userId)
+			) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Event not found" });
+			}
+			if (event.status === "cancelled") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "This event has been cancelled",
+				});
+			}
+
+			const existing = await tx.query.rsvps.findFirst({
+				columns: { status: true },
+				where: and(eq(rsvps.userId, userId), eq(rsvps.eventId, input.eventId)),
+			});
+
+			let status: RsvpState = input.status;
+			if (input.status === "going") {
+				if (existing?.status === "going" || existing?.status === "waitlisted") {
+					return {
+						status: existing.status,
+						counts: await countEventRsvps(tx, input.eventId),
+					};
+				}
+				const counts = await countEventRsvps(tx, input.eventId);
+				if (remainingSpots(event.capacity, counts) === 0) {
+					status = "waitlisted";
+				}
+			}
+
+			const waitlistedAt = status === "waitlisted" ? new Date() : null;
+			await tx
+				.insert(rsvps)
+				.values({ userId, eventId: input.eventId, status, waitlistedAt })
+				.onConflictDoUpdate({
+					target: [rsvps.userId, rsvps.eventId],
+					set: { status, waitlistedAt },
+				});
+
+			if (existing?.status === "going" && status !== "going") {
+				await promoteWaitlist(tx, input.eventId, event.capacity);
+			}
+
+			return { status, counts: await countEventRsvps(tx, input.eventId) };
+		}),
+	),
+
+	/**
+	 * Removes the current user's RSVP to an event, if any. A freed spot goes
+	 * to the first person on the waitlist.
+	 *
+	 * @returns The event's updated counts
+	 */
+	clear: protectedProcedure.input(rsvpClearSchema).mutation(({ ctx, input }) =>
+		ctx.db.transaction(async (tx) => {
+			const event = await lockEventForRsvp(tx, input.eventId);
+			const [removed] = await tx
+				.delete(rsvps)
+				.where(
+					and(
+						eq(rsvps.userId, ctx.session.user.id),
+						eq(rsvps.eventId, input.eventId),
+					),
+				)
+				.returning({ status: rsvps.status });
+
+			if (event && removed?.status === "going") {
+				await promoteWaitlist(tx, input.eventId, event.capacity);
+			}
+
+			return {
+				status: null,
+				counts: await countEventRsvps(tx, input.eventId),
+			};
+		}),
+	),
+
+	/**
+	 * Lists the events the current user has RSVP'd to: upcoming ones
+	 * (including recurring series with dates left) soonest first, then the
+	 * most recent past ones. Deleted events are left out.
+	 */
+	listMine: protectedProcedure.query(async ({ ctx }) => {
+		const rows = await ctx.db.query.rsvps.findMany({
+			columns: { status: true },
+			where: eq(rsvps.userId, ctx.session.user.id),
+			with: {
+				event: { with: { venue: { columns: { id: true, name: true } } } },
+			},
+		});
+
+		const now = new Date();
+		const items = rows
+			.filter((row) => row.event.status !== "deleted")
+			.map(({ status, event }) => ({ ...event, rsvpStatus: status }))
+			.sort(
+				(a, b) =>
+					a.startsAt.getTime() - b.startsAt.getTime() ||
+					a.id.localeCompare(b.id),
+			);
+		const isUpcoming = (event: (typeof items)[number]) =>
+			event.recurrenceRule
+				? !event.recurrenceEndsAt || event.recurrenceEndsAt >= now
+				: (event.endsAt ?? event.startsAt) >= now;
+
+		return {
+			upcoming: items.filter(isUpcoming),
+			past: items
+				.filter((event) => !isUpcoming(event))
+				.reverse()
+				.slice(0, MAX_PAST_RSVPS),
+		};
+	}),
+});
@@ -0,0 +1,99 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, ilike, inArray, or } from "drizzle-orm";
+import { z } from "zod";
+import {
+	adminProcedure,
+	createTRPCRouter,
+	publicProcedure,
+} from "~/server/api/trpc";
+import { events, eventTags, tags } from "~/server/db/schema";
+import { publicEventsWhere } from "~/server/event-visibility";
+import { listEventOccurrences } from "~/server/occurrences";
+import { escapeLikePattern } from "~/server/search";
+import { tagCurateSchema, tagSearchSchema } from "~/shared/tags";
+
+export const tagRouter = createTRPCRouter({
+	/**
+	 * Lists all curated tags by name. Public endpoint; the tag selector shows
+	 * these before the user starts typing.
+	 */
+	listCurated: publicProcedure.query(({ ctx }) =>
+		ctx.db
+			.select({ slug: tags.slug, name: tags.name })
+			.from(tags)
+			.where(eq(tags.isCurated, true))
+			.orderBy(asc(tags.name)),
+	),
+
+	/**
+	 * Finds tags whose name or slug contains the query, curated tags first.
+	 * Public endpoint backing the tag selector's autocomplete.
+	 */
+	search: publicProcedure.input(tagSearchSchema).query(({ ctx, input }) => {
+		const pattern = `%${escapeLikePattern(input.query)}%`;
+
+		return ctx.db
+			.select({ slug: tags.slug, name: tags.name })
+			.from(tags)
+			.where(or(ilike(tags.name, pattern), ilike(tags.slug, pattern)))
+			.orderBy(desc(tags.isCurated), asc(tags.name))
+			.limit(input.limit);
+	}),
+
+	/**
+	 * Retrieves a tag and its upcoming events by slug.
+	 * Visible events and occurrences that have not yet ended are included,
+	 * soonest first.
+	 * Returns null if the tag is not found.
+	 */
+	getBySlug: publicProcedure
+		.input(z.object({ slug: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const tag = await ctx.db.query.tags.findFirst({
+				columns: { id: true, slug: true, name: true, isCurated: true },
+				where: eq(tags.slug, input.slug),
+			});
+			if (!tag) {
+				return null;
+			}
+
+			const { items: upcomingEvents } = await listEventOccurrences(ctx.db, {
+				where: and(
+					inArray(
+						events.id,
+						ctx.db
+							.select({ id: eventTags.eventId })
+							.from(eventTags)
+							.where(eq(eventTags.tagId, tag.id)),
+					),
+					publicEventsWhere(),
+				),
+				from: new Date(),
+				to: null,
+			});
+
+			return { ...tag, upcomingEvents };
+		}),
+
+	/**
+	 * Curates a tag so the tag selector offers it to everyone, or takes it
+	 * back to a suggestion. Admins only.
+	 */
+	setCurated: adminProcedure
+		.input(tagCurateSchema)
+		.mutation(async ({ ctx, input }) => {
+			ctx.audit.before = await ctx.db.query.tags.findFirst({
+				columns: { slug: true, isCurated: true },
+				where: eq(tags.slug, input.slug),
+			});
+			const [tag] = await ctx.db
+				.update(tags)
+				.set({ isCurated: input.isCurated })
+				.where(eq(tags.slug, input.slug))
+				.returning({ slug: tags.slug, isCurated: tags.isCurated });
+			if (!tag) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Tag not found" });
+			}
+			return tag;
+		}),
+});
@@ -0,0 +1,96 @@
+import { and, asc, eq, ilike, or } from "drizzle-orm";
+import { z } from "zod";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+	publicProcedure,
+} from "~/server/api/trpc";
+import { events, venues } from "~/server/db/schema";
+import { publicEventsWhere } from "~/server/event-visibility";
+import { listEventOccurrences } from "~/server/occurrences";
+import {
+	usableVenuesWhere,
+	withVisibleAddress,
+} from "~/server/private-addresses";
+import { escapeLikePattern } from "~/server/search";
+import { venueSchema, venueSearchSchema } from "~/shared/schemas/venue";
+
+export const venueRouter = createTRPCRouter({
+	/**
+	 * Creates a new venue.
+	 * Requires authentication and records the current user as its creator.
+	 */
+	create: protectedProcedure
+		.input(venueSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [venue] = await ctx.db
+				.insert(venues)
+				.values({ ...input, createdById: ctx.session.user.id })
+				.returning();
+
+			return venue;
+		}),
+
+	/**
+	 * Finds venues whose name or street address contains the query.
+	 * Public endpoint backing the venue picker's autocomplete. Private venues
+	 * are only found by the user who added them.
+	 */
+	search: publicProcedure
+		.input(venueSearchSchema)
+		.query(async ({ ctx, input }) => {
+			const pattern = `%${escapeLikePattern(input.query)}%`;
+
+			return ctx.db
+				.select({
+					id: venues.id,
+					name: venues.name,
+					streetAddress: venues.streetAddress,
+					neighborhood: venues.neighborhood,
+					isPrivate: venues.isPrivate,
+				})
+				.from(venues)
+				.where(
+					and(
+						or(
+							ilike(venues.name, pattern),
+							ilike(venues.streetAddress, pattern),
+						),
+						ctx.session
+							? usableVenuesWhere(ctx.session.user.id)
+							: eq(venues.isPrivate, false),
+					),
+				)
+				.orderBy(asc(venues.name))
+				.limit(input.limit);
+		}),
+
+	/**
+	 * Retrieves a venue and its upcoming events by the venue ID.
+	 * Visible events and occurrences that have not yet ended are included,
+	 * soonest first. A private venue's exact location is only included for
+	 * the user who added it.
+	 * Returns null if the venue is not found.
+	 */
+	getById: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const venue = await ctx.db.query.venues.findFirst({
+				where: eq(venues.id, input.id),
+			});
+			if (!venue) {
+				return null;
+			}
+
+			const { items: upcomingEvents } = await listEventOccurrences(ctx.db, {
+				where: and(eq(events.venueId, venue.id), publicEventsWhere()),
+				from: new Date(),
+				to: null,
+			});
+
+			return {
+				...withVisibleAddress(venue, { viewerId: ctx.session?.user.id }),
+				upcomingEvents,
+			};
+		}),
+});
@@ -8,11 +8,20 @@
  */
 
 import { TRPCError, initTRPC } from "@trpc/server";
+import { eq } from "drizzle-orm";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import {
+	type AuditTrail,
+	getRequestId,
+	recordMutation,
+} from "~/server/audit-log";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import { captureEvent } from "~/server/posthog";
+import { USER_ROLE_LABELS, type UserRole, hasRole } from "~/shared/roles";
 
 /**
  * 1. CONTEXT
@@ -32,6 +41,8 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
 	return {
 		db,
 		session,
+		// Shared by every call in a batch, and recorded in the audit log
+		requestId: getRequestId(opts.headers),
 		...opts,
 	};
 };
@@ -101,6 +112,51 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
 	return result;
 });
 
+/**
+ * Middleware recording every mutation in the audit log: who called it, the redacted input, the
+ * ID of the row it returned, what it changed and, if it failed, the error code. Queries aren't
+ * recorded.
+ *
+ * Procedures get `ctx.audit`; one that changes an existing row sets `ctx.audit.before` to the row
+ * as it was, and the entry records the fields that differ in the row it returns.
+ *
+ * Best-effort: the entry is written after the mutation has committed, so a failed write is logged
+ * and counted as an `audit_log_write_failed` PostHog event instead of failing the call.
+ *
+ * @see ~/server/audit-log
+ */
+const auditMiddleware = t.middleware(
+	async ({ ctx, next, path, type, getRawInput }) => {
+		const audit: AuditTrail = {};
+		if (type !== "mutation") {
+			return next({ ctx: { audit } });
+		}
+
+		const result = await next({ ctx: { audit } });
+
+		const actorId = ctx.session?.user.id ?? null;
+		try {
+			await recordMutation(ctx.db, {
+				actorId,
+				path,
+				input: await getRawInput().catch(() => undefined),
+				before: audit.before,
+				data: result.ok ? result.data : undefined,
+				errorCode: result.ok ? null : result.error.code,
+				requestId: ctx.requestId,
+			});
+		} catch (error) {
+			console.error(`Failed to record ${path} in the audit log:`, error);
+			await captureEvent(actorId ?? "anonymous", "audit_log_write_failed", {
+				path,
+				request_id: ctx.requestId,
+			});
+		}
+
+		return result;
+	},
+);
+
 /**
  * Public (unauthenticated) procedure
  *
@@ -108,7 +164,9 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * guarantee that a user querying is authorized, but you can still access user session data if they
  * are logged in.
  */
-export const publicProcedure = t.procedure.use(timingMiddleware);
+export const publicProcedure = t.procedure
+	.use(timingMiddleware)
+	.use(auditMiddleware);
 
 /**
  * Protected (authenticated) procedure
@@ -120,6 +178,7 @@ export const publicProcedure = t.procedure.use(timingMiddleware);
  */
 export const protectedProcedure = t.procedure
 	.use(timingMiddleware)
+	.use(auditMiddleware)
 	.use(({ ctx, next }) => {
 		if (!ctx.session?.user) {
 			throw new TRPCError({ code: "UNAUTHORIZED" });
@@ -131,3 +190,45 @@ export const protectedProcedure = t.procedure
 			},
 		});
 	});
+
+/**
+ * Builds a procedure for signed-in users with at least the `required` role.
+ *
+ * The role is read from the database on every call rather than trusted from the session, so a
+ * demotion takes effect immediately even though JWT sessions keep the role they signed in with.
+ */
+const roleProcedure = (required: UserRole) =>
+	protectedProcedure.use(async ({ ctx, next }) => {
+		const user = await ctx.db.query.users.findFirst({
+			columns: { role: true },
+			where: eq(users.id, ctx.session.user.id),
+		});
+		if (!user || !hasRole(user.role, required)) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `Only ${USER_ROLE_LABELS[required].toLowerCase()}s can do this`,
+			});
+		}
+		return next({
+			ctx: {
+				session: {
+					...ctx.session,
+					user: { ...ctx.session.user, role: user.role },
+				},
+			},
+		});
+	});
+
+/**
+ * Moderator procedure
+ *
+ * For acting on other people's content. Admins may use these too.
+ */
+export const moderatorProcedure = roleProcedure("moderator");
+
+/**
+ * Admin procedure
+ *
+ * For site-wide settings such as curated tags and granting roles.
+ */
+export const adminProcedure = roleProcedure("admin");
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Recording who changed what.
+ *
+ * Every tRPC mutation, successful or not, is written to the append-only
+ * `audit_log` table by the audit middleware in `~/server/api/trpc`. Inputs
+ * are stored with secrets redacted and long text cut short. Updates also
+ * record the before and after values of the fields they changed. Sign-in
+ * and flyer uploads don't go through tRPC and aren't recorded.
+ *
+ * Logging is best-effort. An entry is written once its mutation has
+ * finished, outside the mutation's transaction, so a failed write can't
+ * undo a change that already happened (or hold its row locks while emails
+ * go out). Failed writes are counted as `audit_log_write_failed` events in
+ * PostHog, so gaps in the log show up there rather than only in server
+ * output.
+ */
+
+import { lt, sql } from "drizzle-orm";
+import { uuidv7 } from "uuidv7";
+
+import type { db } from "~/server/db";
+import { auditLog } from "~/server/db/schema";
+import type { AuditChanges } from "~/shared/schemas/audit-log";
+
+/** Header a proxy can set to tie log entries to its own request IDs. */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/** Input keys whose values are never stored. */
+const REDACTED_KEY = /password|secret|token|calendar/i;
+
+/** Longest string stored from an input, in characters. */
+const MAX_STRING_LENGTH = 500;
+
+/** Deepest nesting of an input that's stored. */
+const MAX_DEPTH = 6;
+
+/**
+ * The ID of the request being served: the `x-request-id` header when a
+ * proxy sent a usable one, otherwise a new UUIDv7.
+ */
+export function getRequestId(headers: Headers): string {
+	const header = headers.get(REQUEST_ID_HEADER)?.trim();
+	return header && /^[\w.:-]{1,128}$/.test(header) ? header : uuidv7();
+}
+
+/**
+ * Copies a mutation's input for the audit log, replacing secrets (and
+ * uploaded calendars, which are large and personal) with "[redacted]" and
+ * shortening long strings. Dates become ISO strings.
+ */
+export function redactAuditInput(value: unknown, depth = 0): unknown {
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (typeof value === "string") {
+		return value.length > MAX_STRING_LENGTH
+			? `${value.slice(0, MAX_STRING_LENGTH)}…`
+			: value;
+	}
+	if (value === null || typeof value !== "object") {
+		return value;
+	}
+	if (depth >= MAX_DEPTH) {
+		return "[truncated]";
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redactAuditInput(item, depth + 1));
+	}
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [
+			key,
+			REDACTED_KEY.test(key) ? "[redacted]" : redactAuditInput(item, depth + 1),
+		]),
+	);
+}
+
+/**
+ * The ID of the row a mutation created or changed, when its result has one.
+ */
+export function getResultId(data: unknown): string | null {
+	if (data && typeof data === "object" && "id" in data) {
+		const { id } = data;
+		return typeof id === "string" || typeof id === "number" ? String(id) : null;
+	}
+	return null;
+}
+
+/**
+ * Per-call audit state a procedure can add to. A mutation that changes an
+ * existing row sets `before` to the row as loaded, so its entry records
+ * what changed.
+ */
+export type AuditTrail = { before?: object };
+
+/**
+ * Compares a row before a mutation with what the mutation returned. Only
+ * fields present in both are compared, and `updatedAt` is left out.
+ *
+ * @returns The changed fields with redacted before and after values, or
+ * null when there's nothing to compare
+ */
+export function diffAuditValues(
+	before: object | undefined,
+	after: unknown,
+): AuditChanges | null {
+	if (!before || !after || typeof after !== "object") {
+		return null;
+	}
+
+	const changes: AuditChanges = {};
+	for (const [key, previous] of Object.entries(before)) {
+		if (key === "updatedAt" || !(key in after)) {
+			continue;
+		}
+		const next = (after as Record<string, unknown>)[key];
+		if (JSON.stringify(previous) !== JSON.stringify(next)) {
+			changes[key] = REDACTED_KEY.test(key)
+				? { before: "[redacted]", after: "[redacted]" }
+				: { before: redactAuditInput(previous), after: redactAuditInput(next) };
+		}
+	}
+	return changes;
+}
+
+/**
+ * Writes one mutation to the audit log.
+ *
+ * @throws When the entry can't be written; the caller decides how to
+ * report it
+ */
+export async function recordMutation(
+	database: Pick<typeof db, "insert">,
+	entry: {
+		actorId: string | null;
+		path: string;
+		input: unknown;
+		/** The changed row as it was, from the procedure's `AuditTrail` */
+		before?: object;
+		data: unknown;
+		errorCode: string | null;
+		requestId: string;
+	},
+) {
+	await database.insert(auditLog).values({
+		actorId: entry.actorId,
+		path: entry.path,
+		input: redactAuditInput(entry.input) ?? null,
+		resultId: getResultId(entry.data),
+		changes: diffAuditValues(entry.before, entry.data),
+		errorCode: entry.errorCode,
+		requestId: entry.requestId,
+	});
+}
+
+/**
+ * Deletes audit log entries older than the retention period.
+ *
+ * @returns How many entries were deleted
+ */
+export async function pruneAuditLog(
+	database: Pick<typeof db, "delete">,
+	retentionDays: number,
+): Promise<number> {
+	const deleted = await database
+		.delete(auditLog)
+		.where(
+			lt(
+				auditLog.createdAt,
+				sql`now() - make_interval(days => ${retentionDays})`,
+			),
+		)
+		.returning({ id: auditLog.id });
+	return deleted.length;
+}
@@ -10,6 +10,7 @@ import {
 	users,
 	verificationTokens,
 } from "~/server/db/schema";
+import { type UserRole, parseUserRole } from "~/shared/roles";
 
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
@@ -21,15 +22,13 @@ declare module "next-auth" {
 	interface Session extends DefaultSession {
 		user: {
 			id: string;
-			// ...other properties
-			// role: UserRole;
+			role: UserRole;
 		} & DefaultSession["user"];
 	}
 
-	// interface User {
-	//   // ...other properties
-	//   // role: UserRole;
-	// }
+	interface User {
+		role?: UserRole;
+	}
 }
 
 const maxAge = 14 * 24 * 60 * 60; // 14 days
@@ -78,6 +77,8 @@ export const authConfig = {
 				if (user) {
 					token.sub = String(user.id); // Standard JWT claim (subject)
 					token.id = String(user.id); // Custom property for reliable access in session callback
+					// Fixed at sign-in; role-gated procedures re-check the database
+					token.role = parseUserRole(user.role) ?? "organizer";
 				}
 				return token;
 			},
@@ -93,6 +94,7 @@ export const authConfig = {
 					user: {
 						...session.user,
 						id: user.id,
+						role: parseUserRole(user.role) ?? "organizer",
 					},
 				};
 			}
@@ -103,6 +105,7 @@ export const authConfig = {
 					user: {
 						...session.user,
 						id: String(token.id),
+						role: parseUserRole(token.role) ?? "organizer",
 					},
 				};
 			}
@@ -1,13 +1,17 @@
 /**
  * JWT module augmentation for NextAuth.js
  *
- * Extends the JWT interface to include the `id` property that is used
- * in the auth configuration callbacks.
+ * Extends the JWT interface to include the `id` and `role` properties that
+ * are used in the auth configuration callbacks.
  *
  * @see https://next-auth.js.org/getting-started/typescript#module-augmentation
  */
+
+import type { UserRole } from "~/shared/roles";
+
 declare module "next-auth/jwt" {
 	interface JWT {
 		id?: string;
+		role?: UserRole;
 	}
 }
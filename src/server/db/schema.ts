@@ -1,8 +1,29 @@
 import { relations, sql } from "drizzle-orm";
-import { index, pgTableCreator, primaryKey } from "drizzle-orm/pg-core";
+import {
+	type AnyPgColumn,
+	index,
+	pgTableCreator,
+	primaryKey,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
 import type { PgColumnsBuilders } from "drizzle-orm/pg-core/columns/all";
 import type { AdapterAccount } from "next-auth/adapters";
 import { uuidv7 } from "uuidv7";
+import type {
+	AccessibilityFeature,
+	AgePolicy,
+	PriceKind,
+} from "~/shared/event-details";
+import type { RichTextDoc } from "~/shared/rich-text";
+import type { UserRole } from "~/shared/roles";
+import type { AddressRequestStatus } from "~/shared/schemas/address-request";
+import type { AuditChanges } from "~/shared/schemas/audit-log";
+import type { EventStatus, OccurrenceStatus } from "~/shared/schemas/event";
+import type { ModerationStatus } from "~/shared/schemas/moderation";
+import type { OrganizationRole } from "~/shared/schemas/organization";
+import type { ReportReason, ReportStatus } from "~/shared/schemas/report";
+import type { RsvpState } from "~/shared/schemas/rsvp";
+import type { PortlandQuadrant } from "~/shared/schemas/venue";
 
 /**
  * Creates a default UUID v7 column for database tables.
@@ -16,6 +37,18 @@ const defaultUUID = (d: PgColumnsBuilders) =>
 		.primaryKey()
 		.$defaultFn(() => uuidv7());
 
+/**
+ * Full-text search document for an event: the title weighted A and the
+ * plain-text description weighted B. Used both by `event_search_idx` and by
+ * search queries, which must build the exact same expression for Postgres to
+ * use the index.
+ */
+export const eventSearchVector = (
+	title: AnyPgColumn,
+	descriptionText: AnyPgColumn,
+) =>
+	sql`(setweight(to_tsvector('english', coalesce(${title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${descriptionText}, '')), 'B'))`;
+
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
  * database instance for multiple projects.
@@ -38,33 +71,658 @@ export const createTable = pgTableCreator((name) => `pdx-diy_${name}`);
 /**
  * Events table schema for storing community events.
  *
- * TODO:
- * - make image uploads work
- * - make addresses work
- * - make WYSIWYG editor
- *   - sanitization
- *   - validation
- *   - store
- *   - de/serialization
+ * `startsAt`/`endsAt` are stored as UTC instants and always rendered in
+ * Portland time (see `~/shared/time`). `endsAt` is optional for open-ended
+ * events.
+ *
+ * Where an event happens lives on the `venues` table; `venueId` is optional
+ * so listings can go up before a location is confirmed. A flyer is optional
+ * too, but `flyerAlt` must describe it whenever one is attached.
+ *
+ * `description` holds a sanitized rich-text document (see `~/shared/rich-text`)
+ * and `descriptionText` its plain-text serialization, kept in sync on every
+ * write for search and meta descriptions.
+ *
+ * Full-text search runs on an expression index over the title and
+ * `descriptionText` (see `eventSearchVector`); a trigram index on `title`
+ * backs fuzzy matching for misspelled queries.
+ *
+ * Tags are attached through `eventTags`. `priceKind` and `agePolicy` are
+ * null when the organizer didn't say, so unknown events don't match price or
+ * age filters; prices are in cents (see `~/shared/event-details`).
+ *
+ * Recurring events store an RRULE (see `~/shared/recurrence`) in
+ * `recurrenceRule`, skipped Portland dates in `recurrenceExceptions`, and
+ * `recurrenceEndsAt`, when the last occurrence ends (null if the series never
+ * ends), so listings can find series overlapping a window without expanding
+ * every rule. `startsAt`/`endsAt` describe the first occurrence; edits and
+ * cancellations of single occurrences live in `eventOccurrences`.
+ *
+ * `capacity` caps how many people can RSVP as going; null means no limit.
+ * Extra RSVPs go to a waitlist (see `rsvps`).
+ *
+ * `status` tracks cancellations and postponements, with `statusNote` as the
+ * organizer's explanation. Deleting an event only sets `status` to
+ * "deleted" and stamps `deletedAt`, so it can be restored.
+ *
+ * Drafts (`isDraft`) are only visible to their organizer. A non-draft goes
+ * public at `publishAt`, so a future `publishAt` schedules the announcement
+ * and a past one records when it went up (see `~/server/event-visibility`).
+ *
+ * Events from organizers who aren't trusted start with a `pending`
+ * `moderationStatus` and stay hidden from everyone else until a moderator
+ * approves them; `moderationReason` explains a rejection. `hiddenAt` is set
+ * when enough people report an event, hiding it until a moderator looks.
+ *
+ * An event posted on behalf of an `organizationId` can be edited by all of
+ * the organization's members, not just `createdById`.
  *
  * @table pdx-diy_event
  */
-export const events = createTable("event", (d) => ({
-	id: defaultUUID(d),
-	title: d.varchar({ length: 255 }).notNull(),
-	createdById: d.varchar({ length: 255 }).references(() => users.id),
-	createdAt: d
-		.timestamp({ withTimezone: true })
-		.default(sql`CURRENT_TIMESTAMP`)
-		.notNull(),
-	updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+export const events = createTable(
+	"event",
+	(d) => ({
+		id: defaultUUID(d),
+		title: d.varchar({ length: 255 }).notNull(),
+		description: d.jsonb().$type<RichTextDoc>(),
+		descriptionText: d.text(),
+		startsAt: d.timestamp({ withTimezone: true }).notNull(),
+		endsAt: d.timestamp({ withTimezone: true }),
+		venueId: d.varchar({ length: 255 }).references(() => venues.id),
+		flyerId: d.varchar({ length: 255 }).references(() => flyers.id),
+		flyerAlt: d.varchar({ length: 500 }),
+		priceKind: d.varchar({ length: 16 }).$type<PriceKind>(),
+		priceMinCents: d.integer(),
+		priceMaxCents: d.integer(),
+		ticketUrl: d.varchar({ length: 2048 }),
+		agePolicy: d.varchar({ length: 16 }).$type<AgePolicy>(),
+		accessibility: d
+			.varchar({ length: 32 })
+			.array()
+			.$type<AccessibilityFeature[]>()
+			.default(sql`'{}'::varchar[]`)
+			.notNull(),
+		capacity: d.integer(),
+		recurrenceRule: d.varchar({ length: 255 }),
+		recurrenceExceptions: d
+			.date({ mode: "string" })
+			.array()
+			.default(sql`'{}'::date[]`)
+			.notNull(),
+		recurrenceEndsAt: d.timestamp({ withTimezone: true }),
+		status: d
+			.varchar({ length: 32 })
+			.$type<EventStatus>()
+			.default("scheduled")
+			.notNull(),
+		statusNote: d.varchar({ length: 500 }),
+		deletedAt: d.timestamp({ withTimezone: true }),
+		isDraft: d.boolean().default(false).notNull(),
+		publishAt: d.timestamp({ withTimezone: true }),
+		moderationStatus: d
+			.varchar({ length: 16 })
+			.$type<ModerationStatus>()
+			.default("pending")
+			.notNull(),
+		moderationReason: d.varchar({ length: 500 }),
+		moderatedById: d.varchar({ length: 255 }).references(() => users.id),
+		moderatedAt: d.timestamp({ withTimezone: true }),
+		hiddenAt: d.timestamp({ withTimezone: true }),
+		organizationId: d
+			.varchar({ length: 255 })
+			.references(() => organizations.id, { onDelete: "set null" }),
+		createdById: d.varchar({ length: 255 }).references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		index("event_search_idx").using(
+			"gin",
+			eventSearchVector(t.title, t.descriptionText),
+		),
+		index("event_title_trgm_idx").using("gin", sql`${t.title} gin_trgm_ops`),
+		// Covers keyset pagination on (startsAt, id)
+		index("event_starts_at_id_idx").on(t.startsAt, t.id),
+		index("event_venue_id_idx").on(t.venueId),
+		index("event_status_idx").on(t.status),
+		// The drafts dashboard lists an organizer's unpublished events
+		index("event_created_by_draft_idx").on(t.createdById, t.isDraft),
+		index("event_organization_idx").on(t.organizationId),
+		// The moderation queue lists pending events
+		index("event_moderation_pending_idx")
+			.on(t.createdAt)
+			.where(sql`${t.moderationStatus} = 'pending'`),
+		index("event_recurring_idx")
+			.on(t.startsAt, t.recurrenceEndsAt)
+			.where(sql`${t.recurrenceRule} is not null`),
+	],
+);
+
+/**
+ * Defines the relationships of an event to its venue, flyer, creator and
+ * tags.
+ *
+ * Each event takes place at most at one venue, has at most one flyer, is
+ * created by one user and can carry many tags.
+ */
+export const eventsRelations = relations(events, ({ one, many }) => ({
+	venue: one(venues, { fields: [events.venueId], references: [venues.id] }),
+	flyer: one(flyers, { fields: [events.flyerId], references: [flyers.id] }),
+	createdBy: one(users, {
+		fields: [events.createdById],
+		references: [users.id],
+	}),
+	organization: one(organizations, {
+		fields: [events.organizationId],
+		references: [organizations.id],
+	}),
+	eventTags: many(eventTags),
+	occurrences: many(eventOccurrences),
+	rsvps: many(rsvps),
+	addressRequests: many(addressRequests),
+	reports: many(reports),
 }));
 
+/**
+ * Per-occurrence changes to a recurring event, keyed by the occurrence's
+ * original start time.
+ *
+ * A row can move a single occurrence (`startsAt`/`endsAt`, both replaced
+ * together), retitle it, or cancel it with a note. Null columns fall back to
+ * the series.
+ *
+ * @table pdx-diy_event_occurrence
+ */
+export const eventOccurrences = createTable(
+	"event_occurrence",
+	(d) => ({
+		eventId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => events.id, { onDelete: "cascade" }),
+		occurrenceStart: d.timestamp({ withTimezone: true }).notNull(),
+		title: d.varchar({ length: 255 }),
+		startsAt: d.timestamp({ withTimezone: true }),
+		endsAt: d.timestamp({ withTimezone: true }),
+		status: d
+			.varchar({ length: 32 })
+			.$type<OccurrenceStatus>()
+			.default("scheduled")
+			.notNull(),
+		statusNote: d.varchar({ length: 500 }),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [primaryKey({ columns: [t.eventId, t.occurrenceStart] })],
+);
+
+/**
+ * Defines the relationship of an occurrence override to its series.
+ */
+export const eventOccurrencesRelations = relations(
+	eventOccurrences,
+	({ one }) => ({
+		event: one(events, {
+			fields: [eventOccurrences.eventId],
+			references: [events.id],
+		}),
+	}),
+);
+
+/**
+ * Tags table schema for the genre and category taxonomy.
+ *
+ * `slug` is the normalized form used in URLs and filters (see
+ * `~/shared/tags`); `name` is how the tag was first written. Curated tags are
+ * offered to everyone in the tag selector. Tags organizers type in themselves
+ * start out as suggestions: they work on their events right away, but are
+ * only offered to others once curated.
+ *
+ * @table pdx-diy_tag
+ */
+export const tags = createTable(
+	"tag",
+	(d) => ({
+		id: defaultUUID(d),
+		slug: d.varchar({ length: 64 }).notNull(),
+		name: d.varchar({ length: 64 }).notNull(),
+		isCurated: d.boolean().default(false).notNull(),
+		createdById: d.varchar({ length: 255 }).references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		uniqueIndex("tag_slug_idx").on(t.slug),
+		index("tag_curated_idx").on(t.isCurated),
+	],
+);
+
+/**
+ * Defines the relationship between tags and the events carrying them.
+ */
+export const tagsRelations = relations(tags, ({ many }) => ({
+	eventTags: many(eventTags),
+}));
+
+/**
+ * Join table linking events to their tags.
+ *
+ * @table pdx-diy_event_tag
+ */
+export const eventTags = createTable(
+	"event_tag",
+	(d) => ({
+		eventId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => events.id, { onDelete: "cascade" }),
+		tagId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => tags.id, { onDelete: "cascade" }),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.eventId, t.tagId] }),
+		// Tag pages and filters look up events by tag
+		index("event_tag_tag_id_idx").on(t.tagId),
+	],
+);
+
+/**
+ * Defines the relationships of an event-tag link to its event and tag.
+ */
+export const eventTagsRelations = relations(eventTags, ({ one }) => ({
+	event: one(events, { fields: [eventTags.eventId], references: [events.id] }),
+	tag: one(tags, { fields: [eventTags.tagId], references: [tags.id] }),
+}));
+
+/**
+ * RSVPs: one row per user and event they're going to or interested in.
+ * Recurring events take a single RSVP for the whole series. When an event
+ * with a `capacity` is full, RSVPs to go are `waitlisted` and promoted in
+ * `waitlistedAt` order as spots open up.
+ *
+ * @table pdx-diy_rsvp
+ */
+export const rsvps = createTable(
+	"rsvp",
+	(d) => ({
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		eventId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => events.id, { onDelete: "cascade" }),
+		status: d.varchar({ length: 16 }).$type<RsvpState>().notNull(),
+		// When the user joined the waitlist; spots go to the earliest first
+		waitlistedAt: d.timestamp({ withTimezone: true }),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.userId, t.eventId] }),
+		// Attendee counts group an event's RSVPs by status
+		index("rsvp_event_status_idx").on(t.eventId, t.status),
+	],
+);
+
+/**
+ * Defines the relationships of an RSVP to its user and event.
+ */
+export const rsvpsRelations = relations(rsvps, ({ one }) => ({
+	user: one(users, { fields: [rsvps.userId], references: [users.id] }),
+	event: one(events, { fields: [rsvps.eventId], references: [events.id] }),
+}));
+
+/**
+ * Requests to see the exact address of an event at a private venue. The
+ * organizer approves or declines them; declined requests are deleted so the
+ * user can ask again.
+ *
+ * @table pdx-diy_address_request
+ */
+export const addressRequests = createTable(
+	"address_request",
+	(d) => ({
+		eventId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => events.id, { onDelete: "cascade" }),
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		status: d.varchar({ length: 16 }).$type<AddressRequestStatus>().notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		decidedAt: d.timestamp({ withTimezone: true }),
+	}),
+	(t) => [primaryKey({ columns: [t.eventId, t.userId] })],
+);
+
+/**
+ * Defines the relationships of an address request to its event and user.
+ */
+export const addressRequestsRelations = relations(
+	addressRequests,
+	({ one }) => ({
+		event: one(events, {
+			fields: [addressRequests.eventId],
+			references: [events.id],
+		}),
+		user: one(users, {
+			fields: [addressRequests.userId],
+			references: [users.id],
+		}),
+	}),
+);
+
+/**
+ * Reports of spam, scams or unsafe listings. Each user can report an event
+ * once; its open reports count toward hiding it (see `~/server/reports`)
+ * until a moderator resolves them.
+ *
+ * @table pdx-diy_report
+ */
+export const reports = createTable(
+	"report",
+	(d) => ({
+		eventId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => events.id, { onDelete: "cascade" }),
+		reporterId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		reason: d.varchar({ length: 16 }).$type<ReportReason>().notNull(),
+		details: d.varchar({ length: 1000 }),
+		status: d
+			.varchar({ length: 16 })
+			.$type<ReportStatus>()
+			.default("open")
+			.notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		resolvedById: d.varchar({ length: 255 }).references(() => users.id),
+		resolvedAt: d.timestamp({ withTimezone: true }),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.eventId, t.reporterId] }),
+		// Moderators triage open reports
+		index("report_open_idx")
+			.on(t.eventId)
+			.where(sql`${t.status} = 'open'`),
+	],
+);
+
+/**
+ * Defines the relationships of a report to its event and reporter.
+ */
+export const reportsRelations = relations(reports, ({ one }) => ({
+	event: one(events, { fields: [reports.eventId], references: [events.id] }),
+	reporter: one(users, {
+		fields: [reports.reporterId],
+		references: [users.id],
+	}),
+}));
+
+/**
+ * Collectives that put on events together. Members share the organization's
+ * events (see `organizationMembers`); `slug` is its profile's URL.
+ *
+ * @table pdx-diy_organization
+ */
+export const organizations = createTable(
+	"organization",
+	(d) => ({
+		id: defaultUUID(d),
+		slug: d.varchar({ length: 64 }).notNull(),
+		name: d.varchar({ length: 120 }).notNull(),
+		description: d.varchar({ length: 2000 }),
+		createdById: d.varchar({ length: 255 }).references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [uniqueIndex("organization_slug_idx").on(t.slug)],
+);
+
+/**
+ * Defines the relationships of an organization to its members, pending
+ * invitations and events.
+ */
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+	members: many(organizationMembers),
+	invitations: many(organizationInvitations),
+	events: many(events),
+}));
+
+/**
+ * Who belongs to which organization, and as what (see
+ * `~/shared/schemas/organization`). Every organization keeps at least one
+ * owner.
+ *
+ * @table pdx-diy_organization_member
+ */
+export const organizationMembers = createTable(
+	"organization_member",
+	(d) => ({
+		organizationId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => organizations.id, { onDelete: "cascade" }),
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		role: d.varchar({ length: 16 }).$type<OrganizationRole>().notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.organizationId, t.userId] }),
+		// Finding the organizations a user belongs to
+		index("organization_member_user_idx").on(t.userId),
+	],
+);
+
+/**
+ * Defines the relationships of a membership to its organization and user.
+ */
+export const organizationMembersRelations = relations(
+	organizationMembers,
+	({ one }) => ({
+		organization: one(organizations, {
+			fields: [organizationMembers.organizationId],
+			references: [organizations.id],
+		}),
+		user: one(users, {
+			fields: [organizationMembers.userId],
+			references: [users.id],
+		}),
+	}),
+);
+
+/**
+ * Pending invitations to join an organization, one per email address. The
+ * emailed link carries a random token; only its SHA-256 hash is stored.
+ * Accepting deletes the invitation.
+ *
+ * @table pdx-diy_organization_invitation
+ */
+export const organizationInvitations = createTable(
+	"organization_invitation",
+	(d) => ({
+		organizationId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => organizations.id, { onDelete: "cascade" }),
+		email: d.varchar({ length: 255 }).notNull(),
+		role: d.varchar({ length: 16 }).$type<OrganizationRole>().notNull(),
+		tokenHash: d.varchar({ length: 64 }).notNull(),
+		invitedById: d.varchar({ length: 255 }).references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		expiresAt: d.timestamp({ withTimezone: true }).notNull(),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.organizationId, t.email] }),
+		uniqueIndex("organization_invitation_token_idx").on(t.tokenHash),
+	],
+);
+
+/**
+ * Defines the relationship of an invitation to its organization.
+ */
+export const organizationInvitationsRelations = relations(
+	organizationInvitations,
+	({ one }) => ({
+		organization: one(organizations, {
+			fields: [organizationInvitations.organizationId],
+			references: [organizations.id],
+		}),
+	}),
+);
+
+/**
+ * Append-only record of every tRPC mutation: who called which procedure
+ * with what (redacted) input, the ID of the row it returned, what an update
+ * changed in it, and the error code if it failed (see `~/server/audit-log`).
+ *
+ * `actorId` deliberately has no foreign key, so deleting a user keeps their
+ * history intact. A trigger rejects updates; old entries are only removed
+ * by the retention job (`pnpm audit:prune`).
+ *
+ * @table pdx-diy_audit_log
+ */
+export const auditLog = createTable(
+	"audit_log",
+	(d) => ({
+		id: defaultUUID(d),
+		actorId: d.varchar({ length: 255 }),
+		path: d.varchar({ length: 128 }).notNull(),
+		input: d.jsonb(),
+		resultId: d.varchar({ length: 255 }),
+		changes: d.jsonb().$type<AuditChanges>(),
+		errorCode: d.varchar({ length: 32 }),
+		requestId: d.varchar({ length: 128 }).notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		index("audit_log_created_at_idx").on(t.createdAt),
+		index("audit_log_actor_idx").on(t.actorId, t.createdAt),
+		index("audit_log_path_idx").on(t.path, t.createdAt),
+	],
+);
+
+/**
+ * Defines the relationship of an audit log entry to the user who acted.
+ */
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+	actor: one(users, { fields: [auditLog.actorId], references: [users.id] }),
+}));
+
+/**
+ * Venues table schema for the places events happen.
+ *
+ * Venues are shared between events so a space only has to be entered once.
+ * Coordinates are optional and stored as WGS 84 latitude/longitude pairs.
+ * `quadrant` is the venue's Portland address sextant, used for filtering.
+ *
+ * `isPrivate` venues, usually houses, only show their neighborhood in
+ * public. The street address and coordinates go to the venue's creator and
+ * to people cleared for one of its events (see `~/server/private-addresses`).
+ *
+ * @table pdx-diy_venue
+ */
+export const venues = createTable(
+	"venue",
+	(d) => ({
+		id: defaultUUID(d),
+		name: d.varchar({ length: 255 }).notNull(),
+		streetAddress: d.varchar({ length: 255 }).notNull(),
+		neighborhood: d.varchar({ length: 255 }),
+		quadrant: d.varchar({ length: 2 }).$type<PortlandQuadrant>(),
+		latitude: d.doublePrecision(),
+		longitude: d.doublePrecision(),
+		notes: d.text(),
+		isPrivate: d.boolean().default(false).notNull(),
+		createdById: d.varchar({ length: 255 }).references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		index("venue_name_idx").on(t.name),
+		index("venue_quadrant_idx").on(t.quadrant),
+	],
+);
+
+/**
+ * Defines the relationship between venues and the events held there.
+ */
+export const venuesRelations = relations(venues, ({ many }) => ({
+	events: many(events),
+}));
+
+/**
+ * Flyers table schema for uploaded event flyer images.
+ *
+ * Only dimensions are stored here; the image variants themselves live in the
+ * configured storage backend under `flyers/<id>/` (see `~/server/flyers`).
+ *
+ * @table pdx-diy_flyer
+ */
+export const flyers = createTable(
+	"flyer",
+	(d) => ({
+		id: defaultUUID(d),
+		uploadedById: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id),
+		width: d.integer().notNull(),
+		height: d.integer().notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [index("flyer_uploaded_by_idx").on(t.uploadedById)],
+);
+
 /**
  * Users table schema for storing user account information.
  *
  * Supports NextAuth.js authentication with email-based identification.
  * Includes fields for user profile information and email verification.
+ * `role` decides what else a user may do (see `~/shared/roles`); everyone
+ * starts as an organizer. Events from `isTrusted` users skip moderation.
  *
  * @table pdx-diy_user
  */
@@ -79,6 +737,12 @@ export const users = createTable("user", (d) => ({
 		})
 		.default(sql`CURRENT_TIMESTAMP`),
 	image: d.varchar({ length: 255 }),
+	role: d
+		.varchar({ length: 16 })
+		.$type<UserRole>()
+		.default("organizer")
+		.notNull(),
+	isTrusted: d.boolean().default(false).notNull(),
 }));
 
 /**
@@ -89,6 +753,10 @@ export const users = createTable("user", (d) => ({
  */
 export const usersRelations = relations(users, ({ many }) => ({
 	accounts: many(accounts),
+	rsvps: many(rsvps),
+	addressRequests: many(addressRequests),
+	reports: many(reports),
+	organizationMemberships: many(organizationMembers),
 }));
 
 /**
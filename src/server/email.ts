@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Sending notification emails through Resend, the same
+ * service and sender address as sign-in links.
+ */
+
+import "server-only";
+import { env } from "~/env";
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+export type Email = {
+	to: string;
+	subject: string;
+	text: string;
+};
+
+/**
+ * Sends a plain-text email. Notifications are best-effort: failures are
+ * logged rather than thrown, so a mail outage never undoes the action that
+ * triggered the email.
+ *
+ * @returns Whether Resend accepted the email
+ */
+export async function sendEmail(email: Email): Promise<boolean> {
+	try {
+		const response = await fetch(RESEND_API_URL, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${env.AUTH_RESEND_KEY}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ from: env.AUTH_RESEND_FROM, ...email }),
+		});
+		if (!response.ok) {
+			console.error(
+				`Failed to send email "${email.subject}": ${response.status} ${await response.text()}`,
+			);
+		}
+		return response.ok;
+	} catch (error) {
+		console.error(`Failed to send email "${email.subject}":`, error);
+		return false;
+	}
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Query conditions for event list filters.
+ *
+ * Shared by every listing that accepts `EventFilters`, so the home page,
+ * feeds and calendar exports all filter the same way. The date range is
+ * returned separately as a window, since recurring events are matched per
+ * occurrence rather than per row (see `~/server/occurrences`).
+ */
+
+import { type SQL, and, arrayContains, eq, inArray } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { events, eventTags, tags, venues } from "~/server/db/schema";
+import type { EventFilters } from "~/shared/schemas/event";
+import { fromZonedDateValue } from "~/shared/time";
+
+/**
+ * Returns the instants bounding a filter's date range: the start of the
+ * `from` day and the end (exclusive) of the `to` day, in Portland.
+ *
+ * @param filters - Validated filters
+ * @returns The window; either bound is null when not set
+ */
+export function eventFilterWindow(filters: EventFilters): {
+	from: Date | null;
+	to: Date | null;
+} {
+	return {
+		from: filters.from ? fromZonedDateValue(filters.from) : null,
+		to: filters.to ? fromZonedDateValue(filters.to, 1) : null,
+	};
+}
+
+/**
+ * Builds the condition matching events that satisfy every filter except
+ * the date range (see `eventFilterWindow`).
+ *
+ * @param filters - Validated filters; unset fields don't constrain results
+ * @returns A condition to combine with visibility checks, or undefined when
+ *   no filter is set
+ */
+export function eventFiltersWhere(filters: EventFilters): SQL | undefined {
+	const conditions: (SQL | undefined)[] = [];
+
+	if (filters.tags && filters.tags.length > 0) {
+		conditions.push(
+			inArray(
+				events.id,
+				db
+					.select({ id: eventTags.eventId })
+					.from(eventTags)
+					.innerJoin(tags, eq(eventTags.tagId, tags.id))
+					.where(inArray(tags.slug, filters.tags)),
+			),
+		);
+	}
+
+	if (filters.quadrant) {
+		conditions.push(
+			inArray(
+				events.venueId,
+				db
+					.select({ id: venues.id })
+					.from(venues)
+					.where(eq(venues.quadrant, filters.quadrant)),
+			),
+		);
+	}
+
+	if (filters.venue) {
+		conditions.push(eq(events.venueId, filters.venue));
+	}
+
+	if (filters.price) {
+		conditions.push(eq(events.priceKind, filters.price));
+	}
+
+	if (filters.allAges) {
+		conditions.push(eq(events.agePolicy, "all_ages"));
+	}
+
+	if (filters.access && filters.access.length > 0) {
+		conditions.push(arrayContains(events.accessibility, filters.access));
+	}
+
+	return and(...conditions);
+}
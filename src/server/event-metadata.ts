@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Social preview text and schema.org structured data for
+ * event pages.
+ *
+ * Search engines and link unfurlers read an event page's meta description
+ * and its `Event` JSON-LD. Both describe the date being shown: a changed
+ * occurrence's own title and time, or a recurring event's next date.
+ */
+
+import type { venues } from "~/server/db/schema";
+import type { AgePolicy, PriceKind } from "~/shared/event-details";
+import type { FlyerView } from "~/shared/flyers";
+import { formatEventTimeRange } from "~/shared/time";
+
+/** Longest meta description, in characters. */
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * The event fields used for previews and structured data, with the title,
+ * times and status of the date being shown.
+ */
+export type PreviewEvent = {
+	title: string;
+	descriptionText: string | null;
+	startsAt: Date;
+	endsAt: Date | null;
+	status: "scheduled" | "cancelled" | "postponed" | "deleted";
+	priceKind: PriceKind | null;
+	priceMinCents: number | null;
+	priceMaxCents: number | null;
+	ticketUrl: string | null;
+	agePolicy: AgePolicy | null;
+	flyer: FlyerView | null;
+	/** `streetAddress` is null when the address is private */
+	venue:
+		| (Pick<typeof venues.$inferSelect, "name" | "latitude" | "longitude"> & {
+				streetAddress: string | null;
+		  })
+		| null;
+};
+
+const EVENT_STATUSES: Record<PreviewEvent["status"], string> = {
+	scheduled: "https://schema.org/EventScheduled",
+	postponed: "https://schema.org/EventPostponed",
+	cancelled: "https://schema.org/EventCancelled",
+	deleted: "https://schema.org/EventCancelled",
+};
+
+const TYPICAL_AGE_RANGES: Record<AgePolicy, string> = {
+	all_ages: "0-",
+	"18_plus": "18-",
+	"21_plus": "21-",
+};
+
+/**
+ * Builds the `offers` of an event with a known price or a ticket link.
+ * Sliding scales are listed from their lowest price.
+ */
+function toOffers(event: PreviewEvent) {
+	const price =
+		event.priceKind === "free"
+			? 0
+			: event.priceKind === "fixed" || event.priceKind === "sliding"
+				? event.priceMinCents
+				: null;
+	if (price === null && !event.ticketUrl) {
+		return {};
+	}
+	return {
+		offers: {
+			"@type": "Offer",
+			...(price !== null && { price: price / 100, priceCurrency: "USD" }),
+			...(event.ticketUrl && { url: event.ticketUrl }),
+		},
+	};
+}
+
+/**
+ * Builds the meta description: when and where, then as much of the event's
+ * description as fits.
+ */
+export function describeEventPreview(event: PreviewEvent): string {
+	const when = formatEventTimeRange(event.startsAt, event.endsAt);
+	const heading = [
+		event.status === "cancelled"
+			? "Cancelled"
+			: event.status === "postponed"
+				? "Postponed"
+				: null,
+		event.venue ? `${when} at ${event.venue.name}` : when,
+	]
+		.filter(Boolean)
+		.join(": ");
+
+	const text = event.descriptionText?.replace(/\s+/g, " ").trim();
+	if (!text) {
+		return heading;
+	}
+	const description = `${heading}. ${text}`;
+	return description.length > MAX_DESCRIPTION_LENGTH
+		? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+		: description;
+}
+
+/**
+ * Builds a schema.org `Event` for an event page.
+ *
+ * @param event - The event, with the shown date's details
+ * @param url - Absolute URL of the page
+ * @returns The JSON-LD object
+ */
+export function buildEventJsonLd(event: PreviewEvent, url: string) {
+	return {
+		"@context": "https://schema.org",
+		"@type": "Event",
+		name: event.title,
+		...(event.descriptionText && { description: event.descriptionText }),
+		url,
+		startDate: event.startsAt.toISOString(),
+		...(event.endsAt && { endDate: event.endsAt.toISOString() }),
+		eventStatus: EVENT_STATUSES[event.status],
+		eventAttendanceMode: "https://schema.org/OfflineEventAttendanceMode",
+		...(event.priceKind && {
+			isAccessibleForFree: event.priceKind === "free",
+		}),
+		...toOffers(event),
+		...(event.agePolicy && {
+			typicalAgeRange: TYPICAL_AGE_RANGES[event.agePolicy],
+		}),
+		...(event.flyer && {
+			image: [new URL(event.flyer.urls.large, url).href],
+		}),
+		...(event.venue && {
+			location: {
+				"@type": "Place",
+				name: event.venue.name,
+				address: {
+					"@type": "PostalAddress",
+					...(event.venue.streetAddress && {
+						streetAddress: event.venue.streetAddress,
+					}),
+					addressLocality: "Portland",
+					addressRegion: "OR",
+					addressCountry: "US",
+				},
+				...(event.venue.latitude !== null &&
+					event.venue.longitude !== null && {
+						geo: {
+							"@type": "GeoCoordinates",
+							latitude: event.venue.latitude,
+							longitude: event.venue.longitude,
+						},
+					}),
+			},
+		}),
+	};
+}
+
+/**
+ * Serializes JSON-LD for a `<script>` element. `<` is escaped so event text
+ * can't close the script early.
+ */
+export function serializeJsonLd(data: unknown): string {
+	return JSON.stringify(data).replace(/</g, "\\u003c");
+}
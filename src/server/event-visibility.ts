@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Shared query conditions deciding who can see which events.
+ *
+ * Every query that lists or loads events for display should go through these
+ * helpers so hidden events can't leak through one forgotten code path.
+ */
+
+import {
+	type SQL,
+	and,
+	eq,
+	gt,
+	inArray,
+	isNotNull,
+	isNull,
+	lte,
+	ne,
+	or,
+	sql,
+} from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { events, organizationMembers } from "~/server/db/schema";
+
+/**
+ * Condition matching published events: not drafts, and past their
+ * `publishAt`. Evaluated at query time, so scheduled events appear on their
+ * own once `publishAt` passes. Mirrors `isEventPublished`.
+ */
+export function publishedEventsWhere(): SQL | undefined {
+	return and(
+		eq(events.isDraft, false),
+		or(isNull(events.publishAt), lte(events.publishAt, sql`now()`)),
+	);
+}
+
+/**
+ * Condition matching drafts and events scheduled for later: the opposite of
+ * `publishedEventsWhere`.
+ */
+export function unpublishedEventsWhere(): SQL | undefined {
+	return or(eq(events.isDraft, true), gt(events.publishAt, sql`now()`));
+}
+
+/**
+ * Condition matching events a moderator has approved, or that never needed
+ * review, and that reports haven't hidden. Mirrors `isEventApproved`.
+ */
+export function approvedEventsWhere(): SQL | undefined {
+	return and(eq(events.moderationStatus, "approved"), isNull(events.hiddenAt));
+}
+
+/**
+ * Condition matching events held back by moderation: the opposite of
+ * `approvedEventsWhere`.
+ */
+export function unapprovedEventsWhere(): SQL | undefined {
+	return or(
+		ne(events.moderationStatus, "approved"),
+		isNotNull(events.hiddenAt),
+	);
+}
+
+/**
+ * Condition matching events anyone may see in public listings.
+ * Soft-deleted, unpublished and unapproved events are excluded.
+ */
+export function publicEventsWhere(): SQL | undefined {
+	return and(
+		ne(events.status, "deleted"),
+		publishedEventsWhere(),
+		approvedEventsWhere(),
+	);
+}
+
+/**
+ * Condition matching events a user manages: the ones they posted for no
+ * organization, and the ones posted on behalf of an organization they
+ * belong to (see `canManageEvent`).
+ *
+ * @param userId - The signed-in user's ID
+ */
+export function managedEventsWhere(userId: string): SQL | undefined {
+	return or(
+		and(isNull(events.organizationId), eq(events.createdById, userId)),
+		inArray(
+			events.organizationId,
+			db
+				.select({ id: organizationMembers.organizationId })
+				.from(organizationMembers)
+				.where(eq(organizationMembers.userId, userId)),
+		),
+	);
+}
+
+/**
+ * Condition matching events a viewer may see in listings: everything
+ * public, plus the drafts, scheduled events and events awaiting review
+ * that the viewer manages, so they can preview them in place.
+ *
+ * @param viewerId - The signed-in user's ID, if any
+ */
+export function listableEventsWhere(viewerId?: string): SQL | undefined {
+	return viewerId
+		? and(
+				ne(events.status, "deleted"),
+				or(
+					and(publishedEventsWhere(), approvedEventsWhere()),
+					managedEventsWhere(viewerId),
+				),
+			)
+		: publicEventsWhere();
+}
+
+/**
+ * Condition matching events a viewer may open directly: everything public,
+ * plus the events they manage (so an organizer can preview a draft or
+ * still restore a deleted one).
+ *
+ * @param viewerId - The signed-in user's ID, if any
+ */
+export function viewableEventsWhere(viewerId?: string): SQL | undefined {
+	return viewerId
+		? or(publicEventsWhere(), managedEventsWhere(viewerId))
+		: publicEventsWhere();
+}
@@ -0,0 +1,283 @@
+/**
+ * @fileoverview RSS 2.0 and Atom feeds of upcoming events.
+ *
+ * Both feeds list the same items, read through `event.getMany` so they
+ * honor the home page's filters (`?tags=punk`, `?venue=<id>`, ...). Every
+ * value is escaped as XML text; nothing from an event is written as markup.
+ *
+ * Responses carry an ETag and short shared-cache lifetimes, so readers
+ * polling every few minutes mostly get 304s or CDN hits.
+ */
+
+import { createHash } from "node:crypto";
+import { eq, inArray } from "drizzle-orm";
+
+import { createCaller } from "~/server/api/root";
+import { getRequestId } from "~/server/audit-log";
+import { db } from "~/server/db";
+import { tags, venues } from "~/server/db/schema";
+import {
+	parseEventFilters,
+	toEventFilterQuery,
+	toSearchParamsRecord,
+} from "~/shared/event-filters";
+import { eventPath } from "~/shared/recurrence";
+import { MAX_EVENT_PAGE_SIZE } from "~/shared/schemas/event";
+import { formatEventTimeRange, toZonedDateValue } from "~/shared/time";
+
+/** Longest description excerpt included in an item. */
+const MAX_SUMMARY_LENGTH = 500;
+
+/** How long readers and caches may reuse a feed, in seconds. */
+const FEED_MAX_AGE = 300;
+
+/**
+ * Characters XML 1.0 doesn't allow, even escaped.
+ */
+const INVALID_XML_CHARACTERS =
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: matching control characters is the point
+	/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * An event or occurrence as listed in a feed.
+ */
+export type FeedItem = {
+	id: string;
+	occurrenceStart: Date | null;
+	title: string;
+	descriptionText: string | null;
+	startsAt: Date;
+	endsAt: Date | null;
+	status: string;
+	createdAt: Date;
+	updatedAt: Date | null;
+	publishAt: Date | null;
+	venue: { name: string } | null;
+};
+
+/**
+ * A feed's metadata and items.
+ */
+export type Feed = {
+	title: string;
+	description: string;
+	/** Absolute URL of the page the feed mirrors */
+	siteUrl: string;
+	/** Absolute URL of the feed itself */
+	selfUrl: string;
+	/** Origin used for item links */
+	baseUrl: string;
+	items: FeedItem[];
+};
+
+/**
+ * Escapes text for use in XML content and attribute values, dropping
+ * characters XML can't represent.
+ */
+export function escapeXml(value: string): string {
+	return value
+		.replace(INVALID_XML_CHARACTERS, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+const itemUrl = (feed: Feed, item: FeedItem) =>
+	`${feed.baseUrl}${eventPath(item.id, item.occurrenceStart)}`;
+
+const itemTitle = (item: FeedItem) =>
+	item.status === "cancelled"
+		? `Cancelled: ${item.title}`
+		: item.status === "postponed"
+			? `Postponed: ${item.title}`
+			: item.title;
+
+/**
+ * Plain-text summary of an item: when and where, then the start of its
+ * description.
+ */
+function itemSummary(item: FeedItem): string {
+	const when = formatEventTimeRange(item.startsAt, item.endsAt);
+	const heading = item.venue ? `${when} at ${item.venue.name}` : when;
+	const text = item.descriptionText?.trim();
+	if (!text) {
+		return heading;
+	}
+	return `${heading}\n\n${
+		text.length > MAX_SUMMARY_LENGTH
+			? `${text.slice(0, MAX_SUMMARY_LENGTH).trimEnd()}…`
+			: text
+	}`;
+}
+
+/** When an item went public: its publish time, or when it was posted. */
+const publishedAt = (item: FeedItem) => item.publishAt ?? item.createdAt;
+
+/** The item's last change, never before it went public. */
+const updatedAt = (item: FeedItem) =>
+	new Date(
+		Math.max(
+			publishedAt(item).getTime(),
+			(item.updatedAt ?? item.createdAt).getTime(),
+		),
+	);
+
+const lastUpdated = (feed: Feed) =>
+	new Date(Math.max(0, ...feed.items.map((item) => updatedAt(item).getTime())));
+
+/**
+ * Serializes a feed as RSS 2.0.
+ */
+export function buildRssFeed(feed: Feed): string {
+	const items = feed.items.map((item) => {
+		const url = escapeXml(itemUrl(feed, item));
+		return [
+			"<item>",
+			`<title>${escapeXml(itemTitle(item))}</title>`,
+			`<link>${url}</link>`,
+			`<guid isPermaLink="true">${url}</guid>`,
+			`<pubDate>${publishedAt(item).toUTCString()}</pubDate>`,
+			`<description>${escapeXml(itemSummary(item))}</description>`,
+			"</item>",
+		].join("");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+		"<channel>",
+		`<title>${escapeXml(feed.title)}</title>`,
+		`<link>${escapeXml(feed.siteUrl)}</link>`,
+		`<description>${escapeXml(feed.description)}</description>`,
+		"<language>en-us</language>",
+		`<lastBuildDate>${lastUpdated(feed).toUTCString()}</lastBuildDate>`,
+		`<ttl>${FEED_MAX_AGE / 60}</ttl>`,
+		`<atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+		...items,
+		"</channel>",
+		"</rss>",
+	].join("\n");
+}
+
+/**
+ * Serializes a feed as Atom.
+ */
+export function buildAtomFeed(feed: Feed): string {
+	const entries = feed.items.map((item) => {
+		const url = escapeXml(itemUrl(feed, item));
+		return [
+			"<entry>",
+			`<id>${url}</id>`,
+			`<title type="text">${escapeXml(itemTitle(item))}</title>`,
+			`<link rel="alternate" type="text/html" href="${url}"/>`,
+			`<published>${publishedAt(item).toISOString()}</published>`,
+			`<updated>${updatedAt(item).toISOString()}</updated>`,
+			`<summary type="text">${escapeXml(itemSummary(item))}</summary>`,
+			"</entry>",
+		].join("");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<feed xmlns="http://www.w3.org/2005/Atom">',
+		`<id>${escapeXml(feed.selfUrl)}</id>`,
+		`<title type="text">${escapeXml(feed.title)}</title>`,
+		`<subtitle type="text">${escapeXml(feed.description)}</subtitle>`,
+		`<link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}"/>`,
+		`<link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+		`<updated>${lastUpdated(feed).toISOString()}</updated>`,
+		"<author><name>PDX DIY</name></author>",
+		...entries,
+		"</feed>",
+	].join("\n");
+}
+
+/**
+ * Loads the feed for a request: upcoming events matching the request's
+ * filters, titled after the tags or venue it's limited to.
+ *
+ * Events are read as a signed-out visitor would see them, whoever asks:
+ * feeds are cached publicly, so an organizer's own drafts must stay out.
+ *
+ * @param request - The feed request; its query string holds the filters
+ * @returns The feed, with up to `MAX_EVENT_PAGE_SIZE` items
+ */
+export async function loadFeed(request: Request): Promise<Feed> {
+	const url = new URL(request.url);
+	const filters = parseEventFilters(toSearchParamsRecord(url.searchParams));
+	const today = toZonedDateValue(new Date());
+	const from = filters.from && filters.from > today ? filters.from : today;
+
+	const caller = createCaller({
+		db,
+		session: null,
+		requestId: getRequestId(request.headers),
+		headers: request.headers,
+	});
+	const { items } = await caller.event.getMany({
+		...filters,
+		from,
+		limit: MAX_EVENT_PAGE_SIZE,
+	});
+
+	const [tagNames, venue] = await Promise.all([
+		filters.tags?.length
+			? db
+					.select({ name: tags.name })
+					.from(tags)
+					.where(inArray(tags.slug, filters.tags))
+			: [],
+		filters.venue
+			? db.query.venues.findFirst({
+					columns: { name: true },
+					where: eq(venues.id, filters.venue),
+				})
+			: undefined,
+	]);
+
+	let title = "PDX DIY: upcoming events";
+	if (tagNames.length > 0) {
+		title += ` tagged ${tagNames.map((tag) => tag.name).join(", ")}`;
+	}
+	if (venue) {
+		title += ` at ${venue.name}`;
+	}
+
+	const query = toEventFilterQuery(filters);
+	return {
+		title,
+		description: "Events for the DIY community in Portland, Oregon",
+		siteUrl: `${url.origin}/${query ? `?${query}` : ""}`,
+		selfUrl: url.href,
+		baseUrl: url.origin,
+		items,
+	};
+}
+
+/**
+ * Wraps a serialized feed in a cacheable response, answering conditional
+ * requests with 304 when the feed hasn't changed.
+ *
+ * @param request - The feed request
+ * @param body - The serialized feed
+ * @param contentType - The feed's media type
+ */
+export function feedResponse(
+	request: Request,
+	body: string,
+	contentType: string,
+): Response {
+	const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+	const headers = {
+		"Content-Type": `${contentType}; charset=utf-8`,
+		"Cache-Control": `public, max-age=${FEED_MAX_AGE}, s-maxage=${FEED_MAX_AGE}, stale-while-revalidate=${FEED_MAX_AGE * 12}`,
+		ETag: etag,
+	};
+
+	if (request.headers.get("if-none-match") === etag) {
+		return new Response(null, { status: 304, headers });
+	}
+	return new Response(body, { headers });
+}
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Flyer image processing and storage helpers.
+ *
+ * Uploaded flyers are re-encoded with sharp, which auto-orients them and
+ * drops all EXIF metadata (including GPS coordinates that phones embed in
+ * photos), then stored as WebP variants at a few fixed widths.
+ */
+
+import "server-only";
+import sharp from "sharp";
+
+import {
+	FLYER_VARIANTS,
+	type FlyerVariant,
+	type FlyerView,
+} from "~/shared/flyers";
+import { getStorage } from "./storage";
+
+/**
+ * Largest image accepted, in pixels, to guard against decompression bombs.
+ */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const SUPPORTED_FORMATS = new Set(["jpeg", "png", "webp"]);
+
+/**
+ * A flyer re-encoded into all of its variants, ready for storage.
+ */
+export type ProcessedFlyer = {
+	width: number;
+	height: number;
+	variants: {
+		name: FlyerVariant;
+		width: number;
+		height: number;
+		data: Buffer;
+	}[];
+};
+
+/**
+ * Returns the storage key of one variant of a flyer.
+ */
+export const flyerStorageKey = (flyerId: string, variant: FlyerVariant) =>
+	`flyers/${flyerId}/${variant}.webp`;
+
+/**
+ * Re-encodes an uploaded image into the flyer variants.
+ *
+ * The image is rotated according to its EXIF orientation first, since the
+ * orientation tag is stripped along with the rest of the metadata.
+ *
+ * @param input - The raw uploaded file
+ * @returns The oriented dimensions and one WebP buffer per variant
+ * @throws {Error} When the file isn't a supported, decodable image
+ */
+export async function processFlyer(input: Buffer): Promise<ProcessedFlyer> {
+	const image = sharp(input, {
+		limitInputPixels: MAX_INPUT_PIXELS,
+		failOn: "error",
+	});
+	const metadata = await image.metadata();
+	if (!metadata.format || !SUPPORTED_FORMATS.has(metadata.format)) {
+		throw new Error(
+			`Unsupported image format: ${metadata.format ?? "unknown"}`,
+		);
+	}
+
+	const oriented = image.autoOrient();
+	const variants = await Promise.all(
+		(Object.keys(FLYER_VARIANTS) as FlyerVariant[]).map(async (name) => {
+			const { data, info } = await oriented
+				.clone()
+				.resize({ width: FLYER_VARIANTS[name], withoutEnlargement: true })
+				.webp({ quality: 82 })
+				.toBuffer({ resolveWithObject: true });
+			return { name, width: info.width, height: info.height, data };
+		}),
+	);
+
+	return {
+		width: metadata.autoOrient.width,
+		height: metadata.autoOrient.height,
+		variants,
+	};
+}
+
+/**
+ * Writes every variant of a processed flyer to storage.
+ */
+export async function storeFlyer(flyerId: string, flyer: ProcessedFlyer) {
+	const storage = getStorage();
+	await Promise.all(
+		flyer.variants.map((variant) =>
+			storage.put(
+				flyerStorageKey(flyerId, variant.name),
+				variant.data,
+				"image/webp",
+			),
+		),
+	);
+}
+
+/**
+ * Resolves the public URLs of a stored flyer's variants.
+ *
+ * @param flyer - A flyer row
+ * @returns The flyer with one URL per variant
+ */
+export function toFlyerView(flyer: {
+	id: string;
+	width: number;
+	height: number;
+}): FlyerView {
+	const storage = getStorage();
+	const urls = Object.fromEntries(
+		(Object.keys(FLYER_VARIANTS) as FlyerVariant[]).map((variant) => [
+			variant,
+			storage.getPublicUrl(flyerStorageKey(flyer.id, variant)),
+		]),
+	) as Record<FlyerVariant, string>;
+
+	return { id: flyer.id, width: flyer.width, height: flyer.height, urls };
+}
+
+/**
+ * Reads one variant of a stored flyer as PNG, for renderers that can't
+ * decode WebP (such as Open Graph image generation).
+ *
+ * @returns The PNG, or null when the variant is missing from storage
+ */
+export async function readFlyerAsPng(
+	flyerId: string,
+	variant: FlyerVariant,
+): Promise<Buffer | null> {
+	const object = await getStorage().get(flyerStorageKey(flyerId, variant));
+	return object ? sharp(object.body).png().toBuffer() : null;
+}
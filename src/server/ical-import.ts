@@ -0,0 +1,624 @@
+/**
+ * @fileoverview Importing events from iCalendar (RFC 5545) files.
+ *
+ * Venues that keep their own calendars can upload an export instead of
+ * re-typing listings. Each VEVENT becomes a candidate event that goes
+ * through `eventSchema`, exactly like a form submission, and is checked
+ * against existing events for duplicates. Nothing is saved until the
+ * organizer confirms which candidates to publish.
+ *
+ * Times with a TZID are read in that zone when it names an IANA zone
+ * (including prefixed forms like "/mozilla.org/.../America/Los_Angeles");
+ * floating times and unknown zones are read as Portland time. Changed
+ * occurrences of a series (VEVENTs with a RECURRENCE-ID) aren't imported.
+ */
+
+import { and, inArray, sql } from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { events, venues } from "~/server/db/schema";
+import { publicEventsWhere } from "~/server/event-visibility";
+import { usableVenuesWhere } from "~/server/private-addresses";
+import {
+	expandRecurrence,
+	formatRecurrenceRule,
+	parseRecurrenceRule,
+} from "~/shared/recurrence";
+import { MAX_RICH_TEXT_LENGTH } from "~/shared/rich-text";
+import {
+	EVENT_START_GRACE_MS,
+	type EventInput,
+	MAX_IMPORT_EVENTS,
+	eventSchema,
+} from "~/shared/schemas/event";
+import { MAX_EVENT_TAGS } from "~/shared/tags";
+import {
+	EVENT_TIME_ZONE,
+	toZonedDateValue,
+	zonedPartsToDate,
+} from "~/shared/time";
+
+/**
+ * A property of a calendar component, with its parameters.
+ */
+type ContentLine = {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+};
+
+/**
+ * A date or date-time value. Dates (all-day values) have no time.
+ */
+type CalendarTime = { date: Date; allDay: boolean };
+
+/**
+ * The parts of a VEVENT the importer uses.
+ */
+export type ParsedCalendarEvent = {
+	uid: string | null;
+	summary: string | null;
+	description: string | null;
+	location: string | null;
+	categories: string[];
+	start: CalendarTime | null;
+	end: CalendarTime | null;
+	rrule: string | null;
+	exdates: Date[];
+	status: string | null;
+	isOverride: boolean;
+};
+
+/**
+ * Joins folded lines and splits the file into content lines.
+ */
+function unfold(text: string): string[] {
+	return text
+		.replace(/\r\n?/g, "\n")
+		.replace(/\n[ \t]/g, "")
+		.split("\n")
+		.filter((line) => line.trim() !== "");
+}
+
+/**
+ * Splits a content line into its name, parameters and value. Parameter
+ * values may be quoted and contain colons and semicolons.
+ *
+ * Scans the line once, left to right, so cost stays linear however many
+ * parameters a (possibly hostile) line has.
+ */
+function parseContentLine(line: string): ContentLine | null {
+	let inQuotes = false;
+	let colon = -1;
+	const parts: string[] = [];
+	let partStart = 0;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (char === '"') inQuotes = !inQuotes;
+		else if (inQuotes) continue;
+		else if (char === ";") {
+			parts.push(line.slice(partStart, i));
+			partStart = i + 1;
+		} else if (char === ":") {
+			colon = i;
+			break;
+		}
+	}
+	if (colon < 0) {
+		return null;
+	}
+	parts.push(line.slice(partStart, colon));
+
+	const [name = "", ...rawParams] = parts;
+	const params: Record<string, string> = {};
+	for (const param of rawParams) {
+		const equals = param.indexOf("=");
+		if (equals > 0) {
+			params[param.slice(0, equals).toUpperCase()] = param
+				.slice(equals + 1)
+				.replace(/^"|"$/g, "");
+		}
+	}
+	return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Reverses TEXT escaping.
+ */
+export function unescapeText(value: string): string {
+	return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+		char === "n" || char === "N" ? "\n" : char,
+	);
+}
+
+/**
+ * Splits a TEXT list on unescaped commas.
+ */
+const splitTextList = (value: string) =>
+	value
+		.split(/(?<!\\),/)
+		.map((item) => unescapeText(item).trim())
+		.filter(Boolean);
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns an IANA zone named by a TZID, or null when it names none.
+ */
+function resolveTimeZone(tzid: string | undefined): string | null {
+	const candidate = tzid?.match(
+		/[A-Za-z_]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?$/,
+	)?.[0];
+	if (!candidate) {
+		return null;
+	}
+	if (!zoneFormatters.has(candidate)) {
+		try {
+			zoneFormatters.set(
+				candidate,
+				new Intl.DateTimeFormat("en-US", {
+					timeZone: candidate,
+					year: "numeric",
+					month: "numeric",
+					day: "numeric",
+					hour: "numeric",
+					minute: "numeric",
+					second: "numeric",
+					hourCycle: "h23",
+				}),
+			);
+		} catch {
+			return null;
+		}
+	}
+	return candidate;
+}
+
+/**
+ * Converts a wall-clock time in an arbitrary IANA zone to an instant.
+ */
+function zonedTimeToDate(wallAsUtc: number, timeZone: string): Date {
+	const formatter = zoneFormatters.get(timeZone);
+	if (!formatter) {
+		return new Date(wallAsUtc);
+	}
+
+	const offsetAt = (instant: number) => {
+		const parts: Record<string, number> = {};
+		for (const part of formatter.formatToParts(new Date(instant))) {
+			if (part.type !== "literal") parts[part.type] = Number(part.value);
+		}
+		const asUtc = Date.UTC(
+			parts.year ?? 0,
+			(parts.month ?? 1) - 1,
+			parts.day ?? 1,
+			parts.hour ?? 0,
+			parts.minute ?? 0,
+			parts.second ?? 0,
+		);
+		return asUtc - Math.floor(instant / 1000) * 1000;
+	};
+
+	const guess = wallAsUtc - offsetAt(wallAsUtc);
+	return new Date(wallAsUtc - offsetAt(guess));
+}
+
+/**
+ * Parses a DATE or DATE-TIME value.
+ */
+function parseCalendarTime(
+	value: string,
+	params: Record<string, string>,
+): CalendarTime | null {
+	const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+		value.trim(),
+	);
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hour, minute, second] = match.map(Number);
+	const parts = {
+		year: year ?? 0,
+		month: month ?? 1,
+		day: day ?? 1,
+		hour: Number.isNaN(hour) ? 0 : (hour ?? 0),
+		minute: Number.isNaN(minute) ? 0 : (minute ?? 0),
+		second: Number.isNaN(second) ? 0 : (second ?? 0),
+	};
+	const allDay = match[4] === undefined;
+	const wallAsUtc = Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+		parts.second,
+	);
+
+	let date: Date;
+	if (match[7]) {
+		date = new Date(wallAsUtc);
+	} else {
+		const timeZone = allDay ? null : resolveTimeZone(params.TZID);
+		date =
+			timeZone && timeZone !== EVENT_TIME_ZONE
+				? zonedTimeToDate(wallAsUtc, timeZone)
+				: zonedPartsToDate(parts);
+	}
+	return Number.isNaN(date.getTime()) ? null : { date, allDay };
+}
+
+/**
+ * Extracts the VEVENTs of a calendar file. Properties of nested components
+ * (such as VALARM) are ignored.
+ *
+ * @param text - The file's contents
+ * @returns The events in file order
+ */
+export function parseCalendar(text: string): ParsedCalendarEvent[] {
+	const results: ParsedCalendarEvent[] = [];
+	let current: ParsedCalendarEvent | null = null;
+	let depth = 0;
+
+	for (const line of unfold(text)) {
+		const property = parseContentLine(line);
+		if (!property) continue;
+		const value = property.value.trim();
+
+		if (property.name === "BEGIN") {
+			if (value.toUpperCase() === "VEVENT" && !current) {
+				current = {
+					uid: null,
+					summary: null,
+					description: null,
+					location: null,
+					categories: [],
+					start: null,
+					end: null,
+					rrule: null,
+					exdates: [],
+					status: null,
+					isOverride: false,
+				};
+				depth = 0;
+			} else if (current) {
+				depth += 1;
+			}
+			continue;
+		}
+		if (property.name === "END" && current) {
+			if (depth > 0) depth -= 1;
+			else if (value.toUpperCase() === "VEVENT") {
+				results.push(current);
+				current = null;
+			}
+			continue;
+		}
+		if (!current || depth > 0) continue;
+
+		switch (property.name) {
+			case "UID":
+				current.uid = value;
+				break;
+			case "SUMMARY":
+				current.summary = unescapeText(property.value);
+				break;
+			case "DESCRIPTION":
+				current.description = unescapeText(property.value);
+				break;
+			case "LOCATION":
+				current.location = unescapeText(property.value).trim() || null;
+				break;
+			case "CATEGORIES":
+				current.categories.push(...splitTextList(property.value));
+				break;
+			case "DTSTART":
+				current.start = parseCalendarTime(value, property.params);
+				break;
+			case "DTEND":
+				current.end = parseCalendarTime(value, property.params);
+				break;
+			case "RRULE":
+				current.rrule = value;
+				break;
+			case "EXDATE":
+				for (const item of value.split(",")) {
+					const time = parseCalendarTime(item, property.params);
+					if (time) current.exdates.push(time.date);
+				}
+				break;
+			case "STATUS":
+				current.status = value.toUpperCase();
+				break;
+			case "RECURRENCE-ID":
+				current.isOverride = true;
+				break;
+		}
+	}
+	return results;
+}
+
+/**
+ * Turns a plain-text (or lightly HTML-formatted) description into a
+ * rich-text document: blank lines separate paragraphs, single line breaks
+ * are kept.
+ */
+export function textToRichText(text: string) {
+	const plain = text
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/p>/gi, "\n\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&")
+		.slice(0, MAX_RICH_TEXT_LENGTH);
+
+	const paragraphs = plain
+		.split(/\n\s*\n/)
+		.map((paragraph) => paragraph.trim())
+		.filter(Boolean);
+	if (paragraphs.length === 0) {
+		return null;
+	}
+
+	return {
+		type: "doc",
+		content: paragraphs.map((paragraph) => ({
+			type: "paragraph",
+			content: paragraph
+				.split("\n")
+				.flatMap((line, index) => [
+					...(index > 0 ? [{ type: "hardBreak" }] : []),
+					...(line ? [{ type: "text", text: line }] : []),
+				]),
+		})),
+	};
+}
+
+/**
+ * Moves an open-ended series that started long ago to its next date, so a
+ * venue's long-running weekly night can be imported. Series limited by
+ * COUNT are left alone, since moving them would change their length.
+ */
+function advanceSeries(
+	startsAt: Date,
+	endsAt: Date | null,
+	rrule: string | null,
+	exceptions: string[],
+) {
+	const rule = rrule ? parseRecurrenceRule(rrule) : null;
+	const threshold = new Date(Date.now() - EVENT_START_GRACE_MS);
+	if (!rule || rule.count !== null || startsAt >= threshold) {
+		return { startsAt, endsAt };
+	}
+
+	const [next] = expandRecurrence({
+		startsAt,
+		rule,
+		exceptions,
+		after: new Date(Date.now()),
+		before: new Date(8.64e15),
+		limit: 1,
+	});
+	if (!next) {
+		return { startsAt, endsAt };
+	}
+	const shift = next.getTime() - startsAt.getTime();
+	return {
+		startsAt: next,
+		endsAt: endsAt ? new Date(endsAt.getTime() + shift) : null,
+	};
+}
+
+/**
+ * The first segment of a LOCATION, usually the venue's name.
+ */
+const locationName = (location: string) =>
+	(location.split(",")[0] ?? location).trim().toLowerCase();
+
+/**
+ * Builds `eventSchema` input from a parsed VEVENT.
+ *
+ * @param parsed - The VEVENT
+ * @param venueId - The matched venue, if any
+ * @returns Input ready for validation
+ */
+export function toImportInput(
+	parsed: ParsedCalendarEvent,
+	venueId: string | null,
+) {
+	const start = parsed.start?.date;
+	const end = parsed.end?.date ?? null;
+	const rule = parsed.rrule ? parseRecurrenceRule(parsed.rrule) : null;
+	const exceptions = [...new Set(parsed.exdates.map(toZonedDateValue))];
+	const times = start
+		? advanceSeries(start, end, parsed.rrule, exceptions)
+		: { startsAt: undefined, endsAt: null };
+
+	return {
+		title: (parsed.summary ?? "").replace(/\s+/g, " ").trim().slice(0, 120),
+		description: parsed.description ? textToRichText(parsed.description) : null,
+		startsAt: times.startsAt,
+		endsAt: times.endsAt,
+		venueId,
+		tags: parsed.categories.slice(0, MAX_EVENT_TAGS),
+		recurrence: rule
+			? {
+					rule: formatRecurrenceRule(rule),
+					exceptions: exceptions.filter(
+						(date) =>
+							!times.startsAt || date >= toZonedDateValue(times.startsAt),
+					),
+				}
+			: null,
+	};
+}
+
+/**
+ * One VEVENT of an uploaded file, ready for the preview.
+ */
+export type ImportCandidate = {
+	/** Identifies the candidate when confirming; stable for the same file */
+	key: string;
+	title: string;
+	startsAt: Date | null;
+	location: string | null;
+	venue: { id: string; name: string } | null;
+	/** Validated input, or null when the VEVENT can't be imported */
+	input: EventInput | null;
+	/** Why the VEVENT can't be imported */
+	error: string | null;
+	/** An existing event (or earlier VEVENT) this one appears to repeat */
+	duplicateOf: { id: string | null; title: string } | null;
+};
+
+const normalizeTitle = (title: string) =>
+	title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+
+const titlesMatch = (a: string, b: string) => {
+	const x = normalizeTitle(a);
+	const y = normalizeTitle(b);
+	return x !== "" && y !== "" && (x === y || x.includes(y) || y.includes(x));
+};
+
+/**
+ * Parses an uploaded calendar into validated candidates, matching venues by
+ * name and flagging likely duplicates: an existing visible event, or an
+ * earlier VEVENT in the file, starting at the same time with the same venue
+ * or a matching title.
+ *
+ * @param database - The database to query
+ * @param text - The uploaded file's contents
+ * @param userId - The importing user, whose private venues can be matched
+ * @returns Up to `MAX_IMPORT_EVENTS` candidates, in file order
+ */
+export async function prepareImport(
+	database: typeof db,
+	text: string,
+	userId: string,
+): Promise<ImportCandidate[]> {
+	const parsed = parseCalendar(text).slice(0, MAX_IMPORT_EVENTS);
+
+	const names = [
+		...new Set(
+			parsed.flatMap((event) =>
+				event.location ? [locationName(event.location)] : [],
+			),
+		),
+	];
+	const matchedVenues =
+		names.length > 0
+			? await database
+					.select({ id: venues.id, name: venues.name })
+					.from(venues)
+					.where(
+						and(
+							inArray(sql`lower(${venues.name})`, names),
+							usableVenuesWhere(userId),
+						),
+					)
+			: [];
+	const venueByName = new Map(
+		matchedVenues.map((venue) => [venue.name.toLowerCase(), venue]),
+	);
+
+	const candidates = parsed.map((event, index): ImportCandidate => {
+		const venue = event.location
+			? (venueByName.get(locationName(event.location)) ?? null)
+			: null;
+		const base = {
+			key: String(index),
+			title: event.summary?.trim() || "(untitled)",
+			startsAt: event.start?.date ?? null,
+			location: event.location,
+			venue,
+			duplicateOf: null,
+		};
+
+		if (event.isOverride) {
+			return {
+				...base,
+				input: null,
+				error: "Changes to a single date of a series aren't imported",
+			};
+		}
+		if (event.status === "CANCELLED") {
+			return { ...base, input: null, error: "This event is cancelled" };
+		}
+		if (event.rrule && !parseRecurrenceRule(event.rrule)) {
+			return {
+				...base,
+				input: null,
+				error: "This event's repeat rule isn't supported",
+			};
+		}
+
+		const validation = eventSchema.safeParse(
+			toImportInput(event, venue?.id ?? null),
+		);
+		return validation.success
+			? {
+					...base,
+					startsAt: validation.data.startsAt,
+					input: validation.data,
+					error: null,
+				}
+			: {
+					...base,
+					input: null,
+					error: validation.error.issues[0]?.message ?? "Invalid event",
+				};
+	});
+
+	const starts = candidates.flatMap((candidate) =>
+		candidate.input ? [candidate.input.startsAt] : [],
+	);
+	const existing =
+		starts.length > 0
+			? await database
+					.select({
+						id: events.id,
+						title: events.title,
+						startsAt: events.startsAt,
+						venueId: events.venueId,
+					})
+					.from(events)
+					.where(and(publicEventsWhere(), inArray(events.startsAt, starts)))
+			: [];
+
+	const seen: { title: string; startsAt: Date; venueId: string | null }[] = [];
+	const matches = (
+		other: { title: string; startsAt: Date; venueId: string | null },
+		input: EventInput,
+	) =>
+		other.startsAt.getTime() === input.startsAt.getTime() &&
+		((other.venueId !== null && other.venueId === input.venueId) ||
+			titlesMatch(other.title, input.title));
+
+	return candidates.map((candidate) => {
+		const input = candidate.input;
+		if (!input) {
+			return candidate;
+		}
+
+		const existingMatch = existing.find((event) => matches(event, input));
+		const fileMatch = seen.find((event) => matches(event, input));
+		seen.push(input);
+
+		return existingMatch
+			? {
+					...candidate,
+					duplicateOf: { id: existingMatch.id, title: existingMatch.title },
+				}
+			: fileMatch
+				? { ...candidate, duplicateOf: { id: null, title: fileMatch.title } }
+				: candidate;
+	});
+}
@@ -0,0 +1,330 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) export of events.
+ *
+ * Events are written with Portland wall-clock times and a VTIMEZONE for
+ * America/Los_Angeles, so calendar apps keep shows at the right local time
+ * across daylight saving changes. Recurring events are exported as a single
+ * VEVENT with their RRULE and skipped dates, followed by one VEVENT per
+ * changed or cancelled date (matched by RECURRENCE-ID).
+ *
+ * UIDs are derived from the event's uuidv7 alone, so the same event keeps
+ * the same UID in single-event downloads, in every feed variant and across
+ * deployments.
+ */
+
+import { type SQL, asc } from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { events, type eventOccurrences, type venues } from "~/server/db/schema";
+import { isOccurrenceOf, resolveOccurrence } from "~/server/occurrences";
+import { withVisibleAddress } from "~/server/private-addresses";
+import { formatRecurrenceRule, parseRecurrenceRule } from "~/shared/recurrence";
+import { EVENT_TIME_ZONE, getZonedParts } from "~/shared/time";
+
+/** Product identifier written into every calendar. */
+const PRODUCT_ID = "-//PDX DIY//Events//EN";
+
+/** Longest content line in octets, excluding the line break. */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Portland's time zone rules (in effect since 2007): PDT from the second
+ * Sunday of March, PST from the first Sunday of November.
+ */
+const PORTLAND_VTIMEZONE = [
+	"BEGIN:VTIMEZONE",
+	`TZID:${EVENT_TIME_ZONE}`,
+	`X-LIC-LOCATION:${EVENT_TIME_ZONE}`,
+	"BEGIN:DAYLIGHT",
+	"TZOFFSETFROM:-0800",
+	"TZOFFSETTO:-0700",
+	"TZNAME:PDT",
+	"DTSTART:19700308T020000",
+	"RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+	"END:DAYLIGHT",
+	"BEGIN:STANDARD",
+	"TZOFFSETFROM:-0700",
+	"TZOFFSETTO:-0800",
+	"TZNAME:PST",
+	"DTSTART:19701101T020000",
+	"RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+	"END:STANDARD",
+	"END:VTIMEZONE",
+];
+
+type EventRow = typeof events.$inferSelect;
+
+/**
+ * The event fields written to a calendar.
+ */
+export type CalendarEvent = Pick<
+	EventRow,
+	| "id"
+	| "title"
+	| "descriptionText"
+	| "startsAt"
+	| "endsAt"
+	| "status"
+	| "statusNote"
+	| "recurrenceRule"
+	| "recurrenceExceptions"
+	| "createdAt"
+	| "updatedAt"
+> & {
+	/** `streetAddress` is null when the address is private */
+	venue:
+		| (Pick<typeof venues.$inferSelect, "name" | "latitude" | "longitude"> & {
+				streetAddress: string | null;
+		  })
+		| null;
+	occurrences: (typeof eventOccurrences.$inferSelect)[];
+};
+
+/** Most events written to one calendar. */
+export const MAX_CALENDAR_EVENTS = 500;
+
+/**
+ * Loads the events matching `where` with everything a calendar needs,
+ * soonest first. Calendars are public, so private venues only give their
+ * name.
+ *
+ * @param database - The database to query
+ * @param where - Visibility, filter and window conditions
+ * @returns Up to `MAX_CALENDAR_EVENTS` events
+ */
+export async function findCalendarEvents(
+	database: typeof db,
+	where: SQL | undefined,
+): Promise<CalendarEvent[]> {
+	const rows = await database.query.events.findMany({
+		where,
+		with: {
+			venue: {
+				columns: {
+					name: true,
+					streetAddress: true,
+					latitude: true,
+					longitude: true,
+					isPrivate: true,
+					createdById: true,
+				},
+			},
+			occurrences: true,
+		},
+		orderBy: [asc(events.startsAt), asc(events.id)],
+		limit: MAX_CALENDAR_EVENTS,
+	});
+	return rows.map((event) => ({
+		...event,
+		venue:
+			event.venue && withVisibleAddress(event.venue, { viewerId: undefined }),
+	}));
+}
+
+/**
+ * Options for `buildCalendar`.
+ */
+export type CalendarOptions = {
+	/** Calendar name shown by subscribing apps */
+	name: string;
+	/** Origin used for event links, e.g. "https://pdxdiy.example" */
+	baseUrl: string;
+	events: CalendarEvent[];
+};
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and line breaks.
+ */
+export function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r\n?|\n/g, "\\n");
+}
+
+/**
+ * Folds a content line into 75-octet chunks joined by CRLF and a space,
+ * never splitting a UTF-8 character.
+ */
+export function foldLine(line: string): string {
+	const chunks: string[] = [];
+	let chunk = "";
+	let octets = 0;
+	for (const char of line) {
+		const size = Buffer.byteLength(char);
+		// Continuation lines lose one octet to the leading space
+		const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (octets + size > limit) {
+			chunks.push(chunk);
+			chunk = "";
+			octets = 0;
+		}
+		chunk += char;
+		octets += size;
+	}
+	chunks.push(chunk);
+	return chunks.join("\r\n ");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Formats an instant as a UTC DATE-TIME, e.g. "20250314T030000Z".
+ */
+export function formatUtcDateTime(date: Date): string {
+	return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+/**
+ * Formats an instant as Portland wall-clock time for use with
+ * `TZID=America/Los_Angeles`, e.g. "20250313T200000".
+ */
+export function formatZonedDateTime(date: Date): string {
+	const p = getZonedParts(date);
+	return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+const zoned = (name: string, date: Date) =>
+	`${name};TZID=${EVENT_TIME_ZONE}:${formatZonedDateTime(date)}`;
+
+/**
+ * The UID of an event. Occurrences share their series' UID.
+ */
+export const eventUid = (eventId: string) => `${eventId}@pdx-diy`;
+
+const STATUS_VALUES: Record<EventRow["status"], string> = {
+	scheduled: "CONFIRMED",
+	postponed: "TENTATIVE",
+	cancelled: "CANCELLED",
+	deleted: "CANCELLED",
+};
+
+/**
+ * Builds the description: the status note first, then the event's text and
+ * a link back to its page.
+ */
+function describe(
+	descriptionText: string | null,
+	statusNote: string | null,
+	url: string,
+) {
+	return [statusNote, descriptionText, url].filter(Boolean).join("\n\n");
+}
+
+function eventLines(event: CalendarEvent, baseUrl: string): string[] {
+	const url = `${baseUrl}/events/${event.id}`;
+	const common = [
+		`UID:${eventUid(event.id)}`,
+		`DTSTAMP:${formatUtcDateTime(event.updatedAt ?? event.createdAt)}`,
+		`CREATED:${formatUtcDateTime(event.createdAt)}`,
+		`LAST-MODIFIED:${formatUtcDateTime(event.updatedAt ?? event.createdAt)}`,
+		`URL:${url}`,
+	];
+	if (event.venue) {
+		const location = [event.venue.name, event.venue.streetAddress]
+			.filter(Boolean)
+			.join(", ");
+		common.push(`LOCATION:${escapeText(location)}`);
+		if (event.venue.latitude !== null && event.venue.longitude !== null) {
+			common.push(`GEO:${event.venue.latitude};${event.venue.longitude}`);
+		}
+	}
+
+	const timing = (
+		title: string,
+		startsAt: Date,
+		endsAt: Date | null,
+		status: EventRow["status"],
+		statusNote: string | null,
+	) => [
+		zoned("DTSTART", startsAt),
+		...(endsAt ? [zoned("DTEND", endsAt)] : []),
+		`SUMMARY:${escapeText(status === "postponed" ? `Postponed: ${title}` : title)}`,
+		`DESCRIPTION:${escapeText(describe(event.descriptionText, statusNote, url))}`,
+		`STATUS:${STATUS_VALUES[status]}`,
+	];
+
+	const series = [
+		"BEGIN:VEVENT",
+		...common,
+		...timing(
+			event.title,
+			event.startsAt,
+			event.endsAt,
+			event.status,
+			event.statusNote,
+		),
+	];
+
+	const rule = event.recurrenceRule
+		? parseRecurrenceRule(event.recurrenceRule)
+		: null;
+	if (!rule) {
+		return [...series, "END:VEVENT"];
+	}
+
+	// Skipped dates are listed at the series' wall-clock start time
+	const startTime = formatZonedDateTime(event.startsAt).slice(8);
+	series.push(`RRULE:${formatRecurrenceRule(rule)}`);
+	for (const date of event.recurrenceExceptions) {
+		series.push(
+			`EXDATE;TZID=${EVENT_TIME_ZONE}:${date.replace(/-/g, "")}${startTime}`,
+		);
+	}
+	series.push("END:VEVENT");
+
+	const overrides = event.occurrences
+		.filter((override) => isOccurrenceOf(event, override.occurrenceStart))
+		.sort((a, b) => a.occurrenceStart.getTime() - b.occurrenceStart.getTime())
+		.flatMap((override) => {
+			const occurrence = resolveOccurrence(
+				event,
+				override.occurrenceStart,
+				override,
+			);
+			return [
+				"BEGIN:VEVENT",
+				...common,
+				zoned("RECURRENCE-ID", override.occurrenceStart),
+				...timing(
+					occurrence.title,
+					occurrence.startsAt,
+					occurrence.endsAt,
+					occurrence.status,
+					occurrence.statusNote,
+				),
+				"END:VEVENT",
+			];
+		});
+
+	return [...series, ...overrides];
+}
+
+/**
+ * Serializes events as an iCalendar file.
+ *
+ * @param options - Calendar name, link origin and events
+ * @returns The calendar, with CRLF line endings and folded lines
+ */
+export function buildCalendar({
+	name,
+	baseUrl,
+	events,
+}: CalendarOptions): string {
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${PRODUCT_ID}`,
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		`X-WR-CALNAME:${escapeText(name)}`,
+		`X-WR-TIMEZONE:${EVENT_TIME_ZONE}`,
+		"REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+		"X-PUBLISHED-TTL:PT1H",
+		...PORTLAND_VTIMEZONE,
+		...events.flatMap((event) => eventLines(event, baseUrl)),
+		"END:VCALENDAR",
+	];
+	return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
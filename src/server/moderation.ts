@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Deciding which events need a moderator's review, and
+ * telling organizers how the review went.
+ *
+ * New events from organizers who aren't trusted wait in the moderation
+ * queue, hidden from everyone else (see `~/server/event-visibility`), until
+ * a moderator approves them. Moderators and admins, and organizers a
+ * moderator has allow-listed as trusted, post straight away. The same goes
+ * for edits: an untrusted organizer changing what was approved sends the
+ * event back for review.
+ */
+
+import { eq } from "drizzle-orm";
+
+import { env } from "~/env";
+import type { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import { sendEmail } from "~/server/email";
+import { hasRole } from "~/shared/roles";
+import type { ModerationStatus } from "~/shared/schemas/moderation";
+import { formatEventDateTime } from "~/shared/time";
+
+/**
+ * Whether events from `author` wait for review.
+ */
+export function needsModeration(author: { role: string; isTrusted: boolean }) {
+	return !author.isTrusted && !hasRole(author.role, "moderator");
+}
+
+/**
+ * The moderation status new events from `userId` start with.
+ */
+export async function initialModerationStatus(
+	database: Pick<typeof db, "query">,
+	userId: string,
+): Promise<ModerationStatus> {
+	const author = await database.query.users.findFirst({
+		columns: { role: true, isTrusted: true },
+		where: eq(users.id, userId),
+	});
+	return author && !needsModeration(author) ? "approved" : "pending";
+}
+
+/**
+ * The parts of an event a moderator reviews: what it says, what it shows
+ * and where it sends people.
+ */
+type ReviewedContent = {
+	title: string;
+	descriptionText: string | null;
+	flyerId: string | null;
+	flyerAlt: string | null;
+	venueId: string | null;
+	ticketUrl: string | null;
+};
+
+/**
+ * Whether an edit changes anything a moderator reviewed. Dates, prices,
+ * capacity and the like can change without another look.
+ */
+export function changesReviewedContent(
+	existing: ReviewedContent,
+	values: ReviewedContent,
+): boolean {
+	return (
+		existing.title !== values.title ||
+		existing.descriptionText !== values.descriptionText ||
+		existing.flyerId !== values.flyerId ||
+		existing.flyerAlt !== values.flyerAlt ||
+		existing.venueId !== values.venueId ||
+		existing.ticketUrl !== values.ticketUrl
+	);
+}
+
+/**
+ * Builds the email telling an organizer whether their event was approved,
+ * and if not, why.
+ *
+ * @param event - The reviewed event
+ * @param decision - The moderator's decision
+ * @param siteUrl - Absolute URL of the site, for links
+ * @param now - When the decision was made
+ */
+export function buildModerationEmail(
+	event: { id: string; title: string; publishAt: Date | null },
+	decision: { approve: boolean; reason?: string | null },
+	siteUrl: string,
+	now = new Date(),
+) {
+	const eventUrl = new URL(`/events/${event.id}`, siteUrl).href;
+	if (decision.approve) {
+		const listed =
+			event.publishAt && event.publishAt > now
+				? `It will be listed on PDX DIY from ${formatEventDateTime(event.publishAt)}`
+				: "It's now listed on PDX DIY";
+		return {
+			subject: `Your event "${event.title}" is approved`,
+			text: `A moderator approved "${event.title}". ${listed}:\n\n${eventUrl}`,
+		};
+	}
+	return {
+		subject: `Your event "${event.title}" wasn't approved`,
+		text: [
+			`A moderator didn't approve "${event.title}", so it isn't listed on PDX DIY.`,
+			`Reason: ${decision.reason ?? "none given"}`,
+			`You can edit the event to send it back for review:\n\n${new URL(`/events/${event.id}/edit`, siteUrl).href}`,
+		].join("\n\n"),
+	};
+}
+
+/**
+ * Emails an event's organizer a moderator's decision. Best-effort, like all
+ * notification emails.
+ *
+ * @param database - The database to look the organizer up in
+ * @param event - The reviewed event
+ * @param decision - The moderator's decision
+ */
+export async function notifyModerationDecision(
+	database: Pick<typeof db, "query">,
+	event: {
+		id: string;
+		title: string;
+		publishAt: Date | null;
+		createdById: string | null;
+	},
+	decision: { approve: boolean; reason?: string | null },
+) {
+	const author = event.createdById
+		? await database.query.users.findFirst({
+				columns: { email: true },
+				where: eq(users.id, event.createdById),
+			})
+		: undefined;
+	if (author) {
+		await sendEmail({
+			to: author.email,
+			...buildModerationEmail(event, decision, env.SITE_URL),
+		});
+	}
+}
@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Listing events with recurring series expanded into
+ * occurrences.
+ *
+ * One-off events are paged straight from the database. Recurring series that
+ * overlap the requested window are loaded whole, expanded with
+ * `~/shared/recurrence`, patched with their per-occurrence overrides and
+ * merged in, so callers see a single list ordered by start time.
+ */
+
+import {
+	type SQL,
+	and,
+	eq,
+	gt,
+	gte,
+	isNotNull,
+	isNull,
+	lt,
+	or,
+	sql,
+} from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { events, type eventOccurrences } from "~/server/db/schema";
+import {
+	expandRecurrence,
+	getLastOccurrence,
+	parseRecurrenceRule,
+} from "~/shared/recurrence";
+import type { EventCursor, RecurrenceInput } from "~/shared/schemas/event";
+
+/**
+ * How far ahead open-ended series are expanded when a listing has no end
+ * date, counted from the later of now and the window start.
+ */
+export const RECURRENCE_HORIZON_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type EventRow = typeof events.$inferSelect;
+type OccurrenceOverride = typeof eventOccurrences.$inferSelect;
+
+/**
+ * Fields an occurrence can differ from its series in.
+ */
+export type OccurrenceFields = {
+	/** Original start of the occurrence, or null for one-off events */
+	occurrenceStart: Date | null;
+	title: string;
+	startsAt: Date;
+	endsAt: Date | null;
+	status: EventRow["status"];
+	statusNote: string | null;
+};
+
+/**
+ * Applies an occurrence's override to its series. A cancelled, postponed or
+ * deleted series overrides the status of every occurrence.
+ *
+ * @param event - The series
+ * @param occurrenceStart - Original start of the occurrence
+ * @param override - The occurrence's override row, if any
+ * @returns The occurrence's effective fields
+ */
+export function resolveOccurrence(
+	event: Pick<
+		EventRow,
+		"title" | "startsAt" | "endsAt" | "status" | "statusNote"
+	>,
+	occurrenceStart: Date,
+	override?: OccurrenceOverride | null,
+): OccurrenceFields {
+	const duration = event.endsAt
+		? event.endsAt.getTime() - event.startsAt.getTime()
+		: null;
+	const seriesStatusWins = event.status !== "scheduled" || !override;
+
+	return {
+		occurrenceStart,
+		title: override?.title ?? event.title,
+		startsAt: override?.startsAt ?? occurrenceStart,
+		endsAt: override?.startsAt
+			? override.endsAt
+			: duration === null
+				? null
+				: new Date(occurrenceStart.getTime() + duration),
+		status: seriesStatusWins ? event.status : override.status,
+		statusNote: seriesStatusWins ? event.statusNote : override.statusNote,
+	};
+}
+
+/**
+ * Returns true when `occurrenceStart` is an occurrence of the series, i.e. it
+ * falls on the rule and isn't a skipped date.
+ */
+export function isOccurrenceOf(
+	event: Pick<EventRow, "startsAt" | "recurrenceRule" | "recurrenceExceptions">,
+	occurrenceStart: Date,
+): boolean {
+	const rule = event.recurrenceRule
+		? parseRecurrenceRule(event.recurrenceRule)
+		: null;
+	if (!rule) {
+		return false;
+	}
+
+	const [match] = expandRecurrence({
+		startsAt: event.startsAt,
+		rule,
+		exceptions: event.recurrenceExceptions,
+		after: occurrenceStart,
+		before: new Date(occurrenceStart.getTime() + 1),
+	});
+	return match?.getTime() === occurrenceStart.getTime();
+}
+
+/**
+ * Computes the recurrence columns stored on an event.
+ *
+ * @param startsAt - Start of the first occurrence
+ * @param endsAt - End of the first occurrence, if known
+ * @param recurrence - The validated repeat rule, or null for one-off events
+ * @returns Values for `recurrenceRule`, `recurrenceExceptions` and
+ *   `recurrenceEndsAt`
+ */
+export function toRecurrenceValues(
+	startsAt: Date,
+	endsAt: Date | null,
+	recurrence: RecurrenceInput | null,
+) {
+	const rule = recurrence ? parseRecurrenceRule(recurrence.rule) : null;
+	if (!recurrence || !rule) {
+		return {
+			recurrenceRule: null,
+			recurrenceExceptions: [],
+			recurrenceEndsAt: null,
+		};
+	}
+
+	const last = getLastOccurrence(startsAt, rule, recurrence.exceptions);
+	const duration = endsAt ? endsAt.getTime() - startsAt.getTime() : 0;
+	return {
+		recurrenceRule: recurrence.rule,
+		recurrenceExceptions: recurrence.exceptions,
+		recurrenceEndsAt: last ? new Date(last.getTime() + duration) : null,
+	};
+}
+
+/**
+ * Builds the condition matching one-off events that overlap a window and
+ * recurring series that may have a date in it, for exports that write
+ * series whole rather than expanded.
+ *
+ * @param from - Start of the window
+ * @param to - End of the window (exclusive), or null for open-ended
+ * @returns A condition on the events table
+ */
+export function overlapsWindowWhere(from: Date, to: Date | null) {
+	return and(
+		or(
+			and(
+				isNull(events.recurrenceRule),
+				gte(sql`coalesce(${events.endsAt}, ${events.startsAt})`, from),
+			),
+			and(
+				isNotNull(events.recurrenceRule),
+				or(isNull(events.recurrenceEndsAt), gte(events.recurrenceEndsAt, from)),
+			),
+		),
+		to ? lt(events.startsAt, to) : undefined,
+	);
+}
+
+const isAfterCursor = (
+	item: { startsAt: Date; id: string },
+	cursor: EventCursor | null,
+) =>
+	!cursor ||
+	item.startsAt > cursor.startsAt ||
+	(item.startsAt.getTime() === cursor.startsAt.getTime() &&
+		item.id > cursor.id);
+
+/**
+ * Options for `listEventOccurrences`.
+ */
+export type ListOccurrencesOptions = {
+	/** Visibility and filter conditions on the events table */
+	where: SQL | undefined;
+	/** Only occurrences still going on at or after this instant */
+	from: Date | null;
+	/** Only occurrences starting before this instant */
+	to: Date | null;
+	/** Continue after this position (see `encodeEventCursor`) */
+	cursor?: EventCursor | null;
+	/** Page size; omit to list the whole window */
+	limit?: number;
+};
+
+/**
+ * Lists one page of events and occurrences of recurring series, ordered by
+ * (startsAt, id).
+ *
+ * Open-ended series are expanded up to `to`, or `RECURRENCE_HORIZON_DAYS`
+ * ahead when there's no end date. Occurrences keep their series' `id`;
+ * `occurrenceStart` tells them apart.
+ *
+ * @param database - The database to query
+ * @param options - Window, conditions and page position
+ * @returns The page's items and whether more exist
+ */
+export async function listEventOccurrences(
+	database: typeof db,
+	{
+		where,
+		from,
+		to,
+		cursor = null,
+		limit = Number.POSITIVE_INFINITY,
+	}: ListOccurrencesOptions,
+) {
+	const relations = {
+		venue: { columns: { id: true, name: true, neighborhood: true } },
+		flyer: true,
+	} as const;
+
+	const singles = await database.query.events.findMany({
+		where: and(
+			where,
+			isNull(events.recurrenceRule),
+			from
+				? gte(sql`coalesce(${events.endsAt}, ${events.startsAt})`, from)
+				: undefined,
+			to ? lt(events.startsAt, to) : undefined,
+			cursor
+				? or(
+						gt(events.startsAt, cursor.startsAt),
+						and(eq(events.startsAt, cursor.startsAt), gt(events.id, cursor.id)),
+					)
+				: undefined,
+		),
+		with: relations,
+		orderBy: (events, { asc }) => [asc(events.startsAt), asc(events.id)],
+		// Fetch one extra row to learn whether another page exists
+		limit: Number.isFinite(limit) ? limit + 1 : undefined,
+	});
+
+	const horizonStart = Math.max(Date.now(), from?.getTime() ?? 0);
+	const seriesEnd =
+		to ?? new Date(horizonStart + RECURRENCE_HORIZON_DAYS * DAY_MS);
+
+	const series = await database.query.events.findMany({
+		where: and(
+			where,
+			isNotNull(events.recurrenceRule),
+			lt(events.startsAt, seriesEnd),
+			from
+				? or(
+						isNull(events.recurrenceEndsAt),
+						gte(events.recurrenceEndsAt, from),
+					)
+				: undefined,
+		),
+		with: { ...relations, occurrences: true },
+	});
+
+	const expanded = series.flatMap(({ occurrences, ...event }) => {
+		const rule = event.recurrenceRule
+			? parseRecurrenceRule(event.recurrenceRule)
+			: null;
+		if (!rule) {
+			return [];
+		}
+
+		const duration = event.endsAt
+			? event.endsAt.getTime() - event.startsAt.getTime()
+			: 0;
+		const overrides = new Map(
+			occurrences.map((o) => [o.occurrenceStart.getTime(), o]),
+		);
+
+		return expandRecurrence({
+			startsAt: event.startsAt,
+			rule,
+			exceptions: event.recurrenceExceptions,
+			after: from ? new Date(from.getTime() - duration) : null,
+			before: seriesEnd,
+		}).map((occurrenceStart) => ({
+			...event,
+			...resolveOccurrence(
+				event,
+				occurrenceStart,
+				overrides.get(occurrenceStart.getTime()),
+			),
+		}));
+	});
+
+	const items = [
+		...singles.map((event) => ({
+			...event,
+			occurrenceStart: null as Date | null,
+		})),
+		...expanded.filter(
+			(item) =>
+				isAfterCursor(item, cursor) &&
+				(!from || (item.endsAt ?? item.startsAt) >= from) &&
+				(!to || item.startsAt < to),
+		),
+	].sort(
+		(a, b) =>
+			a.startsAt.getTime() - b.startsAt.getTime() ||
+			(a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+	);
+
+	return {
+		items: items.slice(0, limit),
+		hasMore: items.length > limit,
+	};
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Organization membership checks and email invitations.
+ *
+ * Members of an organization share its events: anyone who belongs to the
+ * organization an event was posted for can edit it, its poster included.
+ * Posters who leave lose access along with everyone else. Only owners
+ * manage the organization itself.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { organizationMembers } from "~/server/db/schema";
+import {
+	INVITATION_TTL_DAYS,
+	type OrganizationRole,
+} from "~/shared/schemas/organization";
+
+type Database = Pick<typeof db, "query">;
+
+/**
+ * Looks up a user's role in an organization.
+ *
+ * @returns The role, or null when they aren't a member
+ */
+export async function getMemberRole(
+	database: Database,
+	organizationId: string,
+	userId: string,
+): Promise<OrganizationRole | null> {
+	const member = await database.query.organizationMembers.findFirst({
+		columns: { role: true },
+		where: and(
+			eq(organizationMembers.organizationId, organizationId),
+			eq(organizationMembers.userId, userId),
+		),
+	});
+	return member?.role ?? null;
+}
+
+/**
+ * Throws FORBIDDEN unless `userId` belongs to the organization, as an owner
+ * when `owner` is required.
+ *
+ * @returns The user's role
+ */
+export async function assertMember(
+	database: Database,
+	organizationId: string,
+	userId: string,
+	required: OrganizationRole = "editor",
+): Promise<OrganizationRole> {
+	const role = await getMemberRole(database, organizationId, userId);
+	if (!role || (required === "owner" && role !== "owner")) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message:
+				required === "owner"
+					? "Only the organization's owners can do this"
+					: "You're not a member of this organization",
+		});
+	}
+	return role;
+}
+
+/**
+ * Whether `userId` may edit an event: it was posted for an organization
+ * they currently belong to, or they posted it for no organization.
+ */
+export async function canManageEvent(
+	database: Database,
+	event: { createdById: string | null; organizationId: string | null },
+	userId: string | undefined,
+): Promise<boolean> {
+	if (!userId) {
+		return false;
+	}
+	return event.organizationId
+		? (await getMemberRole(database, event.organizationId, userId)) !== null
+		: event.createdById === userId;
+}
+
+/**
+ * Creates the secret for an invitation link, and the hash stored in its
+ * place.
+ */
+export function createInvitationToken() {
+	const token = randomBytes(32).toString("base64url");
+	return {
+		token,
+		tokenHash: hashInvitationToken(token),
+		expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+	};
+}
+
+/**
+ * Hashes an invitation token for lookup.
+ */
+export function hashInvitationToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Builds the email inviting someone to join an organization.
+ *
+ * @param organization - The organization they're invited to
+ * @param invitation - Their role, who invited them and the invitation token
+ * @param siteUrl - Absolute URL of the site, for links
+ */
+export function buildInvitationEmail(
+	organization: { name: string },
+	invitation: {
+		role: OrganizationRole;
+		inviterName: string | null;
+		token: string;
+	},
+	siteUrl: string,
+) {
+	const inviteUrl = new URL(`/orgs/invitations/${invitation.token}`, siteUrl)
+		.href;
+	return {
+		subject: `Join ${organization.name} on PDX DIY`,
+		text: [
+			`${invitation.inviterName ?? "Someone"} invited you to join ${organization.name} on PDX DIY as ${invitation.role === "owner" ? "an owner" : "an editor"}, so you can post and edit its events.`,
+			`Sign in with this email address and accept within ${INVITATION_TTL_DAYS} days:\n\n${inviteUrl}`,
+		].join("\n\n"),
+	};
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Keeping the exact location of private venues out of public
+ * payloads.
+ *
+ * House shows often can't post their address. A private venue's street
+ * address, coordinates and notes (which often hold directions or door
+ * codes) are only sent to people cleared to see them; for everyone else
+ * those fields come back null, with the neighborhood and
+ * quadrant left as the approximate location. Every procedure returning a
+ * venue's location should pass it through `withVisibleAddress`.
+ */
+
+import { type SQL, eq, or } from "drizzle-orm";
+
+import { venues } from "~/server/db/schema";
+import type { AddressRequestStatus } from "~/shared/schemas/address-request";
+import type { RsvpState } from "~/shared/schemas/rsvp";
+
+type VenueLocation = {
+	isPrivate: boolean;
+	createdById: string | null;
+	streetAddress: string;
+	latitude: number | null;
+	longitude: number | null;
+	notes?: string | null;
+};
+
+/**
+ * What the viewer has to do with the event being shown at the venue.
+ */
+export type AddressAccess = {
+	viewerId: string | undefined;
+	organizerId?: string | null;
+	/** Whether the viewer manages the event, e.g. through its organization */
+	isManager?: boolean;
+	rsvp?: RsvpState | null;
+	addressRequest?: AddressRequestStatus | null;
+};
+
+/**
+ * Whether a viewer may see a venue's exact location. Public venues are
+ * visible to everyone. Private ones are visible to the venue's creator and,
+ * for an event there, to its organizer and the rest of its organization,
+ * people going (not those waitlisted or only interested) and people whose
+ * address request was approved.
+ */
+export function canSeeAddress(
+	venue: Pick<VenueLocation, "isPrivate" | "createdById">,
+	access: AddressAccess,
+): boolean {
+	if (!venue.isPrivate) {
+		return true;
+	}
+	if (!access.viewerId) {
+		return false;
+	}
+	return (
+		access.viewerId === venue.createdById ||
+		access.viewerId === access.organizerId ||
+		access.isManager === true ||
+		access.rsvp === "going" ||
+		access.addressRequest === "approved"
+	);
+}
+
+/**
+ * Returns the venue with its street address, coordinates and notes nulled
+ * out unless the viewer may see them.
+ */
+export function withVisibleAddress<T extends VenueLocation>(
+	venue: T,
+	access: AddressAccess,
+): Omit<T, "streetAddress"> & { streetAddress: string | null } {
+	if (canSeeAddress(venue, access)) {
+		return venue;
+	}
+	return {
+		...venue,
+		streetAddress: null,
+		latitude: null,
+		longitude: null,
+		...("notes" in venue && { notes: null }),
+	};
+}
+
+/**
+ * Condition matching venues a user may pick for their events: every public
+ * venue plus the private ones they created. Holding an event at someone
+ * else's private venue would reveal its address to the new organizer.
+ *
+ * @param userId - The signed-in user's ID
+ */
+export function usableVenuesWhere(userId: string): SQL | undefined {
+	return or(eq(venues.isPrivate, false), eq(venues.createdById, userId));
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Hiding events the community reports, and ordering reports
+ * for moderators.
+ *
+ * Once an event collects `REPORT_HIDE_THRESHOLD` open reports it's hidden
+ * (`hiddenAt`) from everyone but its organizer until a moderator either
+ * dismisses the reports, which shows it again, or takes it down.
+ */
+
+import { and, count, eq, isNull } from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { events, reports } from "~/server/db/schema";
+
+/**
+ * Hides an event once it has at least `threshold` open reports. Call inside
+ * the transaction that added the report, after locking the event's row, so
+ * simultaneous reports are counted in turn.
+ *
+ * @returns Whether this call hid the event
+ */
+export async function hideIfReported(
+	tx: Pick<typeof db, "select" | "update">,
+	eventId: string,
+	threshold: number,
+): Promise<boolean> {
+	const [open] = await tx
+		.select({ count: count() })
+		.from(reports)
+		.where(and(eq(reports.eventId, eventId), eq(reports.status, "open")));
+	if ((open?.count ?? 0) < threshold) {
+		return false;
+	}
+
+	const hidden = await tx
+		.update(events)
+		.set({ hiddenAt: new Date() })
+		.where(and(eq(events.id, eventId), isNull(events.hiddenAt)))
+		.returning({ id: events.id });
+	return hidden.length > 0;
+}
+
+/**
+ * Groups open reports by event for triage: hidden events first, then the
+ * most reported, then the longest waiting. Reports keep their order within
+ * each event.
+ *
+ * @param openReports - Open reports, oldest first, each with its event
+ */
+export function groupReportsByEvent<
+	T extends {
+		createdAt: Date;
+		event: { id: string; hiddenAt: Date | null };
+	},
+>(openReports: T[]) {
+	const groups = new Map<string, { event: T["event"]; reports: T[] }>();
+	for (const report of openReports) {
+		const group = groups.get(report.event.id);
+		if (group) {
+			group.reports.push(report);
+		} else {
+			groups.set(report.event.id, { event: report.event, reports: [report] });
+		}
+	}
+
+	const oldest = (group: { reports: T[] }) =>
+		Math.min(...group.reports.map((report) => report.createdAt.getTime()));
+	return [...groups.values()].sort(
+		(a, b) =>
+			Number(!!b.event.hiddenAt) - Number(!!a.event.hiddenAt) ||
+			b.reports.length - a.reports.length ||
+			oldest(a) - oldest(b),
+	);
+}
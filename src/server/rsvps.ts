@@ -0,0 +1,174 @@
+/**
+ * @fileoverview RSVP counts, capacity limits and waitlists.
+ *
+ * An event's `capacity` caps its going RSVPs. Writes that change who is
+ * going lock the event row first (`lockEventForRsvp`), so two people can't
+ * take the last spot at once and spots are handed to the waitlist in order.
+ */
+
+import { and, asc, count, eq, inArray, lte } from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { events, rsvps } from "~/server/db/schema";
+import type { RsvpCounts } from "~/shared/schemas/rsvp";
+
+/**
+ * The database, or a transaction on it.
+ */
+type Executor = Pick<typeof db, "select" | "update">;
+
+const emptyCounts = (): RsvpCounts => ({
+	going: 0,
+	interested: 0,
+	waitlisted: 0,
+});
+
+/**
+ * Counts going and interested RSVPs for each of `eventIds`.
+ *
+ * @param database - The database to query
+ * @param eventIds - Events to count; duplicates are fine
+ * @returns Counts by event ID, with zeroes for events without RSVPs
+ */
+export async function countRsvps(
+	database: Pick<typeof db, "select">,
+	eventIds: string[],
+): Promise<Map<string, RsvpCounts>> {
+	const ids = [...new Set(eventIds)];
+	const counts = new Map<string, RsvpCounts>(
+		ids.map((id) => [id, emptyCounts()]),
+	);
+	if (ids.length === 0) {
+		return counts;
+	}
+
+	const rows = await database
+		.select({ eventId: rsvps.eventId, status: rsvps.status, count: count() })
+		.from(rsvps)
+		.where(inArray(rsvps.eventId, ids))
+		.groupBy(rsvps.eventId, rsvps.status);
+	for (const row of rows) {
+		const eventCounts = counts.get(row.eventId);
+		if (eventCounts) {
+			eventCounts[row.status] = row.count;
+		}
+	}
+	return counts;
+}
+
+/**
+ * Counts going and interested RSVPs for one event.
+ */
+export async function countEventRsvps(
+	database: Pick<typeof db, "select">,
+	eventId: string,
+): Promise<RsvpCounts> {
+	const counts = await countRsvps(database, [eventId]);
+	return counts.get(eventId) ?? emptyCounts();
+}
+
+/**
+ * Adds `rsvpCounts` to each event in a list.
+ */
+export async function withRsvpCounts<T extends { id: string }>(
+	database: Pick<typeof db, "select">,
+	items: T[],
+): Promise<(T & { rsvpCounts: RsvpCounts })[]> {
+	const counts = await countRsvps(
+		database,
+		items.map((item) => item.id),
+	);
+	return items.map((item) => ({
+		...item,
+		rsvpCounts: counts.get(item.id) ?? emptyCounts(),
+	}));
+}
+
+/**
+ * Locks an event's row until the end of the transaction, serializing RSVP
+ * changes to it.
+ *
+ * @param tx - The transaction
+ * @param eventId - The event
+ * @returns The event's status and capacity, or undefined if it doesn't exist
+ */
+export async function lockEventForRsvp(tx: Executor, eventId: string) {
+	const [event] = await tx
+		.select({
+			status: events.status,
+			capacity: events.capacity,
+			isDraft: events.isDraft,
+			publishAt: events.publishAt,
+			moderationStatus: events.moderationStatus,
+			hiddenAt: events.hiddenAt,
+			createdById: events.createdById,
+		})
+		.from(events)
+		.where(eq(events.id, eventId))
+		.for("update");
+	return event;
+}
+
+/**
+ * Moves users from the waitlist to going, earliest first, until the event
+ * is full. Call inside a transaction holding `lockEventForRsvp` after
+ * anything that may open spots: someone leaving, or a higher capacity.
+ *
+ * @param tx - The transaction
+ * @param eventId - The event
+ * @param capacity - The event's capacity, or null to promote everyone
+ * @returns IDs of the promoted users
+ */
+export async function promoteWaitlist(
+	tx: Executor,
+	eventId: string,
+	capacity: number | null,
+): Promise<string[]> {
+	const { going } = await countEventRsvps(tx, eventId);
+	const open = capacity === null ? null : capacity - going;
+	if (open !== null && open <= 0) {
+		return [];
+	}
+
+	const waitlisted = tx
+		.select({ userId: rsvps.userId })
+		.from(rsvps)
+		.where(and(eq(rsvps.eventId, eventId), eq(rsvps.status, "waitlisted")))
+		.orderBy(asc(rsvps.waitlistedAt), asc(rsvps.userId));
+	const next = await (open === null ? waitlisted : waitlisted.limit(open));
+	if (next.length === 0) {
+		return [];
+	}
+
+	const userIds = next.map((row) => row.userId);
+	await tx
+		.update(rsvps)
+		.set({ status: "going", waitlistedAt: null })
+		.where(and(eq(rsvps.eventId, eventId), inArray(rsvps.userId, userIds)));
+	return userIds;
+}
+
+/**
+ * A user's place on an event's waitlist, starting at 1.
+ *
+ * @param database - The database to query
+ * @param eventId - The event
+ * @param waitlistedAt - When the user joined the waitlist
+ */
+export async function getWaitlistPosition(
+	database: Pick<typeof db, "select">,
+	eventId: string,
+	waitlistedAt: Date,
+): Promise<number> {
+	const [row] = await database
+		.select({ count: count() })
+		.from(rsvps)
+		.where(
+			and(
+				eq(rsvps.eventId, eventId),
+				eq(rsvps.status, "waitlisted"),
+				lte(rsvps.waitlistedAt, waitlistedAt),
+			),
+		);
+	return row?.count ?? 1;
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Search helpers: escaping LIKE patterns and turning Postgres
+ * search highlights into data.
+ *
+ * `ts_headline` marks matches with configurable delimiters. Rather than
+ * returning HTML, search results carry snippets as segments so the page
+ * renders highlights with React and never injects markup.
+ */
+
+/**
+ * Escapes the LIKE wildcards in user input so it is matched literally.
+ */
+export const escapeLikePattern = (value: string) =>
+	value.replace(/[\\%_]/g, "\\$&");
+
+/** Start-of-match delimiter passed to `ts_headline`. */
+export const HIGHLIGHT_START = "\u0002";
+/** End-of-match delimiter passed to `ts_headline`. */
+export const HIGHLIGHT_STOP = "\u0003";
+
+/**
+ * `ts_headline` options for description snippets. The delimiters are control
+ * characters, which the rich-text sanitizer strips from stored text, so they
+ * can't be confused with event content.
+ */
+export const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/** `ts_headline` options for titles, which are highlighted in full. */
+export const TITLE_HIGHLIGHT_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+/**
+ * A run of text in a search snippet, highlighted when it matched the query.
+ */
+export type HighlightSegment = { text: string; highlight: boolean };
+
+/**
+ * Splits a `ts_headline` result into plain and highlighted segments.
+ * Unbalanced delimiters are tolerated; stray ones are simply dropped.
+ *
+ * @param headline - Text containing `HIGHLIGHT_START`/`HIGHLIGHT_STOP` marks
+ * @returns Segments in order, with empty runs removed
+ */
+export function parseHeadline(headline: string): HighlightSegment[] {
+	const segments: HighlightSegment[] = [];
+	let highlight = false;
+	let text = "";
+
+	const flush = () => {
+		if (text) {
+			const previous = segments.at(-1);
+			if (previous?.highlight === highlight) {
+				previous.text += text;
+			} else {
+				segments.push({ text, highlight });
+			}
+		}
+		text = "";
+	};
+
+	for (const char of headline) {
+		if (char === HIGHLIGHT_START || char === HIGHLIGHT_STOP) {
+			flush();
+			highlight = char === HIGHLIGHT_START;
+		} else {
+			text += char;
+		}
+	}
+	flush();
+
+	return segments;
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Pluggable blob storage for user uploads such as flyers.
+ *
+ * The driver is chosen with `STORAGE_DRIVER`: "local" keeps files on disk and
+ * "s3" talks to AWS S3 or any S3-compatible service (MinIO in development).
+ */
+
+import "server-only";
+
+import { env } from "~/env";
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { StorageDriver } from "./types";
+
+export type { StorageDriver, StoredObject } from "./types";
+export { UPLOADS_ROUTE, isValidStorageKey } from "./types";
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Gets or creates the configured storage driver.
+ *
+ * @returns The storage driver selected by `STORAGE_DRIVER`
+ * @throws {Error} When the S3 driver is selected without a bucket
+ */
+export function getStorage(): StorageDriver {
+	if (storage) {
+		return storage;
+	}
+
+	if (env.STORAGE_DRIVER === "s3") {
+		if (!env.S3_BUCKET) {
+			throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3");
+		}
+		storage = createS3Storage({
+			bucket: env.S3_BUCKET,
+			region: env.S3_REGION,
+			endpoint: env.S3_ENDPOINT,
+			accessKeyId: env.S3_ACCESS_KEY_ID,
+			secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+			publicUrl: env.S3_PUBLIC_URL,
+		});
+	} else {
+		storage = createLocalStorage(env.STORAGE_LOCAL_DIR);
+	}
+
+	return storage;
+}
@@ -0,0 +1,69 @@
+import "server-only";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { type StorageDriver, UPLOADS_ROUTE, isValidStorageKey } from "./types";
+
+/**
+ * Content types for the extensions we store, used when reading files back.
+ */
+const CONTENT_TYPES: Record<string, string> = {
+	".webp": "image/webp",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".png": "image/png",
+};
+
+/**
+ * Creates a storage driver backed by the local filesystem.
+ *
+ * Intended for development and single-server deployments. Files are served
+ * back through the app's uploads route rather than from `public/`, which
+ * Next.js only reads at build time.
+ *
+ * @param rootDir - Directory to store files in, relative to the working directory or absolute
+ * @returns A storage driver rooted at `rootDir`
+ */
+export function createLocalStorage(rootDir: string): StorageDriver {
+	const root = path.resolve(rootDir);
+
+	const resolveKey = (key: string) => {
+		if (!isValidStorageKey(key)) {
+			throw new Error(`Invalid storage key: ${key}`);
+		}
+		return path.join(root, ...key.split("/"));
+	};
+
+	return {
+		async put(key, body) {
+			const filePath = resolveKey(key);
+			await mkdir(path.dirname(filePath), { recursive: true });
+			await writeFile(filePath, body);
+		},
+
+		async get(key) {
+			try {
+				const body = await readFile(resolveKey(key));
+				return {
+					body,
+					contentType:
+						CONTENT_TYPES[path.extname(key).toLowerCase()] ??
+						"application/octet-stream",
+				};
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+					return null;
+				}
+				throw error;
+			}
+		},
+
+		async delete(key) {
+			await rm(resolveKey(key), { force: true });
+		},
+
+		getPublicUrl(key) {
+			return `${UPLOADS_ROUTE}/${key}`;
+		},
+	};
+}
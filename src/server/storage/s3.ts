@@ -0,0 +1,99 @@
+import "server-only";
+import {
+	DeleteObjectCommand,
+	GetObjectCommand,
+	NoSuchKey,
+	PutObjectCommand,
+	S3Client,
+} from "@aws-sdk/client-s3";
+
+import { type StorageDriver, UPLOADS_ROUTE, isValidStorageKey } from "./types";
+
+export type S3StorageOptions = {
+	bucket: string;
+	region: string;
+	/** Custom endpoint for S3-compatible services such as MinIO. */
+	endpoint?: string;
+	accessKeyId?: string;
+	secretAccessKey?: string;
+	/** Public base URL of the bucket; objects are proxied through the app when unset. */
+	publicUrl?: string;
+};
+
+/**
+ * Creates a storage driver backed by S3 or an S3-compatible service.
+ *
+ * Path-style addressing is used whenever a custom endpoint is configured,
+ * since MinIO and most self-hosted services don't support virtual-host
+ * bucket URLs out of the box.
+ *
+ * @param options - Bucket, region, credentials and optional endpoint
+ * @returns A storage driver for the bucket
+ */
+export function createS3Storage(options: S3StorageOptions): StorageDriver {
+	const client = new S3Client({
+		region: options.region,
+		endpoint: options.endpoint,
+		forcePathStyle: Boolean(options.endpoint),
+		credentials:
+			options.accessKeyId && options.secretAccessKey
+				? {
+						accessKeyId: options.accessKeyId,
+						secretAccessKey: options.secretAccessKey,
+					}
+				: undefined,
+	});
+
+	const checkKey = (key: string) => {
+		if (!isValidStorageKey(key)) {
+			throw new Error(`Invalid storage key: ${key}`);
+		}
+		return key;
+	};
+
+	return {
+		async put(key, body, contentType) {
+			await client.send(
+				new PutObjectCommand({
+					Bucket: options.bucket,
+					Key: checkKey(key),
+					Body: body,
+					ContentType: contentType,
+					CacheControl: "public, max-age=31536000, immutable",
+				}),
+			);
+		},
+
+		async get(key) {
+			try {
+				const result = await client.send(
+					new GetObjectCommand({ Bucket: options.bucket, Key: checkKey(key) }),
+				);
+				if (!result.Body) {
+					return null;
+				}
+				return {
+					body: Buffer.from(await result.Body.transformToByteArray()),
+					contentType: result.ContentType ?? "application/octet-stream",
+				};
+			} catch (error) {
+				if (error instanceof NoSuchKey) {
+					return null;
+				}
+				throw error;
+			}
+		},
+
+		async delete(key) {
+			await client.send(
+				new DeleteObjectCommand({ Bucket: options.bucket, Key: checkKey(key) }),
+			);
+		},
+
+		getPublicUrl(key) {
+			return options.publicUrl
+				? `${options.publicUrl.replace(/\/$/, "")}/${key}`
+				: `${UPLOADS_ROUTE}/${key}`;
+		},
+	};
+}
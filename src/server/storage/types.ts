@@ -0,0 +1,45 @@
+/**
+ * A stored object as returned by a storage driver.
+ */
+export type StoredObject = {
+	body: Buffer;
+	contentType: string;
+};
+
+/**
+ * Minimal blob storage contract shared by all drivers.
+ *
+ * Keys are slash-separated paths such as `flyers/<id>/large.webp`. Drivers
+ * must treat them as opaque and never let them escape their storage root.
+ */
+export interface StorageDriver {
+	/** Writes an object, replacing any existing object with the same key. */
+	put(key: string, body: Buffer, contentType: string): Promise<void>;
+	/** Reads an object, resolving to null when it doesn't exist. */
+	get(key: string): Promise<StoredObject | null>;
+	/** Deletes an object; deleting a missing key is not an error. */
+	delete(key: string): Promise<void>;
+	/** Returns the URL browsers should use to fetch the object. */
+	getPublicUrl(key: string): string;
+}
+
+/**
+ * Path that serves stored objects through the app, for drivers without a
+ * public URL of their own.
+ */
+export const UPLOADS_ROUTE = "/api/uploads";
+
+/**
+ * Validates a storage key: slash-separated segments of safe characters, no
+ * empty, "." or ".." segments.
+ */
+export function isValidStorageKey(key: string): boolean {
+	return key
+		.split("/")
+		.every(
+			(segment) =>
+				/^[A-Za-z0-9._-]+$/.test(segment) &&
+				segment !== "." &&
+				segment !== "..",
+		);
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Attaching tags to events.
+ */
+
+import { and, eq, inArray, notInArray } from "drizzle-orm";
+
+import type { db } from "~/server/db";
+import { eventTags, tags } from "~/server/db/schema";
+import { normalizeTag } from "~/shared/tags";
+
+/**
+ * The database, or a transaction on it.
+ */
+type Executor = Pick<typeof db, "select" | "insert" | "delete">;
+
+/**
+ * Replaces an event's tags with `names`.
+ *
+ * Tags are matched by slug, so "Zine Swap" and "zine swap" are the same tag.
+ * Names without an existing tag create a new, uncurated suggestion credited
+ * to `userId`. Call inside the transaction that writes the event.
+ *
+ * @param database - Database or transaction to write with
+ * @param eventId - The event to tag
+ * @param names - Cleaned, de-duplicated tag names (see `tagNameListSchema`)
+ * @param userId - The user suggesting any new tags
+ */
+export async function setEventTags(
+	database: Executor,
+	eventId: string,
+	names: string[],
+	userId: string,
+) {
+	const slugs = names.map(normalizeTag);
+
+	if (names.length > 0) {
+		await database
+			.insert(tags)
+			.values(
+				names.map((name, i) => ({
+					slug: slugs[i] ?? normalizeTag(name),
+					name,
+					createdById: userId,
+				})),
+			)
+			.onConflictDoNothing({ target: tags.slug });
+	}
+
+	const tagIds =
+		slugs.length > 0
+			? (
+					await database
+						.select({ id: tags.id })
+						.from(tags)
+						.where(inArray(tags.slug, slugs))
+				).map((tag) => tag.id)
+			: [];
+
+	await database
+		.delete(eventTags)
+		.where(
+			tagIds.length > 0
+				? and(
+						eq(eventTags.eventId, eventId),
+						notInArray(eventTags.tagId, tagIds),
+					)
+				: eq(eventTags.eventId, eventId),
+		);
+
+	if (tagIds.length > 0) {
+		await database
+			.insert(eventTags)
+			.values(tagIds.map((tagId) => ({ eventId, tagId })))
+			.onConflictDoNothing();
+	}
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Unit tests for event price formatting
+ *
+ * Tests cover:
+ * - Dollar amounts with and without cents
+ * - Each price kind, with and without amounts
+ */
+
+import { describe, expect, it } from "vitest";
+import { formatCents, formatPrice } from "../event-details";
+
+describe("formatCents", () => {
+	it("should leave off zero cents", () => {
+		expect(formatCents(1000)).toBe("$10");
+		expect(formatCents(1050)).toBe("$10.50");
+		expect(formatCents(5)).toBe("$0.05");
+	});
+});
+
+describe("formatPrice", () => {
+	const price = (
+		priceKind: Parameters<typeof formatPrice>[0]["priceKind"],
+		priceMinCents: number | null = null,
+		priceMaxCents: number | null = null,
+	) => formatPrice({ priceKind, priceMinCents, priceMaxCents });
+
+	it("should describe each price kind", () => {
+		expect(price("free")).toBe("Free");
+		expect(price("sliding", 500, 1500)).toBe("$5–$15 sliding scale");
+		expect(price("fixed", 1200)).toBe("$12");
+		expect(price("donation", 1000)).toBe("$10 suggested donation");
+	});
+
+	it("should fall back when amounts are missing", () => {
+		expect(price("fixed")).toBe("Paid");
+		expect(price("donation")).toBe("Donations welcome");
+		expect(price(null)).toBeNull();
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Unit tests for event list filters
+ *
+ * Tests cover:
+ * - Normalizing tags and tag names
+ * - Reading filters from URL search params
+ * - Ignoring invalid parameters instead of failing
+ * - Accessibility lists, comma-separated or repeated
+ * - Keeping repeated parameters when reading a request URL
+ * - Writing filters back to a query string
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	parseEventFilters,
+	toEventFilterQuery,
+	toSearchParamsRecord,
+} from "../event-filters";
+import { normalizeTag, parseTagList, tagNameListSchema } from "../tags";
+
+describe("normalizeTag", () => {
+	it("should lowercase and hyphenate tags", () => {
+		expect(normalizeTag("Zine Swap!")).toBe("zine-swap");
+		expect(normalizeTag("  Café  Night ")).toBe("cafe-night");
+		expect(normalizeTag("!!!")).toBe("");
+	});
+
+	it("should de-duplicate comma-separated lists", () => {
+		expect(parseTagList("punk, All Ages, PUNK,,")).toEqual([
+			"punk",
+			"all-ages",
+		]);
+	});
+
+	it("should keep the first spelling of names sharing a slug", () => {
+		expect(
+			tagNameListSchema.parse(["Zine  Swap", "zine swap", " ", "Noise"]),
+		).toEqual(["Zine Swap", "Noise"]);
+	});
+});
+
+describe("parseEventFilters", () => {
+	it("should read every supported filter", () => {
+		expect(
+			parseEventFilters({
+				from: "2025-07-01",
+				to: "2025-07-31",
+				tags: "Punk, zines",
+				quadrant: "SE",
+				price: "free",
+				allAges: "1",
+				venue: "0190f5a2-7b3c-7def-8123-456789abcdef",
+			}),
+		).toEqual({
+			from: "2025-07-01",
+			to: "2025-07-31",
+			tags: ["punk", "zines"],
+			quadrant: "SE",
+			price: "free",
+			allAges: true,
+			venue: "0190f5a2-7b3c-7def-8123-456789abcdef",
+		});
+	});
+
+	it("should omit blank parameters", () => {
+		expect(
+			parseEventFilters({ from: "", tags: " , ", quadrant: "", price: "" }),
+		).toEqual({});
+	});
+
+	it("should drop invalid parameters but keep the rest", () => {
+		expect(
+			parseEventFilters({
+				from: "yesterday",
+				quadrant: "East",
+				price: "cheap",
+				tags: "noise",
+			}),
+		).toEqual({ tags: ["noise"] });
+	});
+
+	it("should drop the end of an inverted date range", () => {
+		expect(parseEventFilters({ from: "2025-07-31", to: "2025-07-01" })).toEqual(
+			{ from: "2025-07-31" },
+		);
+	});
+
+	it("should read accessibility as a list in canonical order", () => {
+		expect(parseEventFilters({ access: "sober, step_free" })).toEqual({
+			access: ["step_free", "sober"],
+		});
+		expect(parseEventFilters({ access: ["asl", "sober"] })).toEqual({
+			access: ["asl", "sober"],
+		});
+		expect(parseEventFilters({ access: "ramps" })).toEqual({});
+	});
+
+	it("should use the first value of repeated parameters", () => {
+		expect(parseEventFilters({ quadrant: ["NE", "SE"] })).toEqual({
+			quadrant: "NE",
+		});
+	});
+});
+
+describe("toSearchParamsRecord", () => {
+	it("should keep every value of repeated parameters", () => {
+		const url = new URL(
+			"https://example.com/feed.xml?access=asl&access=sober&quadrant=SE",
+		);
+
+		expect(toSearchParamsRecord(url.searchParams)).toEqual({
+			access: ["asl", "sober"],
+			quadrant: "SE",
+		});
+		expect(parseEventFilters(toSearchParamsRecord(url.searchParams))).toEqual({
+			access: ["asl", "sober"],
+			quadrant: "SE",
+		});
+	});
+});
+
+describe("toEventFilterQuery", () => {
+	it("should round-trip through parseEventFilters", () => {
+		const filters = {
+			from: "2025-07-01",
+			tags: ["punk", "zines"],
+			quadrant: "SE" as const,
+			price: "sliding" as const,
+			allAges: true,
+			access: ["step_free" as const, "asl" as const],
+		};
+		const query = toEventFilterQuery(filters);
+
+		expect(query).toBe(
+			"from=2025-07-01&tags=punk,zines&quadrant=SE&price=sliding&allAges=1&access=step_free,asl",
+		);
+		expect(
+			parseEventFilters(Object.fromEntries(new URLSearchParams(query))),
+		).toEqual(filters);
+	});
+
+	it("should return an empty string without filters", () => {
+		expect(toEventFilterQuery({})).toBe("");
+	});
+});
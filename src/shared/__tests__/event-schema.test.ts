@@ -0,0 +1,341 @@
+/**
+ * @fileoverview Unit tests for the shared event schema
+ *
+ * Tests cover:
+ * - Required start time
+ * - End time ordering
+ * - Rejecting events that start in the distant past
+ * - Capacity limits
+ * - Price ranges, ticket links and accessibility lists
+ * - Scheduled publishing and when events count as published
+ * - Requiring alt text for flyers
+ * - Recurrence rules and skipped dates
+ * - Status change notes
+ * - List cursors
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	decodeEventCursor,
+	encodeEventCursor,
+	eventListSchema,
+	eventSchema,
+	eventStatusChangeSchema,
+	eventUpdateSchema,
+	isEventPublished,
+} from "../schemas/event";
+
+const hoursFromNow = (hours: number) =>
+	new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe("eventSchema", () => {
+	it("should accept an event with a start and end time", () => {
+		const result = eventSchema.safeParse({
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: hoursFromNow(27),
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should accept an event without an end time", () => {
+		const result = eventSchema.safeParse({
+			title: "Zine Swap",
+			startsAt: hoursFromNow(2),
+			endsAt: null,
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should accept a whole-number capacity and reject others", () => {
+		const withCapacity = (capacity: number) =>
+			eventSchema.safeParse({
+				title: "Basement Show",
+				startsAt: hoursFromNow(24),
+				endsAt: null,
+				capacity,
+			});
+
+		expect(withCapacity(40).success).toBe(true);
+		expect(withCapacity(0).success).toBe(false);
+		expect(withCapacity(12.5).success).toBe(false);
+	});
+
+	it("should require both ends of a sliding scale, in order", () => {
+		const withPrice = (
+			priceMinCents: number | null,
+			priceMaxCents: number | null,
+		) =>
+			eventSchema.safeParse({
+				title: "Basement Show",
+				startsAt: hoursFromNow(24),
+				endsAt: null,
+				priceKind: "sliding",
+				priceMinCents,
+				priceMaxCents,
+			});
+
+		expect(withPrice(500, 1500).success).toBe(true);
+		expect(withPrice(500, null).success).toBe(false);
+		expect(withPrice(1500, 500).success).toBe(false);
+	});
+
+	it("should only accept web ticket links", () => {
+		const withTicketUrl = (ticketUrl: string) =>
+			eventSchema.safeParse({
+				title: "Basement Show",
+				startsAt: hoursFromNow(24),
+				endsAt: null,
+				ticketUrl,
+			});
+
+		expect(withTicketUrl("https://tickets.example.com/show").success).toBe(
+			true,
+		);
+		expect(withTicketUrl("javascript:alert(1)").success).toBe(false);
+	});
+
+	it("should de-duplicate and order accessibility features", () => {
+		const result = eventSchema.parse({
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+			accessibility: ["sober", "step_free", "sober"],
+		});
+
+		expect(result.accessibility).toEqual(["step_free", "sober"]);
+	});
+
+	it("should require a start time", () => {
+		const result = eventSchema.safeParse({ title: "Zine Swap", endsAt: null });
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]?.message).toBe("Start time is required");
+	});
+
+	it("should reject an end time before the start time", () => {
+		const result = eventSchema.safeParse({
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: hoursFromNow(23),
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]?.path).toEqual(["endsAt"]);
+	});
+
+	it("should reject events that started more than a day ago", () => {
+		const result = eventSchema.safeParse({
+			title: "Last Month's Show",
+			startsAt: hoursFromNow(-24 * 30),
+			endsAt: null,
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]?.path).toEqual(["startsAt"]);
+	});
+
+	it("should allow events that started earlier today", () => {
+		const result = eventSchema.safeParse({
+			title: "All-Day Craft Fair",
+			startsAt: hoursFromNow(-3),
+			endsAt: hoursFromNow(3),
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should require alt text when a flyer is attached", () => {
+		const result = eventSchema.safeParse({
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+			flyerId: "flyer-id",
+			flyerAlt: "   ",
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]?.path).toEqual(["flyerAlt"]);
+	});
+});
+
+describe("eventSchema publishing", () => {
+	it("should require a scheduled announcement before the event", () => {
+		const withPublishAt = (publishAt: Date) =>
+			eventSchema.safeParse({
+				title: "Basement Show",
+				startsAt: hoursFromNow(24),
+				endsAt: null,
+				publish: "schedule",
+				publishAt,
+			});
+
+		expect(withPublishAt(hoursFromNow(2)).success).toBe(true);
+		expect(withPublishAt(hoursFromNow(25)).success).toBe(false);
+	});
+
+	it("should require a publish time when scheduling", () => {
+		const result = eventSchema.safeParse({
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+			publish: "schedule",
+			publishAt: null,
+		});
+
+		expect(result.error?.issues[0]).toMatchObject({
+			path: ["publishAt"],
+			message: "Publish time is required",
+		});
+	});
+
+	it("should publish new events right away by default", () => {
+		const result = eventSchema.parse({
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+		});
+
+		expect(result).toMatchObject({ publish: "now", publishAt: null });
+	});
+});
+
+describe("isEventPublished", () => {
+	const now = new Date("2025-03-01T12:00:00Z");
+
+	it("should hide drafts and events scheduled for later", () => {
+		expect(isEventPublished({ isDraft: true, publishAt: null }, now)).toBe(
+			false,
+		);
+		expect(
+			isEventPublished(
+				{ isDraft: false, publishAt: new Date("2025-03-02T12:00:00Z") },
+				now,
+			),
+		).toBe(false);
+	});
+
+	it("should publish scheduled events once their time passes", () => {
+		expect(
+			isEventPublished(
+				{ isDraft: false, publishAt: new Date("2025-03-01T12:00:00Z") },
+				now,
+			),
+		).toBe(true);
+		expect(isEventPublished({ isDraft: false, publishAt: null }, now)).toBe(
+			true,
+		);
+	});
+});
+
+describe("eventSchema recurrence", () => {
+	it("should accept a supported rule and sort skipped dates", () => {
+		const result = eventSchema.safeParse({
+			title: "Open Mic",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+			recurrence: {
+				rule: "FREQ=WEEKLY;BYDAY=TU",
+				exceptions: ["2030-02-05", "2030-01-01", "2030-02-05"],
+			},
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.data?.recurrence?.exceptions).toEqual([
+			"2030-01-01",
+			"2030-02-05",
+		]);
+	});
+
+	it("should reject unsupported rules", () => {
+		const result = eventSchema.safeParse({
+			title: "Open Mic",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+			recurrence: { rule: "FREQ=YEARLY" },
+		});
+
+		expect(result.success).toBe(false);
+	});
+
+	it("should reject a series that ends before it starts", () => {
+		const result = eventSchema.safeParse({
+			title: "Open Mic",
+			startsAt: hoursFromNow(24),
+			endsAt: null,
+			recurrence: { rule: "FREQ=DAILY;UNTIL=20200101" },
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe("eventUpdateSchema", () => {
+	it("should allow editing an event that already happened", () => {
+		const result = eventUpdateSchema.safeParse({
+			id: "event-id",
+			expectedUpdatedAt: null,
+			title: "Last Month's Show (typo fixed)",
+			startsAt: hoursFromNow(-24 * 30),
+			endsAt: null,
+		});
+
+		expect(result.success).toBe(true);
+	});
+
+	it("should still require the end time to follow the start time", () => {
+		const result = eventUpdateSchema.safeParse({
+			id: "event-id",
+			expectedUpdatedAt: new Date(),
+			title: "Basement Show",
+			startsAt: hoursFromNow(24),
+			endsAt: hoursFromNow(20),
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]?.path).toEqual(["endsAt"]);
+	});
+});
+
+describe("eventStatusChangeSchema", () => {
+	it("should treat a blank note as no note", () => {
+		const result = eventStatusChangeSchema.parse({
+			id: "event-id",
+			note: "  ",
+		});
+
+		expect(result.note).toBeNull();
+	});
+
+	it("should reject notes over 500 characters", () => {
+		const result = eventStatusChangeSchema.safeParse({
+			id: "event-id",
+			note: "x".repeat(501),
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe("eventListSchema", () => {
+	it("should round-trip a cursor", () => {
+		const position = {
+			startsAt: new Date("2025-06-01T03:00:00.000Z"),
+			id: "0197a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b",
+		};
+
+		const result = eventListSchema.parse({
+			cursor: encodeEventCursor(position),
+		});
+
+		expect(result.cursor).toEqual(position);
+		expect(result.limit).toBe(20);
+	});
+
+	it("should reject malformed cursors", () => {
+		expect(decodeEventCursor("not-a-cursor")).toBeNull();
+		expect(eventListSchema.safeParse({ cursor: "abc_" }).success).toBe(false);
+	});
+});
@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Unit tests for recurrence rules
+ *
+ * Tests cover:
+ * - Parsing the supported RRULE subset and rejecting the rest
+ * - Expanding weekly and monthly series in Portland time across DST
+ * - COUNT, UNTIL, exception dates and windows
+ * - Plain-English descriptions
+ * - Occurrence links
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	type RecurrenceRule,
+	describeRecurrence,
+	eventPath,
+	expandRecurrence,
+	formatRecurrenceRule,
+	getLastOccurrence,
+	monthlyWeekdayFor,
+	parseOccurrenceParam,
+	parseRecurrenceRule,
+} from "../recurrence";
+import { toZonedInputValue } from "../time";
+
+const rule = (value: string) => {
+	const parsed = parseRecurrenceRule(value);
+	if (!parsed) throw new Error(`Invalid rule: ${value}`);
+	return parsed;
+};
+
+const wallTimes = (dates: Date[]) => dates.map(toZonedInputValue);
+
+// Thursday, March 6, 2025, 7:00 PM PST
+const thursdayEvening = new Date("2025-03-07T03:00:00.000Z");
+
+describe("parseRecurrenceRule", () => {
+	it("should parse and re-serialize supported rules", () => {
+		for (const value of [
+			"FREQ=DAILY;COUNT=5",
+			"FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE",
+			"FREQ=MONTHLY;BYDAY=1TH",
+			"FREQ=MONTHLY;BYDAY=-1FR",
+			"FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20251231T075959Z",
+		]) {
+			expect(formatRecurrenceRule(rule(value))).toBe(value);
+		}
+	});
+
+	it("should accept the RRULE: prefix and lowercase input", () => {
+		expect(
+			parseRecurrenceRule("RRULE:freq=weekly;byday=th"),
+		).toEqual<RecurrenceRule>({
+			freq: "WEEKLY",
+			interval: 1,
+			byDay: [{ weekday: "TH", ordinal: null }],
+			byMonthDay: [],
+			count: null,
+			until: null,
+		});
+	});
+
+	it("should reject rules outside the supported subset", () => {
+		for (const value of [
+			"",
+			"FREQ=YEARLY",
+			"FREQ=HOURLY",
+			"FREQ=WEEKLY;BYSETPOS=1",
+			"FREQ=WEEKLY;BYDAY=1MO",
+			"FREQ=DAILY;BYDAY=MO",
+			"FREQ=DAILY;COUNT=2;UNTIL=20250101T000000Z",
+			"FREQ=DAILY;INTERVAL=0",
+			"FREQ=DAILY;COUNT=100000",
+			"FREQ=MONTHLY;BYDAY=0TH",
+			"FREQ=WEEKLY;FREQ=DAILY",
+		]) {
+			expect(parseRecurrenceRule(value)).toBeNull();
+		}
+	});
+});
+
+describe("expandRecurrence", () => {
+	it("should keep weekly events at the same wall time across DST", () => {
+		const occurrences = expandRecurrence({
+			startsAt: thursdayEvening,
+			rule: rule("FREQ=WEEKLY;COUNT=3"),
+			before: new Date("2026-01-01"),
+		});
+
+		// DST starts on Sunday, March 9, 2025
+		expect(wallTimes(occurrences)).toEqual([
+			"2025-03-06T19:00",
+			"2025-03-13T19:00",
+			"2025-03-20T19:00",
+		]);
+		expect(occurrences[1]?.toISOString()).toBe("2025-03-14T02:00:00.000Z");
+	});
+
+	it("should expand several weekdays per week with an interval", () => {
+		const occurrences = expandRecurrence({
+			startsAt: thursdayEvening,
+			rule: rule("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=5"),
+			before: new Date("2026-01-01"),
+		});
+
+		expect(wallTimes(occurrences)).toEqual([
+			"2025-03-06T19:00",
+			"2025-03-18T19:00",
+			"2025-03-20T19:00",
+			"2025-04-01T19:00",
+			"2025-04-03T19:00",
+		]);
+	});
+
+	it("should expand monthly nth and last weekdays", () => {
+		expect(
+			wallTimes(
+				expandRecurrence({
+					startsAt: thursdayEvening,
+					rule: rule("FREQ=MONTHLY;BYDAY=1TH;COUNT=3"),
+					before: new Date("2026-01-01"),
+				}),
+			),
+		).toEqual(["2025-03-06T19:00", "2025-04-03T19:00", "2025-05-01T19:00"]);
+
+		expect(
+			wallTimes(
+				expandRecurrence({
+					startsAt: new Date("2025-01-31T20:00:00.000Z"),
+					rule: rule("FREQ=MONTHLY;BYDAY=-1FR;COUNT=3"),
+					before: new Date("2026-01-01"),
+				}),
+			),
+		).toEqual(["2025-01-31T12:00", "2025-02-28T12:00", "2025-03-28T12:00"]);
+	});
+
+	it("should skip months without the requested day", () => {
+		expect(
+			wallTimes(
+				expandRecurrence({
+					startsAt: new Date("2025-01-31T20:00:00.000Z"),
+					rule: rule("FREQ=MONTHLY;COUNT=3"),
+					before: new Date("2026-01-01"),
+				}),
+			),
+		).toEqual(["2025-01-31T12:00", "2025-03-31T12:00", "2025-05-31T12:00"]);
+	});
+
+	it("should stop at UNTIL and skip exception dates", () => {
+		const occurrences = expandRecurrence({
+			startsAt: thursdayEvening,
+			rule: rule("FREQ=WEEKLY;UNTIL=20250327T020000Z"),
+			exceptions: ["2025-03-13"],
+			before: new Date("2026-01-01"),
+		});
+
+		expect(wallTimes(occurrences)).toEqual([
+			"2025-03-06T19:00",
+			"2025-03-20T19:00",
+		]);
+	});
+
+	it("should only return occurrences inside the window", () => {
+		const occurrences = expandRecurrence({
+			startsAt: thursdayEvening,
+			rule: rule("FREQ=WEEKLY"),
+			after: new Date("2027-06-01T00:00:00.000Z"),
+			before: new Date("2027-06-20T00:00:00.000Z"),
+		});
+
+		expect(wallTimes(occurrences)).toEqual([
+			"2027-06-03T19:00",
+			"2027-06-10T19:00",
+			"2027-06-17T19:00",
+		]);
+	});
+});
+
+describe("getLastOccurrence", () => {
+	it("should return null for endless series", () => {
+		expect(getLastOccurrence(thursdayEvening, rule("FREQ=DAILY"))).toBeNull();
+	});
+
+	it("should find the last counted occurrence", () => {
+		expect(
+			toZonedInputValue(
+				getLastOccurrence(thursdayEvening, rule("FREQ=DAILY;COUNT=10")) ??
+					thursdayEvening,
+			),
+		).toBe("2025-03-15T19:00");
+	});
+});
+
+describe("monthlyWeekdayFor", () => {
+	it("should use the weekday's position in the month", () => {
+		expect(monthlyWeekdayFor(thursdayEvening)).toEqual({
+			weekday: "TH",
+			ordinal: 1,
+		});
+		// Friday, January 31, 2025 is the last Friday of its month
+		expect(monthlyWeekdayFor(new Date("2025-01-31T20:00:00.000Z"))).toEqual({
+			weekday: "FR",
+			ordinal: -1,
+		});
+	});
+});
+
+describe("describeRecurrence", () => {
+	it("should describe rules in plain English", () => {
+		expect(describeRecurrence(rule("FREQ=WEEKLY"), thursdayEvening)).toBe(
+			"Repeats every week on Thursday",
+		);
+		expect(
+			describeRecurrence(
+				rule("FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;COUNT=10"),
+				thursdayEvening,
+			),
+		).toBe("Repeats every 2 weeks on Monday and Wednesday, 10 times");
+		expect(
+			describeRecurrence(rule("FREQ=MONTHLY;BYDAY=1TH"), thursdayEvening),
+		).toBe("Repeats every month on the first Thursday");
+		expect(
+			describeRecurrence(
+				rule("FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20260101T075959Z"),
+				thursdayEvening,
+			),
+		).toBe("Repeats every month on the last day, until Wed, Dec 31, 2025");
+	});
+});
+
+describe("eventPath", () => {
+	it("should round-trip an occurrence through the URL", () => {
+		const start = new Date("2025-03-14T03:00:00.000Z");
+		const url = new URL(eventPath("abc", start), "https://example.com");
+
+		expect(url.pathname).toBe("/events/abc");
+		expect(
+			parseOccurrenceParam(url.searchParams.get("occurrence") ?? undefined),
+		).toEqual(start);
+	});
+
+	it("should ignore malformed occurrence parameters", () => {
+		expect(parseOccurrenceParam("not-a-date")).toBeUndefined();
+		expect(parseOccurrenceParam(["2025-03-14T03:00:00.000Z"])).toBeUndefined();
+	});
+});
@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Unit tests for rich-text sanitization and serialization
+ *
+ * Tests cover:
+ * - Dropping script-capable link protocols and obfuscated variants
+ * - Dropping unknown nodes, marks and attributes
+ * - Size and nesting limits
+ * - Plain-text serialization and schema behavior
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	MAX_RICH_TEXT_DEPTH,
+	MAX_RICH_TEXT_LENGTH,
+	type RichTextDoc,
+	richTextDocSchema,
+	richTextToPlainText,
+	sanitizeHref,
+	sanitizeRichText,
+} from "../rich-text";
+
+const paragraph = (...content: unknown[]) => ({ type: "paragraph", content });
+const doc = (...content: unknown[]) => ({ type: "doc", content });
+const link = (href: unknown) => ({ type: "link", attrs: { href } });
+
+const sanitize = (input: unknown): RichTextDoc => {
+	const result = sanitizeRichText(input);
+	if (!result.ok) throw new Error(result.error);
+	return result.doc;
+};
+
+describe("sanitizeHref", () => {
+	it.each([
+		"https://pdxdiy.example/shows",
+		"http://example.com/?a=1&b=2",
+		"mailto:booking@example.com",
+	])("should keep %s", (href) => {
+		expect(sanitizeHref(href)).toBe(new URL(href).href);
+	});
+
+	it.each([
+		"javascript:alert(1)",
+		"JaVaScRiPt:alert(document.cookie)",
+		"java\nscript:alert(1)",
+		"\u0000javascript:alert(1)",
+		" javascript:alert(1)",
+		"javascript&#58;alert(1)",
+		"data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+		"vbscript:msgbox(1)",
+		"file:///etc/passwd",
+		"/relative/path",
+		"//evil.example",
+		"",
+		42,
+		null,
+	])("should reject %j", (href) => {
+		expect(sanitizeHref(href)).toBeNull();
+	});
+
+	it("should reject absurdly long URLs", () => {
+		expect(sanitizeHref(`https://example.com/${"a".repeat(3000)}`)).toBeNull();
+	});
+});
+
+describe("sanitizeRichText", () => {
+	it("should keep a well-formed document unchanged", () => {
+		const input = doc(
+			{
+				type: "heading",
+				attrs: { level: 2 },
+				content: [{ type: "text", text: "Lineup" }],
+			},
+			{
+				type: "bulletList",
+				content: [
+					{
+						type: "listItem",
+						content: [
+							paragraph({
+								type: "text",
+								text: "Band A",
+								marks: [{ type: "bold" }, link("https://band-a.example/")],
+							}),
+						],
+					},
+				],
+			},
+			paragraph({ type: "text", text: "Doors at 7" }, { type: "hardBreak" }),
+		);
+
+		expect(sanitize(input)).toEqual(input);
+	});
+
+	it("should strip links with dangerous protocols but keep their text", () => {
+		const result = sanitize(
+			doc(
+				paragraph({
+					type: "text",
+					text: "click me",
+					marks: [{ type: "italic" }, link("javascript:alert(1)")],
+				}),
+			),
+		);
+
+		expect(result).toEqual(
+			doc(
+				paragraph({
+					type: "text",
+					text: "click me",
+					marks: [{ type: "italic" }],
+				}),
+			),
+		);
+	});
+
+	it("should drop unknown attributes on links and nodes", () => {
+		const result = sanitize(
+			doc({
+				type: "paragraph",
+				attrs: { style: "background:url(javascript:alert(1))" },
+				content: [
+					{
+						type: "text",
+						text: "tickets",
+						marks: [
+							{
+								type: "link",
+								attrs: {
+									href: "https://tickets.example/",
+									target: "_self",
+									onclick: "alert(1)",
+									class: "x",
+								},
+							},
+						],
+					},
+				],
+			}),
+		);
+
+		expect(result).toEqual(
+			doc(
+				paragraph({
+					type: "text",
+					text: "tickets",
+					marks: [link("https://tickets.example/")],
+				}),
+			),
+		);
+	});
+
+	it("should drop unknown node and mark types", () => {
+		const result = sanitize(
+			doc(
+				{
+					type: "html",
+					content: [{ type: "text", text: "<script>alert(1)</script>" }],
+				},
+				{ type: "image", attrs: { src: "x", onerror: "alert(1)" } },
+				{ type: "codeBlock", content: [{ type: "text", text: "rm -rf /" }] },
+				paragraph(
+					{
+						type: "text",
+						text: "safe",
+						marks: [{ type: "textStyle", attrs: { color: "red" } }],
+					},
+					{ type: "mention", attrs: { id: "1" } },
+				),
+			),
+		);
+
+		expect(result).toEqual(doc(paragraph({ type: "text", text: "safe" })));
+	});
+
+	it("should keep markup-looking text as plain text", () => {
+		const text = '<img src=x onerror="alert(1)"><script>alert(1)</script>';
+		const result = sanitize(doc(paragraph({ type: "text", text })));
+
+		expect(result).toEqual(doc(paragraph({ type: "text", text })));
+	});
+
+	it("should strip control characters from text", () => {
+		const result = sanitize(
+			doc(paragraph({ type: "text", text: "a\u0000b\u001Bc" })),
+		);
+
+		expect(result).toEqual(doc(paragraph({ type: "text", text: "abc" })));
+	});
+
+	it("should clamp heading levels to 2 and 3", () => {
+		const result = sanitize(
+			doc(
+				{
+					type: "heading",
+					attrs: { level: 1 },
+					content: [{ type: "text", text: "a" }],
+				},
+				{
+					type: "heading",
+					attrs: { level: 6 },
+					content: [{ type: "text", text: "b" }],
+				},
+				{ type: "heading", attrs: { level: "<script>" } },
+			),
+		);
+
+		expect(
+			result.content.map(
+				(block) => block.type === "heading" && block.attrs.level,
+			),
+		).toEqual([2, 3, 2]);
+	});
+
+	it("should ignore prototype pollution keys", () => {
+		const input = JSON.parse(
+			'{"type":"doc","__proto__":{"polluted":true},"content":[{"type":"paragraph","content":[{"type":"text","text":"hi","__proto__":{"x":1}}]}]}',
+		);
+		const result = sanitize(input);
+
+		expect(result).toEqual(doc(paragraph({ type: "text", text: "hi" })));
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+	});
+
+	it("should drop content nested deeper than the depth limit", () => {
+		let nested: unknown = paragraph({ type: "text", text: "deep" });
+		for (let i = 0; i < MAX_RICH_TEXT_DEPTH + 5; i++) {
+			nested = { type: "blockquote", content: [nested] };
+		}
+
+		const result = sanitize(doc(nested));
+
+		expect(richTextToPlainText(result)).toBe("");
+	});
+
+	it("should reject documents over the length limit", () => {
+		const result = sanitizeRichText(
+			doc(
+				paragraph({ type: "text", text: "a".repeat(MAX_RICH_TEXT_LENGTH + 1) }),
+			),
+		);
+
+		expect(result).toEqual({ ok: false, error: "Description is too long" });
+	});
+
+	it("should reject documents with too many nodes", () => {
+		const result = sanitizeRichText(
+			doc(...Array.from({ length: 5000 }, () => ({ type: "paragraph" }))),
+		);
+
+		expect(result.ok).toBe(false);
+	});
+
+	it.each([null, "hello", [], { type: "paragraph" }, { content: [] }])(
+		"should reject %j as not a document",
+		(input) => {
+			expect(sanitizeRichText(input).ok).toBe(false);
+		},
+	);
+});
+
+describe("richTextToPlainText", () => {
+	it("should separate blocks with blank lines and list items with newlines", () => {
+		const input = sanitize(
+			doc(
+				{
+					type: "heading",
+					attrs: { level: 2 },
+					content: [{ type: "text", text: "Lineup" }],
+				},
+				{
+					type: "orderedList",
+					content: ["One", "Two"].map((text) => ({
+						type: "listItem",
+						content: [paragraph({ type: "text", text })],
+					})),
+				},
+				paragraph(
+					{ type: "text", text: "Doors" },
+					{ type: "hardBreak" },
+					{ type: "text", text: "at 7" },
+				),
+			),
+		);
+
+		expect(richTextToPlainText(input)).toBe(
+			"Lineup\n\nOne\nTwo\n\nDoors\nat 7",
+		);
+	});
+});
+
+describe("richTextDocSchema", () => {
+	it("should treat empty documents as no description", () => {
+		expect(richTextDocSchema.parse(doc({ type: "paragraph" }))).toBeNull();
+		expect(richTextDocSchema.parse(null)).toBeNull();
+	});
+
+	it("should return the sanitized document", () => {
+		expect(
+			richTextDocSchema.parse(
+				doc(
+					paragraph({
+						type: "text",
+						text: "x",
+						marks: [link("javascript:alert(1)")],
+					}),
+				),
+			),
+		).toEqual(doc(paragraph({ type: "text", text: "x" })));
+	});
+
+	it("should reject values that aren't documents", () => {
+		expect(richTextDocSchema.safeParse("<p>hi</p>").success).toBe(false);
+	});
+});
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Unit tests for user roles
+ *
+ * Tests cover:
+ * - Higher roles having the permissions of lower ones
+ * - Unknown roles counting as organizers
+ * - Parsing roles from untrusted input
+ */
+
+import { describe, expect, it } from "vitest";
+import { hasRole, parseUserRole } from "../roles";
+
+describe("hasRole", () => {
+	it("should let higher roles do what lower ones can", () => {
+		expect(hasRole("admin", "moderator")).toBe(true);
+		expect(hasRole("moderator", "moderator")).toBe(true);
+		expect(hasRole("moderator", "admin")).toBe(false);
+		expect(hasRole("organizer", "moderator")).toBe(false);
+	});
+
+	it("should treat unknown roles as organizers", () => {
+		expect(hasRole(undefined, "organizer")).toBe(true);
+		expect(hasRole("superuser", "moderator")).toBe(false);
+		expect(hasRole(null, "admin")).toBe(false);
+	});
+});
+
+describe("parseUserRole", () => {
+	it("should accept known roles only", () => {
+		expect(parseUserRole("moderator")).toBe("moderator");
+		expect(parseUserRole("Admin")).toBeNull();
+		expect(parseUserRole(undefined)).toBeNull();
+	});
+});
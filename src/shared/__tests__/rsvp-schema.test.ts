@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Unit tests for the shared RSVP schema
+ *
+ * Tests cover:
+ * - Accepted RSVP states
+ * - Formatting attendee counts
+ * - Remaining spots under a capacity
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	formatRsvpCounts,
+	remainingSpots,
+	rsvpSetSchema,
+} from "../schemas/rsvp";
+
+describe("rsvpSetSchema", () => {
+	it("should accept going and interested", () => {
+		for (const status of ["going", "interested"]) {
+			expect(rsvpSetSchema.safeParse({ eventId: "1", status }).success).toBe(
+				true,
+			);
+		}
+	});
+
+	it("should reject other states", () => {
+		const result = rsvpSetSchema.safeParse({ eventId: "1", status: "maybe" });
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe("formatRsvpCounts", () => {
+	it("should list going before interested", () => {
+		expect(formatRsvpCounts({ going: 12, interested: 3, waitlisted: 0 })).toBe(
+			"12 going · 3 interested",
+		);
+	});
+
+	it("should mention a waitlist only when someone is on it", () => {
+		expect(formatRsvpCounts({ going: 30, interested: 0, waitlisted: 4 })).toBe(
+			"30 going · 0 interested · 4 on the waitlist",
+		);
+	});
+});
+
+describe("remainingSpots", () => {
+	const counts = { going: 28, interested: 5, waitlisted: 0 };
+
+	it("should subtract going RSVPs from the capacity", () => {
+		expect(remainingSpots(30, counts)).toBe(2);
+	});
+
+	it("should never go below zero", () => {
+		expect(remainingSpots(20, counts)).toBe(0);
+	});
+
+	it("should be null without a capacity", () => {
+		expect(remainingSpots(null, counts)).toBeNull();
+	});
+});
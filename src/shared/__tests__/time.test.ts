@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Unit tests for Portland time zone helpers
+ *
+ * Tests cover:
+ * - Converting datetime-local values to instants across DST
+ * - Round-tripping instants back to input values
+ * - Converting date values to Portland day boundaries
+ * - Locale-independent display formatting
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	formatEventDateTime,
+	formatEventTimeRange,
+	fromZonedDateValue,
+	fromZonedInputValue,
+	toZonedInputValue,
+} from "../time";
+
+describe("fromZonedInputValue", () => {
+	it("should interpret summer wall times as PDT (UTC-7)", () => {
+		expect(fromZonedInputValue("2025-07-04T20:00")?.toISOString()).toBe(
+			"2025-07-05T03:00:00.000Z",
+		);
+	});
+
+	it("should interpret winter wall times as PST (UTC-8)", () => {
+		expect(fromZonedInputValue("2025-01-10T19:30")?.toISOString()).toBe(
+			"2025-01-11T03:30:00.000Z",
+		);
+	});
+
+	it("should move wall times skipped by spring-forward ahead an hour", () => {
+		expect(fromZonedInputValue("2025-03-09T02:30")?.toISOString()).toBe(
+			"2025-03-09T10:30:00.000Z",
+		);
+	});
+
+	it("should resolve ambiguous fall-back wall times to the earlier instant", () => {
+		expect(fromZonedInputValue("2025-11-02T01:30")?.toISOString()).toBe(
+			"2025-11-02T08:30:00.000Z",
+		);
+	});
+
+	it("should return null for empty or malformed values", () => {
+		expect(fromZonedInputValue("")).toBeNull();
+		expect(fromZonedInputValue("next friday")).toBeNull();
+	});
+});
+
+describe("fromZonedDateValue", () => {
+	it("should return Portland midnight", () => {
+		expect(fromZonedDateValue("2025-07-04")?.toISOString()).toBe(
+			"2025-07-04T07:00:00.000Z",
+		);
+		expect(fromZonedDateValue("2025-01-15")?.toISOString()).toBe(
+			"2025-01-15T08:00:00.000Z",
+		);
+	});
+
+	it("should move by whole days across month ends and DST", () => {
+		expect(fromZonedDateValue("2025-03-08", 1)?.toISOString()).toBe(
+			"2025-03-09T08:00:00.000Z",
+		);
+		expect(fromZonedDateValue("2025-03-09", 1)?.toISOString()).toBe(
+			"2025-03-10T07:00:00.000Z",
+		);
+		expect(fromZonedDateValue("2025-12-31", 1)?.toISOString()).toBe(
+			"2026-01-01T08:00:00.000Z",
+		);
+	});
+
+	it("should reject malformed or impossible dates", () => {
+		expect(fromZonedDateValue("")).toBeNull();
+		expect(fromZonedDateValue("2025-02-30")).toBeNull();
+		expect(fromZonedDateValue("07/04/2025")).toBeNull();
+	});
+});
+
+describe("toZonedInputValue", () => {
+	it("should round-trip with fromZonedInputValue", () => {
+		const date = new Date("2025-12-31T07:45:00.000Z");
+		const value = toZonedInputValue(date);
+
+		expect(value).toBe("2025-12-30T23:45");
+		expect(fromZonedInputValue(value)?.getTime()).toBe(date.getTime());
+	});
+});
+
+describe("formatEventTimeRange", () => {
+	it("should render in Portland time regardless of the process time zone", () => {
+		expect(formatEventDateTime(new Date("2025-07-05T03:00:00.000Z"))).toBe(
+			"Fri, Jul 4, 2025, 8:00 PM PDT",
+		);
+	});
+
+	it("should only repeat the time for same-day events", () => {
+		expect(
+			formatEventTimeRange(
+				new Date("2025-07-05T03:00:00.000Z"),
+				new Date("2025-07-05T06:00:00.000Z"),
+			),
+		).toBe("Fri, Jul 4, 2025, 8:00 PM PDT – 11:00 PM PDT");
+	});
+
+	it("should show the start alone when there is no end time", () => {
+		expect(formatEventTimeRange(new Date("2025-01-11T03:30:00.000Z"))).toBe(
+			"Fri, Jan 10, 2025, 7:30 PM PST",
+		);
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Unit tests for the shared venue schemas
+ *
+ * Tests cover:
+ * - Required names and street addresses
+ * - Storing blank optional fields as null
+ * - Quadrants and coordinates
+ * - Venue search queries
+ */
+
+import { describe, expect, it } from "vitest";
+import { venueSchema, venueSearchSchema } from "../schemas/venue";
+
+const venue = {
+	name: "The Basement",
+	streetAddress: "1234 SE Hawthorne Blvd",
+};
+
+describe("venueSchema", () => {
+	it("should accept a name and street address alone", () => {
+		expect(venueSchema.parse(venue)).toEqual({
+			...venue,
+			neighborhood: null,
+			quadrant: null,
+			latitude: null,
+			longitude: null,
+			notes: null,
+			isPrivate: false,
+		});
+	});
+
+	it("should require a name and street address", () => {
+		const result = venueSchema.safeParse({ name: "  ", streetAddress: "" });
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+			"Venue name is required",
+			"Street address is required",
+		]);
+	});
+
+	it("should trim text and store blank optional text as null", () => {
+		const result = venueSchema.parse({
+			...venue,
+			name: "  The Basement  ",
+			neighborhood: "  Hawthorne ",
+			notes: "   ",
+		});
+
+		expect(result).toMatchObject({
+			name: "The Basement",
+			neighborhood: "Hawthorne",
+			notes: null,
+		});
+	});
+
+	it("should reject text over its length limit", () => {
+		const result = venueSchema.safeParse({ ...venue, notes: "x".repeat(1001) });
+
+		expect(result.error?.issues[0]?.message).toBe("Notes are too long");
+	});
+
+	it("should accept Portland quadrants only", () => {
+		expect(venueSchema.parse({ ...venue, quadrant: "SE" }).quadrant).toBe("SE");
+		expect(
+			venueSchema.safeParse({ ...venue, quadrant: "East" }).error?.issues[0]
+				?.message,
+		).toBe("Pick a part of town");
+	});
+
+	it("should require latitude and longitude together", () => {
+		const result = venueSchema.safeParse({ ...venue, latitude: 45.51 });
+
+		expect(result.error?.issues[0]).toMatchObject({
+			message: "Provide both latitude and longitude, or neither",
+			path: ["longitude"],
+		});
+	});
+
+	it("should reject coordinates out of range", () => {
+		const result = venueSchema.safeParse({
+			...venue,
+			latitude: 91,
+			longitude: -181,
+		});
+
+		expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+			"Latitude must be between -90 and 90",
+			"Longitude must be between -180 and 180",
+		]);
+	});
+});
+
+describe("venueSearchSchema", () => {
+	it("should trim the query and default the limit", () => {
+		expect(venueSearchSchema.parse({ query: " basement " })).toEqual({
+			query: "basement",
+			limit: 8,
+		});
+	});
+
+	it("should reject blank queries and oversized limits", () => {
+		expect(venueSearchSchema.safeParse({ query: "  " }).success).toBe(false);
+		expect(
+			venueSearchSchema.safeParse({ query: "basement", limit: 21 }).success,
+		).toBe(false);
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Price, age policy and accessibility details of an event.
+ *
+ * Prices are kept in whole cents. What the amounts mean depends on the
+ * price kind: a `fixed` price or suggested `donation` uses the minimum
+ * only, and a `sliding` scale runs from the minimum to the maximum.
+ */
+
+/** How an event is priced. */
+export const PRICE_KINDS = ["free", "sliding", "fixed", "donation"] as const;
+
+export type PriceKind = (typeof PRICE_KINDS)[number];
+
+export const PRICE_KIND_LABELS: Record<PriceKind, string> = {
+	free: "Free",
+	sliding: "Sliding scale",
+	fixed: "Fixed price",
+	donation: "Donation",
+};
+
+/** Who may attend. */
+export const AGE_POLICIES = ["all_ages", "18_plus", "21_plus"] as const;
+
+export type AgePolicy = (typeof AGE_POLICIES)[number];
+
+export const AGE_POLICY_LABELS: Record<AgePolicy, string> = {
+	all_ages: "All ages",
+	"18_plus": "18+",
+	"21_plus": "21+",
+};
+
+/** Accessibility an organizer can promise for an event. */
+export const ACCESSIBILITY_FEATURES = [
+	"step_free",
+	"asl",
+	"sober",
+	"gender_neutral_restrooms",
+] as const;
+
+export type AccessibilityFeature = (typeof ACCESSIBILITY_FEATURES)[number];
+
+export const ACCESSIBILITY_LABELS: Record<AccessibilityFeature, string> = {
+	step_free: "Step-free access",
+	asl: "ASL interpretation",
+	sober: "Sober space",
+	gender_neutral_restrooms: "Gender-neutral restrooms",
+};
+
+/** Highest price accepted, in cents. */
+export const MAX_PRICE_CENTS = 100_000;
+
+/**
+ * Formats an amount in cents as dollars, without cents when they're zero:
+ * 1000 becomes "$10", 1050 "$10.50".
+ */
+export function formatCents(cents: number): string {
+	const dollars = cents / 100;
+	return Number.isInteger(dollars) ? `$${dollars}` : `$${dollars.toFixed(2)}`;
+}
+
+/**
+ * Describes an event's price, e.g. "Free", "$10", "$5–$15 sliding scale" or
+ * "$10 suggested donation".
+ *
+ * @returns The description, or null when the organizer didn't say
+ */
+export function formatPrice(event: {
+	priceKind: PriceKind | null;
+	priceMinCents: number | null;
+	priceMaxCents: number | null;
+}): string | null {
+	const min = event.priceMinCents;
+	const max = event.priceMaxCents;
+	switch (event.priceKind) {
+		case "free":
+			return "Free";
+		case "sliding":
+			return min !== null && max !== null
+				? `${formatCents(min)}–${formatCents(max)} sliding scale`
+				: "Sliding scale";
+		case "fixed":
+			return min !== null ? formatCents(min) : "Paid";
+		case "donation":
+			return min !== null
+				? `${formatCents(min)} suggested donation`
+				: "Donations welcome";
+		default:
+			return null;
+	}
+}
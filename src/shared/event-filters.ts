@@ -0,0 +1,118 @@
+/**
+ * @fileoverview URL representation of event list filters.
+ *
+ * Filtered views live entirely in the query string (`?from=2025-07-01&
+ * tags=punk,zines&quadrant=SE&price=free&allAges=1&access=asl,sober&
+ * venue=<id>`) so they can be shared, bookmarked and rendered on the
+ * server. The filter form on the home page is a plain GET form using the
+ * same parameter names.
+ */
+
+import { type EventFilters, eventFiltersSchema } from "~/shared/schemas/event";
+import { MAX_EVENT_TAGS, parseTagList } from "~/shared/tags";
+
+/**
+ * Search params as Next.js passes them to pages.
+ */
+export type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+/**
+ * Collects a URL's query string into the shape Next.js passes to pages,
+ * keeping every value of a repeated parameter (`Object.fromEntries` would
+ * keep only the last).
+ *
+ * @param searchParams - A request URL's `searchParams`
+ * @returns Repeated parameters as arrays, the rest as strings
+ */
+export function toSearchParamsRecord(
+	searchParams: URLSearchParams,
+): SearchParamsRecord {
+	const params: SearchParamsRecord = {};
+	for (const key of new Set(searchParams.keys())) {
+		const values = searchParams.getAll(key);
+		params[key] = values.length > 1 ? values : values[0];
+	}
+	return params;
+}
+
+const first = (value: string | string[] | undefined) =>
+	(Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+
+/**
+ * Reads a list parameter, given either comma-separated (`access=asl,sober`)
+ * or repeated as checkboxes submit it (`access=asl&access=sober`).
+ *
+ * @returns The distinct, non-blank values, or undefined when there are none
+ */
+const parseList = (value: string | string[] | undefined) => {
+	const items = [
+		...new Set(
+			[value ?? []]
+				.flat()
+				.flatMap((part) => part.split(","))
+				.map((item) => item.trim())
+				.filter(Boolean),
+		),
+	];
+	return items.length > 0 ? items : undefined;
+};
+
+/**
+ * Reads event filters from a page's search params.
+ *
+ * Parsing is lenient: blank or invalid parameters are ignored rather than
+ * failing the page, and an inverted date range drops the end date. Only
+ * filters that are actually set appear in the result, so equal URLs produce
+ * equal query inputs.
+ *
+ * @param params - The page's search params
+ * @returns Filters ready to pass to `event.getMany`
+ */
+export function parseEventFilters(params: SearchParamsRecord): EventFilters {
+	const tags = parseTagList(first(params.tags) ?? "").slice(0, MAX_EVENT_TAGS);
+	const candidate: EventFilters = {
+		from: first(params.from),
+		to: first(params.to),
+		tags: tags.length > 0 ? tags : undefined,
+		quadrant: first(params.quadrant) as EventFilters["quadrant"],
+		price: first(params.price) as EventFilters["price"],
+		allAges: first(params.allAges) === "1" || undefined,
+		access: parseList(params.access) as EventFilters["access"],
+		venue: first(params.venue),
+	};
+
+	const filters: EventFilters = {};
+	for (const key of Object.keys(candidate) as (keyof EventFilters)[]) {
+		if (candidate[key] === undefined) continue;
+		const single = eventFiltersSchema.safeParse({ [key]: candidate[key] });
+		if (single.success) {
+			Object.assign(filters, single.data);
+		}
+	}
+
+	if (!eventFiltersSchema.safeParse(filters).success) {
+		const { to: _invertedEnd, ...rest } = filters;
+		return rest;
+	}
+	return filters;
+}
+
+/**
+ * Writes event filters back to a query string, the inverse of
+ * `parseEventFilters`. Unset filters are left out.
+ *
+ * @param filters - Filters to serialize
+ * @returns e.g. "from=2025-07-01&tags=punk,zines", or "" with no filters
+ */
+export function toEventFilterQuery(filters: EventFilters): string {
+	const params = new URLSearchParams();
+	if (filters.from) params.set("from", filters.from);
+	if (filters.to) params.set("to", filters.to);
+	if (filters.tags?.length) params.set("tags", filters.tags.join(","));
+	if (filters.quadrant) params.set("quadrant", filters.quadrant);
+	if (filters.price) params.set("price", filters.price);
+	if (filters.allAges) params.set("allAges", "1");
+	if (filters.access?.length) params.set("access", filters.access.join(","));
+	if (filters.venue) params.set("venue", filters.venue);
+	return params.toString().replace(/%2C/g, ",");
+}
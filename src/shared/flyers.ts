@@ -0,0 +1,48 @@
+/**
+ * Flyer upload limits and the shape of a flyer as sent to the browser.
+ * Shared so the upload form can reject bad files before sending them.
+ */
+
+/** Largest flyer upload accepted, in bytes. */
+export const MAX_FLYER_BYTES = 10 * 1024 * 1024;
+
+/** MIME types accepted for flyer uploads. */
+export const ACCEPTED_FLYER_TYPES = [
+	"image/jpeg",
+	"image/png",
+	"image/webp",
+] as const;
+
+/**
+ * Resized variants generated for every flyer, by maximum width in pixels.
+ * Smaller originals are never upscaled.
+ */
+export const FLYER_VARIANTS = {
+	thumb: 320,
+	medium: 800,
+	large: 1600,
+} as const;
+
+export type FlyerVariant = keyof typeof FLYER_VARIANTS;
+
+/**
+ * A flyer with resolved URLs for each of its variants.
+ */
+export type FlyerView = {
+	id: string;
+	width: number;
+	height: number;
+	urls: Record<FlyerVariant, string>;
+};
+
+/**
+ * Builds a `srcSet` attribute from a flyer's variants.
+ */
+export function flyerSrcSet(flyer: FlyerView): string {
+	return (Object.keys(FLYER_VARIANTS) as FlyerVariant[])
+		.map(
+			(variant) =>
+				`${flyer.urls[variant]} ${Math.min(FLYER_VARIANTS[variant], flyer.width)}w`,
+		)
+		.join(", ");
+}
@@ -0,0 +1,554 @@
+/**
+ * @fileoverview Recurrence rules for repeating events.
+ *
+ * Supports the subset of RFC 5545 RRULEs that covers how DIY events actually
+ * repeat: daily, weekly (on one or more weekdays) and monthly (on days of the
+ * month, or on the "first Thursday"/"last Friday" style), with an optional
+ * INTERVAL and either COUNT or UNTIL. Exception dates (EXDATE) are Portland
+ * calendar dates on which an occurrence is skipped.
+ *
+ * Occurrences are expanded in Portland wall-clock time, so a weekly 8 PM
+ * show stays at 8 PM across daylight saving changes. As in RFC 5545, the
+ * event's own start always counts as the first occurrence.
+ */
+
+import {
+	formatEventDate,
+	fromZonedDateValue,
+	getZonedParts,
+	toZonedDateValue,
+	zonedPartsToDate,
+} from "~/shared/time";
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/**
+ * A weekday, optionally limited to its nth (or, when negative, nth-to-last)
+ * occurrence in a month: `{ weekday: "TH", ordinal: 1 }` is "first Thursday".
+ */
+export type WeekdayRule = { weekday: Weekday; ordinal: number | null };
+
+/**
+ * A parsed recurrence rule. `byDay` and `byMonthDay` are empty when the rule
+ * repeats on the start date's weekday or day of month.
+ */
+export type RecurrenceRule = {
+	freq: RecurrenceFrequency;
+	interval: number;
+	byDay: WeekdayRule[];
+	byMonthDay: number[];
+	count: number | null;
+	until: Date | null;
+};
+
+/** Most occurrences a COUNT-limited rule may produce. */
+export const MAX_RECURRENCE_COUNT = 500;
+
+/** Largest INTERVAL accepted. */
+export const MAX_RECURRENCE_INTERVAL = 99;
+
+/** Most exception dates a series may have. */
+export const MAX_RECURRENCE_EXCEPTIONS = 100;
+
+/** Upper bound on periods walked while expanding, against runaway rules. */
+const MAX_PERIODS = 10_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+	MO: "Monday",
+	TU: "Tuesday",
+	WE: "Wednesday",
+	TH: "Thursday",
+	FR: "Friday",
+	SA: "Saturday",
+	SU: "Sunday",
+};
+
+const ORDINAL_NAMES: Record<number, string> = {
+	1: "first",
+	2: "second",
+	3: "third",
+	4: "fourth",
+	5: "fifth",
+	[-1]: "last",
+	[-2]: "second-to-last",
+};
+
+/** Days since the Unix epoch for a calendar date. */
+const toDayNumber = (year: number, month: number, day: number) =>
+	Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+
+/** Index into `WEEKDAYS` (Monday = 0) for a day number. */
+const weekdayIndex = (dayNumber: number) => (((dayNumber + 3) % 7) + 7) % 7;
+
+const daysInMonth = (year: number, monthIndex: number) =>
+	new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+const parseInteger = (value: string, min: number, max: number) => {
+	if (!/^[+-]?\d{1,4}$/.test(value)) return null;
+	const n = Number(value);
+	return n >= min && n <= max ? n : null;
+};
+
+/**
+ * Parses an UNTIL value: a UTC date-time (`20251231T075959Z`), or a date
+ * (`20251231`) meaning the end of that Portland day.
+ */
+function parseUntil(value: string): Date | null {
+	const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+	if (dateTime) {
+		const [, y, mo, d, h, mi, s] = dateTime.map(Number);
+		const date = new Date(
+			Date.UTC(y ?? 0, (mo ?? 1) - 1, d ?? 0, h ?? 0, mi ?? 0, s ?? 0),
+		);
+		return Number.isNaN(date.getTime()) ? null : date;
+	}
+
+	const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+	if (dateOnly) {
+		const end = fromZonedDateValue(
+			`${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}`,
+			1,
+		);
+		return end ? new Date(end.getTime() - 1000) : null;
+	}
+	return null;
+}
+
+const formatUntil = (date: Date) =>
+	`${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+
+/**
+ * Parses an RRULE string (with or without the `RRULE:` prefix).
+ *
+ * @param value - e.g. "FREQ=MONTHLY;BYDAY=1TH"
+ * @returns The rule, or null when it's malformed or outside the supported
+ *   subset
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+	const parts = value
+		.trim()
+		.replace(/^RRULE:/i, "")
+		.split(";")
+		.filter(Boolean);
+
+	const fields = new Map<string, string>();
+	for (const part of parts) {
+		const [key, val, ...rest] = part.split("=");
+		if (!key || !val || rest.length > 0) return null;
+		const name = key.toUpperCase();
+		if (fields.has(name)) return null;
+		fields.set(name, val.toUpperCase());
+	}
+
+	const freq = fields.get("FREQ");
+	if (!RECURRENCE_FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+		return null;
+	}
+
+	const rule: RecurrenceRule = {
+		freq: freq as RecurrenceFrequency,
+		interval: 1,
+		byDay: [],
+		byMonthDay: [],
+		count: null,
+		until: null,
+	};
+
+	for (const [name, val] of fields) {
+		switch (name) {
+			case "FREQ":
+				break;
+			case "WKST":
+				// Only Monday week starts (the default) are supported
+				if (val !== "MO") return null;
+				break;
+			case "INTERVAL": {
+				const interval = parseInteger(val, 1, MAX_RECURRENCE_INTERVAL);
+				if (interval === null) return null;
+				rule.interval = interval;
+				break;
+			}
+			case "COUNT": {
+				const count = parseInteger(val, 1, MAX_RECURRENCE_COUNT);
+				if (count === null) return null;
+				rule.count = count;
+				break;
+			}
+			case "UNTIL": {
+				rule.until = parseUntil(val);
+				if (!rule.until) return null;
+				break;
+			}
+			case "BYDAY": {
+				for (const item of val.split(",")) {
+					const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item);
+					if (!match) return null;
+					const ordinal = match[1] ? parseInteger(match[1], -5, 5) : null;
+					if (match[1] && !ordinal) return null;
+					rule.byDay.push({ weekday: match[2] as Weekday, ordinal });
+				}
+				break;
+			}
+			case "BYMONTHDAY": {
+				for (const item of val.split(",")) {
+					const day = parseInteger(item, -31, 31);
+					if (!day) return null;
+					rule.byMonthDay.push(day);
+				}
+				break;
+			}
+			default:
+				return null;
+		}
+	}
+
+	if (rule.count !== null && rule.until !== null) return null;
+	if (rule.freq === "DAILY" && (rule.byDay.length || rule.byMonthDay.length)) {
+		return null;
+	}
+	if (
+		rule.freq === "WEEKLY" &&
+		(rule.byMonthDay.length || rule.byDay.some((d) => d.ordinal !== null))
+	) {
+		return null;
+	}
+	if (rule.freq === "MONTHLY" && rule.byDay.length && rule.byMonthDay.length) {
+		return null;
+	}
+
+	return rule;
+}
+
+/**
+ * Serializes a rule back to an RRULE value (without the `RRULE:` prefix).
+ *
+ * @param rule - The rule to serialize
+ * @returns e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+	const parts = [`FREQ=${rule.freq}`];
+	if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+	if (rule.byDay.length) {
+		parts.push(
+			`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ""}${d.weekday}`).join(",")}`,
+		);
+	}
+	if (rule.byMonthDay.length) {
+		parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+	}
+	if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+	if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+	return parts.join(";");
+}
+
+/**
+ * Returns the weekday rule matching a date's position in its month, for
+ * "monthly on the nth weekday" series: the fifth weekday of a month is
+ * treated as the last one, since not every month has a fifth.
+ *
+ * @param startsAt - The series start
+ * @returns e.g. `{ weekday: "TH", ordinal: 1 }` for the first Thursday
+ */
+export function monthlyWeekdayFor(startsAt: Date): WeekdayRule {
+	const p = getZonedParts(startsAt);
+	const weekday = WEEKDAYS[weekdayIndex(toDayNumber(p.year, p.month, p.day))];
+	const nth = Math.ceil(p.day / 7);
+	const isLast = p.day + 7 > daysInMonth(p.year, p.month - 1);
+	return {
+		weekday: weekday ?? "MO",
+		ordinal: nth >= 5 || (nth === 4 && isLast) ? -1 : nth,
+	};
+}
+
+/**
+ * Candidate day numbers for one period of a rule, ascending.
+ */
+function periodDays(
+	rule: RecurrenceRule,
+	start: { dayNumber: number; year: number; month: number; day: number },
+	period: number,
+): number[] {
+	switch (rule.freq) {
+		case "DAILY":
+			return [start.dayNumber + period * rule.interval];
+
+		case "WEEKLY": {
+			const weekStart =
+				start.dayNumber -
+				weekdayIndex(start.dayNumber) +
+				period * 7 * rule.interval;
+			const weekdays = rule.byDay.length
+				? rule.byDay.map((d) => WEEKDAYS.indexOf(d.weekday))
+				: [weekdayIndex(start.dayNumber)];
+			return [...new Set(weekdays)]
+				.sort((a, b) => a - b)
+				.map((i) => weekStart + i);
+		}
+
+		case "MONTHLY": {
+			const monthIndex =
+				start.year * 12 + (start.month - 1) + period * rule.interval;
+			const year = Math.floor(monthIndex / 12);
+			const month = monthIndex % 12;
+			const length = daysInMonth(year, month);
+			const first = toDayNumber(year, month + 1, 1);
+			const days = new Set<number>();
+
+			if (rule.byDay.length) {
+				for (const { weekday, ordinal } of rule.byDay) {
+					const offset =
+						(WEEKDAYS.indexOf(weekday) - weekdayIndex(first) + 7) % 7;
+					const matches: number[] = [];
+					for (let d = offset; d < length; d += 7) matches.push(first + d);
+					if (ordinal === null) {
+						for (const d of matches) days.add(d);
+					} else {
+						const d = matches.at(ordinal > 0 ? ordinal - 1 : ordinal);
+						if (d !== undefined && matches.length >= Math.abs(ordinal)) {
+							days.add(d);
+						}
+					}
+				}
+			} else {
+				for (const monthDay of rule.byMonthDay.length
+					? rule.byMonthDay
+					: [start.day]) {
+					const day = monthDay > 0 ? monthDay : length + monthDay + 1;
+					if (day >= 1 && day <= length) days.add(first + day - 1);
+				}
+			}
+			return [...days].sort((a, b) => a - b);
+		}
+	}
+}
+
+/**
+ * Options for expanding a series into occurrences.
+ */
+export type ExpandOptions = {
+	/** Start of the series (its first occurrence) */
+	startsAt: Date;
+	rule: RecurrenceRule;
+	/** Portland dates (`YYYY-MM-DD`) whose occurrences are skipped */
+	exceptions?: readonly string[];
+	/** Only return occurrences starting at or after this instant */
+	after?: Date | null;
+	/** Only return occurrences starting before this instant */
+	before: Date;
+	/** Stop after this many occurrences */
+	limit?: number;
+};
+
+/**
+ * Expands a series into the start instants of its occurrences, ascending.
+ *
+ * @returns Occurrence starts within the requested range
+ */
+export function expandRecurrence({
+	startsAt,
+	rule,
+	exceptions = [],
+	after = null,
+	before,
+	limit = Number.POSITIVE_INFINITY,
+}: ExpandOptions): Date[] {
+	const results: Date[] = [];
+	const skipped = new Set(exceptions);
+	const p = getZonedParts(startsAt);
+	const start = {
+		dayNumber: toDayNumber(p.year, p.month, p.day),
+		year: p.year,
+		month: p.month,
+		day: p.day,
+	};
+
+	let count = 0;
+	const emit = (instant: Date) => {
+		count += 1;
+		if (
+			(!after || instant >= after) &&
+			!skipped.has(toZonedDateValue(instant))
+		) {
+			results.push(instant);
+		}
+	};
+
+	// The series start is always the first occurrence
+	if (startsAt >= before || (rule.until && startsAt > rule.until)) {
+		return results;
+	}
+	emit(startsAt);
+	if (results.length >= limit) return results;
+
+	// Without COUNT, periods before the window can be skipped outright
+	let firstPeriod = 0;
+	if (rule.count === null && after && after > startsAt) {
+		const a = getZonedParts(after);
+		const afterDay = toDayNumber(a.year, a.month, a.day);
+		const elapsed =
+			rule.freq === "DAILY"
+				? afterDay - start.dayNumber
+				: rule.freq === "WEEKLY"
+					? Math.floor((afterDay - start.dayNumber) / 7)
+					: (a.year - start.year) * 12 + (a.month - start.month);
+		firstPeriod = Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+	}
+
+	for (
+		let period = firstPeriod;
+		period < firstPeriod + MAX_PERIODS;
+		period += 1
+	) {
+		for (const dayNumber of periodDays(rule, start, period)) {
+			if (dayNumber <= start.dayNumber) continue;
+
+			const date = new Date(dayNumber * DAY_MS);
+			const instant = zonedPartsToDate({
+				year: date.getUTCFullYear(),
+				month: date.getUTCMonth() + 1,
+				day: date.getUTCDate(),
+				hour: p.hour,
+				minute: p.minute,
+				second: p.second,
+			});
+
+			if (
+				instant >= before ||
+				(rule.until && instant > rule.until) ||
+				(rule.count !== null && count >= rule.count)
+			) {
+				return results;
+			}
+			emit(instant);
+			if (results.length >= limit) return results;
+		}
+	}
+	return results;
+}
+
+/**
+ * Returns when the last occurrence of a series starts, or null when the
+ * series repeats forever.
+ *
+ * @param startsAt - Start of the series
+ * @param rule - The series' rule
+ * @param exceptions - Skipped Portland dates
+ */
+export function getLastOccurrence(
+	startsAt: Date,
+	rule: RecurrenceRule,
+	exceptions: readonly string[] = [],
+): Date | null {
+	if (rule.count === null && rule.until === null) {
+		return null;
+	}
+
+	const occurrences = expandRecurrence({
+		startsAt,
+		rule,
+		exceptions,
+		before: rule.until ? new Date(rule.until.getTime() + 1) : new Date(8.64e15),
+	});
+	return occurrences.at(-1) ?? startsAt;
+}
+
+const joinWords = (words: string[]) =>
+	words.length <= 1
+		? (words[0] ?? "")
+		: `${words.slice(0, -1).join(", ")} and ${words.at(-1)}`;
+
+const ordinalDay = (day: number): string => {
+	if (day === -1) return "last day";
+	if (day < 0) return `${ordinalDay(-day)}-to-last day`;
+	const suffix =
+		day % 100 >= 11 && day % 100 <= 13
+			? "th"
+			: (["th", "st", "nd", "rd"][day % 10] ?? "th");
+	return `${day}${suffix}`;
+};
+
+/**
+ * Describes a rule in plain English for event pages.
+ *
+ * @param rule - The series' rule
+ * @param startsAt - Start of the series, for rules that repeat on its
+ *   weekday or day of month
+ * @returns e.g. "Repeats every 2 weeks on Monday and Wednesday, 10 times"
+ */
+export function describeRecurrence(
+	rule: RecurrenceRule,
+	startsAt: Date,
+): string {
+	const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+	let text =
+		rule.interval === 1
+			? `Repeats every ${unit}`
+			: `Repeats every ${rule.interval} ${unit}s`;
+
+	const p = getZonedParts(startsAt);
+	if (rule.freq === "WEEKLY") {
+		const weekdays = rule.byDay.length
+			? rule.byDay.map((d) => d.weekday)
+			: [WEEKDAYS[weekdayIndex(toDayNumber(p.year, p.month, p.day))] ?? "MO"];
+		const ordered = WEEKDAYS.filter((w) => weekdays.includes(w));
+		text += ` on ${joinWords(ordered.map((w) => WEEKDAY_NAMES[w]))}`;
+	} else if (rule.freq === "MONTHLY") {
+		if (rule.byDay.length) {
+			text += ` on ${joinWords(
+				rule.byDay.map(({ weekday, ordinal }) =>
+					ordinal === null
+						? `every ${WEEKDAY_NAMES[weekday]}`
+						: `the ${ORDINAL_NAMES[ordinal] ?? `${ordinal}th`} ${WEEKDAY_NAMES[weekday]}`,
+				),
+			)}`;
+		} else {
+			const days = rule.byMonthDay.length ? rule.byMonthDay : [p.day];
+			text += ` on the ${joinWords(days.map(ordinalDay))}`;
+		}
+	}
+
+	if (rule.count !== null) {
+		text += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+	} else if (rule.until) {
+		text += `, until ${formatEventDate(rule.until)}`;
+	}
+	return text;
+}
+
+/**
+ * Returns the path of an event's page, pointing at one of its occurrences
+ * when `occurrenceStart` is given.
+ *
+ * @param id - The event's ID
+ * @param occurrenceStart - Original start of the occurrence, if any
+ */
+export function eventPath(id: string, occurrenceStart?: Date | null): string {
+	return occurrenceStart
+		? `/events/${id}?occurrence=${encodeURIComponent(occurrenceStart.toISOString())}`
+		: `/events/${id}`;
+}
+
+/**
+ * Parses the `occurrence` search parameter written by `eventPath`.
+ *
+ * @param value - The raw parameter
+ * @returns The occurrence's original start, or undefined when missing or
+ *   malformed
+ */
+export function parseOccurrenceParam(
+	value: string | string[] | undefined,
+): Date | undefined {
+	if (typeof value !== "string") {
+		return undefined;
+	}
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
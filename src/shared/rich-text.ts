@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Rich-text document format for event descriptions.
+ *
+ * Descriptions are stored as a small, closed subset of the ProseMirror JSON
+ * produced by the TipTap editor: paragraphs, level 2-3 headings, lists,
+ * block quotes and hard breaks, with bold/italic/strike/link marks. Nothing
+ * is ever stored or rendered as HTML.
+ *
+ * `sanitizeRichText` rebuilds a document from untrusted input, keeping only
+ * known nodes, marks and attributes and dropping links that aren't plain
+ * http(s) or mailto URLs. It runs on both the server (through
+ * `richTextDocSchema`) and again in the renderer.
+ */
+
+import { z } from "zod";
+
+export type RichTextMark =
+	| { type: "bold" }
+	| { type: "italic" }
+	| { type: "strike" }
+	| { type: "link"; attrs: { href: string } };
+
+export type RichTextInline =
+	| { type: "text"; text: string; marks?: RichTextMark[] }
+	| { type: "hardBreak" };
+
+export type RichTextListItem = {
+	type: "listItem";
+	content: RichTextBlock[];
+};
+
+export type RichTextBlock =
+	| { type: "paragraph"; content?: RichTextInline[] }
+	| { type: "heading"; attrs: { level: 2 | 3 }; content?: RichTextInline[] }
+	| { type: "blockquote"; content: RichTextBlock[] }
+	| { type: "bulletList"; content: RichTextListItem[] }
+	| { type: "orderedList"; content: RichTextListItem[] };
+
+export type RichTextDoc = {
+	type: "doc";
+	content: RichTextBlock[];
+};
+
+/** Deepest block nesting kept; anything below is dropped. */
+export const MAX_RICH_TEXT_DEPTH = 8;
+/** Most nodes a description may contain. */
+export const MAX_RICH_TEXT_NODES = 2000;
+/** Most characters of text a description may contain. */
+export const MAX_RICH_TEXT_LENGTH = 10_000;
+/** Longest link URL kept. */
+const MAX_HREF_LENGTH = 2048;
+
+const ALLOWED_LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+/**
+ * C0/C1 control characters other than tab and newline.
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching control characters is the point
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g;
+
+type Budget = { nodes: number; textLength: number; exceeded: boolean };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const childrenOf = (node: Record<string, unknown>): unknown[] =>
+	Array.isArray(node.content) ? node.content : [];
+
+/**
+ * Counts a node against the budget, returning false once it's used up.
+ */
+function spend(budget: Budget, textLength = 0): boolean {
+	budget.nodes += 1;
+	budget.textLength += textLength;
+	if (
+		budget.nodes > MAX_RICH_TEXT_NODES ||
+		budget.textLength > MAX_RICH_TEXT_LENGTH
+	) {
+		budget.exceeded = true;
+	}
+	return !budget.exceeded;
+}
+
+/**
+ * Returns a normalized link URL, or null when it isn't a safe absolute
+ * http(s)/mailto URL. Whitespace and control characters are removed first,
+ * since browsers ignore them too (e.g. "java\nscript:").
+ *
+ * @param href - An untrusted link target
+ * @returns The normalized URL or null
+ */
+export function sanitizeHref(href: unknown): string | null {
+	if (typeof href !== "string") {
+		return null;
+	}
+
+	const cleaned = href.replace(CONTROL_CHARACTERS, "").replace(/\s/g, "");
+	if (!cleaned || cleaned.length > MAX_HREF_LENGTH) {
+		return null;
+	}
+
+	try {
+		const url = new URL(cleaned);
+		return ALLOWED_LINK_PROTOCOLS.has(url.protocol) ? url.href : null;
+	} catch {
+		return null;
+	}
+}
+
+function sanitizeMarks(marks: unknown): RichTextMark[] {
+	if (!Array.isArray(marks)) {
+		return [];
+	}
+
+	const result: RichTextMark[] = [];
+	const seen = new Set<string>();
+	for (const mark of marks) {
+		if (
+			!isRecord(mark) ||
+			typeof mark.type !== "string" ||
+			seen.has(mark.type)
+		) {
+			continue;
+		}
+
+		if (
+			mark.type === "bold" ||
+			mark.type === "italic" ||
+			mark.type === "strike"
+		) {
+			result.push({ type: mark.type });
+			seen.add(mark.type);
+		} else if (mark.type === "link") {
+			const href = sanitizeHref(isRecord(mark.attrs) ? mark.attrs.href : null);
+			if (href) {
+				result.push({ type: "link", attrs: { href } });
+				seen.add(mark.type);
+			}
+		}
+	}
+	return result;
+}
+
+function sanitizeInlines(nodes: unknown[], budget: Budget): RichTextInline[] {
+	const result: RichTextInline[] = [];
+	for (const node of nodes) {
+		if (!isRecord(node)) {
+			continue;
+		}
+
+		if (node.type === "hardBreak") {
+			if (spend(budget)) result.push({ type: "hardBreak" });
+		} else if (node.type === "text" && typeof node.text === "string") {
+			const text = node.text.replace(CONTROL_CHARACTERS, "");
+			if (!text || !spend(budget, text.length)) {
+				continue;
+			}
+			const marks = sanitizeMarks(node.marks);
+			result.push(
+				marks.length > 0
+					? { type: "text", text, marks }
+					: { type: "text", text },
+			);
+		}
+	}
+	return result;
+}
+
+function sanitizeListItems(
+	nodes: unknown[],
+	depth: number,
+	budget: Budget,
+): RichTextListItem[] {
+	const result: RichTextListItem[] = [];
+	for (const node of nodes) {
+		if (!isRecord(node) || node.type !== "listItem" || !spend(budget)) {
+			continue;
+		}
+		const content = sanitizeBlocks(childrenOf(node), depth + 1, budget);
+		// List items must hold at least one block to be valid ProseMirror
+		result.push({
+			type: "listItem",
+			content: content.length > 0 ? content : [{ type: "paragraph" }],
+		});
+	}
+	return result;
+}
+
+function sanitizeBlocks(
+	nodes: unknown[],
+	depth: number,
+	budget: Budget,
+): RichTextBlock[] {
+	if (depth > MAX_RICH_TEXT_DEPTH) {
+		return [];
+	}
+
+	const result: RichTextBlock[] = [];
+	for (const node of nodes) {
+		if (!isRecord(node) || budget.exceeded) {
+			continue;
+		}
+
+		switch (node.type) {
+			case "paragraph": {
+				if (!spend(budget)) break;
+				const content = sanitizeInlines(childrenOf(node), budget);
+				result.push(
+					content.length > 0
+						? { type: "paragraph", content }
+						: { type: "paragraph" },
+				);
+				break;
+			}
+			case "heading": {
+				if (!spend(budget)) break;
+				const requested = isRecord(node.attrs) ? Number(node.attrs.level) : 2;
+				const level = requested >= 3 ? 3 : 2;
+				const content = sanitizeInlines(childrenOf(node), budget);
+				result.push({
+					type: "heading",
+					attrs: { level },
+					...(content.length > 0 && { content }),
+				});
+				break;
+			}
+			case "blockquote": {
+				if (!spend(budget)) break;
+				const content = sanitizeBlocks(childrenOf(node), depth + 1, budget);
+				if (content.length > 0) result.push({ type: "blockquote", content });
+				break;
+			}
+			case "bulletList":
+			case "orderedList": {
+				if (!spend(budget)) break;
+				const content = sanitizeListItems(childrenOf(node), depth, budget);
+				if (content.length > 0) result.push({ type: node.type, content });
+				break;
+			}
+			default:
+				// Unknown block types (images, code, raw HTML, ...) are dropped
+				break;
+		}
+	}
+	return result;
+}
+
+/**
+ * The outcome of sanitizing an untrusted document.
+ */
+export type SanitizeResult =
+	| { ok: true; doc: RichTextDoc }
+	| { ok: false; error: string };
+
+/**
+ * Rebuilds a rich-text document from untrusted input.
+ *
+ * Unknown nodes, marks and attributes are dropped, headings are clamped to
+ * levels 2-3, and links are kept only for http(s) and mailto URLs. Documents
+ * that aren't a `doc` node, or that exceed the size limits, are rejected
+ * rather than truncated.
+ *
+ * @param input - Untrusted JSON, e.g. from the editor or an API call
+ * @returns The cleaned document, or an error message
+ */
+export function sanitizeRichText(input: unknown): SanitizeResult {
+	if (!isRecord(input) || input.type !== "doc") {
+		return { ok: false, error: "Description is not a valid document" };
+	}
+
+	const budget: Budget = { nodes: 0, textLength: 0, exceeded: false };
+	const content = sanitizeBlocks(childrenOf(input), 1, budget);
+
+	if (budget.exceeded) {
+		return { ok: false, error: "Description is too long" };
+	}
+	return { ok: true, doc: { type: "doc", content } };
+}
+
+function inlineText(nodes: RichTextInline[] | undefined): string {
+	return (nodes ?? [])
+		.map((node) => (node.type === "text" ? node.text : "\n"))
+		.join("");
+}
+
+function blocksText(blocks: RichTextBlock[]): string[] {
+	return blocks.flatMap((block) => {
+		switch (block.type) {
+			case "paragraph":
+			case "heading":
+				return [inlineText(block.content)];
+			case "blockquote":
+				return blocksText(block.content);
+			case "bulletList":
+			case "orderedList":
+				return [
+					block.content
+						.map((item) => blocksText(item.content).join("\n"))
+						.join("\n"),
+				];
+		}
+	});
+}
+
+/**
+ * Serializes a document to plain text, with blank lines between blocks.
+ * Used for search indexing and meta descriptions.
+ *
+ * @param doc - A sanitized document
+ * @returns The document's text content
+ */
+export function richTextToPlainText(doc: RichTextDoc): string {
+	return blocksText(doc.content)
+		.filter((text) => text.trim())
+		.join("\n\n");
+}
+
+/**
+ * Validates and sanitizes an optional rich-text document.
+ *
+ * `null` and documents without any text become `null`, so an untouched
+ * editor doesn't store an empty description.
+ */
+export const richTextDocSchema = z
+	.unknown()
+	.transform((value, ctx): RichTextDoc | null => {
+		if (value === null || value === undefined) {
+			return null;
+		}
+
+		const result = sanitizeRichText(value);
+		if (!result.ok) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+			return z.NEVER;
+		}
+		return richTextToPlainText(result.doc).trim() ? result.doc : null;
+	});
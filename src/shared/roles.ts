@@ -0,0 +1,43 @@
+/**
+ * @fileoverview User roles and what they allow.
+ *
+ * Roles are ranked: every signed-in user is an `organizer` who can post and
+ * manage their own events, `moderator`s can also act on other people's
+ * content, and `admin`s can do everything, including curating tags and
+ * granting roles.
+ */
+
+/** Roles from least to most privileged. */
+export const USER_ROLES = ["organizer", "moderator", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+	organizer: "Organizer",
+	moderator: "Moderator",
+	admin: "Admin",
+};
+
+/**
+ * Whether a user with `role` has at least the permissions of `required`.
+ *
+ * @param role - The user's role; unknown values count as `organizer`
+ * @param required - The least privileged role allowed
+ */
+export function hasRole(role: string | null | undefined, required: UserRole) {
+	const rank = USER_ROLES.indexOf(role as UserRole);
+	return Math.max(rank, 0) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Reads a role from untrusted input, such as a session token or a
+ * command-line argument.
+ *
+ * @returns The role, or null when it isn't one
+ */
+export function parseUserRole(value: unknown): UserRole | null {
+	return typeof value === "string" &&
+		(USER_ROLES as readonly string[]).includes(value)
+		? (value as UserRole)
+		: null;
+}
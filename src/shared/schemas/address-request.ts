@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+/**
+ * Where a request to see a private address stands. Declined requests are
+ * deleted rather than kept.
+ */
+export const ADDRESS_REQUEST_STATUSES = ["pending", "approved"] as const;
+
+export type AddressRequestStatus = (typeof ADDRESS_REQUEST_STATUSES)[number];
+
+export const addressRequestCreateSchema = z.object({
+	eventId: z.string().min(1),
+});
+
+export const addressRequestListSchema = z.object({
+	eventId: z.string().min(1),
+});
+
+export const addressRequestDecideSchema = z.object({
+	eventId: z.string().min(1),
+	userId: z.string().min(1),
+	approve: z.boolean(),
+});
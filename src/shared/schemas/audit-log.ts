@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { SearchParamsRecord } from "~/shared/event-filters";
+import { dateValueSchema } from "~/shared/schemas/event";
+
+/** How long audit log entries are kept when no retention is configured. */
+export const DEFAULT_AUDIT_LOG_RETENTION_DAYS = 365;
+
+/** Audit log entries per page. */
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+/**
+ * The fields an update changed, keyed by column, with their values before
+ * and after (redacted like inputs).
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Filters for browsing the audit log: who acted (by email), which
+ * procedure (any part of its path, e.g. "event."), and a range of Portland
+ * dates.
+ */
+export const auditLogFiltersSchema = z.object({
+	actor: z.string().trim().min(1).max(255).optional(),
+	path: z.string().trim().min(1).max(128).optional(),
+	from: dateValueSchema.optional(),
+	to: dateValueSchema.optional(),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+
+export const auditLogListSchema = auditLogFiltersSchema.extend({
+	/** ID of the last entry on the previous page; IDs sort by time */
+	cursor: z.string().min(1).optional(),
+	limit: z.number().int().min(1).max(100).default(AUDIT_LOG_PAGE_SIZE),
+});
+
+/**
+ * Reads audit log filters from a page's search params, ignoring blank or
+ * invalid ones.
+ */
+export function parseAuditLogFilters(
+	params: SearchParamsRecord,
+): AuditLogFilters {
+	const filters: AuditLogFilters = {};
+	for (const key of ["actor", "path", "from", "to"] as const) {
+		const param = params[key];
+		const value = (Array.isArray(param) ? param[0] : param)?.trim();
+		if (!value) continue;
+		const single = auditLogFiltersSchema.safeParse({ [key]: value });
+		if (single.success) {
+			Object.assign(filters, single.data);
+		}
+	}
+	return filters;
+}
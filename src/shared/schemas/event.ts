@@ -1,6 +1,113 @@
 import { z } from "zod";
+import {
+	ACCESSIBILITY_FEATURES,
+	AGE_POLICIES,
+	MAX_PRICE_CENTS,
+	PRICE_KINDS,
+} from "~/shared/event-details";
+import {
+	MAX_RECURRENCE_EXCEPTIONS,
+	parseRecurrenceRule,
+} from "~/shared/recurrence";
+import { richTextDocSchema } from "~/shared/rich-text";
+import { PORTLAND_QUADRANTS } from "~/shared/schemas/venue";
+import { tagNameListSchema, tagSlugListSchema } from "~/shared/tags";
+import { fromZonedDateValue } from "~/shared/time";
 
-export const eventSchema = z.object({
+/**
+ * Lifecycle states of an event. `deleted` is a soft delete: the row is kept
+ * so the organizer can restore it, but nobody else can see it.
+ */
+export const EVENT_STATUSES = [
+	"scheduled",
+	"postponed",
+	"cancelled",
+	"deleted",
+] as const;
+
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+/**
+ * States of a single occurrence of a recurring event. Cancelling or deleting
+ * the whole series is done on the event itself.
+ */
+export const OCCURRENCE_STATUSES = ["scheduled", "cancelled"] as const;
+
+export type OccurrenceStatus = (typeof OCCURRENCE_STATUSES)[number];
+
+/**
+ * How an event goes up: right away, at its `publishAt`, or as a draft that
+ * stays hidden until its organizer publishes it.
+ */
+export const PUBLISH_MODES = ["now", "schedule", "draft"] as const;
+
+export type PublishMode = (typeof PUBLISH_MODES)[number];
+
+/**
+ * Whether an event is public: not a draft, and past its `publishAt` if it
+ * has one. Scheduled events become public on their own once that passes.
+ */
+export const isEventPublished = (
+	event: { isDraft: boolean; publishAt: Date | null },
+	now = new Date(),
+) =>
+	!event.isDraft &&
+	(event.publishAt === null || event.publishAt.getTime() <= now.getTime());
+
+/**
+ * How far in the past an event may start and still be accepted. Leaves room
+ * for posting a show that is already underway without allowing stale listings.
+ */
+export const EVENT_START_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Largest capacity an organizer can set. Anything bigger isn't a DIY show.
+ */
+export const MAX_EVENT_CAPACITY = 10_000;
+
+/**
+ * A Portland calendar date as entered in `<input type="date">`.
+ */
+export const dateValueSchema = z
+	.string()
+	.refine((value) => fromZonedDateValue(value) !== null, "Invalid date");
+
+/**
+ * How an event repeats: an RRULE in the supported subset (see
+ * `~/shared/recurrence`) plus Portland dates to skip.
+ */
+export const recurrenceSchema = z.object({
+	rule: z
+		.string()
+		.trim()
+		.max(255, "Repeat rule is too long")
+		.refine((rule) => parseRecurrenceRule(rule) !== null, {
+			message: "Repeat rule isn't supported",
+		}),
+	exceptions: z
+		.array(dateValueSchema)
+		.max(MAX_RECURRENCE_EXCEPTIONS, "Too many skipped dates")
+		.transform((dates) => [...new Set(dates)].sort())
+		.default([]),
+});
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+/**
+ * A price in whole cents.
+ */
+const priceCentsSchema = z
+	.number({ invalid_type_error: "Price must be a number" })
+	.int("Price must be in whole cents")
+	.min(0, "Price can't be negative")
+	.max(MAX_PRICE_CENTS, "Price is too high");
+
+/**
+ * Field definitions shared by every event input. Kept separate from
+ * `eventSchema` so other inputs can `.extend()` them before the cross-field
+ * refinements are applied.
+ */
+export const eventFieldsSchema = z.object({
 	title: z
 		.string()
 		.trim()
@@ -9,4 +116,385 @@ export const eventSchema = z.object({
 		.refine((s) => !/[\r\n\t]/.test(s), {
 			message: "Title must be a single line",
 		}),
+	description: richTextDocSchema.default(null),
+	startsAt: z.date({
+		required_error: "Start time is required",
+		invalid_type_error: "Start time is invalid",
+	}),
+	endsAt: z.date({ invalid_type_error: "End time is invalid" }).nullable(),
+	venueId: z.string().min(1).nullable().default(null),
+	flyerId: z.string().min(1).nullable().default(null),
+	flyerAlt: z
+		.string()
+		.trim()
+		.max(300, "Flyer description is too long")
+		.nullable()
+		.default(null),
+	tags: tagNameListSchema.default([]),
+	priceKind: z.enum(PRICE_KINDS).nullable().default(null),
+	priceMinCents: priceCentsSchema.nullable().default(null),
+	priceMaxCents: priceCentsSchema.nullable().default(null),
+	ticketUrl: z
+		.string()
+		.trim()
+		.max(2048, "Ticket link is too long")
+		.url("Ticket link must be a web address")
+		.refine((url) => /^https?:\/\//i.test(url), {
+			message: "Ticket link must start with http:// or https://",
+		})
+		.nullable()
+		.default(null),
+	agePolicy: z.enum(AGE_POLICIES).nullable().default(null),
+	accessibility: z
+		.array(z.enum(ACCESSIBILITY_FEATURES))
+		.transform((features) =>
+			ACCESSIBILITY_FEATURES.filter((feature) => features.includes(feature)),
+		)
+		.default([]),
+	capacity: z
+		.number({ invalid_type_error: "Capacity must be a number" })
+		.int("Capacity must be a whole number")
+		.min(1, "Capacity must be at least 1")
+		.max(MAX_EVENT_CAPACITY, "Capacity is too large")
+		.nullable()
+		.default(null),
+	recurrence: recurrenceSchema.nullable().default(null),
+	/** The organization the event is posted on behalf of, if any */
+	organizationId: z.string().min(1).nullable().default(null),
+	publish: z.enum(PUBLISH_MODES).default("now"),
+	/** When a scheduled event goes up; ignored in the other modes */
+	publishAt: z
+		.date({ invalid_type_error: "Publish time is invalid" })
+		.nullable()
+		.default(null),
+});
+
+/**
+ * Returns true when a start time is further in the past than the grace
+ * period allows.
+ */
+export const isStartTooFarInPast = (startsAt: Date) =>
+	startsAt.getTime() < Date.now() - EVENT_START_GRACE_MS;
+
+/**
+ * Cross-field checks on an event: it must end after it starts when an end
+ * time is given, any flyer must come with alt text for screen reader users,
+ * a repeat rule can't end before the event starts, a sliding scale needs
+ * both ends in order, and a scheduled announcement needs a time before the
+ * event.
+ */
+export function refineEvent(
+	value: {
+		startsAt: Date;
+		endsAt: Date | null;
+		flyerId: string | null;
+		flyerAlt: string | null;
+		recurrence: RecurrenceInput | null;
+		priceKind: string | null;
+		priceMinCents: number | null;
+		priceMaxCents: number | null;
+		publish: PublishMode;
+		publishAt: Date | null;
+	},
+	ctx: z.RefinementCtx,
+) {
+	if (value.publish === "schedule") {
+		if (!value.publishAt) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["publishAt"],
+				message: "Publish time is required",
+			});
+		} else if (value.publishAt.getTime() >= value.startsAt.getTime()) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["publishAt"],
+				message: "Publish time must be before the event starts",
+			});
+		}
+	}
+
+	if (value.priceKind === "sliding") {
+		if (value.priceMinCents === null || value.priceMaxCents === null) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["priceMaxCents"],
+				message: "A sliding scale needs a lowest and highest price",
+			});
+		} else if (value.priceMaxCents < value.priceMinCents) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["priceMaxCents"],
+				message: "The highest price must be at least the lowest",
+			});
+		}
+	}
+
+	const until = value.recurrence
+		? parseRecurrenceRule(value.recurrence.rule)?.until
+		: null;
+	if (until && until.getTime() < value.startsAt.getTime()) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["recurrence", "rule"],
+			message: "The repeat end date must be after the first date",
+		});
+	}
+
+	if (value.endsAt && value.endsAt.getTime() <= value.startsAt.getTime()) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["endsAt"],
+			message: "End time must be after the start time",
+		});
+	}
+
+	if (value.flyerId && !value.flyerAlt) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["flyerAlt"],
+			message: "Describe the flyer for people who can't see it",
+		});
+	}
+}
+
+/**
+ * Input for creating an event. New events must not start in the distant past.
+ */
+export const eventSchema = eventFieldsSchema.superRefine((value, ctx) => {
+	refineEvent(value, ctx);
+
+	if (isStartTooFarInPast(value.startsAt)) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["startsAt"],
+			message: "Start time can't be in the past",
+		});
+	}
+});
+
+export type EventInput = z.infer<typeof eventSchema>;
+
+/**
+ * Input for editing an event.
+ *
+ * `expectedUpdatedAt` is the `updatedAt` the editor loaded; the update is
+ * rejected if the event has changed since. The past-start check is left to
+ * the server, since an event that already happened may still need a typo
+ * fixed as long as its start time isn't moved.
+ */
+export const eventUpdateSchema = eventFieldsSchema
+	.extend({
+		id: z.string().min(1),
+		expectedUpdatedAt: z.date().nullable(),
+	})
+	.superRefine(refineEvent);
+
+export type EventUpdateInput = z.infer<typeof eventUpdateSchema>;
+
+/**
+ * Input for cancelling or postponing an event, with an optional note shown
+ * to attendees (e.g. "Moving to next month, same lineup").
+ */
+export const eventStatusChangeSchema = z.object({
+	id: z.string().min(1),
+	note: z
+		.string()
+		.trim()
+		.max(500, "Note is too long")
+		.nullish()
+		.transform((s) => (s ? s : null)),
+});
+
+/** Events per page in listings, unless a caller asks for another size. */
+export const EVENT_PAGE_SIZE = 20;
+
+/** Largest page a caller may request. */
+export const MAX_EVENT_PAGE_SIZE = 50;
+
+/**
+ * Position in the event list, just after the event it was taken from.
+ * Events are ordered by start time, then by ID to break ties.
+ */
+export type EventCursor = { startsAt: Date; id: string };
+
+/**
+ * Encodes the position after `event` as an opaque cursor string.
+ *
+ * @param event - The last event on a page
+ * @returns A cursor to pass back as `cursor` for the next page
+ */
+export const encodeEventCursor = (event: EventCursor) =>
+	`${event.startsAt.getTime()}_${event.id}`;
+
+/**
+ * Decodes a cursor produced by `encodeEventCursor`.
+ *
+ * @param cursor - An untrusted cursor string
+ * @returns The position, or null if the cursor is malformed
+ */
+export function decodeEventCursor(cursor: string): EventCursor | null {
+	const match = /^(-?\d{1,15})_(.{1,255})$/.exec(cursor);
+	if (!match?.[1] || !match[2]) {
+		return null;
+	}
+
+	const startsAt = new Date(Number(match[1]));
+	return Number.isNaN(startsAt.getTime()) ? null : { startsAt, id: match[2] };
+}
+
+/**
+ * Filters for event listings. Every field is optional; an event must match
+ * all of the given filters, any one of the given tags, and every one of the
+ * given accessibility features. Events with an unknown price or age policy
+ * don't match those filters.
+ *
+ * Dates are Portland calendar days (`YYYY-MM-DD`) rather than instants so
+ * the same value can live in the URL and in the query input. An event
+ * matches the range when any part of it falls between the start of `from`
+ * and the end of `to`.
+ */
+const eventFilterFields = {
+	from: dateValueSchema.optional(),
+	to: dateValueSchema.optional(),
+	tags: tagSlugListSchema.optional(),
+	quadrant: z.enum(PORTLAND_QUADRANTS).optional(),
+	price: z.enum(PRICE_KINDS).optional(),
+	allAges: z.boolean().optional(),
+	access: z
+		.array(z.enum(ACCESSIBILITY_FEATURES))
+		.min(1)
+		.max(ACCESSIBILITY_FEATURES.length)
+		.transform((features) =>
+			ACCESSIBILITY_FEATURES.filter((feature) => features.includes(feature)),
+		)
+		.optional(),
+	venue: z.string().min(1).max(255).optional(),
+};
+
+const refineDateRange = (
+	value: { from?: string; to?: string },
+	ctx: z.RefinementCtx,
+) => {
+	if (value.from && value.to && value.from > value.to) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["to"],
+			message: "End date must be on or after the start date",
+		});
+	}
+};
+
+export const eventFiltersSchema = z
+	.object(eventFilterFields)
+	.superRefine(refineDateRange);
+
+export type EventFilters = z.input<typeof eventFiltersSchema>;
+
+/**
+ * Input for paging through event listings, with optional filters. `cursor`
+ * comes from the previous page's `nextCursor`; omit it for the first page.
+ */
+export const eventListSchema = z
+	.object({
+		...eventFilterFields,
+		cursor: z
+			.string()
+			.transform((cursor, ctx) => {
+				const decoded = decodeEventCursor(cursor);
+				if (!decoded) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						message: "Invalid cursor",
+					});
+					return z.NEVER;
+				}
+				return decoded;
+			})
+			.nullish(),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(MAX_EVENT_PAGE_SIZE)
+			.default(EVENT_PAGE_SIZE),
+	})
+	.superRefine(refineDateRange);
+
+export type EventListInput = z.input<typeof eventListSchema>;
+
+/**
+ * Input for full-text event search.
+ */
+export const eventSearchSchema = z.object({
+	query: z
+		.string()
+		.trim()
+		.min(1, "Enter something to search for")
+		.max(200, "Search is too long"),
+	limit: z.number().int().min(1).max(MAX_EVENT_PAGE_SIZE).default(20),
+});
+
+/**
+ * Identifies one occurrence of a recurring event by its original start time.
+ */
+export const occurrenceRefSchema = z.object({
+	id: z.string().min(1),
+	occurrenceStart: z.date(),
+});
+
+/**
+ * Input for editing a single occurrence of a recurring event. Only the
+ * title and times can differ from the series.
+ */
+export const occurrenceUpdateSchema = occurrenceRefSchema
+	.extend({
+		title: eventFieldsSchema.shape.title,
+		startsAt: eventFieldsSchema.shape.startsAt,
+		endsAt: eventFieldsSchema.shape.endsAt,
+	})
+	.superRefine((value, ctx) => {
+		if (value.endsAt && value.endsAt.getTime() <= value.startsAt.getTime()) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["endsAt"],
+				message: "End time must be after the start time",
+			});
+		}
+	});
+
+export type OccurrenceUpdateInput = z.infer<typeof occurrenceUpdateSchema>;
+
+/**
+ * Input for cancelling a single occurrence, with an optional note.
+ */
+export const occurrenceCancelSchema = occurrenceRefSchema.extend({
+	note: eventStatusChangeSchema.shape.note,
+});
+
+/** Largest calendar file accepted for import, in characters. */
+export const MAX_CALENDAR_IMPORT_LENGTH = 1_000_000;
+
+/** Most events read from one imported calendar. */
+export const MAX_IMPORT_EVENTS = 200;
+
+/**
+ * Input for previewing an iCalendar import: the uploaded file's text.
+ */
+export const eventImportPreviewSchema = z.object({
+	calendar: z
+		.string()
+		.min(1, "The file is empty")
+		.max(MAX_CALENDAR_IMPORT_LENGTH, "The file is too large"),
+});
+
+/**
+ * Input for confirming an import: the same file plus the keys of the
+ * previewed events to publish.
+ */
+export const eventImportSchema = eventImportPreviewSchema.extend({
+	keys: z
+		.array(z.string())
+		.min(1, "Choose at least one event")
+		.max(MAX_IMPORT_EVENTS),
 });
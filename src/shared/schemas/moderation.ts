@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+/**
+ * Where an event stands in moderation. Events from untrusted organizers
+ * start `pending` and stay hidden until a moderator approves them;
+ * `rejected` events stay hidden until their organizer edits them, which
+ * sends them back for review.
+ */
+export const MODERATION_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type ModerationStatus = (typeof MODERATION_STATUSES)[number];
+
+export const MODERATION_STATUS_LABELS: Record<ModerationStatus, string> = {
+	pending: "Awaiting review",
+	approved: "Approved",
+	rejected: "Not approved",
+};
+
+/**
+ * Whether an event has passed moderation and isn't hidden by reports.
+ * Mirrors `approvedEventsWhere`.
+ */
+export const isEventApproved = (event: {
+	moderationStatus: ModerationStatus;
+	hiddenAt: Date | null;
+}) => event.moderationStatus === "approved" && !event.hiddenAt;
+
+/**
+ * Describes why an event is held back from the public by moderation, e.g.
+ * "Awaiting review".
+ *
+ * @returns The description, or null when the event is approved
+ */
+export function describeModerationHold(event: {
+	moderationStatus: ModerationStatus;
+	hiddenAt: Date | null;
+}): string | null {
+	if (event.moderationStatus !== "approved") {
+		return MODERATION_STATUS_LABELS[event.moderationStatus];
+	}
+	return event.hiddenAt ? "Hidden after reports" : null;
+}
+
+/** Longest rejection reason, in characters. */
+export const MAX_MODERATION_REASON_LENGTH = 500;
+
+/**
+ * A moderator's decision on a pending event. Rejections must say why, since
+ * the reason is sent to the organizer.
+ */
+export const moderationDecideSchema = z
+	.object({
+		eventId: z.string().min(1),
+		approve: z.boolean(),
+		reason: z.string().trim().max(MAX_MODERATION_REASON_LENGTH).optional(),
+	})
+	.refine((input) => input.approve || !!input.reason, {
+		message: "Say why the event was rejected",
+		path: ["reason"],
+	});
+
+export const moderationTrustSchema = z.object({
+	userId: z.string().min(1),
+	isTrusted: z.boolean(),
+});
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { normalizeTag } from "~/shared/tags";
+
+/**
+ * What a member of an organization may do. Editors post and edit the
+ * organization's events; owners can also edit its profile and manage its
+ * members and invitations.
+ */
+export const ORGANIZATION_ROLES = ["editor", "owner"] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+	editor: "Editor",
+	owner: "Owner",
+};
+
+/** Longest organization slug, in characters. */
+export const MAX_ORGANIZATION_SLUG_LENGTH = 60;
+
+/** How long an invitation can be accepted for, in days. */
+export const INVITATION_TTL_DAYS = 14;
+
+/**
+ * Turns an organization's name into a URL slug, e.g. "Rose City Zine
+ * Collective!" becomes "rose-city-zine-collective".
+ */
+export const toOrganizationSlug = (name: string) =>
+	normalizeTag(name.slice(0, MAX_ORGANIZATION_SLUG_LENGTH * 2))
+		.slice(0, MAX_ORGANIZATION_SLUG_LENGTH)
+		.replace(/-+$/, "");
+
+const organizationIdSchema = z.string().min(1);
+
+export const organizationProfileSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "Name is required")
+		.max(120, "Name is too long"),
+	description: z
+		.string()
+		.trim()
+		.max(2000, "Description is too long")
+		.nullish()
+		.transform((s) => (s ? s : null)),
+});
+
+/**
+ * A new organization. The slug is taken from the name unless one is given.
+ */
+export const organizationCreateSchema = organizationProfileSchema
+	.extend({
+		slug: z
+			.string()
+			.trim()
+			.max(MAX_ORGANIZATION_SLUG_LENGTH, "Address is too long")
+			.optional(),
+	})
+	.transform(({ slug, ...profile }) => ({
+		...profile,
+		slug: toOrganizationSlug(slug || profile.name),
+	}))
+	.refine((input) => input.slug.length > 0, {
+		message: "Use some letters or numbers for the address",
+		path: ["slug"],
+	});
+
+export const organizationUpdateSchema = organizationProfileSchema.extend({
+	id: organizationIdSchema,
+});
+
+/**
+ * An invitee's address, lowercased so invitations match however the
+ * address was typed or stored.
+ */
+const invitationEmailSchema = z
+	.string()
+	.trim()
+	.toLowerCase()
+	.email("Enter an email address")
+	.max(255);
+
+export const organizationInviteSchema = z.object({
+	organizationId: organizationIdSchema,
+	email: invitationEmailSchema,
+	role: z.enum(ORGANIZATION_ROLES).default("editor"),
+});
+
+export const organizationRevokeInvitationSchema = z.object({
+	organizationId: organizationIdSchema,
+	email: invitationEmailSchema,
+});
+
+export const organizationInvitationTokenSchema = z.object({
+	token: z.string().min(1).max(128),
+});
+
+export const organizationMemberSchema = z.object({
+	organizationId: organizationIdSchema,
+	userId: z.string().min(1),
+});
+
+export const organizationMemberRoleSchema = organizationMemberSchema.extend({
+	role: z.enum(ORGANIZATION_ROLES),
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { MAX_MODERATION_REASON_LENGTH } from "~/shared/schemas/moderation";
+
+/** Why someone reported an event. */
+export const REPORT_REASONS = [
+	"spam",
+	"scam",
+	"unsafe",
+	"inaccurate",
+	"other",
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+	spam: "Spam or advertising",
+	scam: "Scam or fraud",
+	unsafe: "Unsafe or harmful",
+	inaccurate: "Wrong or misleading details",
+	other: "Something else",
+};
+
+/**
+ * Where a report stands. Open reports count toward hiding an event; a
+ * moderator resolves them by dismissing them or taking the event down.
+ */
+export const REPORT_STATUSES = ["open", "resolved"] as const;
+
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+/** Longest report details, in characters. */
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export const reportCreateSchema = z.object({
+	eventId: z.string().min(1),
+	reason: z.enum(REPORT_REASONS),
+	details: z
+		.string()
+		.trim()
+		.max(MAX_REPORT_DETAILS_LENGTH)
+		.transform((details) => details || null)
+		.nullable()
+		.default(null),
+});
+
+/**
+ * A moderator's answer to an event's open reports: `dismiss` them and show
+ * the event again, or `remove` the event, which rejects it with a reason
+ * sent to the organizer.
+ */
+export const reportResolveSchema = z
+	.object({
+		eventId: z.string().min(1),
+		action: z.enum(["dismiss", "remove"]),
+		reason: z.string().trim().max(MAX_MODERATION_REASON_LENGTH).optional(),
+	})
+	.refine((input) => input.action === "dismiss" || !!input.reason, {
+		message: "Say why the event was taken down",
+		path: ["reason"],
+	});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+/**
+ * How a user plans to attend: `going` counts toward attendance, `interested`
+ * only keeps the event in their list.
+ */
+export const RSVP_STATUSES = ["going", "interested"] as const;
+
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+/**
+ * Stored RSVP states. Asking to go to a full event puts the user on its
+ * `waitlisted` list instead, in the order they asked.
+ */
+export const RSVP_STATES = [...RSVP_STATUSES, "waitlisted"] as const;
+
+export type RsvpState = (typeof RSVP_STATES)[number];
+
+/**
+ * Public RSVP tallies for an event.
+ */
+export type RsvpCounts = Record<RsvpState, number>;
+
+/**
+ * Formats RSVP counts for display, e.g. "12 going · 3 interested". The
+ * waitlist is only mentioned when someone is on it.
+ */
+export function formatRsvpCounts(counts: RsvpCounts): string {
+	const parts = [`${counts.going} going`, `${counts.interested} interested`];
+	if (counts.waitlisted > 0) {
+		parts.push(`${counts.waitlisted} on the waitlist`);
+	}
+	return parts.join(" · ");
+}
+
+/**
+ * Spots left before RSVPs go to the waitlist.
+ *
+ * @param capacity - The event's capacity, or null when unlimited
+ * @param counts - The event's RSVP counts
+ * @returns The number of open spots, or null when unlimited
+ */
+export function remainingSpots(
+	capacity: number | null,
+	counts: RsvpCounts,
+): number | null {
+	return capacity === null ? null : Math.max(0, capacity - counts.going);
+}
+
+export const rsvpSetSchema = z.object({
+	eventId: z.string().min(1),
+	status: z.enum(RSVP_STATUSES),
+});
+
+export const rsvpClearSchema = z.object({
+	eventId: z.string().min(1),
+});
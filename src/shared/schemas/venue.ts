@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+/**
+ * Turns blank optional text inputs into `null` so they are stored as NULL
+ * rather than empty strings.
+ */
+const optionalText = (max: number, message: string) =>
+	z
+		.string()
+		.trim()
+		.max(max, message)
+		.nullish()
+		.transform((s) => (s ? s : null));
+
+/**
+ * Portland's address sextants, named for the prefix on street addresses
+ * ("SE Hawthorne Blvd"). Used to filter events by part of town.
+ */
+export const PORTLAND_QUADRANTS = ["N", "NE", "NW", "S", "SE", "SW"] as const;
+
+export type PortlandQuadrant = (typeof PORTLAND_QUADRANTS)[number];
+
+export const venueSchema = z
+	.object({
+		name: z
+			.string()
+			.trim()
+			.min(1, "Venue name is required")
+			.max(120, "Venue name is too long"),
+		streetAddress: z
+			.string()
+			.trim()
+			.min(1, "Street address is required")
+			.max(255, "Street address is too long"),
+		neighborhood: optionalText(120, "Neighborhood is too long"),
+		quadrant: z
+			.enum(PORTLAND_QUADRANTS, {
+				errorMap: () => ({ message: "Pick a part of town" }),
+			})
+			.nullish()
+			.transform((q) => q ?? null),
+		latitude: z
+			.number()
+			.min(-90, "Latitude must be between -90 and 90")
+			.max(90, "Latitude must be between -90 and 90")
+			.nullish()
+			.transform((n) => n ?? null),
+		longitude: z
+			.number()
+			.min(-180, "Longitude must be between -180 and 180")
+			.max(180, "Longitude must be between -180 and 180")
+			.nullish()
+			.transform((n) => n ?? null),
+		notes: optionalText(1000, "Notes are too long"),
+		isPrivate: z.boolean().default(false),
+	})
+	.refine((v) => (v.latitude === null) === (v.longitude === null), {
+		message: "Provide both latitude and longitude, or neither",
+		path: ["longitude"],
+	});
+
+export type VenueInput = z.input<typeof venueSchema>;
+
+export const venueSearchSchema = z.object({
+	query: z.string().trim().min(1).max(100),
+	limit: z.number().int().min(1).max(20).default(8),
+});
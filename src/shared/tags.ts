@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/** Most tags a single event may carry. */
+export const MAX_EVENT_TAGS = 10;
+
+/** Longest tag kept, after normalization. */
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Normalizes a tag to its slug: lowercase words joined by hyphens, with
+ * anything but letters and digits removed (e.g. "Zine Swap!" becomes
+ * "zine-swap"). Slugs identify tags in URLs, filters and the database.
+ *
+ * @param tag - A tag as typed by a user
+ * @returns The slug, empty if nothing usable remains
+ */
+export const normalizeTag = (tag: string) =>
+	tag
+		.normalize("NFKD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, MAX_TAG_LENGTH)
+		.replace(/-+$/, "");
+
+/**
+ * Cleans up a tag's display name: trims it and collapses inner whitespace.
+ *
+ * @param name - A tag as typed by a user
+ * @returns e.g. "Zine  Swap " becomes "Zine Swap"
+ */
+export const cleanTagName = (name: string) =>
+	name.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Splits a comma-separated tag list into slugs, de-duplicated.
+ *
+ * @param value - e.g. "punk, All Ages, punk"
+ * @returns e.g. ["punk", "all-ages"]
+ */
+export const parseTagList = (value: string) => [
+	...new Set(value.split(",").map(normalizeTag).filter(Boolean)),
+];
+
+/**
+ * A list of tag slugs, as used by filters. Values are normalized and
+ * de-duplicated.
+ */
+export const tagSlugListSchema = z
+	.array(z.string())
+	.transform((tags) => [...new Set(tags.map(normalizeTag).filter(Boolean))])
+	.pipe(z.array(z.string()).max(MAX_EVENT_TAGS, "Too many tags"));
+
+/**
+ * A list of tag names as entered on an event. Names are cleaned up, and
+ * names sharing a slug are collapsed to the first one.
+ */
+export const tagNameListSchema = z
+	.array(z.string())
+	.transform((names) => {
+		const bySlug = new Map<string, string>();
+		for (const name of names.map(cleanTagName)) {
+			const slug = normalizeTag(name);
+			if (slug && !bySlug.has(slug)) bySlug.set(slug, name);
+		}
+		return [...bySlug.values()];
+	})
+	.pipe(z.array(z.string()).max(MAX_EVENT_TAGS, "Too many tags"));
+
+/**
+ * Input for looking up tags in the tag selector.
+ */
+export const tagSearchSchema = z.object({
+	query: z.string().trim().min(1).max(MAX_TAG_LENGTH),
+	limit: z.number().int().min(1).max(20).default(8),
+});
+
+/**
+ * Input for curating a tag, or taking it back to a suggestion.
+ */
+export const tagCurateSchema = z.object({
+	slug: z.string().min(1),
+	isCurated: z.boolean(),
+});
@@ -0,0 +1,280 @@
+/**
+ * Time zone helpers for event scheduling.
+ *
+ * Every PDX DIY event happens in Portland, so start and end times are always
+ * entered and displayed in America/Los_Angeles, independent of the server or
+ * browser locale. Instants are stored as UTC `timestamptz` values.
+ */
+
+/**
+ * The IANA time zone all events are scheduled and rendered in.
+ */
+export const EVENT_TIME_ZONE = "America/Los_Angeles";
+
+/**
+ * Formatter used to read the wall-clock components of an instant in Portland.
+ * `hourCycle: "h23"` avoids the "24" midnight quirk of `hour12: false`.
+ */
+const partsFormatter = new Intl.DateTimeFormat("en-US", {
+	timeZone: EVENT_TIME_ZONE,
+	year: "numeric",
+	month: "2-digit",
+	day: "2-digit",
+	hour: "2-digit",
+	minute: "2-digit",
+	second: "2-digit",
+	hourCycle: "h23",
+});
+
+const dateTimeFormatter = new Intl.DateTimeFormat("en-US", {
+	timeZone: EVENT_TIME_ZONE,
+	weekday: "short",
+	month: "short",
+	day: "numeric",
+	year: "numeric",
+	hour: "numeric",
+	minute: "2-digit",
+	timeZoneName: "short",
+});
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+	timeZone: EVENT_TIME_ZONE,
+	weekday: "short",
+	month: "short",
+	day: "numeric",
+	year: "numeric",
+});
+
+const timeFormatter = new Intl.DateTimeFormat("en-US", {
+	timeZone: EVENT_TIME_ZONE,
+	hour: "numeric",
+	minute: "2-digit",
+	timeZoneName: "short",
+});
+
+/**
+ * Wall-clock components of an instant as seen in Portland.
+ */
+export type ZonedParts = {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+};
+
+/**
+ * Splits an instant into its Portland wall-clock components.
+ *
+ * @param date - The instant to convert
+ * @returns Year, month (1-12), day, hour, minute and second in Portland
+ */
+export function getZonedParts(date: Date): ZonedParts {
+	const parts: Record<string, number> = {};
+	for (const part of partsFormatter.formatToParts(date)) {
+		if (part.type !== "literal") {
+			parts[part.type] = Number(part.value);
+		}
+	}
+
+	return {
+		year: parts.year ?? 0,
+		month: parts.month ?? 0,
+		day: parts.day ?? 0,
+		hour: parts.hour ?? 0,
+		minute: parts.minute ?? 0,
+		second: parts.second ?? 0,
+	};
+}
+
+/**
+ * Returns Portland's offset from UTC, in milliseconds, at the given instant.
+ * Negative values mean Portland is behind UTC (-7h in PDT, -8h in PST).
+ */
+function getZoneOffsetMs(date: Date): number {
+	const p = getZonedParts(date);
+	const asUtc = Date.UTC(
+		p.year,
+		p.month - 1,
+		p.day,
+		p.hour,
+		p.minute,
+		p.second,
+	);
+	return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts Portland wall-clock components into the matching UTC instant.
+ *
+ * Wall times skipped by the spring-forward transition resolve to the instant
+ * an hour later; ambiguous fall-back times resolve to the earlier instant.
+ *
+ * @param parts - Portland wall-clock components (seconds default to 0)
+ * @returns The corresponding instant
+ */
+export function zonedPartsToDate(
+	parts: Omit<ZonedParts, "second"> & { second?: number },
+): Date {
+	const wallAsUtc = Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+		parts.second ?? 0,
+	);
+
+	// The offset at the guessed instant can differ from the offset at the real
+	// instant near a DST transition, so retry once with the second reading.
+	const firstOffset = getZoneOffsetMs(new Date(wallAsUtc));
+	const firstGuess = new Date(wallAsUtc - firstOffset);
+	const secondOffset = getZoneOffsetMs(firstGuess);
+	if (secondOffset === firstOffset) {
+		return firstGuess;
+	}
+
+	const secondGuess = new Date(wallAsUtc - secondOffset);
+	const p = getZonedParts(secondGuess);
+	const matchesWallTime =
+		p.day === parts.day && p.hour === parts.hour && p.minute === parts.minute;
+
+	// A wall time skipped by spring-forward matches neither guess; the first
+	// one (using the pre-transition offset) lands an hour later.
+	return matchesWallTime ? secondGuess : firstGuess;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Formats an instant as the value of an `<input type="datetime-local">`,
+ * expressed in Portland time.
+ *
+ * @param date - The instant to format
+ * @returns A `YYYY-MM-DDTHH:mm` string
+ */
+export function toZonedInputValue(date: Date): string {
+	const p = getZonedParts(date);
+	return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Formats an instant as the value of an `<input type="date">`, i.e. its
+ * Portland calendar date.
+ *
+ * @param date - The instant to format
+ * @returns A `YYYY-MM-DD` string
+ */
+export function toZonedDateValue(date: Date): string {
+	const p = getZonedParts(date);
+	return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Parses the value of an `<input type="datetime-local">` as Portland time.
+ *
+ * @param value - A `YYYY-MM-DDTHH:mm` string (seconds are optional)
+ * @returns The corresponding instant, or null if the value is empty or malformed
+ *
+ * @example
+ * ```typescript
+ * fromZonedInputValue("2025-07-04T20:00"); // 2025-07-05T03:00:00.000Z
+ * ```
+ */
+export function fromZonedInputValue(value: string): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(
+		value.trim(),
+	);
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hour, minute, second] = match.map(Number);
+	return zonedPartsToDate({
+		year: year ?? 0,
+		month: month ?? 0,
+		day: day ?? 0,
+		hour: hour ?? 0,
+		minute: minute ?? 0,
+		second: Number.isNaN(second) ? 0 : second,
+	});
+}
+
+/**
+ * Returns the instant a Portland calendar day begins, for the value of an
+ * `<input type="date">`.
+ *
+ * @param value - A `YYYY-MM-DD` string
+ * @param dayOffset - Days to move from `value` first; pass 1 for the
+ *   exclusive end of the day
+ * @returns The instant of local midnight, or null if the value is malformed
+ *
+ * @example
+ * ```typescript
+ * fromZonedDateValue("2025-07-04"); // 2025-07-04T07:00:00.000Z
+ * fromZonedDateValue("2025-07-04", 1); // 2025-07-05T07:00:00.000Z
+ * ```
+ */
+export function fromZonedDateValue(value: string, dayOffset = 0): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+	if (!match) {
+		return null;
+	}
+
+	const [, year = 0, month = 0, day = 0] = match.map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+		return null;
+	}
+
+	date.setUTCDate(date.getUTCDate() + dayOffset);
+	return zonedPartsToDate({
+		year: date.getUTCFullYear(),
+		month: date.getUTCMonth() + 1,
+		day: date.getUTCDate(),
+		hour: 0,
+		minute: 0,
+	});
+}
+
+/**
+ * Formats an instant as a full Portland date and time,
+ * e.g. "Fri, Jul 4, 2025, 8:00 PM PDT".
+ */
+export function formatEventDateTime(date: Date): string {
+	return dateTimeFormatter.format(date);
+}
+
+/**
+ * Formats an instant as a Portland calendar date, e.g. "Fri, Jul 4, 2025".
+ */
+export function formatEventDate(date: Date): string {
+	return dateFormatter.format(date);
+}
+
+/**
+ * Formats an event's time span in Portland time.
+ *
+ * Same-day events only repeat the time for the end, so a show reads
+ * "Fri, Jul 4, 2025, 8:00 PM PDT – 11:00 PM PDT".
+ *
+ * @param startsAt - When the event starts
+ * @param endsAt - When the event ends, if known
+ * @returns A human-readable range
+ */
+export function formatEventTimeRange(
+	startsAt: Date,
+	endsAt?: Date | null,
+): string {
+	const start = formatEventDateTime(startsAt);
+	if (!endsAt) {
+		return start;
+	}
+
+	const sameDay =
+		formatEventDate(startsAt) === formatEventDate(endsAt) &&
+		endsAt.getTime() - startsAt.getTime() < 24 * 60 * 60 * 1000;
+
+	return `${start} – ${sameDay ? timeFormatter.format(endsAt) : formatEventDateTime(endsAt)}`;
+}
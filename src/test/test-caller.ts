@@ -0,0 +1,22 @@
+/**
+ * @fileoverview tRPC callers for router tests, signed in as a given user or
+ * signed out. Pair with `~/test/test-db`.
+ */
+
+import { createCaller } from "~/server/api/root";
+import { db } from "~/server/db";
+import type { UserRole } from "~/shared/roles";
+import { testSession } from "~/test/test-db";
+
+/**
+ * Creates a caller acting as `userId`, or as a signed-out visitor when
+ * it's omitted.
+ */
+export function createTestCaller(userId?: string, role?: UserRole) {
+	return createCaller({
+		db,
+		session: userId ? testSession(userId, role) : null,
+		requestId: "test-request",
+		headers: new Headers(),
+	});
+}
@@ -32,6 +32,11 @@ test("create event - happy path", async ({ page, browserName }) => {
 	const eventTitle = `Test Event Title - ${browserName}`;
 	await page.fill('input[name="title"]', eventTitle);
 
+	// Schedule the event for tomorrow evening (Portland time)
+	const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+	const startsAt = `${tomorrow.toISOString().slice(0, 10)}T20:00`;
+	await page.fill('input[name="startsAt"]', startsAt);
+
 	// Submit the form
 	await page.click('button[type="submit"]');
 
@@ -64,7 +64,10 @@ export default defineConfig({
 				extends: true,
 				test: {
 					name: "server",
-					include: ["src/server/**/*.test.{ts,tsx}"],
+					include: [
+						"src/server/**/*.test.{ts,tsx}",
+						"src/shared/**/*.test.{ts,tsx}",
+					],
 					environment: "node",
 				},
 			},